@@ -0,0 +1,3 @@
+export class IllegalStateException extends Error {
+
+}
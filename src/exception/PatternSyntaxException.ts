@@ -0,0 +1,28 @@
+import {IllegalArgumentException} from "./IllegalArgumentException";
+
+/* PatternSyntaxException is thrown to indicate a syntax error in a regular expression or glob pattern. */
+export class PatternSyntaxException extends IllegalArgumentException {
+    private readonly description: string;
+    private readonly pattern: string;
+    private readonly index: number;
+
+    constructor(description: string, pattern: string, index: number = -1) {
+        super(description + (index >= 0 ? " near index " + index : "") + "\n" + pattern);
+        this.description = description;
+        this.pattern = pattern;
+        this.index = index;
+    }
+
+    public getDescription(): string {
+        return this.description;
+    }
+
+    public getPattern(): string {
+        return this.pattern;
+    }
+
+    /* Returns the index of the error in the pattern, or -1 if the index is not known. */
+    public getIndex(): number {
+        return this.index;
+    }
+}
@@ -0,0 +1,7 @@
+/* Thrown when a service, such as a file system provider, is wrongly declared or cannot be loaded. */
+export class ServiceConfigurationError extends Error {
+
+    constructor(message?: string) {
+        super(message);
+    }
+}
@@ -1,5 +1,8 @@
 export * from "./NullPointerException";
 export * from "./IllegalArgumentException";
+export * from "./PatternSyntaxException";
+export * from "./IllegalStateException";
 export * from "./SecurityException";
 export * from "./UnsupportedOperationException";
 export * from "./IOException";
+export * from "./ServiceConfigurationError";
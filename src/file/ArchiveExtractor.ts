@@ -0,0 +1,631 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+import * as zlib from "zlib";
+import {pipeline, Readable} from "stream";
+import {Path} from "./Path";
+import {Files} from "./Files";
+import {LinkOption} from "./LinkOption";
+import {StandardOpenOption} from "./StandardOpenOption";
+import {FileTime} from "./attribute";
+import {
+    ArchiveLimitExceededException,
+    FileAlreadyExistsException,
+    FileSystemException,
+    NotDirectoryException,
+    UnsafeArchiveEntryException,
+} from "./exception";
+import {toPosixFilePermissions} from "./spi/UnixFileModes";
+import {isGzip} from "./fs/tar/TarFileSystem";
+import {
+    BLOCK_SIZE,
+    isZeroBlock,
+    TarHeaderDecoder,
+    TarRecord,
+    TYPE_DIRECTORY,
+    TYPE_FILE,
+    TYPE_HARD_LINK,
+    TYPE_SYMBOLIC_LINK,
+} from "./fs/tar/TarFormat";
+import {crc32, isZipSignature, readCentralDirectory, readEntryData, ZipEntryRecord} from "./fs/zip/ZipFormat";
+import {METHOD_DEFLATED, METHOD_STORED, S_IFDIR, S_IFREG} from "./fs/zip/ZipEntry";
+
+/* The options of {@link Files#extract}. */
+export interface ArchiveExtractOptions {
+    // the maximum number of entries of the archive, 10000 by default
+    maxEntries?: number;
+    // the maximum size of an extracted file, the maximum total size by default
+    maxEntrySize?: number;
+    // the maximum size of all the extracted files, 1 GiB by default
+    maxTotalSize?: number;
+    // the maximum size of a zip archive read from a stream, copied to a temporary file; the maximum total size by default
+    maxArchiveSize?: number;
+    // extracts the symbolic links, whose targets must be in the target directory; true by default
+    allowSymbolicLinks?: boolean;
+    // replaces the existing files rather than failing with a FileAlreadyExistsException
+    replaceExisting?: boolean;
+    // sets the permissions of the entries when the target supports the "posix" view, without the setuid, setgid and sticky bits; true by default
+    preservePermissions?: boolean;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_MAX_TOTAL_SIZE = 1024 * 1024 * 1024;
+
+// the limits of the content read in memory: the extended headers and the targets of the links
+const MAX_EXTENDED_HEADER_SIZE = 1024 * 1024;
+const MAX_LINK_TARGET_SIZE = 4096;
+
+const CHUNK_SIZE = 64 * 1024;
+
+// the unix file types of the zip entries, see S_IFDIR and S_IFREG
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+enum ArchiveEntryType {
+    FILE,
+    DIRECTORY,
+    SYMBOLIC_LINK,
+    HARD_LINK,
+    OTHER,
+}
+
+/* An entry of a tar or zip archive. */
+interface ArchiveEntry {
+    name: string;
+    type: ArchiveEntryType;
+    // the size of the content, as declared by the archive
+    size: number;
+    // the permission bits, null when the archive has none
+    mode: number | null;
+    lastModifiedTime: number;
+    // the target of a link
+    linkName: string;
+}
+
+/* A symbolic link, created once all the files are extracted. */
+interface PendingLink {
+    name: string;
+    path: Path;
+    target: string;
+}
+
+/* A directory whose attributes are set once its entries are extracted. */
+interface PendingDirectory {
+    path: Path;
+    entry: ArchiveEntry;
+}
+
+/* Reads the bytes of a stream as they are asked for. */
+class ByteReader {
+    private readonly chunks: AsyncIterator<Uint8Array>;
+    private buffer: Uint8Array = new Uint8Array(0);
+    private done: boolean = false;
+    // the number of bytes read
+    public position: number = 0;
+
+    public constructor(chunks: AsyncIterable<Uint8Array>) {
+        this.chunks = chunks[Symbol.asyncIterator]();
+    }
+
+    private async fill(length: number): Promise<void> {
+        while (this.buffer.length < length && !this.done) {
+            const result = await this.chunks.next();
+            if (result.done) {
+                this.done = true;
+            } else if (this.buffer.length === 0) {
+                this.buffer = result.value;
+            } else {
+                this.buffer = Buffer.concat([this.buffer, result.value]);
+            }
+        }
+    }
+
+    private take(length: number): Uint8Array {
+        const bytes = this.buffer.subarray(0, Math.min(length, this.buffer.length));
+        this.buffer = this.buffer.subarray(bytes.length);
+        this.position += bytes.length;
+        return bytes;
+    }
+
+    /* Returns the next bytes without reading them, fewer at the end of the stream. */
+    public async peek(length: number): Promise<Uint8Array> {
+        await this.fill(length);
+        return this.buffer.subarray(0, Math.min(length, this.buffer.length));
+    }
+
+    /* Reads at least one byte and at most length bytes, none at the end of the stream. */
+    public async read(length: number): Promise<Uint8Array> {
+        await this.fill(1);
+        return this.take(length);
+    }
+
+    /* Reads length bytes, fewer at the end of the stream. */
+    public async readFully(length: number): Promise<Uint8Array> {
+        await this.fill(length);
+        return this.take(length);
+    }
+
+    public async skip(length: number): Promise<void> {
+        while (length > 0) {
+            const bytes = await this.read(Math.min(length, CHUNK_SIZE));
+            if (bytes.length === 0) {
+                return;
+            }
+            length -= bytes.length;
+        }
+    }
+
+    /* Returns the bytes not read yet, the stream is then read by the caller. */
+    public async* remaining(): AsyncGenerator<Uint8Array> {
+        if (this.buffer.length > 0) {
+            yield this.take(this.buffer.length);
+        }
+        for (let result = await this.chunks.next(); !result.done; result = await this.chunks.next()) {
+            yield result.value;
+        }
+    }
+
+    public async close(): Promise<void> {
+        await this.chunks.return?.();
+    }
+}
+
+async function* readChunks(stream: ReadableStream): AsyncGenerator<Uint8Array> {
+    const reader = stream.getReader();
+    try {
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            yield result.value;
+        }
+    } finally {
+        await reader.cancel();
+    }
+}
+
+/* Decompresses a gzip stream, the errors of the compressed data are reported as FileSystemException. */
+async function* gunzip(chunks: AsyncIterable<Uint8Array>, file: string | undefined): AsyncGenerator<Uint8Array> {
+    const stream = pipeline(Readable.from(chunks), zlib.createGunzip(), () => {
+        // the errors are thrown by the iteration
+    });
+    try {
+        for await (const chunk of stream) {
+            yield chunk;
+        }
+    } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (typeof code === "string" && code.startsWith("Z_"))
+            throw new FileSystemException(file, undefined, "Invalid gzip data: " + (e as Error).message);
+        throw e;
+    } finally {
+        stream.destroy();
+    }
+}
+
+/* Reads the content of a tar entry, which follows its header. */
+async function* readTarContent(reader: ByteReader, size: number, file: string | undefined): AsyncGenerator<Uint8Array> {
+    for (let remaining = size; remaining > 0;) {
+        const chunk = await reader.read(Math.min(remaining, CHUNK_SIZE));
+        if (chunk.length === 0)
+            throw new FileSystemException(file, undefined, "Unexpected end of archive");
+        remaining -= chunk.length;
+        yield chunk;
+    }
+}
+
+/* Decompresses the content of a zip entry, checking its size and CRC. */
+async function* readZipContent(data: Uint8Array, record: ZipEntryRecord): AsyncGenerator<Uint8Array> {
+    let chunks: AsyncIterable<Uint8Array> | Iterable<Uint8Array>;
+    let inflater: zlib.InflateRaw | null = null;
+    switch (record.method) {
+        case METHOD_STORED:
+            chunks = [data];
+            break;
+        case METHOD_DEFLATED:
+            inflater = zlib.createInflateRaw();
+            inflater.end(data);
+            chunks = inflater;
+            break;
+        default:
+            throw new FileSystemException(record.name, undefined, "Unsupported compression method " + record.method);
+    }
+    let size = 0;
+    let crc = 0;
+    try {
+        for await (const chunk of chunks) {
+            size += chunk.length;
+            crc = crc32(chunk, crc);
+            yield chunk;
+        }
+    } catch (e) {
+        if (e instanceof FileSystemException)
+            throw e;
+        throw new FileSystemException(record.name, undefined, "Invalid compressed data: " + (e as Error).message);
+    } finally {
+        inflater?.destroy();
+    }
+    if (size !== record.size || crc !== record.crc)
+        throw new FileSystemException(record.name, undefined, "Invalid entry CRC or size");
+}
+
+/* Reads the target of a link stored as the content of an entry. */
+async function readLinkTarget(name: string, content: AsyncIterable<Uint8Array>): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of content) {
+        size += chunk.length;
+        if (size > MAX_LINK_TARGET_SIZE)
+            throw new ArchiveLimitExceededException(name, undefined, "Symbolic link target too long");
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString("utf8");
+}
+
+function toTarEntry(record: TarRecord): ArchiveEntry {
+    let type: ArchiveEntryType;
+    switch (record.type) {
+        case TYPE_FILE:
+            type = ArchiveEntryType.FILE;
+            break;
+        case TYPE_DIRECTORY:
+            type = ArchiveEntryType.DIRECTORY;
+            break;
+        case TYPE_SYMBOLIC_LINK:
+            type = ArchiveEntryType.SYMBOLIC_LINK;
+            break;
+        case TYPE_HARD_LINK:
+            type = ArchiveEntryType.HARD_LINK;
+            break;
+        default:
+            type = ArchiveEntryType.OTHER;
+            break;
+    }
+    return {
+        name: record.name,
+        type: type,
+        size: record.size,
+        mode: record.mode,
+        lastModifiedTime: record.lastModifiedTime,
+        linkName: record.linkName,
+    };
+}
+
+function toZipEntry(record: ZipEntryRecord): ArchiveEntry {
+    // the unix mode of the entries made on unix
+    const mode = (record.versionMadeBy >> 8) === 3 ? record.externalAttributes >>> 16 : 0;
+    let type: ArchiveEntryType;
+    switch (mode & S_IFMT) {
+        case 0:
+        case S_IFREG:
+            type = record.name.endsWith("/") ? ArchiveEntryType.DIRECTORY : ArchiveEntryType.FILE;
+            break;
+        case S_IFDIR:
+            type = ArchiveEntryType.DIRECTORY;
+            break;
+        case S_IFLNK:
+            type = ArchiveEntryType.SYMBOLIC_LINK;
+            break;
+        default:
+            type = ArchiveEntryType.OTHER;
+            break;
+    }
+    return {
+        name: record.name,
+        type: type,
+        size: record.size,
+        mode: mode !== 0 ? mode & 0o7777 : null,
+        lastModifiedTime: record.lastModifiedTime,
+        linkName: "",
+    };
+}
+
+/* Writes the entries of an archive to a target directory, rejecting the entries that are unsafe or over the limits. */
+class ArchiveExtractor {
+    private readonly target: Path;
+    private readonly maxEntries: number;
+    private readonly maxEntrySize: number;
+    private readonly maxTotalSize: number;
+    private readonly maxArchiveSize: number;
+    private readonly options: ArchiveExtractOptions;
+    private readonly links: PendingLink[] = [];
+    private readonly directories: PendingDirectory[] = [];
+    // the regular files extracted, the targets of the hard links
+    private readonly files = new Set<string>();
+    private count: number = 0;
+    private total: number = 0;
+
+    public constructor(target: Path, options: ArchiveExtractOptions) {
+        this.target = target.toAbsolutePath().normalize();
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+        this.maxEntrySize = options.maxEntrySize ?? this.maxTotalSize;
+        this.maxArchiveSize = options.maxArchiveSize ?? this.maxTotalSize;
+        this.options = options;
+    }
+
+    public checkCount(count: number): void {
+        if (count > this.maxEntries)
+            throw new ArchiveLimitExceededException(undefined, undefined, "More than " + this.maxEntries + " entries");
+    }
+
+    public checkArchiveSize(file: string | undefined, size: number): void {
+        if (size > this.maxArchiveSize)
+            throw new ArchiveLimitExceededException(file, undefined, "Archive larger than " + this.maxArchiveSize + " bytes");
+    }
+
+    private checkSize(name: string, size: number, total: number): void {
+        if (size > this.maxEntrySize)
+            throw new ArchiveLimitExceededException(name, undefined, "Entry larger than " + this.maxEntrySize + " bytes");
+        if (total > this.maxTotalSize)
+            throw new ArchiveLimitExceededException(name, undefined, "Content larger than " + this.maxTotalSize + " bytes");
+    }
+
+    /* Returns the path of an entry in the target directory, null for the target directory itself. */
+    private toPath(name: string): Path | null {
+        const fileSystem = this.target.getFileSystem();
+        const separator = fileSystem.getSeparator();
+        if (name.includes("\0"))
+            throw new UnsafeArchiveEntryException(name, undefined, "Entry name with a NUL character");
+        if (name.startsWith("/") || name.startsWith(separator) || /^[A-Za-z]:/.test(name))
+            throw new UnsafeArchiveEntryException(name, undefined, "Absolute entry name");
+        const names = name.split("/")
+            .flatMap(name => name.split(separator))
+            .filter(name => name.length > 0 && name !== ".");
+        if (names.includes(".."))
+            throw new UnsafeArchiveEntryException(name, undefined, "Entry name with '..'");
+        if (names.length === 0) {
+            return null;
+        }
+        const path = this.target.resolve(fileSystem.getPath(names[0], names.slice(1)));
+        if (!path.normalize().startsWith(this.target))
+            throw new UnsafeArchiveEntryException(name, undefined, "Entry outside of the target directory");
+        return path;
+    }
+
+    /* Creates the missing directories of an entry, none of them may be a symbolic link. */
+    private createParents(name: string, path: Path): void {
+        const relative = this.target.relativize(path);
+        let dir = this.target;
+        for (let i = 0; i < relative.getNameCount() - 1; i++) {
+            dir = dir.resolve(relative.getName(i));
+            const parent = dir;
+            if (Files.isSymbolicLink(parent) || this.links.some(link => link.path.equals(parent)))
+                throw new UnsafeArchiveEntryException(name, parent.toString(), "Entry path through a symbolic link");
+            if (!Files.exists(dir, [LinkOption.NOFOLLOW_LINKS])) {
+                Files.createDirectory(dir);
+            } else if (!Files.isDirectory(dir, [LinkOption.NOFOLLOW_LINKS])) {
+                throw new NotDirectoryException(dir.toString());
+            }
+        }
+    }
+
+    /* Deletes the file that an entry replaces, the directories are kept. */
+    private replace(path: Path): void {
+        if (!Files.exists(path, [LinkOption.NOFOLLOW_LINKS]) || Files.isDirectory(path, [LinkOption.NOFOLLOW_LINKS])) {
+            return;
+        }
+        if (!this.options.replaceExisting)
+            throw new FileAlreadyExistsException(path.toString());
+        Files.delete(path);
+        this.files.delete(path.toString());
+    }
+
+    private setAttributes(path: Path, entry: ArchiveEntry): void {
+        Files.setLastModifiedTime(path, FileTime.fromMillis(entry.lastModifiedTime));
+        if (entry.mode !== null && this.options.preservePermissions !== false && path.getFileSystem().supportedFileAttributeViews().has("posix")) {
+            Files.setPosixFilePermissions(path, toPosixFilePermissions(entry.mode & 0o777));
+        }
+    }
+
+    /*
+     * Checks that the target of a symbolic link, resolved from the directory of the link, stays in the target
+     * directory without going through another symbolic link, whose target could be anywhere.
+     */
+    private checkLink(link: PendingLink): void {
+        const fileSystem = this.target.getFileSystem();
+        if (link.target.length === 0 || link.target.startsWith("/") || link.target.startsWith(fileSystem.getSeparator()) || /^[A-Za-z]:/.test(link.target))
+            throw new UnsafeArchiveEntryException(link.name, link.target, "Symbolic link outside of the target directory");
+        const names = link.target.split("/")
+            .flatMap(name => name.split(fileSystem.getSeparator()))
+            .filter(name => name.length > 0 && name !== ".");
+        let path: Path | null = link.path.getParent();
+        for (let i = 0; i < names.length; i++) {
+            path = names[i] === ".." ? path?.getParent() ?? null : path?.resolve(fileSystem.getPath(names[i])) ?? null;
+            if (path === null || !path.startsWith(this.target))
+                throw new UnsafeArchiveEntryException(link.name, link.target, "Symbolic link outside of the target directory");
+            const dir = path;
+            if (i < names.length - 1 && (Files.isSymbolicLink(dir) || this.links.some(other => other.path.equals(dir))))
+                throw new UnsafeArchiveEntryException(link.name, link.target, "Symbolic link through another symbolic link");
+        }
+    }
+
+    /**
+     * Extracts an entry.
+     * @param {ArchiveEntry} entry - the entry
+     * @param {AsyncIterable<Uint8Array>} content - the content of the entry, read once
+     */
+    public async extract(entry: ArchiveEntry, content: AsyncIterable<Uint8Array>): Promise<void> {
+        this.checkCount(++this.count);
+        const path = this.toPath(entry.name);
+        if (path === null) {
+            if (entry.type === ArchiveEntryType.DIRECTORY) {
+                // the "./" entry of the target directory, whose attributes are kept
+                return;
+            }
+            throw new UnsafeArchiveEntryException(entry.name, undefined, "Entry without a name");
+        }
+        switch (entry.type) {
+            case ArchiveEntryType.DIRECTORY:
+                this.createParents(entry.name, path);
+                this.replace(path);
+                if (!Files.exists(path, [LinkOption.NOFOLLOW_LINKS])) {
+                    Files.createDirectory(path);
+                }
+                this.directories.push({path: path, entry: entry});
+                break;
+            case ArchiveEntryType.FILE:
+                this.checkSize(entry.name, entry.size, this.total + entry.size);
+                this.createParents(entry.name, path);
+                this.replace(path);
+                await this.writeContent(entry, path, content);
+                this.setAttributes(path, entry);
+                this.files.add(path.toString());
+                break;
+            case ArchiveEntryType.HARD_LINK: {
+                const source = this.toPath(entry.linkName);
+                if (source === null || !this.files.has(source.toString()))
+                    throw new UnsafeArchiveEntryException(entry.name, entry.linkName, "Hard link to a file not extracted");
+                // the hard links are copies, whose content counts towards the limits
+                const size = Number(Files.size(source));
+                this.total += size;
+                this.checkSize(entry.name, size, this.total);
+                this.createParents(entry.name, path);
+                this.replace(path);
+                await Files.copy(source, path);
+                this.setAttributes(path, entry);
+                this.files.add(path.toString());
+                break;
+            }
+            case ArchiveEntryType.SYMBOLIC_LINK: {
+                if (this.options.allowSymbolicLinks === false)
+                    throw new UnsafeArchiveEntryException(entry.name, undefined, "Symbolic links are not allowed");
+                const target = entry.linkName.length > 0 ? entry.linkName : await readLinkTarget(entry.name, content);
+                const link = {name: entry.name, path: path, target: target};
+                this.checkLink(link);
+                this.createParents(entry.name, path);
+                this.links.push(link);
+                break;
+            }
+            default:
+                throw new UnsafeArchiveEntryException(entry.name, undefined, "Device files, FIFOs and sockets are not extracted");
+        }
+    }
+
+    private async writeContent(entry: ArchiveEntry, path: Path, content: AsyncIterable<Uint8Array>): Promise<void> {
+        const writer = Files.newOutputStream(path, [StandardOpenOption.CREATE_NEW, StandardOpenOption.WRITE]).getWriter();
+        try {
+            let size = 0;
+            for await (const chunk of content) {
+                size += chunk.length;
+                this.total += chunk.length;
+                this.checkSize(entry.name, size, this.total);
+                await writer.write(chunk);
+            }
+            await writer.close();
+        } catch (e) {
+            try {
+                await writer.abort(e);
+            } catch (ignore) {
+                // the stream may already be errored
+            }
+            // the partial file is not left in the target
+            Files.deleteIfExists(path);
+            throw e;
+        }
+    }
+
+    /* Creates the symbolic links and sets the attributes of the directories, the deepest first. */
+    public finish(): void {
+        for (const link of this.links) {
+            this.checkLink(link);
+            this.createParents(link.name, link.path);
+            this.replace(link.path);
+            Files.createSymbolicLink(link.path, this.target.getFileSystem().getPath(link.target));
+        }
+        this.directories.sort((dir1, dir2) => dir2.path.getNameCount() - dir1.path.getNameCount());
+        for (const dir of this.directories) {
+            if (Files.isDirectory(dir.path, [LinkOption.NOFOLLOW_LINKS])) {
+                this.setAttributes(dir.path, dir.entry);
+            }
+        }
+    }
+}
+
+async function extractTar(reader: ByteReader, extractor: ArchiveExtractor, file: string | undefined): Promise<void> {
+    const decoder = new TarHeaderDecoder(file);
+    for (;;) {
+        const header = await reader.readFully(BLOCK_SIZE);
+        // the archive ends with two blocks of zeros, or without them
+        if (header.length === 0 || isZeroBlock(header)) {
+            break;
+        }
+        const block = decoder.decode(header, reader.position);
+        const end = reader.position + Math.ceil(block.size / BLOCK_SIZE) * BLOCK_SIZE;
+        if (block.record === null) {
+            if (block.size > MAX_EXTENDED_HEADER_SIZE)
+                throw new ArchiveLimitExceededException(file, undefined, "Extended header larger than " + MAX_EXTENDED_HEADER_SIZE + " bytes");
+            const content = await reader.readFully(block.size);
+            if (content.length < block.size)
+                throw new FileSystemException(file, undefined, "Unexpected end of archive");
+            decoder.extend(block.type, content);
+        } else {
+            await extractor.extract(toTarEntry(block.record), readTarContent(reader, block.record.size, file));
+        }
+        await reader.skip(end - reader.position);
+    }
+}
+
+async function extractZip(fd: number, extractor: ArchiveExtractor, file: string | undefined): Promise<void> {
+    const records = readCentralDirectory(fd, file ?? "", fs.fstatSync(fd).size, "utf-8");
+    extractor.checkCount(records.length);
+    for (const record of records) {
+        const data = readEntryData(fd, file ?? "", record.offset, record.compressedSize, record.flags);
+        await extractor.extract(toZipEntry(record), readZipContent(data, record));
+    }
+}
+
+/* Writes a stream to a temporary file, for the archives that are read from the end such as zip. */
+async function extractZipStream(reader: ByteReader, extractor: ArchiveExtractor, file: string | undefined): Promise<void> {
+    const dir = fs.mkdtempSync(jsPath.join(os.tmpdir(), "extract-"));
+    try {
+        const fd = fs.openSync(jsPath.join(dir, "archive.zip"), "w+");
+        try {
+            let size = 0;
+            for (let chunk = await reader.read(CHUNK_SIZE); chunk.length > 0; chunk = await reader.read(CHUNK_SIZE)) {
+                size += chunk.length;
+                // checked before the temporary file grows
+                extractor.checkArchiveSize(file, size);
+                fs.writeSync(fd, chunk);
+            }
+            await extractZip(fd, extractor, file);
+        } finally {
+            fs.closeSync(fd);
+        }
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+}
+
+/**
+ * Extracts a tar, tar.gz or zip archive to a directory, see {@link Files#extract}.
+ */
+export async function extractArchive(source: Path | ReadableStream, targetDir: Path, options: ArchiveExtractOptions): Promise<void> {
+    if (!Files.isDirectory(targetDir))
+        throw new NotDirectoryException(targetDir.toString());
+    const file = source instanceof Path ? source.toString() : undefined;
+    const extractor = new ArchiveExtractor(targetDir, options);
+    const reader = new ByteReader(readChunks(source instanceof Path ? Files.newInputStream(source) : source));
+    let tarReader: ByteReader | null = null;
+    try {
+        const signature = await reader.peek(4);
+        if (isZipSignature(signature)) {
+            if (source instanceof Path && source.getFileSystem().provider().getScheme() === "file") {
+                // a local archive is read in place
+                await reader.close();
+                const fd = fs.openSync(source.toString(), "r");
+                try {
+                    await extractZip(fd, extractor, file);
+                } finally {
+                    fs.closeSync(fd);
+                }
+            } else {
+                await extractZipStream(reader, extractor, file);
+            }
+        } else {
+            tarReader = isGzip(signature) ? new ByteReader(gunzip(reader.remaining(), file)) : reader;
+            await extractTar(tarReader, extractor, file);
+        }
+        extractor.finish();
+    } finally {
+        await tarReader?.close();
+        await reader.close();
+    }
+}
@@ -157,7 +157,7 @@ export abstract class FileStore {
      * @return  a file store attribute view of the specified type or
      *          {@code null} if the attribute view is not available
      */
-    public abstract getFileStoreAttributeView(type: string): FileStoreAttributeView;
+    public abstract getFileStoreAttributeView(type: string): FileStoreAttributeView | null;
 
     /**
      * Reads the value of a file store attribute.
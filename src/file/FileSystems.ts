@@ -1,11 +1,20 @@
 import {FileSystem} from "./FileSystem";
+import {Path} from "./Path";
 import {IllegalArgumentException, UnsupportedOperationException} from "../exception";
 import {ProviderNotFoundException} from "./exception/ProviderNotFoundException";
 import {FileSystemProviders} from "./spi";
 import {LocalFileSystemProvider} from "./fs/local";
 
 export class FileSystems {
-    private static readonly defaultFileSystemProvider: LocalFileSystemProvider = new LocalFileSystemProvider();
+    // the provider installed by the local module
+    private static readonly defaultFileSystemProvider: LocalFileSystemProvider = FileSystems.getDefaultProvider();
+
+    private static getDefaultProvider(): LocalFileSystemProvider {
+        const provider = FileSystemProviders.getProvider("file");
+        if (!(provider instanceof LocalFileSystemProvider))
+            throw new ProviderNotFoundException("Provider \"file\" not found");
+        return provider;
+    }
 
     /**
      * Get the default file system.
@@ -16,42 +25,74 @@ export class FileSystems {
     }
 
     /**
-     * It returns a FileSystem object for the given URL
+     * It returns the open file system of the given URL
      * @param {URL} url - URL
      * @returns A FileSystem object
+     * @throws FileSystemNotFoundException if the file system is not open, or was closed
+     * @throws ProviderNotFoundException if no provider supports the URL scheme
      */
     public static getFileSystem(url: URL): FileSystem | null {
-        const scheme = url.protocol.toLowerCase();
-        if (scheme === null) {
+        const scheme = url.protocol.toLowerCase().replace(":", "");
+        if (!scheme) {
             throw new IllegalArgumentException("Missing scheme");
         }
-        for (const provider of FileSystemProviders.getInstalledProviders()) {
-            if (provider.getScheme() === scheme) {
-                return provider.getFileSystem(url);
-            }
+        const provider = FileSystemProviders.getProvider(scheme);
+        if (provider) {
+            return provider.getFileSystem(url);
         }
         throw new ProviderNotFoundException(`Provider "${scheme}" not found`)
     }
 
-    public newFileSystem(uri: URL, env: Map<string, any>): FileSystem {
-        const scheme: string = uri.protocol.toLowerCase();
+    /**
+     * It creates a new file system, by the provider of the URL scheme.
+     * @param {URL} url - the URL identifying the file system
+     * @param {Map<string, any>} env - the provider specific properties configuring the file system
+     * @returns A new file system, open until it is closed.
+     * @throws ProviderNotFoundException if no provider supports the URL scheme
+     * @throws FileSystemAlreadyExistsException if the file system is already open
+     */
+    public static newFileSystem(url: URL, env: Map<string, any>): FileSystem;
+
+    /**
+     * It creates a new file system accessing the content of a file, such as an archive, trying every installed provider.
+     * @param {Path} path - the path to the file
+     * @param {Map<string, any>} [env] - the provider specific properties configuring the file system
+     * @returns A new file system, open until it is closed.
+     * @throws ProviderNotFoundException if no provider supports the type of the file
+     */
+    public static newFileSystem(path: Path, env?: Map<string, any>): FileSystem;
 
-        // check installed providers
+    public static newFileSystem(target: URL | Path, env: Map<string, any> = new Map<string, any>()): FileSystem {
+        if (target instanceof URL) {
+            return FileSystems.newFileSystemFromUrl(target, env);
+        }
         for (const provider of FileSystemProviders.getInstalledProviders()) {
-            if (scheme === provider.getScheme()) {
-                try {
-                    return provider.newFileSystemFromUrl(uri, env);
-                } catch (exception) {
-                    if (exception instanceof UnsupportedOperationException) {
-                        // ignored
-                    } else {
-                        throw exception;
-                    }
+            try {
+                return provider.newFileSystemFromPath(target, env);
+            } catch (exception) {
+                if (!(exception instanceof UnsupportedOperationException)) {
+                    throw exception;
                 }
             }
         }
-        throw new ProviderNotFoundException("Provider \"" + scheme + "\" not found");
+        throw new ProviderNotFoundException("Provider not found");
     }
 
-    // TODO newFileSystem methods
+    private static newFileSystemFromUrl(url: URL, env: Map<string, any>): FileSystem {
+        const scheme: string = url.protocol.toLowerCase().replace(":", "");
+        if (!scheme) {
+            throw new IllegalArgumentException("Missing scheme");
+        }
+        const provider = FileSystemProviders.getProvider(scheme);
+        if (provider) {
+            try {
+                return provider.newFileSystemFromUrl(url, env);
+            } catch (exception) {
+                if (!(exception instanceof UnsupportedOperationException)) {
+                    throw exception;
+                }
+            }
+        }
+        throw new ProviderNotFoundException("Provider \"" + scheme + "\" not found");
+    }
 }
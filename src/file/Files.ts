@@ -38,6 +38,8 @@ import {FileVisitor} from "./FileVisitor";
 import {FileTreeWalker, FileTreeWalkerEvent, FileTreeWalkerEventType} from "./FileTreeWalker";
 import {FileVisitResult} from "./FileVisitResult";
 import {FileTreeIterator} from "./FileTreeIterator";
+import {TarArchiveOptions, writeTarArchive} from "./TarArchiver";
+import {ArchiveExtractOptions, extractArchive} from "./ArchiveExtractor";
 
 /* It provides a set of static methods for working with files and directories */
 export class Files {
@@ -338,7 +340,14 @@ export class Files {
         return this.provider(path).isHidden(path);
     }
 
-    public static probeContentType(path: Path): string {
+    /**
+     * It probes the content type of a file, asking the installed detectors first and the default detector last.
+     * The magic-bytes detector only reads the files of the default file system here, the content of the files
+     * of the other file systems is read by {@link probeContentTypeAsync}.
+     * @param {Path} path - the path to the file to probe
+     * @returns The content type, or null if the type is not recognized.
+     */
+    public static probeContentType(path: Path): string | null {
         for (let detector of FileTypeDetectors.installedDetectors) {
             const result = detector.probeContentType(path);
             if (result) {
@@ -348,6 +357,22 @@ export class Files {
         return FileTypeDetectors.defaultFileTypeDetector.probeContentType(path);
     }
 
+    /**
+     * It probes the content type of a file as {@link probeContentType}, letting the detectors read the content of
+     * the file, such as the magic-bytes detector.
+     * @param {Path} path - the path to the file to probe
+     * @returns A promise of the content type, or of null if the type is not recognized.
+     */
+    public static async probeContentTypeAsync(path: Path): Promise<string | null> {
+        for (let detector of FileTypeDetectors.installedDetectors) {
+            const result = await detector.probeContentTypeAsync(path);
+            if (result) {
+                return result;
+            }
+        }
+        return FileTypeDetectors.defaultFileTypeDetector.probeContentTypeAsync(path);
+    }
+
     // -- File Attributes --
 
     /**
@@ -377,9 +402,9 @@ export class Files {
      * @param {Path} path - The path to the file
      * @param {string} [type] - The type of the attribute view.
      * @param {LinkOption[]} [options] - An array of LinkOption objects.
-     * @returns A FileAttributeView object.
+     * @returns A FileAttributeView object, or null if the attribute view type is not available.
      */
-    public static getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView {
+    public static getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
         return this.provider(path).getFileAttributeView(path, type, options);
     }
 
@@ -760,11 +785,10 @@ export class Files {
                 }
             }
         }
-        let outputStream: WritableStream | null = null;
         try {
-            outputStream = this.newOutputStream(target, [StandardOpenOption.CREATE_NEW, StandardOpenOption.WRITE]);
+            // the output stream is closed, or aborted on failure, by the pipe
+            const outputStream: WritableStream = this.newOutputStream(target, [StandardOpenOption.CREATE_NEW, StandardOpenOption.WRITE]);
             await inputStream.pipeTo(outputStream);
-
         } catch (x) {
             if (x instanceof FileAlreadyExistsException) {
                 if (se) {
@@ -774,10 +798,6 @@ export class Files {
                 throw x;
             }
             throw x;
-        } finally {
-            if (outputStream) {
-                await outputStream.close();
-            }
         }
     }
 
@@ -801,6 +821,46 @@ export class Files {
         }
     }
 
+    /**
+     * Writes a tar archive of a file tree of any file system to a stream, in the ustar format with PAX extended
+     * headers for the names and values that do not fit. The entries are sorted by name, and carry the mode, the
+     * owners and the modification time of the files; the symbolic links are archived as links unless followed.
+     * The stream is closed when the archive is written, or aborted on failure.
+     *
+     * @param {Path} start - the directory whose entries are archived, or the file to archive
+     * @param {WritableStream} outputStream - the stream to write the archive to
+     * @param {TarArchiveOptions} [options] - the compression, the filters and the fixed attributes of reproducible archives
+     * @throws FileSystemException if a file changes while it is archived
+     */
+    public static async archive(start: Path, outputStream: WritableStream, options?: TarArchiveOptions): Promise<void> {
+        Objects.requireNonNullUndefined(outputStream);
+        return writeTarArchive(start, outputStream, options ?? {});
+    }
+
+    /**
+     * Extracts a tar, tar.gz or zip archive to a directory of any file system, the format is detected from the
+     * content. The tar archives are read as a stream, the zip archives that are not local files are first copied
+     * to a temporary file to read their central directory. The entries are checked before they are written: the
+     * absolute names and the names with ".." are rejected, as are the symbolic links whose targets are outside of
+     * the target directory or go through another link, the entries whose path goes through a symbolic link, the
+     * device files, FIFOs and sockets. The extraction stops at the first rejected entry, the entries extracted
+     * before it are kept. The symbolic links are created, and the attributes of the directories set, once the
+     * other entries are extracted.
+     *
+     * @param {Path | ReadableStream} source - the archive, or a stream of its bytes which is consumed
+     * @param {Path} targetDir - the existing directory to extract the entries to
+     * @param {ArchiveExtractOptions} [options] - the limits of the archive, and how the entries are written
+     * @throws UnsafeArchiveEntryException if an entry would be written outside of the target directory or is a special file
+     * @throws ArchiveLimitExceededException if the archive has too many entries or too much content
+     * @throws FileAlreadyExistsException if an entry exists and the existing files are not replaced
+     * @throws NotDirectoryException if the target is not a directory
+     * @throws FileSystemException if the archive is invalid
+     */
+    public static async extract(source: Path | ReadableStream, targetDir: Path, options?: ArchiveExtractOptions): Promise<void> {
+        Objects.requireNonNullUndefined(source);
+        return extractArchive(source, targetDir, options ?? {});
+    }
+
     // -- Stream APIs --
 
     /**
@@ -811,10 +871,9 @@ export class Files {
      */
     public static list(dir: Path): Path[] {
         const ds: DirectoryStream<Path> = Files.newDirectoryStream(dir);
-        let files: Path[] = [];
         try {
-            files = [...new Set([...ds])];
-        } catch (e) {
+            return [...new Set([...ds])];
+        } finally {
             try {
                 ds.close();
             } catch (x) {
@@ -822,9 +881,7 @@ export class Files {
                     throw x;
                 }
             }
-            throw e;
         }
-        return files;
     }
 
     /**
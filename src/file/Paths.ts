@@ -22,7 +22,7 @@ export class Paths {
     }
 
     /**
-     * If the scheme is "file", then return the default file system's path. Otherwise, return the path of the first
+     * If the scheme is "file", then return the default file system's path. Otherwise, return the path of the
      * installed provider whose scheme matches the scheme of the URL
      * @param {URL} url - URL
      * @returns A Path object
@@ -32,10 +32,9 @@ export class Paths {
         if (!scheme) {
             throw new IllegalArgumentException("Missing scheme");
         }
-        for (const provider of FileSystemProviders.getInstalledProviders()) {
-            if (provider.getScheme() === scheme) {
-                return provider.getPath(url);
-            }
+        const provider = FileSystemProviders.getProvider(scheme);
+        if (provider) {
+            return provider.getPath(url);
         }
         throw new FileSystemNotFoundException(`Provider "${scheme}" not installed`)
     }
@@ -0,0 +1,264 @@
+import * as zlib from "zlib";
+import {Path} from "./Path";
+import {Files} from "./Files";
+import {LinkOption} from "./LinkOption";
+import {PathMatcher} from "./PathMatcher";
+import {FileVisitOption} from "./FileVisitOption";
+import {FileVisitResult} from "./FileVisitResult";
+import {BasicFileAttributes, FileTime, PosixFilePermission, UserPrincipal} from "./attribute";
+import {FileSystemException} from "./exception";
+import {toUnixMode} from "./spi/UnixFileModes";
+import {
+    BLOCK_SIZE,
+    encodeHeader,
+    RECORD_SIZE,
+    TarHeader,
+    TYPE_DIRECTORY,
+    TYPE_FILE,
+    TYPE_SYMBOLIC_LINK,
+} from "./fs/tar/TarFormat";
+
+/* The options of {@link Files#archive}. */
+export interface TarArchiveOptions {
+    // compresses the archive with gzip
+    gzip?: boolean;
+    // the patterns of the entries to archive, all the entries when not given; the directories are always visited
+    include?: string[];
+    // the patterns of the entries not to archive, an excluded directory is not visited
+    exclude?: string[];
+    // archives the targets of the symbolic links rather than the links
+    followLinks?: boolean;
+    // the name of the directory holding the entries in the archive, such as "package"
+    prefix?: string;
+    // the modification time of all the entries, for reproducible archives
+    mtime?: FileTime;
+    // the owner and the group of all the entries, for reproducible archives
+    uid?: number;
+    gid?: number;
+    uname?: string;
+    gname?: string;
+}
+
+/* A file to archive, found by the walk. */
+interface TarSource {
+    path: Path;
+    name: string;
+    attrs: BasicFileAttributes;
+}
+
+/* Writes the bytes of an archive to a stream, compressed with gzip or not. */
+class TarOutput {
+    private readonly writer: WritableStreamDefaultWriter<any>;
+    private readonly gzip: zlib.Gzip | null;
+    private readonly pumped: Promise<void>;
+    // the error of the compressed stream, kept until the next write
+    private failure: { error: unknown } | null = null;
+    private written: number = 0;
+
+    public constructor(outputStream: WritableStream, compress: boolean) {
+        const writer = outputStream.getWriter();
+        this.writer = writer;
+        if (!compress) {
+            this.gzip = null;
+            this.pumped = Promise.resolve();
+            return;
+        }
+        const gzip = zlib.createGzip();
+        this.gzip = gzip;
+        // the compressed chunks are written one at a time, the compression waits for the stream
+        this.pumped = (async () => {
+            for await (const chunk of gzip) {
+                await writer.write(chunk);
+            }
+        })();
+        this.pumped.catch(e => this.failure = {error: e});
+    }
+
+    private checkFailure(): void {
+        if (this.failure !== null)
+            throw this.failure.error;
+    }
+
+    public async write(bytes: Uint8Array): Promise<void> {
+        this.checkFailure();
+        this.written += bytes.length;
+        if (this.gzip === null) {
+            await this.writer.write(bytes);
+        } else if (!this.gzip.write(bytes)) {
+            await Promise.race([new Promise(resolve => (this.gzip as zlib.Gzip).once("drain", resolve)), this.pumped]);
+        }
+    }
+
+    /* Ends the archive with two blocks of zeros, padded to a multiple of the record size as by tar. */
+    public async close(): Promise<void> {
+        const end = Math.ceil((this.written + 2 * BLOCK_SIZE) / RECORD_SIZE) * RECORD_SIZE;
+        await this.write(new Uint8Array(end - this.written));
+        if (this.gzip !== null) {
+            this.gzip.end();
+            await this.pumped;
+        }
+        this.checkFailure();
+        await this.writer.close();
+    }
+
+    public async abort(reason: unknown): Promise<void> {
+        this.gzip?.destroy();
+        try {
+            await this.writer.abort(reason);
+        } catch (ignore) {
+            // the stream may already be errored
+        }
+    }
+}
+
+function toMatchers(start: Path, patterns?: string[]): PathMatcher[] {
+    // a pattern without syntax is a glob
+    return (patterns ?? []).map(pattern => start.getFileSystem().getPathMatcher(/^[a-z]+:/.test(pattern) ? pattern : "glob:" + pattern));
+}
+
+/* Compares the names of the archive name by name, so that a directory precedes its entries. */
+function compareNames(name1: string, name2: string): number {
+    const names1 = name1.split("/");
+    const names2 = name2.split("/");
+    for (let i = 0; i < Math.min(names1.length, names2.length); i++) {
+        if (names1[i] !== names2[i]) {
+            return names1[i] < names2[i] ? -1 : 1;
+        }
+    }
+    return names1.length - names2.length;
+}
+
+/* Walks the tree and returns the files to archive, sorted by name. */
+function collect(start: Path, options: TarArchiveOptions): TarSource[] {
+    const includes = toMatchers(start, options.include);
+    const excludes = toMatchers(start, options.exclude);
+    const prefix = (options.prefix ?? "").split("/").filter(name => name.length > 0);
+    const sources: TarSource[] = [];
+    const add = (path: Path, attrs: BasicFileAttributes | undefined): FileVisitResult => {
+        const relative = start.relativize(path);
+        const names = [...relative].map(name => name.toString()).filter(name => name.length > 0);
+        const isRoot = names.length === 0;
+        if (!isRoot && excludes.some(matcher => matcher.matches(relative))) {
+            return attrs?.isDirectory() ? FileVisitResult.SKIP_SUBTREE : FileVisitResult.CONTINUE;
+        }
+        if (attrs === undefined || attrs.isOther()) {
+            // the devices, FIFOs and sockets are not archived
+            return FileVisitResult.CONTINUE;
+        }
+        if (isRoot && attrs.isDirectory() && prefix.length === 0) {
+            // the entries of the start directory are at the root of the archive
+            return FileVisitResult.CONTINUE;
+        }
+        if (isRoot && !attrs.isDirectory()) {
+            // a single file is archived under its name
+            names.push(path.getFileName()?.toString() ?? "");
+        }
+        if (includes.length === 0 || (!isRoot && includes.some(matcher => matcher.matches(relative)))) {
+            sources.push({path: path, name: [...prefix, ...names].join("/"), attrs: attrs});
+        }
+        return FileVisitResult.CONTINUE;
+    };
+    Files.walkFileTree(start, {
+        preVisitDirectory: (dir, attrs) => add(dir, attrs),
+        visitFile: (file, attrs) => add(file, attrs),
+        visitFileFailed: (file, exc) => {
+            throw exc;
+        },
+        postVisitDirectory: (dir, exc) => {
+            if (exc)
+                throw exc;
+            return FileVisitResult.CONTINUE;
+        },
+    }, Number.MAX_VALUE, options.followLinks ? [FileVisitOption.FOLLOW_LINKS] : []);
+    return sources.sort((source1, source2) => compareNames(source1.name, source2.name));
+}
+
+/* Returns the header of a file, with the mode and the owners of the "unix" or the "posix" view when the file system supports them. */
+function toHeader(source: TarSource, options: TarArchiveOptions): TarHeader {
+    const {path, attrs} = source;
+    const linkOptions = options.followLinks ? [] : [LinkOption.NOFOLLOW_LINKS];
+    const views = path.getFileSystem().supportedFileAttributeViews();
+    let mode = attrs.isDirectory() ? 0o755 : attrs.isSymbolicLink() ? 0o777 : 0o644;
+    let uid = 0;
+    let gid = 0;
+    let uname = "";
+    let gname = "";
+    if (views.has("unix")) {
+        const unix = Files.readAttributes(path, "unix:mode,uid,gid,owner,group", linkOptions);
+        mode = unix.get("mode") & 0o7777;
+        uid = unix.get("uid");
+        gid = unix.get("gid");
+        uname = (unix.get("owner") as UserPrincipal).getName();
+        gname = (unix.get("group") as UserPrincipal).getName();
+    } else if (views.has("posix")) {
+        const posix = Files.readAttributes(path, "posix:permissions,owner,group", linkOptions);
+        mode = toUnixMode(posix.get("permissions") as Set<PosixFilePermission>);
+        uname = (posix.get("owner") as UserPrincipal).getName();
+        gname = (posix.get("group") as UserPrincipal).getName();
+    }
+    let type = TYPE_FILE;
+    let name = source.name;
+    let linkName = "";
+    if (attrs.isDirectory()) {
+        type = TYPE_DIRECTORY;
+        name += "/";
+    } else if (attrs.isSymbolicLink()) {
+        type = TYPE_SYMBOLIC_LINK;
+        linkName = Files.readSymbolicLink(path).toString().split(path.getFileSystem().getSeparator()).join("/");
+    }
+    return {
+        name: name,
+        type: type,
+        mode: mode,
+        uid: options.uid ?? uid,
+        gid: options.gid ?? gid,
+        uname: options.uname ?? uname,
+        gname: options.gname ?? gname,
+        size: type === TYPE_FILE ? Number(attrs.size()) : 0,
+        lastModifiedTime: Math.floor((options.mtime ?? attrs.lastModifiedTime()).toMillis() / 1000),
+        linkName: linkName,
+    };
+}
+
+/* Writes the content of a file, which must have the size of its header. */
+async function writeContent(output: TarOutput, path: Path, size: number): Promise<void> {
+    const reader = Files.newInputStream(path).getReader();
+    let written = 0;
+    try {
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            const chunk: Uint8Array = result.value;
+            written += chunk.length;
+            if (written > size) {
+                break;
+            }
+            await output.write(chunk);
+        }
+    } finally {
+        await reader.cancel();
+    }
+    if (written !== size)
+        throw new FileSystemException(path.toString(), undefined, "File changed while being archived");
+    if (size % BLOCK_SIZE !== 0) {
+        await output.write(new Uint8Array(BLOCK_SIZE - size % BLOCK_SIZE));
+    }
+}
+
+/**
+ * Writes a tar archive of a file tree, see {@link Files#archive}.
+ */
+export async function writeTarArchive(start: Path, outputStream: WritableStream, options: TarArchiveOptions): Promise<void> {
+    const output = new TarOutput(outputStream, !!options.gzip);
+    try {
+        for (const source of collect(start, options)) {
+            const header = toHeader(source, options);
+            await output.write(encodeHeader(header));
+            if (header.type === TYPE_FILE) {
+                await writeContent(output, source.path, header.size);
+            }
+        }
+        await output.close();
+    } catch (e) {
+        await output.abort(e);
+        throw e;
+    }
+}
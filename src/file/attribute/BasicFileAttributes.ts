@@ -108,5 +108,5 @@ export interface BasicFileAttributes {
      *
      * @see file.Files#walkFileTree
      */
-    fileKey(): Object;
+    fileKey(): Object | null;
 }
@@ -0,0 +1,20 @@
+import {BasicFileAttributeView} from "./BasicFileAttributeView";
+import {DosFileAttributes} from "./DosFileAttributes";
+
+export interface DosFileAttributeView extends BasicFileAttributeView {
+    /**
+     * Returns the name of the attribute view. Attribute views of this type
+     * have the name {@code "dos"}.
+     */
+    name(): string;
+
+    readAttributes(): DosFileAttributes;
+
+    setReadOnly(value: boolean): void;
+
+    setHidden(value: boolean): void;
+
+    setSystem(value: boolean): void;
+
+    setArchive(value: boolean): void;
+}
@@ -0,0 +1,32 @@
+import {BasicFileAttributes} from "./BasicFileAttributes";
+
+/* File attributes associated with a file in a file system that supports legacy "DOS" attributes. */
+export interface DosFileAttributes extends BasicFileAttributes {
+    /**
+     * Returns the value of the read-only attribute.
+     *
+     * @return  the value of the read-only attribute
+     */
+    isReadOnly(): boolean;
+
+    /**
+     * Returns the value of the hidden attribute.
+     *
+     * @return  the value of the hidden attribute
+     */
+    isHidden(): boolean;
+
+    /**
+     * Returns the value of the archive attribute.
+     *
+     * @return  the value of the archive attribute
+     */
+    isArchive(): boolean;
+
+    /**
+     * Returns the value of the system attribute.
+     *
+     * @return  the value of the system attribute
+     */
+    isSystem(): boolean;
+}
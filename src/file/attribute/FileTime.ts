@@ -1,3 +1,147 @@
+import {ChronoUnit, DateTimeFormatter, Instant, LocalDate} from "@js-joda/core";
+import {IllegalArgumentException} from "../../exception";
+
+const NANOS_PER_MILLI = BigInt(1000000);
+const NANOS_PER_SECOND = BigInt(1000000000);
+const SECONDS_PER_DAY = BigInt(86400);
+
+/* The number of nanoseconds of the supported units, the units longer than a day have no fixed duration. */
+const NANOS_PER_UNIT = new Map<ChronoUnit, bigint>([
+    [ChronoUnit.NANOS, BigInt(1)],
+    [ChronoUnit.MICROS, BigInt(1000)],
+    [ChronoUnit.MILLIS, NANOS_PER_MILLI],
+    [ChronoUnit.SECONDS, NANOS_PER_SECOND],
+    [ChronoUnit.MINUTES, BigInt(60) * NANOS_PER_SECOND],
+    [ChronoUnit.HOURS, BigInt(3600) * NANOS_PER_SECOND],
+    [ChronoUnit.DAYS, SECONDS_PER_DAY * NANOS_PER_SECOND],
+]);
+
+function nanosPerUnit(unit: ChronoUnit): bigint {
+    const nanos = NANOS_PER_UNIT.get(unit);
+    if (nanos === undefined)
+        throw new IllegalArgumentException("Unsupported unit: " + unit);
+    return nanos;
+}
+
+/* Rounds towards negative infinity, where the bigint division rounds towards zero. */
+function floorDiv(x: bigint, y: bigint): bigint {
+    const q = x / y;
+    return (x % y !== BigInt(0) && (x < BigInt(0)) !== (y < BigInt(0))) ? q - BigInt(1) : q;
+}
+
+function pad(value: number, length: number): string {
+    return value.toString().padStart(length, "0");
+}
+
+/* Represents the value of a file's time stamp attribute, with a precision of a nanosecond. */
 export class FileTime {
-    // TODO
-}
\ No newline at end of file
+    // nanoseconds since the epoch
+    private readonly nanos: bigint;
+
+    private constructor(nanos: bigint) {
+        this.nanos = nanos;
+    }
+
+    /**
+     * Returns a FileTime representing a value at the given unit of granularity.
+     * @param {bigint | number} value - the value since the epoch, 1970-01-01T00:00:00Z, can be negative
+     * @param {ChronoUnit} unit - the unit of granularity, from NANOS to DAYS
+     * @throws IllegalArgumentException if the unit is not supported
+     */
+    public static from(value: bigint | number, unit: ChronoUnit): FileTime {
+        const bigValue = typeof value === "bigint" ? value : BigInt(Math.trunc(value));
+        return new FileTime(bigValue * nanosPerUnit(unit));
+    }
+
+    /**
+     * Returns a FileTime representing the given number of nanoseconds since the epoch.
+     * @param {bigint} nanos - the number of nanoseconds since 1970-01-01T00:00:00Z
+     */
+    public static fromNanos(nanos: bigint): FileTime {
+        return new FileTime(nanos);
+    }
+
+    /**
+     * Returns a FileTime representing the given number of milliseconds since the epoch.
+     * @param {number} millis - the number of milliseconds since 1970-01-01T00:00:00Z
+     */
+    public static fromMillis(millis: number): FileTime {
+        return new FileTime(BigInt(Math.trunc(millis)) * NANOS_PER_MILLI);
+    }
+
+    /**
+     * Returns a FileTime representing the same point of time value on the time-line as the given instant.
+     * @param {Instant} instant - the instant to convert
+     */
+    public static fromInstant(instant: Instant): FileTime {
+        return new FileTime(BigInt(instant.epochSecond()) * NANOS_PER_SECOND + BigInt(instant.nano()));
+    }
+
+    /**
+     * Returns the value at the given unit of granularity, truncated towards zero.
+     * @param {ChronoUnit} unit - the unit of granularity, from NANOS to DAYS
+     * @returns The value since the epoch, 1970-01-01T00:00:00Z
+     * @throws IllegalArgumentException if the unit is not supported
+     */
+    public to(unit: ChronoUnit): bigint {
+        return this.nanos / nanosPerUnit(unit);
+    }
+
+    public toNanos(): bigint {
+        return this.nanos;
+    }
+
+    public toMillis(): number {
+        return Number(this.nanos / NANOS_PER_MILLI);
+    }
+
+    /**
+     * Converts this FileTime to an instant, a time too far in the past or the future
+     * is converted to {@link Instant#MIN} or {@link Instant#MAX}.
+     */
+    public toInstant(): Instant {
+        const seconds = floorDiv(this.nanos, NANOS_PER_SECOND);
+        if (seconds < BigInt(Instant.MIN.epochSecond())) {
+            return Instant.MIN;
+        }
+        if (seconds > BigInt(Instant.MAX.epochSecond())) {
+            return Instant.MAX;
+        }
+        return Instant.ofEpochSecond(Number(seconds), Number(this.nanos - seconds * NANOS_PER_SECOND));
+    }
+
+    /**
+     * Compares the value of two FileTime objects for order.
+     * @param {FileTime} other - the other FileTime to be compared
+     * @returns A negative number, zero, or a positive number as this FileTime is before, equal to, or after the other
+     */
+    public compareTo(other: FileTime): number {
+        if (this.nanos === other.nanos) {
+            return 0;
+        }
+        return this.nanos < other.nanos ? -1 : 1;
+    }
+
+    public equals(other: unknown): boolean {
+        return other instanceof FileTime && this.nanos === other.nanos;
+    }
+
+    /**
+     * Returns the string representation of this FileTime, in the ISO 8601 format
+     * {@code YYYY-MM-DDThh:mm:ss[.s+]Z}, where the fraction of second has no trailing zeros.
+     */
+    public toString(): string {
+        const seconds = floorDiv(this.nanos, NANOS_PER_SECOND);
+        const nanoOfSecond = Number(this.nanos - seconds * NANOS_PER_SECOND);
+        const days = floorDiv(seconds, SECONDS_PER_DAY);
+        const secondOfDay = Number(seconds - days * SECONDS_PER_DAY);
+        let result = LocalDate.ofEpochDay(Number(days)).format(DateTimeFormatter.ISO_LOCAL_DATE)
+            + "T" + pad(Math.floor(secondOfDay / 3600), 2)
+            + ":" + pad(Math.floor(secondOfDay / 60) % 60, 2)
+            + ":" + pad(secondOfDay % 60, 2);
+        if (nanoOfSecond !== 0) {
+            result += "." + pad(nanoOfSecond, 9).replace(/0+$/, "");
+        }
+        return result + "Z";
+    }
+}
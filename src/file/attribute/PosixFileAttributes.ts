@@ -1,8 +1,28 @@
 import {BasicFileAttributes} from "./BasicFileAttributes";
 import {PosixFilePermission} from "./PosixFilePermission";
+import {UserPrincipal} from "./UserPrincipal";
+import {GroupPrincipal} from "./GroupPrincipal";
 
 export interface PosixFileAttributes extends BasicFileAttributes {
-    // TODO
+    /**
+     * Returns the owner of the file.
+     *
+     * @return  the file owner
+     */
+    owner(): UserPrincipal;
 
+    /**
+     * Returns the group owner of the file.
+     *
+     * @return  the file group owner
+     */
+    group(): GroupPrincipal;
+
+    /**
+     * Returns the permissions of the file. The file permissions are returned
+     * as a set of {@link PosixFilePermission} elements.
+     *
+     * @return  the file permissions
+     */
     permissions(): Set<PosixFilePermission>
 }
@@ -0,0 +1,81 @@
+import {PosixFilePermission} from "./PosixFilePermission";
+import {FileAttribute} from "./FileAttribute";
+import {IllegalArgumentException} from "../../exception";
+
+/* The permissions in the order of their symbolic representation. */
+const SYMBOLIC_ORDER: PosixFilePermission[] = [
+    PosixFilePermission.OWNER_READ,
+    PosixFilePermission.OWNER_WRITE,
+    PosixFilePermission.OWNER_EXECUTE,
+    PosixFilePermission.GROUP_READ,
+    PosixFilePermission.GROUP_WRITE,
+    PosixFilePermission.GROUP_EXECUTE,
+    PosixFilePermission.OTHERS_READ,
+    PosixFilePermission.OTHERS_WRITE,
+    PosixFilePermission.OTHERS_EXECUTE,
+];
+
+const SYMBOLS = "rwxrwxrwx";
+
+/* This class consists exclusively of static methods that operate on sets of PosixFilePermission objects. */
+export class PosixFilePermissions {
+
+    private constructor() {
+        // static
+    }
+
+    /**
+     * Returns the {@code String} representation of a set of permissions, for example
+     * {@code "rwxr-x---"}.
+     * @param perms - the set of permissions
+     * @returns The string representation of the permission set
+     */
+    public static toString(perms: Set<PosixFilePermission>): string {
+        let result = "";
+        for (let i = 0; i < SYMBOLIC_ORDER.length; i++) {
+            result += perms.has(SYMBOLIC_ORDER[i]) ? SYMBOLS.charAt(i) : "-";
+        }
+        return result;
+    }
+
+    /**
+     * Returns the set of permissions corresponding to a given {@code String}
+     * representation, for example {@code "rwxr-x---"}.
+     * @param {string} perms - string representing a set of permissions
+     * @returns The resulting set of permissions
+     * @throws IllegalArgumentException if the string cannot be converted to a set of permissions
+     */
+    public static fromString(perms: string): Set<PosixFilePermission> {
+        if (perms.length !== SYMBOLS.length)
+            throw new IllegalArgumentException("Invalid mode");
+        const result = new Set<PosixFilePermission>();
+        for (let i = 0; i < SYMBOLIC_ORDER.length; i++) {
+            const c = perms.charAt(i);
+            if (c === SYMBOLS.charAt(i)) {
+                result.add(SYMBOLIC_ORDER[i]);
+            } else if (c !== "-") {
+                throw new IllegalArgumentException("Invalid mode");
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Creates a {@link FileAttribute}, encapsulating a copy of the given file
+     * permissions, suitable for passing to the {@link Files#createFile createFile}
+     * or {@link Files#createDirectory createDirectory} methods.
+     * @param perms - the set of permissions
+     * @returns An attribute named {@code "posix:permissions"}
+     */
+    public static asFileAttribute(perms: Set<PosixFilePermission>): FileAttribute<Set<PosixFilePermission>> {
+        const value = new Set<PosixFilePermission>(perms);
+        return {
+            name(): string {
+                return "posix:permissions";
+            },
+            value(): Set<PosixFilePermission> {
+                return new Set<PosixFilePermission>(value);
+            },
+        };
+    }
+}
@@ -0,0 +1,41 @@
+import {FileAttributeView} from "./FileAttributeView";
+
+/**
+ * A file attribute view that provides a view of a file's user-defined
+ * attributes, sometimes known as <em>extended attributes</em>. The value of
+ * a user-defined attribute is an opaque sequence of bytes.
+ */
+export interface UserDefinedFileAttributeView extends FileAttributeView {
+    /**
+     * Returns the name of this attribute view. Attribute views of this type
+     * have the name {@code "user"}.
+     */
+    name(): string;
+
+    /**
+     * Returns a list containing the names of the user-defined attributes.
+     */
+    list(): string[];
+
+    /**
+     * Returns the size of the value of a user-defined attribute.
+     */
+    size(name: string): number;
+
+    /**
+     * Reads the value of a user-defined attribute.
+     */
+    read(name: string): Uint8Array;
+
+    /**
+     * Writes the value of a user-defined attribute, replacing any previous value.
+     *
+     * @return  the number of bytes written
+     */
+    write(name: string, value: Uint8Array): number;
+
+    /**
+     * Deletes a user-defined attribute.
+     */
+    delete(name: string): void;
+}
@@ -1,11 +1,27 @@
 import {UserPrincipal} from "./UserPrincipal";
 import {GroupPrincipal} from "./GroupPrincipal";
 
-export abstract class UserPrincipalLookupService { // TODO Maybe
+/* An object to lookup user and group principals by name. */
+export abstract class UserPrincipalLookupService {
     protected constructor() {
     }
 
-    public abstract lookupPrincipalByName(name: string): UserPrincipal; // TODO
+    /**
+     * Lookup a user principal by name.
+     * @param {string} name - the string representation of the user principal to lookup
+     * @returns A user principal
+     * @throws UserPrincipalNotFoundException if the principal does not exist
+     * @throws IOException if an I/O error occurs
+     */
+    public abstract lookupPrincipalByName(name: string): UserPrincipal;
+
+    /**
+     * Lookup a group principal by group name.
+     * @param {string} group - the string representation of the group to lookup
+     * @returns A group principal
+     * @throws UserPrincipalNotFoundException if the principal does not exist or is not a group
+     * @throws IOException if an I/O error occurs
+     */
     public abstract lookupPrincipalByGroupName(group: string): GroupPrincipal;
 
 }
@@ -0,0 +1,19 @@
+import {IOException} from "../../exception";
+
+/* UserPrincipalNotFoundException is thrown when a lookup of a UserPrincipal fails because the principal does not exist. */
+export class UserPrincipalNotFoundException extends IOException {
+    private readonly principalName: string;
+
+    constructor(name: string) {
+        super();
+        this.principalName = name;
+    }
+
+    /**
+     * Returns the user principal name if this exception was created with the
+     * user principal name that was not found.
+     */
+    public getName(): string {
+        return this.principalName;
+    }
+}
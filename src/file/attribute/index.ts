@@ -1,6 +1,8 @@
 export * from "./AttributeView";
 export * from "./BasicFileAttributes";
 export * from "./BasicFileAttributeView";
+export * from "./DosFileAttributes";
+export * from "./DosFileAttributeView";
 export * from "./FileAttribute";
 export * from "./FileAttributeView";
 export * from "./FileOwnerAttributeView";
@@ -9,6 +11,9 @@ export * from "./GroupPrincipal";
 export * from "./PosixFileAttributes";
 export * from "./PosixFileAttributeView";
 export * from "./PosixFilePermission";
+export * from "./PosixFilePermissions";
+export * from "./UserDefinedFileAttributeView";
 export * from "./UserPrincipal";
 export * from "./UserPrincipalLookupService";
+export * from "./UserPrincipalNotFoundException";
 export * from "./BasicFileAttributesHolder";
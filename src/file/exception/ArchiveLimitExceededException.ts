@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* ArchiveLimitExceededException is a FileSystemException that is thrown when an archive has more entries or more content than the extraction allows. */
+export class ArchiveLimitExceededException extends FileSystemException {
+    constructor(file?: string, other?: string, reason?: string) {
+        super(file, other, reason);
+    }
+}
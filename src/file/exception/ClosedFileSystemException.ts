@@ -0,0 +1,6 @@
+import {IllegalStateException} from "../../exception";
+
+/* Thrown when an operation is attempted on a file system that is closed. */
+export class ClosedFileSystemException extends IllegalStateException {
+
+}
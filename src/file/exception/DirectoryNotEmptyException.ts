@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* DirectoryNotEmptyException is a FileSystemException that is thrown when a file system operation fails because a directory is not empty. */
+export class DirectoryNotEmptyException extends FileSystemException {
+    constructor(dir?: string) {
+        super(dir);
+    }
+}
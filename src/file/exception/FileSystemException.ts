@@ -19,6 +19,6 @@ export class FileSystemException extends IOException {
     }
 
     getReason(): string {
-        return super.message;
+        return this.message;
     }
 }
@@ -0,0 +1,28 @@
+import {IllegalArgumentException} from "../../exception";
+
+/* InvalidPathException is thrown when a path string cannot be converted into a Path because it contains invalid characters or is invalid for other file system specific reasons. */
+export class InvalidPathException extends IllegalArgumentException {
+    private readonly input: string;
+    private readonly reason: string;
+    private readonly index: number;
+
+    constructor(input: string, reason: string, index: number = -1) {
+        super(reason + (index > -1 ? " at index " + index : "") + ": " + input);
+        this.input = input;
+        this.reason = reason;
+        this.index = index;
+    }
+
+    public getInput(): string {
+        return this.input;
+    }
+
+    public getReason(): string {
+        return this.reason;
+    }
+
+    /* Returns the position of the error in the input string, or -1 if it is not known. */
+    public getIndex(): number {
+        return this.index;
+    }
+}
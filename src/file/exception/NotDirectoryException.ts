@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* NotDirectoryException is a FileSystemException that is thrown when a file system operation, intended for a directory, fails because the file is not a directory. */
+export class NotDirectoryException extends FileSystemException {
+    constructor(file?: string) {
+        super(file);
+    }
+}
@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* NotLinkException is a FileSystemException that is thrown when a file system operation fails because the file is not a symbolic link. */
+export class NotLinkException extends FileSystemException {
+    constructor(file?: string, other?: string, reason?: string) {
+        super(file, other, reason);
+    }
+}
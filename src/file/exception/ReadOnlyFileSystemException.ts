@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* ReadOnlyFileSystemException is a FileSystemException that is thrown when an attempt is made to update a file of a read-only file system. */
+export class ReadOnlyFileSystemException extends FileSystemException {
+    constructor(file?: string, other?: string, reason?: string) {
+        super(file, other, reason ?? "Read-only file system");
+    }
+}
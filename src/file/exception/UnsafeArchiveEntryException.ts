@@ -0,0 +1,8 @@
+import {FileSystemException} from "./FileSystemException";
+
+/* UnsafeArchiveEntryException is a FileSystemException that is thrown when an entry of an archive would be extracted outside of the target directory, or is a device file. */
+export class UnsafeArchiveEntryException extends FileSystemException {
+    constructor(file?: string, other?: string, reason?: string) {
+        super(file, other, reason);
+    }
+}
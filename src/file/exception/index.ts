@@ -1,10 +1,19 @@
 export * from "./AccessDeniedException";
+export * from "./ArchiveLimitExceededException";
+export * from "./AtomicMoveNotSupportedException";
+export * from "./ClosedFileSystemException";
+export * from "./DirectoryNotEmptyException";
 export * from "./FileAlreadyExistsException";
 export * from "./FileSystemAlreadyExistsException";
 export * from "./FileSystemNotFoundException";
+export * from "./InvalidPathException";
 export * from "./NoSuchFileException";
+export * from "./NotDirectoryException";
+export * from "./NotLinkException";
 export * from "./ProviderMismatchException";
 export * from "./ProviderNotFoundException";
+export * from "./ReadOnlyFileSystemException";
+export * from "./UnsafeArchiveEntryException";
 export * from "./FileSystemException";
 export * from "./FileSystemLoopException";
 export * from "./DirectoryIteratorException";
@@ -0,0 +1,206 @@
+import * as http from "http";
+import * as https from "https";
+import {MessageChannel, receiveMessageOnPort, Worker} from "worker_threads";
+import {AccessDeniedException, FileSystemException, NoSuchFileException} from "../../exception";
+import {IOException} from "../../../exception";
+
+// the number of redirections followed, as by browsers
+export const MAX_REDIRECTS = 20;
+
+/* A response, with its headers in lower case and its body if asked for. */
+export interface HttpResponse {
+    status: number;
+    statusText: string;
+    headers: { [name: string]: string | string[] | undefined };
+    // the URL of the response, once the redirections are followed
+    url: string;
+    body: string | null;
+}
+
+/* A request to send. */
+export interface HttpRequest {
+    url: string;
+    method: string;
+    headers: { [name: string]: string };
+    // the timeout of the connection and of the response, in milliseconds
+    timeout: number;
+    // the maximum size of the body to read, the body is not read when 0
+    maxBodySize: number;
+}
+
+/*
+ * The worker sending the requests of requestSync. It follows the redirections, then posts the response, or
+ * the error, to the port of the request and wakes up the waiting thread through the shared signal.
+ */
+const WORKER_SOURCE = `
+const {parentPort} = require("worker_threads");
+const http = require("http");
+const https = require("https");
+
+parentPort.on("message", ({port, signal, request}) => {
+    let current = null;
+    let finished = false;
+    const done = message => {
+        if (finished) {
+            return;
+        }
+        finished = true;
+        clearTimeout(timer);
+        port.postMessage(message);
+        port.close();
+        Atomics.store(signal, 0, 1);
+        Atomics.notify(signal, 0);
+    };
+    // the timeout of the request, redirections included
+    const timer = setTimeout(() => {
+        current?.destroy();
+        done({error: {message: "Timed out", code: "ETIMEDOUT"}});
+    }, request.timeout);
+    const send = (url, redirects) => {
+        const client = url.startsWith("https:") ? https : http;
+        const req = client.request(url, {method: request.method, headers: request.headers, timeout: request.timeout}, res => {
+            const location = res.headers.location;
+            if ([301, 302, 303, 307, 308].includes(res.statusCode) && location && redirects < ${MAX_REDIRECTS}) {
+                res.resume();
+                const target = new URL(location, url);
+                // the headers, such as the credentials, are only sent to the origin of the file system
+                if (target.origin !== new URL(request.url).origin) {
+                    done({error: {message: "Redirected to another origin: " + target.origin}});
+                    return;
+                }
+                send(target.href, redirects + 1);
+                return;
+            }
+            const chunks = [];
+            let size = 0;
+            res.on("data", chunk => {
+                size += chunk.length;
+                if (size > request.maxBodySize) {
+                    req.destroy(Object.assign(new Error("Response larger than " + request.maxBodySize + " bytes"), {code: "EFBIG"}));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            res.on("end", () => done({
+                response: {
+                    status: res.statusCode,
+                    statusText: res.statusMessage,
+                    headers: res.headers,
+                    url: url,
+                    body: request.maxBodySize > 0 ? Buffer.concat(chunks).toString("utf8") : null,
+                },
+            }));
+        });
+        current = req;
+        req.on("timeout", () => req.destroy(Object.assign(new Error("Timed out"), {code: "ETIMEDOUT"})));
+        req.on("error", e => done({error: {message: e.message, code: e.code}}));
+        req.end();
+    };
+    send(request.url, 0);
+});
+`;
+
+let worker: Worker | null = null;
+
+function getWorker(): Worker {
+    if (worker === null) {
+        worker = new Worker(WORKER_SOURCE, {eval: true});
+        // the worker does not keep the process alive
+        worker.unref();
+        worker.on("exit", () => worker = null);
+    }
+    return worker;
+}
+
+/**
+ * Sends a request and waits for its response, blocking the calling thread: the synchronous operations of the
+ * file systems, such as reading the attributes, need the response before they return. The requests are sent by
+ * a worker thread, so a server running on the calling thread cannot answer them. The thread is blocked for the
+ * timeout of the request at most, redirections included.
+ * @param {HttpRequest} request - the request
+ * @param {string} file - the file of the request, for the errors
+ * @returns The response, once the redirections are followed
+ * @throws IOException if the request fails or times out
+ */
+export function requestSync(request: HttpRequest, file: string): HttpResponse {
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const {port1, port2} = new MessageChannel();
+    try {
+        getWorker().postMessage({port: port2, signal: signal, request: request}, [port2]);
+        if (Atomics.wait(signal, 0, 0, request.timeout) === "timed-out")
+            throw new FileSystemException(file, undefined, "Timed out");
+        const message = receiveMessageOnPort(port1)?.message;
+        if (message.error)
+            throw new FileSystemException(file, undefined, message.error.message);
+        return message.response;
+    } finally {
+        port1.close();
+    }
+}
+
+/**
+ * Sends a request and returns its response once its headers are received, its body is read by the caller.
+ * @param {HttpRequest} request - the request, whose body size is not used
+ * @param {string} file - the file of the request, for the errors
+ * @throws IOException if the request fails or times out, or is redirected to another origin
+ */
+export function requestAsync(request: HttpRequest, file: string): Promise<http.IncomingMessage> {
+    return new Promise<http.IncomingMessage>((resolve, reject) => {
+        let current: http.ClientRequest | null = null;
+        // the timeout of the headers of the response, redirections included
+        const timer = setTimeout(() => current?.destroy(new FileSystemException(file, undefined, "Timed out")), request.timeout);
+        const fail = (e: Error) => {
+            clearTimeout(timer);
+            reject(e instanceof IOException ? e : new FileSystemException(file, undefined, e.message));
+        };
+        const send = (url: string, redirects: number) => {
+            const client = url.startsWith("https:") ? https : http;
+            const req = client.request(url, {method: request.method, headers: request.headers, timeout: request.timeout}, res => {
+                const location = res.headers.location;
+                if ([301, 302, 303, 307, 308].includes(res.statusCode as number) && location && redirects < MAX_REDIRECTS) {
+                    res.resume();
+                    const target = new URL(location, url);
+                    // the headers, such as the credentials, are only sent to the origin of the file system
+                    if (target.origin !== new URL(request.url).origin) {
+                        fail(new FileSystemException(file, undefined, "Redirected to another origin: " + target.origin));
+                        return;
+                    }
+                    send(target.href, redirects + 1);
+                    return;
+                }
+                clearTimeout(timer);
+                resolve(res);
+            });
+            current = req;
+            req.on("timeout", () => req.destroy(new FileSystemException(file, undefined, "Timed out")));
+            req.on("error", fail);
+            req.end();
+        };
+        send(request.url, 0);
+    });
+}
+
+/**
+ * Checks the status of a response.
+ * @param {number} status - the status of the response
+ * @param {string} statusText - the reason of the status
+ * @param {string} file - the file of the request, for the errors
+ * @throws NoSuchFileException if the status is 404 or 410
+ * @throws AccessDeniedException if the status is 401 or 403
+ * @throws FileSystemException if the status is not a success
+ */
+export function checkStatus(status: number, statusText: string, file: string): void {
+    if (status >= 200 && status < 300) {
+        return;
+    }
+    switch (status) {
+        case 404:
+        case 410:
+            throw new NoSuchFileException(file);
+        case 401:
+        case 403:
+            throw new AccessDeniedException(file, undefined, "HTTP " + status + " " + statusText);
+        default:
+            throw new FileSystemException(file, undefined, "HTTP " + status + " " + statusText);
+    }
+}
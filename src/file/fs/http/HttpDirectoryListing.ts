@@ -0,0 +1,51 @@
+// the targets of the links of a page
+const HREF = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+
+const ENTITIES: { [entity: string]: string } = {
+    "&amp;": "&",
+    "&lt;": "<",
+    "&gt;": ">",
+    "&quot;": "\"",
+    "&#39;": "'",
+    "&#x27;": "'",
+};
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(amp|lt|gt|quot|#39|#x27);/g, entity => ENTITIES[entity]);
+}
+
+/**
+ * Parses the names of the entries of an HTML directory listing, such as the autoindex pages of nginx and Apache
+ * or the pages of Python's http.server: the names of the links to the children of the directory. The links to
+ * the parent, to other directories or sites, and the links with a query, such as the links sorting the columns,
+ * are ignored.
+ * @param {string} html - the page
+ * @param {URL} dir - the URL of the page, ending with a slash
+ * @returns The names of the entries, in the order of the page and without duplicates
+ */
+export function parseDirectoryListing(html: string, dir: URL): string[] {
+    const names = new Set<string>();
+    const links = new RegExp(HREF);
+    for (let match = links.exec(html); match !== null; match = links.exec(html)) {
+        const href = decodeEntities(match[1] ?? match[2] ?? match[3]);
+        if (href.length === 0 || href.startsWith("#") || href.includes("?")) {
+            continue;
+        }
+        let name: string;
+        try {
+            const url = new URL(href, dir);
+            if (url.origin !== dir.origin || !url.pathname.startsWith(dir.pathname)) {
+                continue;
+            }
+            // the directories of the listing end with a slash
+            name = decodeURIComponent(url.pathname.substring(dir.pathname.length).replace(/\/$/, ""));
+        } catch (ignore) {
+            // not a URL
+            continue;
+        }
+        if (name.length > 0 && name !== "." && name !== ".." && !name.includes("/")) {
+            names.add(name);
+        }
+    }
+    return [...names];
+}
@@ -0,0 +1,25 @@
+import {BasicFileAttributeView, FileTime} from "../../attribute";
+import {ReadOnlyFileSystemException} from "../../exception";
+import {HttpFileAttributes} from "./HttpFileAttributes";
+import {HttpPath} from "./HttpPath";
+
+/* The "basic" attribute view of a file of an http file system, read with a HEAD request; its attributes cannot be changed. */
+export class HttpBasicFileAttributeView implements BasicFileAttributeView {
+    private readonly path: HttpPath;
+
+    public constructor(path: HttpPath) {
+        this.path = path;
+    }
+
+    public name(): string {
+        return "basic";
+    }
+
+    public readAttributes(): HttpFileAttributes {
+        return this.path.getFileSystem().readAttributes(this.path);
+    }
+
+    public setTimes(lastModifiedTime?: FileTime, lastAccessTime?: FileTime, createTime?: FileTime): void {
+        throw new ReadOnlyFileSystemException(this.path.toString());
+    }
+}
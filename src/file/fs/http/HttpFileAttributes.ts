@@ -0,0 +1,73 @@
+import {BasicFileAttributes, FileTime} from "../../attribute";
+
+/**
+ * The attributes of a file of an http file system, from the headers of the response to a HEAD request:
+ * Content-Length for its size, Last-Modified for its times and ETag for its key. A file is a directory
+ * when the server redirects its URL to the URL ending with a slash, as the servers of directory listings do.
+ */
+export class HttpFileAttributes implements BasicFileAttributes {
+    private readonly directory: boolean;
+    private readonly contentLength: number;
+    private readonly modified: FileTime;
+    private readonly etag: string | null;
+    private readonly mediaType: string | null;
+
+    /**
+     * @param {boolean} directory - whether the file is a directory
+     * @param {number} contentLength - the size of the file, 0 when the server does not give it
+     * @param {number} lastModifiedTime - the time of the Last-Modified header in milliseconds, 0 when the server does not give it
+     * @param {string | null} etag - the ETag header, null when the server does not give it
+     * @param {string | null} contentType - the Content-Type header, null when the server does not give it
+     */
+    public constructor(directory: boolean, contentLength: number, lastModifiedTime: number, etag: string | null, contentType: string | null) {
+        this.directory = directory;
+        this.contentLength = contentLength;
+        this.modified = FileTime.fromMillis(lastModifiedTime);
+        this.etag = etag;
+        this.mediaType = contentType;
+    }
+
+    public lastModifiedTime(): FileTime {
+        return this.modified;
+    }
+
+    /* The server gives the modification time only. */
+    public lastAccessTime(): FileTime {
+        return this.modified;
+    }
+
+    /* The server gives the modification time only. */
+    public creationTime(): FileTime {
+        return this.modified;
+    }
+
+    public isRegularFile(): boolean {
+        return !this.directory;
+    }
+
+    public isDirectory(): boolean {
+        return this.directory;
+    }
+
+    public isSymbolicLink(): boolean {
+        return false;
+    }
+
+    public isOther(): boolean {
+        return false;
+    }
+
+    public size(): bigint {
+        return BigInt(this.contentLength);
+    }
+
+    /* The ETag of the file, which changes with its content, null if the server does not give it. */
+    public fileKey(): string | null {
+        return this.etag;
+    }
+
+    /* The media type of the Content-Type header, null if the server does not give it. */
+    public contentType(): string | null {
+        return this.mediaType;
+    }
+}
@@ -0,0 +1,69 @@
+import {FileStore} from "../../FileStore";
+import {FileStoreAttributeView} from "../../attribute/FileStoreAttributeView";
+import {UnsupportedOperationException} from "../../../exception";
+import type {HttpFileSystem} from "./HttpFileSystem";
+
+const SUPPORTED_VIEWS = new Set<string>(["basic", "BasicFileAttributeView"]);
+
+/* The single file store of an http file system, read-only: the server does not tell its space. */
+export class HttpFileStore extends FileStore {
+    private readonly fileSystem: HttpFileSystem;
+
+    public constructor(fileSystem: HttpFileSystem) {
+        super();
+        this.fileSystem = fileSystem;
+    }
+
+    public name(): string {
+        return this.fileSystem.getOrigin();
+    }
+
+    public type(): string {
+        return "httpfs";
+    }
+
+    public isReadOnly(): boolean {
+        return true;
+    }
+
+    public getTotalSpace(): bigint {
+        return BigInt(0);
+    }
+
+    public getUsableSpace(): bigint {
+        return BigInt(0);
+    }
+
+    public getUnallocatedSpace(): bigint {
+        return BigInt(0);
+    }
+
+    public getBlockSize(): bigint {
+        throw new UnsupportedOperationException();
+    }
+
+    public supportsFileAttributeView(name: string): boolean {
+        return SUPPORTED_VIEWS.has(name);
+    }
+
+    public getFileStoreAttributeView(type: string): FileStoreAttributeView | null {
+        return null;
+    }
+
+    public getAttribute(attribute: string): any {
+        switch (attribute) {
+            case "totalSpace":
+                return this.getTotalSpace();
+            case "usableSpace":
+                return this.getUsableSpace();
+            case "unallocatedSpace":
+                return this.getUnallocatedSpace();
+            default:
+                throw new UnsupportedOperationException("'" + attribute + "' not recognized");
+        }
+    }
+
+    public toString(): string {
+        return this.name() + " (httpfs)";
+    }
+}
@@ -0,0 +1,137 @@
+import * as http from "http";
+import {ByteLengthQueuingStrategy, ReadableStream as WebReadableStream} from "stream/web";
+import {OpenOption} from "../../OpenOption";
+import {StandardOpenOption} from "../../StandardOpenOption";
+import {LinkOption} from "../../LinkOption";
+import {FileSystemException, ReadOnlyFileSystemException} from "../../exception";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {checkStatus} from "./HttpClient";
+import {HttpPath} from "./HttpPath";
+
+// size of the chunks queued by the stream
+const BUFFER_SIZE = 64 * 1024;
+
+function checkOptions(options: OpenOption[], file: string): void {
+    for (let option of options) {
+        switch (option) {
+            case StandardOpenOption.READ:
+            case StandardOpenOption.CREATE:
+            case StandardOpenOption.TRUNCATE_EXISTING:
+            case StandardOpenOption.SPARSE:
+            case StandardOpenOption.SYNC:
+            case StandardOpenOption.DSYNC:
+            case LinkOption.NOFOLLOW_LINKS:
+                // ignored when reading, the files have no links
+                break;
+            case StandardOpenOption.CREATE_NEW:
+            case StandardOpenOption.DELETE_ON_CLOSE:
+                throw new ReadOnlyFileSystemException(file);
+            default:
+                if (option == null)
+                    throw new NullPointerException();
+                throw new UnsupportedOperationException(option + " not supported");
+        }
+    }
+}
+
+/**
+ * Opens a file and returns a stream of its bytes, or of a range of its bytes, read with a GET request.
+ * A range is asked for with a Range header, bound to the ETag of the file by an If-Range header: a server
+ * that ignores the range, or whose file changed, sends the whole file and the bytes out of the range are skipped.
+ * @param {HttpPath} path - the file to read
+ * @param {OpenOption[]} options - the options specifying how the file is opened
+ * @param {number} position - the position of the first byte to read
+ * @param {number | null} length - the number of bytes to read, null to read up to the end of the file
+ * @returns A ReadableStream of Uint8Array chunks
+ * @throws NoSuchFileException if the file does not exist
+ * @throws FileSystemException if the file is a directory
+ * @throws ReadOnlyFileSystemException if an option would change the file
+ */
+export function newHttpInputStream(path: HttpPath, options: OpenOption[], position: number, length: number | null): ReadableStream<Uint8Array> {
+    const file = path.toString();
+    checkOptions(options, file);
+    if (!(position >= 0) || (length !== null && !(length >= 0)))
+        throw new IllegalArgumentException("Invalid range: " + position + ", " + length);
+    const fileSystem = path.getFileSystem();
+    const attrs = fileSystem.readAttributes(path);
+    if (attrs.isDirectory())
+        throw new FileSystemException(file, undefined, "Is a directory");
+    const headers: { [name: string]: string } = {};
+    if (position > 0 || length !== null) {
+        headers["range"] = "bytes=" + position + "-" + (length !== null ? position + length - 1 : "");
+        const etag = attrs.fileKey();
+        if (etag !== null) {
+            headers["if-range"] = etag;
+        }
+    }
+    let response: http.IncomingMessage | null = null;
+    let done = false;
+    return new WebReadableStream<Uint8Array>({
+        async start(controller) {
+            if (length === 0) {
+                controller.close();
+                done = true;
+                return;
+            }
+            const res = await fileSystem.get(path, headers);
+            response = res;
+            if (res.statusCode === 416) {
+                // the range starts after the end of the file
+                res.resume();
+                controller.close();
+                done = true;
+                return;
+            }
+            try {
+                checkStatus(res.statusCode as number, res.statusMessage ?? "", file);
+            } catch (e) {
+                res.resume();
+                throw e;
+            }
+            // the whole file, when the range is ignored
+            let skip = res.statusCode === 206 ? 0 : position;
+            let remaining = length ?? Infinity;
+            res.on("data", (chunk: Buffer) => {
+                if (done) {
+                    return;
+                }
+                if (skip > 0) {
+                    const skipped = Math.min(skip, chunk.length);
+                    skip -= skipped;
+                    chunk = chunk.subarray(skipped);
+                }
+                chunk = chunk.subarray(0, Math.min(chunk.length, remaining));
+                remaining -= chunk.length;
+                if (chunk.length > 0) {
+                    controller.enqueue(new Uint8Array(chunk));
+                }
+                if (remaining === 0) {
+                    done = true;
+                    controller.close();
+                    res.destroy();
+                } else if ((controller.desiredSize ?? 0) <= 0) {
+                    res.pause();
+                }
+            });
+            res.on("end", () => {
+                if (!done) {
+                    done = true;
+                    controller.close();
+                }
+            });
+            res.on("error", e => {
+                if (!done) {
+                    done = true;
+                    controller.error(new FileSystemException(file, undefined, e.message));
+                }
+            });
+        },
+        pull() {
+            response?.resume();
+        },
+        cancel() {
+            done = true;
+            response?.destroy();
+        },
+    }, new ByteLengthQueuingStrategy({highWaterMark: BUFFER_SIZE}));
+}
@@ -0,0 +1,202 @@
+import * as http from "http";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {FileStore} from "../../FileStore";
+import {PathMatcher} from "../../PathMatcher";
+import {UserPrincipalLookupService} from "../../attribute";
+import {PathMatchers} from "../../spi/PathMatchers";
+import {ClosedFileSystemException, NotDirectoryException} from "../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
+import {Objects} from "../../../utils";
+import {checkStatus, requestAsync, requestSync} from "./HttpClient";
+import {parseDirectoryListing} from "./HttpDirectoryListing";
+import {HttpFileAttributes} from "./HttpFileAttributes";
+import {HttpFileStore} from "./HttpFileStore";
+import {HttpPath} from "./HttpPath";
+import type {HttpFileSystemProvider} from "./HttpFileSystemProvider";
+
+// the timeout of the connections and of the responses
+const DEFAULT_TIMEOUT = 30000;
+// the maximum size of a directory listing
+const MAX_LISTING_SIZE = 8 * 1024 * 1024;
+
+/* Returns the headers of the environment, given as a Map or as an object. */
+function toHeaders(value: any): { [name: string]: string } {
+    if (value === undefined || value === null) {
+        return {};
+    }
+    const entries: [string, any][] = value instanceof Map ? [...value.entries()] : Object.entries(value);
+    const headers: { [name: string]: string } = {};
+    for (const [name, header] of entries) {
+        headers[name.toLowerCase()] = String(header);
+    }
+    return headers;
+}
+
+function getHeader(response: { headers: { [name: string]: string | string[] | undefined } }, name: string): string | null {
+    const value = response.headers[name];
+    return value === undefined ? null : Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * A read-only file system over the files of an http or https origin, such as {@code https://example.com:8443}.
+ * The attributes of a file are read with a HEAD request, its content with a GET request, and the entries of a
+ * directory are parsed from the HTML listing of the URL of the directory ending with a slash.
+ *
+ * <p> The environment of {@link FileSystems#newFileSystem} may give the {@code headers} sent with each
+ * request, such as {@code Authorization}, as a Map or an object, and the {@code timeout} of the requests in
+ * milliseconds, 30 seconds by default. The file systems of the origins that are not created this way are
+ * created with the default environment when their paths are first asked for.
+ *
+ * <p> The attributes and the listings are needed before the synchronous operations return: their requests
+ * block the calling thread until the response, see {@link requestSync}.
+ */
+export class HttpFileSystem extends FileSystem {
+    private readonly fileSystemProvider: HttpFileSystemProvider;
+    private readonly origin: string;
+    private readonly headers: { [name: string]: string };
+    private readonly timeout: number;
+    private readonly store: HttpFileStore;
+    private open: boolean = true;
+
+    /**
+     * Creates the file system of an origin.
+     * @param {HttpFileSystemProvider} provider - the provider
+     * @param {string} origin - the scheme, host and port of the URLs of the file system
+     * @param {Map<string, any>} env - the headers and the timeout of the requests
+     * @throws IllegalArgumentException if the timeout is not a positive number
+     */
+    public constructor(provider: HttpFileSystemProvider, origin: string, env: Map<string, any>) {
+        super();
+        this.fileSystemProvider = provider;
+        this.origin = origin;
+        this.headers = toHeaders(env.get("headers"));
+        this.timeout = Number(env.get("timeout") ?? DEFAULT_TIMEOUT);
+        if (!(this.timeout > 0))
+            throw new IllegalArgumentException("Invalid timeout: " + env.get("timeout"));
+        this.store = new HttpFileStore(this);
+    }
+
+    public provider(): HttpFileSystemProvider {
+        return this.fileSystemProvider;
+    }
+
+    /* Returns the origin of the URLs of this file system, its key in its provider. */
+    public getOrigin(): string {
+        return this.origin;
+    }
+
+    public close(): void {
+        if (this.open) {
+            this.open = false;
+            this.fileSystemProvider.removeFileSystem(this);
+        }
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public isReadOnly(): boolean {
+        return true;
+    }
+
+    public getSeparator(): string {
+        return "/";
+    }
+
+    public getRootDirectories(): Iterable<Path> {
+        return [this.getPath("/")];
+    }
+
+    public getFileStores(): Iterable<FileStore> {
+        return [this.store];
+    }
+
+    public getFileStore(): HttpFileStore {
+        return this.store;
+    }
+
+    public supportedFileAttributeViews(): Set<string> {
+        return new Set<string>(["basic"]);
+    }
+
+    public getPathMatcher(syntaxAndPattern: string): PathMatcher {
+        return PathMatchers.getPathMatcher(syntaxAndPattern, "/");
+    }
+
+    public getUserPrincipalLookupService(): UserPrincipalLookupService {
+        throw new UnsupportedOperationException();
+    }
+
+    public getPath(first: string, more?: string[]): HttpPath {
+        Objects.requireNonNullUndefined(first);
+        const names = [first, ...(more ?? [])].filter(name => name.length > 0);
+        return new HttpPath(this, names.join("/"));
+    }
+
+    public checkOpen(): void {
+        if (!this.open)
+            throw new ClosedFileSystemException();
+    }
+
+    /* Returns the URL of a path, ending with a slash for a directory. */
+    private toUrl(path: HttpPath, directory: boolean): string {
+        const url = path.toURL().href;
+        return directory && !url.endsWith("/") ? url + "/" : url;
+    }
+
+    /**
+     * Reads the attributes of a file with a HEAD request.
+     * @param {HttpPath} path - the file
+     * @throws NoSuchFileException if the server answers 404 or 410
+     * @throws AccessDeniedException if the server answers 401 or 403
+     * @throws FileSystemException if the server answers another error, or does not answer
+     */
+    public readAttributes(path: HttpPath): HttpFileAttributes {
+        this.checkOpen();
+        const file = path.toString();
+        const response = requestSync({url: this.toUrl(path, false), method: "HEAD", headers: this.headers, timeout: this.timeout, maxBodySize: 0}, file);
+        checkStatus(response.status, response.statusText, file);
+        const absolute = path.toAbsolutePath().normalize();
+        return new HttpFileAttributes(
+            absolute.getNameCount() === 0 || new URL(response.url).pathname.endsWith("/"),
+            Number(getHeader(response, "content-length") ?? 0),
+            Date.parse(getHeader(response, "last-modified") ?? "") || 0,
+            getHeader(response, "etag"),
+            getHeader(response, "content-type"),
+        );
+    }
+
+    /**
+     * Reads the names of the entries of a directory from its HTML listing.
+     * @param {HttpPath} dir - the directory
+     * @throws NoSuchFileException if the directory does not exist
+     * @throws NotDirectoryException if the file is not a directory, or the server does not list it
+     * @throws FileSystemException if the server answers an error, or does not answer
+     */
+    public list(dir: HttpPath): string[] {
+        const file = dir.toString();
+        if (!this.readAttributes(dir).isDirectory())
+            throw new NotDirectoryException(file);
+        const response = requestSync({url: this.toUrl(dir, true), method: "GET", headers: this.headers, timeout: this.timeout, maxBodySize: MAX_LISTING_SIZE}, file);
+        checkStatus(response.status, response.statusText, file);
+        if (!(getHeader(response, "content-type") ?? "").toLowerCase().includes("html"))
+            throw new NotDirectoryException(file);
+        return parseDirectoryListing(response.body ?? "", new URL(response.url));
+    }
+
+    /**
+     * Sends a GET request for the content of a file, whose body is read by the caller.
+     * @param {HttpPath} path - the file
+     * @param {Object} headers - the headers of the request, added to the headers of the file system
+     */
+    public get(path: HttpPath, headers: { [name: string]: string }): Promise<http.IncomingMessage> {
+        this.checkOpen();
+        return requestAsync({url: this.toUrl(path, false), method: "GET", headers: {...this.headers, ...headers}, timeout: this.timeout, maxBodySize: 0}, path.toString());
+    }
+
+    public toString(): string {
+        return this.origin;
+    }
+}
@@ -0,0 +1,220 @@
+import {FileAttributeDispatcher, FileSystemProvider, FileSystemRegistry, SnapshotDirectoryStream} from "../../spi";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {AccessMode} from "../../AccessMode";
+import {CopyOption} from "../../CopyOption";
+import {OpenOption} from "../../OpenOption";
+import {LinkOption} from "../../LinkOption";
+import {DirectoryStream} from "../../DirectoryStream";
+import {BasicFileAttributes, FileAttribute, FileAttributeView} from "../../attribute";
+import {copyToForeignTarget} from "../../CopyMoveHelper";
+import {
+    AccessDeniedException,
+    FileSystemAlreadyExistsException,
+    NotLinkException,
+    ReadOnlyFileSystemException,
+} from "../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
+import {HttpPath} from "./HttpPath";
+import {HttpFileSystem} from "./HttpFileSystem";
+import {HttpFileStore} from "./HttpFileStore";
+import {newHttpInputStream} from "./HttpFileStreams";
+import {HttpBasicFileAttributeView} from "./HttpFileAttributeViews";
+
+/**
+ * The provider of the http or the https file systems, identified by the URLs of their files such as
+ * {@code https://example.com/dir/file.bin}. There is a file system per origin, created by
+ * {@link FileSystems#newFileSystem} with the headers and the timeout of its requests, or with the default
+ * environment when a path is first asked for. The file systems are read-only. The providers do network
+ * I/O, none is installed unless the application adds them to {@link FileSystemProviders}, one per scheme.
+ */
+export class HttpFileSystemProvider extends FileSystemProvider {
+    private readonly scheme: string;
+    private readonly fileSystems = new FileSystemRegistry<HttpFileSystem>();
+    private readonly attributes: FileAttributeDispatcher = new FileAttributeDispatcher()
+        .registerBasicView(path => new HttpBasicFileAttributeView(HttpPath.toHttpPath(path)));
+
+    /**
+     * Creates the provider of a scheme.
+     * @param {string} scheme - "http" or "https"
+     */
+    public constructor(scheme: "http" | "https") {
+        super();
+        this.scheme = scheme;
+    }
+
+    public getScheme(): string {
+        return this.scheme;
+    }
+
+    /**
+     * Returns the origin of a URL.
+     * @throws IllegalArgumentException if the scheme of the URL is not the scheme of the provider
+     */
+    private originOf(url: URL): string {
+        if (url.protocol.toLowerCase() !== this.scheme + ":")
+            throw new IllegalArgumentException("URL scheme is not \"" + this.scheme + "\"");
+        return url.origin;
+    }
+
+    /**
+     * Creates the file system of the origin of a URL, the environment may give the {@code headers} and the
+     * {@code timeout} of its requests.
+     * @throws FileSystemAlreadyExistsException if the file system of the origin is already open
+     * @throws IllegalArgumentException if the timeout is not a positive number
+     */
+    public newFileSystemFromUrl(url: URL, env: Map<string, any>): FileSystem {
+        const origin = this.originOf(url);
+        if (this.fileSystems.find(origin) !== null)
+            throw new FileSystemAlreadyExistsException(origin);
+        return this.fileSystems.register(origin, new HttpFileSystem(this, origin, env));
+    }
+
+    public getFileSystem(url: URL): HttpFileSystem {
+        const origin = this.originOf(url);
+        return this.fileSystems.find(origin) ?? this.fileSystems.register(origin, new HttpFileSystem(this, origin, new Map<string, any>()));
+    }
+
+    /**
+     * Returns the path of a URL in the file system of its origin.
+     * @throws IllegalArgumentException if the URL has a query or credentials
+     */
+    public getPath(url: URL): HttpPath {
+        if (url.search !== "" || url.username !== "" || url.password !== "")
+            throw new IllegalArgumentException("URL has a query or credentials");
+        const path = url.pathname.split("/").map(decodeURIComponent).join("/");
+        return this.getFileSystem(url).getPath(path);
+    }
+
+    /* Forgets a closed file system. */
+    public removeFileSystem(fileSystem: HttpFileSystem): void {
+        this.fileSystems.deregister(fileSystem.getOrigin(), fileSystem);
+    }
+
+    protected newInputStreamImpl(path: Path, options?: OpenOption[]): ReadableStream {
+        return newHttpInputStream(HttpPath.toHttpPath(path), options ?? [], 0, null);
+    }
+
+    /**
+     * Opens a file and returns a stream of a range of its bytes, read with a Range request.
+     * @param {Path} path - the file to read
+     * @param {number} position - the position of the first byte to read
+     * @param {number} [length] - the number of bytes to read, up to the end of the file by default
+     * @param {OpenOption[]} [options] - the options specifying how the file is opened
+     * @returns A ReadableStream of the bytes of the range, shorter if the file ends before the range
+     * @throws NoSuchFileException if the file does not exist
+     * @throws IllegalArgumentException if the position or the length is negative
+     */
+    public newRangeInputStream(path: Path, position: number, length?: number, options?: OpenOption[]): ReadableStream {
+        return newHttpInputStream(HttpPath.toHttpPath(path), options ?? [], position, length ?? null);
+    }
+
+    protected newOutputStreamImpl(path: Path, options?: OpenOption[]): WritableStream {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(path).toString());
+    }
+
+    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
+        const file = HttpPath.toHttpPath(dir);
+        return new SnapshotDirectoryStream(file, file.getFileSystem().list(file), acceptFilter);
+    }
+
+    public createFile(path: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(path).toString());
+    }
+
+    public createDirectory(dir: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(dir).toString());
+    }
+
+    public createSymbolicLink(link: Path, target: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(link).toString());
+    }
+
+    public createLink(link: Path, existing: Path): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(link).toString());
+    }
+
+    /* The redirections are followed, they are not links. */
+    public readSymbolicLink(link: Path): Path {
+        throw new NotLinkException(HttpPath.toHttpPath(link).toString());
+    }
+
+    public delete(path: Path): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(path).toString());
+    }
+
+    public getFileStore(path: Path): HttpFileStore {
+        const file = HttpPath.toHttpPath(path);
+        file.getFileSystem().readAttributes(file);
+        return file.getFileSystem().getFileStore();
+    }
+
+    /* The files the server answers can be read, but not written. */
+    public checkAccess(obj: Path, modes?: AccessMode[]): void {
+        const file = HttpPath.toHttpPath(obj);
+        file.getFileSystem().readAttributes(file);
+        if (modes && modes.includes(AccessMode.WRITE))
+            throw new AccessDeniedException(file.toString());
+    }
+
+    /* Downloads a file to another file system. */
+    public async copy(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = HttpPath.toHttpPath(source);
+        if (target instanceof HttpPath)
+            throw new ReadOnlyFileSystemException(target.toString());
+        sourceFile.getFileSystem().checkOpen();
+        return copyToForeignTarget(source, target, options);
+    }
+
+    public async move(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(source).toString());
+    }
+
+    public isHidden(obj: Path): boolean {
+        HttpPath.toHttpPath(obj);
+        const name = obj.getFileName()?.toString();
+        // "." and ".." are not hidden files but references to directories
+        return !!name && name.startsWith(".") && name !== "." && name !== "..";
+    }
+
+    /* Two paths are the same file if they are the same URL, the redirections are not compared. */
+    public isSameFile(obj1: Path, obj2: Path): boolean {
+        const file1 = HttpPath.toHttpPath(obj1);
+        if (!(obj2 instanceof HttpPath) || obj2.getFileSystem() !== file1.getFileSystem()) {
+            return false;
+        }
+        return file1.toAbsolutePath().normalize().equals(obj2.toAbsolutePath().normalize());
+    }
+
+    public readAttributesByType(path: Path, type?: string, options?: LinkOption[]): BasicFileAttributes {
+        const file = HttpPath.toHttpPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributes":
+                return new HttpBasicFileAttributeView(file).readAttributes();
+            default:
+                throw new UnsupportedOperationException();
+        }
+    }
+
+    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
+        const file = HttpPath.toHttpPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributeView":
+                return new HttpBasicFileAttributeView(file);
+            default:
+                return null;
+        }
+    }
+
+    public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
+        return this.attributes.readAttributes(path, attributes, options);
+    }
+
+    public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
+        throw new ReadOnlyFileSystemException(HttpPath.toHttpPath(path).toString());
+    }
+}
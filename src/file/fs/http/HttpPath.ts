@@ -0,0 +1,44 @@
+import {Path} from "../../Path";
+import {LinkOption} from "../../LinkOption";
+import {UnixPath} from "../../spi/UnixPath";
+import {ProviderMismatchException} from "../../exception";
+import {NullPointerException} from "../../../exception";
+import type {HttpFileSystem} from "./HttpFileSystem";
+
+/* A path of an http file system, the path of the URLs of its origin; the relative paths are resolved against the root. */
+export class HttpPath extends UnixPath {
+
+    public constructor(fileSystem: HttpFileSystem, path: string) {
+        super(fileSystem, path);
+    }
+
+    public static toHttpPath(path: Path): HttpPath {
+        if (path == null)
+            throw new NullPointerException();
+        if (!(path instanceof HttpPath)) {
+            throw new ProviderMismatchException();
+        }
+        return path;
+    }
+
+    protected newPath(path: string): HttpPath {
+        return new HttpPath(this.getFileSystem(), path);
+    }
+
+    public getFileSystem(): HttpFileSystem {
+        return super.getFileSystem() as HttpFileSystem;
+    }
+
+    /* The absolute normalized path, once its existence is checked; the redirections of the server are not followed. */
+    public toRealPath(options?: LinkOption[]): Path {
+        const path = this.toAbsolutePath().normalize() as HttpPath;
+        this.getFileSystem().readAttributes(path);
+        return path;
+    }
+
+    /* The URL of the origin of the file system followed by the absolute path. */
+    public toURL(): URL {
+        const path = this.toAbsolutePath().normalize().toString().split("/").map(encodeURIComponent).join("/");
+        return new URL(path, this.getFileSystem().getOrigin());
+    }
+}
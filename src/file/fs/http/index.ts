@@ -0,0 +1,6 @@
+export * from "./HttpFileSystem"
+export * from "./HttpFileSystemProvider"
+export * from "./HttpPath"
+export * from "./HttpFileStore"
+export * from "./HttpFileAttributes"
+export * from "./HttpFileAttributeViews"
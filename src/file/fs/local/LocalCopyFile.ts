@@ -0,0 +1,248 @@
+import * as fs from "fs";
+import {CopyOption} from "../../CopyOption";
+import {StandardCopyOption} from "../../StandardCopyOption";
+import {LinkOption} from "../../LinkOption";
+import {NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {AtomicMoveNotSupportedException, DirectoryNotEmptyException, FileAlreadyExistsException, FileSystemException} from "../../exception";
+import {isErrnoException, translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalPath} from "./LocalPath";
+
+/* The copy and move options, decoded. */
+class Flags {
+    replaceExisting: boolean = false;
+    atomicMove: boolean = false;
+    followLinks: boolean = true;
+    copyAttributes: boolean = false;
+
+    private constructor() {
+    }
+
+    public static fromCopyOptions(options?: CopyOption[]): Flags {
+        const flags = new Flags();
+        for (let option of options ?? []) {
+            if (option === StandardCopyOption.REPLACE_EXISTING) {
+                flags.replaceExisting = true;
+                continue;
+            }
+            if (option === LinkOption.NOFOLLOW_LINKS) {
+                flags.followLinks = false;
+                continue;
+            }
+            if (option === StandardCopyOption.COPY_ATTRIBUTES) {
+                flags.copyAttributes = true;
+                continue;
+            }
+            if (option == null)
+                throw new NullPointerException();
+            throw new UnsupportedOperationException("Unsupported copy option: " + option);
+        }
+        return flags;
+    }
+
+    public static fromMoveOptions(options?: CopyOption[]): Flags {
+        const flags = new Flags();
+        for (let option of options ?? []) {
+            if (option === StandardCopyOption.ATOMIC_MOVE) {
+                flags.atomicMove = true;
+                continue;
+            }
+            if (option === StandardCopyOption.REPLACE_EXISTING) {
+                flags.replaceExisting = true;
+                continue;
+            }
+            if (option === LinkOption.NOFOLLOW_LINKS) {
+                // ignore
+                continue;
+            }
+            if (option == null)
+                throw new NullPointerException();
+            throw new UnsupportedOperationException("Unsupported copy option: " + option);
+        }
+        // a move copies all attributes, links are never followed
+        flags.followLinks = false;
+        flags.copyAttributes = true;
+        return flags;
+    }
+}
+
+function lstatIfExists(file: string): fs.Stats | undefined {
+    try {
+        return fs.lstatSync(file);
+    } catch (e) {
+        if (isErrnoException(e) && e.code === "ENOENT") {
+            return undefined;
+        }
+        throw translateToIOException(e, file);
+    }
+}
+
+function isSameFile(a: fs.Stats, b: fs.Stats): boolean {
+    return a.dev === b.dev && a.ino === b.ino;
+}
+
+function deleteFile(file: string, stats: fs.Stats): void {
+    try {
+        if (stats.isDirectory()) {
+            fs.rmdirSync(file);
+        } else {
+            fs.unlinkSync(file);
+        }
+    } catch (e) {
+        if (isErrnoException(e) && (e.code === "ENOTEMPTY" || e.code === "EEXIST")) {
+            throw new DirectoryNotEmptyException(file);
+        }
+        throw translateToIOException(e, file);
+    }
+}
+
+/**
+ * Removes an existing target, or fails when the target exists and
+ * REPLACE_EXISTING was not requested.
+ * @returns true if the operation is a no-op because source and target are the same file
+ */
+function prepareTarget(sourceStats: fs.Stats, target: string, flags: Flags): boolean {
+    const targetStats = lstatIfExists(target);
+    if (targetStats) {
+        if (isSameFile(sourceStats, targetStats)) {
+            return true;
+        }
+        if (!flags.replaceExisting) {
+            throw new FileAlreadyExistsException(target);
+        }
+        deleteFile(target, targetStats);
+    }
+    return false;
+}
+
+function copyAttributes(stats: fs.Stats, target: string): void {
+    if (stats.isSymbolicLink()) {
+        fs.lutimesSync(target, stats.atime, stats.mtime);
+        return;
+    }
+    try {
+        fs.chownSync(target, stats.uid, stats.gid);
+    } catch (ignore) {
+        // only the superuser may give away a file
+    }
+    fs.chmodSync(target, stats.mode & 0o7777);
+    fs.utimesSync(target, stats.atime, stats.mtime);
+}
+
+/**
+ * Copies a single file, directory (without its entries) or link.
+ */
+function copyEntry(source: string, stats: fs.Stats, target: string, flags: Flags): void {
+    try {
+        if (stats.isDirectory()) {
+            fs.mkdirSync(target, {mode: stats.mode & 0o7777});
+        } else if (stats.isSymbolicLink()) {
+            fs.symlinkSync(fs.readlinkSync(source), target);
+        } else if (stats.isFile()) {
+            fs.copyFileSync(source, target, fs.constants.COPYFILE_EXCL);
+        } else {
+            throw new FileSystemException(source, target, "Copying of special files is not supported");
+        }
+    } catch (e) {
+        throw translateToIOException(e, source, target);
+    }
+    if (flags.copyAttributes) {
+        try {
+            copyAttributes(stats, target);
+        } catch (e) {
+            // rollback
+            try {
+                deleteFile(target, stats);
+            } catch (ignore) {
+                // best effort
+            }
+            throw translateToIOException(e, target);
+        }
+    }
+}
+
+/**
+ * Copies a file on the local file system. A directory is copied without its entries,
+ * a symbolic link is copied as a link when links are not followed.
+ * @param {LocalPath} source - the file to copy
+ * @param {LocalPath} target - the target file
+ * @param {CopyOption[]} [options] - the copy options
+ */
+export async function copyLocalFile(source: LocalPath, target: LocalPath, options?: CopyOption[]): Promise<void> {
+    const flags = Flags.fromCopyOptions(options);
+    const sourceFile = source.toString();
+    const targetFile = target.toString();
+
+    let stats: fs.Stats;
+    try {
+        stats = flags.followLinks ? fs.statSync(sourceFile) : fs.lstatSync(sourceFile);
+    } catch (e) {
+        throw translateToIOException(e, sourceFile);
+    }
+    if (prepareTarget(stats, targetFile, flags)) {
+        return;
+    }
+    copyEntry(sourceFile, stats, targetFile, flags);
+}
+
+/**
+ * Moves a file on the local file system. A rename is attempted first, when the target
+ * is on another device the file is copied then deleted, unless ATOMIC_MOVE is requested.
+ * @param {LocalPath} source - the file to move
+ * @param {LocalPath} target - the target file
+ * @param {CopyOption[]} [options] - the move options
+ */
+export async function moveLocalFile(source: LocalPath, target: LocalPath, options?: CopyOption[]): Promise<void> {
+    const flags = Flags.fromMoveOptions(options);
+    const sourceFile = source.toString();
+    const targetFile = target.toString();
+
+    // rename is atomic, an existing target is replaced
+    if (flags.atomicMove) {
+        try {
+            fs.renameSync(sourceFile, targetFile);
+        } catch (e) {
+            if (isErrnoException(e) && e.code === "EXDEV") {
+                throw new AtomicMoveNotSupportedException(sourceFile, targetFile, e.message);
+            }
+            throw translateToIOException(e, sourceFile, targetFile);
+        }
+        return;
+    }
+
+    let stats: fs.Stats;
+    try {
+        stats = fs.lstatSync(sourceFile);
+    } catch (e) {
+        throw translateToIOException(e, sourceFile);
+    }
+    if (prepareTarget(stats, targetFile, flags)) {
+        return;
+    }
+
+    try {
+        fs.renameSync(sourceFile, targetFile);
+        return;
+    } catch (e) {
+        if (!isErrnoException(e) || e.code !== "EXDEV") {
+            throw translateToIOException(e, sourceFile, targetFile);
+        }
+    }
+
+    // the target is on another device: copy then delete. The entries of a
+    // directory cannot be moved this way
+    if (stats.isDirectory() && fs.readdirSync(sourceFile).length > 0) {
+        throw new DirectoryNotEmptyException(sourceFile);
+    }
+    copyEntry(sourceFile, stats, targetFile, flags);
+    try {
+        deleteFile(sourceFile, stats);
+    } catch (e) {
+        // rollback
+        try {
+            deleteFile(targetFile, stats);
+        } catch (ignore) {
+            // best effort
+        }
+        throw e;
+    }
+}
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import {DirectoryStream} from "../../DirectoryStream";
+import {Path} from "../../Path";
+import {DirectoryIteratorException} from "../../exception";
+import {IllegalStateException, IOException} from "../../../exception";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalPath} from "./LocalPath";
+
+/**
+ * A directory stream reading the entries of a local directory one at a time, so that
+ * huge directories are never loaded in memory.
+ */
+export class LocalDirectoryStream implements DirectoryStream<Path> {
+    private readonly dir: LocalPath;
+    private readonly handle: fs.Dir;
+    private readonly filter: (path: Path) => boolean;
+    private iterator: LocalDirectoryIterator | null = null;
+    private closed: boolean = false;
+
+    private constructor(dir: LocalPath, handle: fs.Dir, filter: (path: Path) => boolean) {
+        this.dir = dir;
+        this.handle = handle;
+        this.filter = filter;
+    }
+
+    /**
+     * Opens the given directory.
+     * @param {LocalPath} dir - the directory to open
+     * @param filter - the filter applied to each entry
+     * @returns A new directory stream
+     */
+    public static open(dir: LocalPath, filter: (path: Path) => boolean): LocalDirectoryStream {
+        const file = dir.toString();
+        let handle: fs.Dir;
+        try {
+            handle = fs.opendirSync(file.length === 0 ? "." : file);
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
+        return new LocalDirectoryStream(dir, handle, filter);
+    }
+
+    public directory(): LocalPath {
+        return this.dir;
+    }
+
+    public isOpen(): boolean {
+        return !this.closed;
+    }
+
+    public close(): void {
+        if (!this.closed) {
+            this.closed = true;
+            try {
+                this.handle.closeSync();
+            } catch (e) {
+                throw translateToIOException(e, this.dir.toString());
+            }
+        }
+    }
+
+    /**
+     * Reads the next entry accepted by the filter.
+     * @returns The next entry or null when the end of the directory has been reached.
+     * @throws IOException if an I/O error occurs
+     */
+    public readNextEntry(): Path | null {
+        while (!this.closed) {
+            let entry: fs.Dirent | null;
+            try {
+                entry = this.handle.readSync();
+            } catch (e) {
+                throw translateToIOException(e, this.dir.toString());
+            }
+            if (entry === null) {
+                return null;
+            }
+            if (entry.name === "." || entry.name === "..") {
+                continue;
+            }
+            const path = this.dir.getFileSystem().getPath(this.dir.toString(), [entry.name]);
+            if (this.filter(path)) {
+                return path;
+            }
+        }
+        return null;
+    }
+
+    public [Symbol.iterator](): Iterator<Path> {
+        if (this.closed) {
+            throw new IllegalStateException("Directory stream is closed");
+        }
+        if (this.iterator) {
+            throw new IllegalStateException("Iterator already obtained");
+        }
+        this.iterator = new LocalDirectoryIterator(this);
+        return this.iterator;
+    }
+}
+
+/* The single iterator of a LocalDirectoryStream. */
+class LocalDirectoryIterator implements Iterator<Path> {
+    private readonly stream: LocalDirectoryStream;
+    private atEof: boolean = false;
+
+    constructor(stream: LocalDirectoryStream) {
+        this.stream = stream;
+    }
+
+    public next(): IteratorResult<Path> {
+        if (!this.atEof) {
+            let entry: Path | null;
+            try {
+                entry = this.stream.readNextEntry();
+            } catch (e) {
+                if (e instanceof IOException) {
+                    throw new DirectoryIteratorException(e);
+                }
+                throw e;
+            }
+            if (entry) {
+                return {value: entry, done: false};
+            }
+            this.atEof = true;
+        }
+        return {value: undefined, done: true};
+    }
+}
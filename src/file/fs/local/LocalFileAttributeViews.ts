@@ -0,0 +1,190 @@
+import * as fs from "fs";
+import {
+    BasicFileAttributeView,
+    FileTime,
+    GroupPrincipal,
+    PosixFileAttributeView,
+    PosixFilePermission,
+    UserPrincipal,
+} from "../../attribute";
+import {FileSystemException} from "../../exception";
+import {AttributesBuilder, PosixFileAttributeViewAdapter} from "../../spi";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalFileAttributes} from "./LocalFileAttributes";
+import {toUnixMode} from "../../spi/UnixFileModes";
+import {LocalUser} from "./LocalUserPrincipals";
+
+/* The "basic" attribute view of a local file. */
+export class LocalBasicFileAttributeView implements BasicFileAttributeView {
+    protected readonly file: string;
+    protected readonly followLinks: boolean;
+
+    public constructor(file: string, followLinks: boolean) {
+        this.file = file;
+        this.followLinks = followLinks;
+    }
+
+    public name(): string {
+        return "basic";
+    }
+
+    public readAttributes(): LocalFileAttributes {
+        return LocalFileAttributes.get(this.file, this.followLinks);
+    }
+
+    /**
+     * Updates the last modified and last access times, a time not given keeps its
+     * current value. The creation time cannot be changed and is ignored.
+     */
+    public setTimes(lastModifiedTime?: FileTime, lastAccessTime?: FileTime, createTime?: FileTime): void {
+        if (!lastModifiedTime && !lastAccessTime) {
+            // no effect
+            return;
+        }
+        if (!lastModifiedTime || !lastAccessTime) {
+            const attrs = this.readAttributes();
+            lastModifiedTime = lastModifiedTime ?? attrs.lastModifiedTime();
+            lastAccessTime = lastAccessTime ?? attrs.lastAccessTime();
+        }
+        // times are given in seconds to keep the sub-millisecond part
+        const atime = Number(lastAccessTime.toNanos()) / 1e9;
+        const mtime = Number(lastModifiedTime.toNanos()) / 1e9;
+        try {
+            if (this.followLinks) {
+                fs.utimesSync(this.file, atime, mtime);
+            } else {
+                fs.lutimesSync(this.file, atime, mtime);
+            }
+        } catch (e) {
+            throw translateToIOException(e, this.file);
+        }
+    }
+}
+
+/* The "posix" attribute view of a local file, also used as its "owner" view. */
+export class LocalPosixFileAttributeView extends LocalBasicFileAttributeView implements PosixFileAttributeView {
+
+    public constructor(file: string, followLinks: boolean) {
+        super(file, followLinks);
+    }
+
+    public name(): string {
+        return "posix";
+    }
+
+    public setPermissions(perms: Set<PosixFilePermission>): void {
+        this.setMode(toUnixMode(perms));
+    }
+
+    /**
+     * Changes the mode of the file, including the set-user-ID, set-group-ID and sticky bits.
+     * @param {number} mode - the new mode
+     */
+    public setMode(mode: number): void {
+        try {
+            if (this.followLinks) {
+                fs.chmodSync(this.file, mode);
+            } else if (!this.readAttributes().isSymbolicLink()) {
+                fs.chmodSync(this.file, mode);
+            } else if (typeof fs.lchmodSync === "function") {
+                // only available on macOS
+                fs.lchmodSync(this.file, mode);
+            } else {
+                throw new FileSystemException(this.file, undefined, "Cannot change the permissions of a symbolic link");
+            }
+        } catch (e) {
+            throw translateToIOException(e, this.file);
+        }
+    }
+
+    public getOwner(): UserPrincipal {
+        return this.readAttributes().owner();
+    }
+
+    public setOwner(owner: UserPrincipal): void {
+        const user = LocalUser.toLocalUser(owner);
+        if (user.isGroup()) {
+            throw new FileSystemException(this.file, undefined, "'owner' parameter can't be a group");
+        }
+        this.chown(user.uid(), -1);
+    }
+
+    public setGroup(group: GroupPrincipal): void {
+        const user = LocalUser.toLocalUser(group);
+        if (!user.isGroup()) {
+            throw new FileSystemException(this.file, undefined, "'" + group.getName() + "' is not a group");
+        }
+        this.chown(-1, user.gid());
+    }
+
+    /**
+     * Changes the owner and group of the file, an id of -1 is left unchanged.
+     * @param {number} uid - the new user id
+     * @param {number} gid - the new group id
+     */
+    public chown(uid: number, gid: number): void {
+        try {
+            if (this.followLinks) {
+                fs.chownSync(this.file, uid, gid);
+            } else {
+                fs.lchownSync(this.file, uid, gid);
+            }
+        } catch (e) {
+            throw translateToIOException(e, this.file);
+        }
+    }
+}
+
+/* The "unix" attribute view of a local file, the posix attributes with the raw stat(2) fields. */
+export class LocalUnixFileAttributeView extends PosixFileAttributeViewAdapter {
+    private static readonly UNIX_ATTRIBUTE_NAMES = new Set<string>([
+        ...PosixFileAttributeViewAdapter.POSIX_ATTRIBUTE_NAMES,
+        "mode", "ino", "dev", "rdev", "nlink", "uid", "gid", "ctime",
+    ]);
+    private readonly localView: LocalPosixFileAttributeView;
+
+    public constructor(file: string, followLinks: boolean) {
+        const view = new LocalPosixFileAttributeView(file, followLinks);
+        super(view);
+        this.localView = view;
+    }
+
+    public name(): string {
+        return "unix";
+    }
+
+    protected attributeNames(): Set<string> {
+        return LocalUnixFileAttributeView.UNIX_ATTRIBUTE_NAMES;
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(this.attributeNames(), attributes, this.name());
+        const attrs = this.localView.readAttributes();
+        this.addPosixAttributes(attrs, builder);
+        builder.add("mode", attrs.mode());
+        builder.add("ino", attrs.ino());
+        builder.add("dev", attrs.dev());
+        builder.add("rdev", attrs.rdev());
+        builder.add("nlink", attrs.nlink());
+        builder.add("uid", attrs.uid());
+        builder.add("gid", attrs.gid());
+        builder.add("ctime", attrs.ctime());
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        switch (attribute) {
+            case "mode":
+                this.localView.setMode(value);
+                break;
+            case "uid":
+                this.localView.chown(value, -1);
+                break;
+            case "gid":
+                this.localView.chown(-1, value);
+                break;
+            default:
+                super.setAttribute(attribute, value);
+        }
+    }
+}
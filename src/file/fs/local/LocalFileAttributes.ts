@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import {FileTime, GroupPrincipal, PosixFileAttributes, PosixFilePermission, UserPrincipal} from "../../attribute";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {toPosixFilePermissions} from "../../spi/UnixFileModes";
+import {LocalUser} from "./LocalUserPrincipals";
+import {LocalFileKey} from "./LocalFileKey";
+
+/* The attributes of a local file, read with a single stat(2) call. */
+export class LocalFileAttributes implements PosixFileAttributes {
+    private readonly stats: fs.BigIntStats;
+
+    private constructor(stats: fs.BigIntStats) {
+        this.stats = stats;
+    }
+
+    /**
+     * Reads the attributes of a file.
+     * @param {string} file - the file
+     * @param {boolean} followLinks - false to read the attributes of a link rather than of its target
+     * @returns The attributes of the file
+     * @throws IOException if an I/O error occurs
+     */
+    public static get(file: string, followLinks: boolean): LocalFileAttributes {
+        try {
+            const stats = followLinks ? fs.statSync(file, {bigint: true}) : fs.lstatSync(file, {bigint: true});
+            return new LocalFileAttributes(stats);
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
+    }
+
+    public mode(): number {
+        return Number(this.stats.mode);
+    }
+
+    public ino(): bigint {
+        return this.stats.ino;
+    }
+
+    public dev(): bigint {
+        return this.stats.dev;
+    }
+
+    public rdev(): bigint {
+        return this.stats.rdev;
+    }
+
+    public nlink(): number {
+        return Number(this.stats.nlink);
+    }
+
+    public uid(): number {
+        return Number(this.stats.uid);
+    }
+
+    public gid(): number {
+        return Number(this.stats.gid);
+    }
+
+    public ctime(): FileTime {
+        return FileTime.fromNanos(this.stats.ctimeNs);
+    }
+
+    public lastModifiedTime(): FileTime {
+        return FileTime.fromNanos(this.stats.mtimeNs);
+    }
+
+    public lastAccessTime(): FileTime {
+        return FileTime.fromNanos(this.stats.atimeNs);
+    }
+
+    public creationTime(): FileTime {
+        // the birth time is not supported by every file system
+        if (this.stats.birthtimeNs > BigInt(0)) {
+            return FileTime.fromNanos(this.stats.birthtimeNs);
+        }
+        return this.lastModifiedTime();
+    }
+
+    public isRegularFile(): boolean {
+        return this.stats.isFile();
+    }
+
+    public isDirectory(): boolean {
+        return this.stats.isDirectory();
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.stats.isSymbolicLink();
+    }
+
+    public isOther(): boolean {
+        return !this.isRegularFile() && !this.isDirectory() && !this.isSymbolicLink();
+    }
+
+    public size(): bigint {
+        return this.stats.size;
+    }
+
+    public fileKey(): LocalFileKey {
+        return new LocalFileKey(this.stats.dev, this.stats.ino);
+    }
+
+    public owner(): UserPrincipal {
+        return LocalUser.fromUid(this.uid());
+    }
+
+    public group(): GroupPrincipal {
+        return LocalUser.fromGid(this.gid());
+    }
+
+    public permissions(): Set<PosixFilePermission> {
+        return toPosixFilePermissions(this.mode());
+    }
+}
@@ -0,0 +1,49 @@
+/* Uniquely identifies a local file by the device it is stored on and its inode number. */
+export class LocalFileKey {
+    private readonly dev: bigint;
+    private readonly ino: bigint;
+
+    public constructor(dev: bigint, ino: bigint) {
+        this.dev = dev;
+        this.ino = ino;
+    }
+
+    public getDev(): bigint {
+        return this.dev;
+    }
+
+    public getIno(): bigint {
+        return this.ino;
+    }
+
+    public equals(other: unknown): boolean {
+        if (!(other instanceof LocalFileKey)) {
+            return false;
+        }
+        return this.dev === other.dev && this.ino === other.ino;
+    }
+
+    /**
+     * Compares two keys, by device then by inode number.
+     * @param {LocalFileKey} other - the key to compare to
+     * @returns A negative number, zero, or a positive number as this key is less than, equal to, or greater than the other key
+     */
+    public compareTo(other: LocalFileKey): number {
+        if (this.dev !== other.dev) {
+            return this.dev < other.dev ? -1 : 1;
+        }
+        if (this.ino !== other.ino) {
+            return this.ino < other.ino ? -1 : 1;
+        }
+        return 0;
+    }
+
+    /* The primitive value of a key, equal keys have the same value. */
+    public valueOf(): string {
+        return this.dev + ":" + this.ino;
+    }
+
+    public toString(): string {
+        return "(dev=" + this.dev.toString(16) + ",ino=" + this.ino + ")";
+    }
+}
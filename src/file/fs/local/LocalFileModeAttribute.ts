@@ -0,0 +1,2 @@
+export const ALL_READWRITE = 0o666;
+export const ALL_PERMISSIONS = 0o777;
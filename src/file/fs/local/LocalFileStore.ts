@@ -0,0 +1,214 @@
+import * as fs from "fs";
+import * as jsPath from "path";
+import {FileStore} from "../../FileStore";
+import {FileStoreAttributeView} from "../../attribute/FileStoreAttributeView";
+import {UnsupportedOperationException} from "../../../exception";
+import {FileSystemException} from "../../exception";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+
+const MOUNT_INFO = "/proc/self/mountinfo";
+
+/* The file system types that have no notion of owner and permissions. */
+const NON_POSIX_TYPES = new Set<string>(["vfat", "msdos", "exfat", "ntfs", "ntfs3", "fuseblk", "iso9660", "udf", "smbfs"]);
+
+/* The names under which the views supported on a posix file system can be requested. */
+const POSIX_VIEWS = new Set<string>(["posix", "PosixFileAttributeView", "unix", "owner", "FileOwnerAttributeView"]);
+
+/* statfs(2), available since Node.js 18.15 but not yet part of the installed typings of the fs module. */
+declare module "fs" {
+    interface BigIntStatsFs {
+        type: bigint;
+        bsize: bigint;
+        blocks: bigint;
+        bfree: bigint;
+        bavail: bigint;
+        files: bigint;
+        ffree: bigint;
+    }
+
+    function statfsSync(path: PathLike, options: { bigint: true }): BigIntStatsFs;
+}
+
+/* An entry of the mount table, as read from /proc/self/mountinfo. */
+class MountEntry {
+    public readonly name: string;
+    public readonly dir: string;
+    public readonly fstype: string;
+    public readonly options: string[];
+
+    public constructor(name: string, dir: string, fstype: string, options: string[]) {
+        this.name = name;
+        this.dir = dir;
+        this.fstype = fstype;
+        this.options = options;
+    }
+
+    /**
+     * Parses a line of /proc/self/mountinfo, see proc(5):
+     * {@code id parent major:minor root mountpoint options [optional fields] - fstype source superoptions}
+     */
+    public static parse(line: string): MountEntry | null {
+        const fields = line.split(" ");
+        const separator = fields.indexOf("-", 6);
+        if (fields.length < 6 || separator === -1 || fields.length < separator + 3) {
+            return null;
+        }
+        const options = fields[5].split(",");
+        return new MountEntry(unescape(fields[separator + 2]), unescape(fields[4]), fields[separator + 1], options);
+    }
+
+    public hasOption(name: string): boolean {
+        return this.options.includes(name);
+    }
+}
+
+/* Decodes the octal escapes (\040 for a space) of the mount table. */
+function unescape(field: string): string {
+    return field.replace(/\\([0-7]{3})/g, (_, code) => String.fromCharCode(parseInt(code, 8)));
+}
+
+function readMountEntries(): MountEntry[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(MOUNT_INFO, "utf-8");
+    } catch (e) {
+        throw translateToIOException(e, MOUNT_INFO);
+    }
+    const entries: MountEntry[] = [];
+    for (let line of content.split("\n")) {
+        const entry = MountEntry.parse(line);
+        if (entry) {
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
+
+/* Tells whether the given absolute path is the directory dir or one of its descendants. */
+function isInside(file: string, dir: string): boolean {
+    return file === dir || dir === "/" || file.startsWith(dir + "/");
+}
+
+/* The FileStore of a mounted local file system. */
+export class LocalFileStore extends FileStore {
+    private readonly entry: MountEntry;
+
+    private constructor(entry: MountEntry) {
+        super();
+        this.entry = entry;
+    }
+
+    /**
+     * Returns the file store of the mount containing the given file.
+     * @param {string} file - the file, it must exist
+     * @returns The file store where the file is located
+     * @throws IOException if the file does not exist or the mount table cannot be read
+     */
+    public static forFile(file: string): LocalFileStore {
+        let realPath: string;
+        try {
+            realPath = fs.realpathSync(jsPath.resolve(file));
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
+        // the deepest mount point wins, and among mounts on the same directory the last one
+        let found: MountEntry | null = null;
+        for (let entry of readMountEntries()) {
+            if (isInside(realPath, entry.dir) && (!found || entry.dir.length >= found.dir.length)) {
+                found = entry;
+            }
+        }
+        if (!found)
+            throw new FileSystemException(file, undefined, "Mount point not found");
+        return new LocalFileStore(found);
+    }
+
+    /**
+     * Returns the file stores of every mounted file system, in the order of the mount table.
+     * @throws IOException if the mount table cannot be read
+     */
+    public static getFileStores(): LocalFileStore[] {
+        return readMountEntries().map(entry => new LocalFileStore(entry));
+    }
+
+    public name(): string {
+        return this.entry.name;
+    }
+
+    public type(): string {
+        return this.entry.fstype;
+    }
+
+    /* Returns the directory where the file system is mounted. */
+    public mountPoint(): string {
+        return this.entry.dir;
+    }
+
+    public isReadOnly(): boolean {
+        return this.entry.hasOption("ro");
+    }
+
+    private statfs(): fs.BigIntStatsFs {
+        if (typeof fs.statfsSync !== "function")
+            throw new UnsupportedOperationException("statfs is not available in this version of Node.js");
+        try {
+            return fs.statfsSync(this.entry.dir, {bigint: true});
+        } catch (e) {
+            throw translateToIOException(e, this.entry.dir);
+        }
+    }
+
+    public getTotalSpace(): bigint {
+        const stats = this.statfs();
+        return stats.blocks * stats.bsize;
+    }
+
+    public getUsableSpace(): bigint {
+        const stats = this.statfs();
+        return stats.bavail * stats.bsize;
+    }
+
+    public getUnallocatedSpace(): bigint {
+        const stats = this.statfs();
+        return stats.bfree * stats.bsize;
+    }
+
+    public getBlockSize(): bigint {
+        return this.statfs().bsize;
+    }
+
+    public supportsFileAttributeView(name: string): boolean {
+        if (name === "basic" || name === "BasicFileAttributeView") {
+            return true;
+        }
+        return POSIX_VIEWS.has(name) && !NON_POSIX_TYPES.has(this.entry.fstype);
+    }
+
+    public getFileStoreAttributeView(type: string): FileStoreAttributeView | null {
+        return null;
+    }
+
+    public getAttribute(attribute: string): any {
+        switch (attribute) {
+            case "totalSpace":
+                return this.getTotalSpace();
+            case "usableSpace":
+                return this.getUsableSpace();
+            case "unallocatedSpace":
+                return this.getUnallocatedSpace();
+            default:
+                throw new UnsupportedOperationException("'" + attribute + "' not recognized");
+        }
+    }
+
+    public equals(other: unknown): boolean {
+        if (!(other instanceof LocalFileStore)) {
+            return false;
+        }
+        return this.entry.dir === other.entry.dir && this.entry.name === other.entry.name && this.entry.fstype === other.entry.fstype;
+    }
+
+    public toString(): string {
+        return this.entry.dir + " (" + this.entry.name + ")";
+    }
+}
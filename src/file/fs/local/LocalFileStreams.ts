@@ -0,0 +1,286 @@
+import * as fs from "fs";
+import {ByteLengthQueuingStrategy, ReadableStream as WebReadableStream, WritableStream as WebWritableStream} from "stream/web";
+import {Path} from "../../Path";
+import {OpenOption} from "../../OpenOption";
+import {StandardOpenOption} from "../../StandardOpenOption";
+import {LinkOption} from "../../LinkOption";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {chunkSize, toBytes} from "../../spi/StreamChunks";
+
+// buffer size used for reading and writing
+const BUFFER_SIZE = 8192;
+
+// files opened with DELETE_ON_CLOSE that are not closed yet
+const deleteOnExit = new Set<string>();
+let exitHookRegistered = false;
+
+/* Deletes the file when the process exits unless it is closed first, the exit hook is registered by the first file. */
+function addDeleteOnExit(file: string): void {
+    if (!exitHookRegistered) {
+        exitHookRegistered = true;
+        process.once("exit", () => {
+            for (const file of deleteOnExit) {
+                try {
+                    fs.unlinkSync(file);
+                } catch (ignore) {
+                    // best effort
+                }
+            }
+        });
+    }
+    deleteOnExit.add(file);
+}
+
+/* The open options of a local stream, decoded. */
+class Flags {
+    read: boolean = false;
+    write: boolean = false;
+    append: boolean = false;
+    truncateExisting: boolean = false;
+    noFollowLinks: boolean = false;
+    create: boolean = false;
+    createNew: boolean = false;
+    deleteOnClose: boolean = false;
+    sync: boolean = false;
+    dsync: boolean = false;
+
+    private constructor() {
+    }
+
+    public static parse(options: OpenOption[]): Flags {
+        const flags = new Flags();
+        for (let option of options) {
+            switch (option) {
+                case StandardOpenOption.READ:
+                    flags.read = true;
+                    break;
+                case StandardOpenOption.WRITE:
+                    flags.write = true;
+                    break;
+                case StandardOpenOption.APPEND:
+                    flags.append = true;
+                    break;
+                case StandardOpenOption.TRUNCATE_EXISTING:
+                    flags.truncateExisting = true;
+                    break;
+                case StandardOpenOption.CREATE:
+                    flags.create = true;
+                    break;
+                case StandardOpenOption.CREATE_NEW:
+                    flags.createNew = true;
+                    break;
+                case StandardOpenOption.DELETE_ON_CLOSE:
+                    flags.deleteOnClose = true;
+                    break;
+                case StandardOpenOption.SPARSE:
+                    // ignored, files are sparse by default on most file systems
+                    break;
+                case StandardOpenOption.SYNC:
+                    flags.sync = true;
+                    break;
+                case StandardOpenOption.DSYNC:
+                    flags.dsync = true;
+                    break;
+                case LinkOption.NOFOLLOW_LINKS:
+                    flags.noFollowLinks = true;
+                    break;
+                default:
+                    if (option == null)
+                        throw new NullPointerException();
+                    throw new UnsupportedOperationException(option + " not supported");
+            }
+        }
+        return flags;
+    }
+
+    /**
+     * Computes the flags given to open(2).
+     */
+    public toOpenFlags(): number {
+        if (this.read && this.append)
+            throw new IllegalArgumentException("READ + APPEND not allowed");
+        if (this.append && this.truncateExisting)
+            throw new IllegalArgumentException("APPEND + TRUNCATE_EXISTING not allowed");
+
+        let oflags: number;
+        if (this.read && this.write) {
+            oflags = fs.constants.O_RDWR;
+        } else {
+            oflags = this.write ? fs.constants.O_WRONLY : fs.constants.O_RDONLY;
+        }
+        if (this.write) {
+            if (this.truncateExisting)
+                oflags |= fs.constants.O_TRUNC;
+            if (this.append)
+                oflags |= fs.constants.O_APPEND;
+
+            // create flags
+            if (this.createNew) {
+                // exclusive create never follows the last link
+                oflags |= (fs.constants.O_CREAT | fs.constants.O_EXCL);
+            } else if (this.create) {
+                oflags |= fs.constants.O_CREAT;
+            }
+        }
+
+        // a file deleted on close must not be the target of a link
+        if (!this.createNew && (this.noFollowLinks || this.deleteOnClose)) {
+            if (this.deleteOnClose && fs.constants.O_NOFOLLOW === undefined)
+                throw new UnsupportedOperationException("DELETE_ON_CLOSE not supported");
+            oflags |= fs.constants.O_NOFOLLOW ?? 0;
+        }
+        if (this.dsync)
+            oflags |= fs.constants.O_DSYNC ?? 0;
+        if (this.sync)
+            oflags |= fs.constants.O_SYNC ?? 0;
+        return oflags;
+    }
+}
+
+/* An open file descriptor shared by the callbacks of a stream. */
+class LocalFileDescriptor {
+    private readonly fd: number;
+    private readonly file: string;
+    private readonly deleteOnClose: string | null;
+    private closed: boolean = false;
+
+    private constructor(fd: number, file: string, deleteOnClose: string | null) {
+        this.fd = fd;
+        this.file = file;
+        this.deleteOnClose = deleteOnClose;
+        if (deleteOnClose) {
+            addDeleteOnExit(deleteOnClose);
+        }
+    }
+
+    public static open(path: Path, flags: Flags): LocalFileDescriptor {
+        const file = path.toString();
+        let fd: number;
+        try {
+            fd = fs.openSync(file, flags.toOpenFlags(), 0o666);
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
+        return new LocalFileDescriptor(fd, file, flags.deleteOnClose ? path.toAbsolutePath().toString() : null);
+    }
+
+    public read(buffer: Uint8Array): Promise<number> {
+        return new Promise((resolve, reject) => {
+            fs.read(this.fd, buffer, 0, buffer.byteLength, null, (err, bytesRead) => {
+                if (err) {
+                    reject(translateToIOException(err, this.file));
+                } else {
+                    resolve(bytesRead);
+                }
+            });
+        });
+    }
+
+    public async write(buffer: Uint8Array): Promise<void> {
+        let offset = 0;
+        while (offset < buffer.byteLength) {
+            offset += await new Promise<number>((resolve, reject) => {
+                fs.write(this.fd, buffer, offset, buffer.byteLength - offset, null, (err, written) => {
+                    if (err) {
+                        reject(translateToIOException(err, this.file));
+                    } else {
+                        resolve(written);
+                    }
+                });
+            });
+        }
+    }
+
+    public close(): Promise<void> {
+        if (this.closed) {
+            return Promise.resolve();
+        }
+        this.closed = true;
+        return new Promise((resolve, reject) => {
+            fs.close(this.fd, err => {
+                if (this.deleteOnClose) {
+                    deleteOnExit.delete(this.deleteOnClose);
+                    try {
+                        fs.unlinkSync(this.deleteOnClose);
+                    } catch (ignore) {
+                        // best effort
+                    }
+                }
+                if (err) {
+                    reject(translateToIOException(err, this.file));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+}
+
+/**
+ * Opens the file and returns a stream of its bytes. The file is opened eagerly so
+ * that any error is thrown by this function, the descriptor is closed when the stream
+ * reaches the end of the file, is cancelled or errors.
+ * @param {Path} path - the file to read
+ * @param {OpenOption[]} [options] - the options specifying how the file is opened
+ * @returns A ReadableStream of Uint8Array chunks
+ */
+export function newLocalInputStream(path: Path, options?: OpenOption[]): ReadableStream<Uint8Array> {
+    const flags = Flags.parse(options ?? []);
+    if (flags.write || flags.append) {
+        throw new UnsupportedOperationException("'" + (flags.append ? StandardOpenOption.APPEND : StandardOpenOption.WRITE) + "' not allowed");
+    }
+    flags.read = true;
+    const fd = LocalFileDescriptor.open(path, flags);
+    return new WebReadableStream<Uint8Array>({
+        async pull(controller) {
+            const buffer = Buffer.allocUnsafe(BUFFER_SIZE);
+            let bytesRead: number;
+            try {
+                bytesRead = await fd.read(buffer);
+            } catch (e) {
+                await fd.close().catch(() => undefined);
+                throw e;
+            }
+            if (bytesRead === 0) {
+                await fd.close();
+                controller.close();
+            } else {
+                controller.enqueue(buffer.subarray(0, bytesRead));
+            }
+        },
+        cancel() {
+            return fd.close();
+        },
+    }, new ByteLengthQueuingStrategy({highWaterMark: BUFFER_SIZE}));
+}
+
+/**
+ * Opens or creates the file and returns a stream writing to it. Chunks may be strings
+ * (encoded as UTF-8), ArrayBuffers or ArrayBufferViews. Each chunk is fully written
+ * before the next one is accepted.
+ * @param {Path} path - the file to write
+ * @param {OpenOption[]} options - the options specifying how the file is created or opened
+ * @returns A WritableStream
+ */
+export function newLocalOutputStream(path: Path, options: OpenOption[]): WritableStream<any> {
+    const flags = Flags.parse(options);
+    flags.write = true;
+    const fd = LocalFileDescriptor.open(path, flags);
+    return new WebWritableStream<any>({
+        async write(chunk) {
+            try {
+                await fd.write(toBytes(chunk));
+            } catch (e) {
+                await fd.close().catch(() => undefined);
+                throw e;
+            }
+        },
+        close() {
+            return fd.close();
+        },
+        abort() {
+            return fd.close();
+        },
+    }, {highWaterMark: BUFFER_SIZE, size: chunkSize});
+}
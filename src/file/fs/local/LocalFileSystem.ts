@@ -3,10 +3,14 @@ import {FileStore} from "../../FileStore";
 import {PathMatcher} from "../../PathMatcher";
 import {Path} from "../../Path";
 import {UserPrincipalLookupService} from "../../attribute";
-import {FileSystemProvider} from "../../spi";
+import {FileSystemProvider, PathMatchers} from "../../spi";
 import {LocalFileSystemProvider} from "./LocalFileSystemProvider";
-import {UnsupportedOperationException} from "../../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
 import {LocalPath} from "./LocalPath";
+import {LocalPathType} from "./LocalPathType";
+import {LocalPathSyntax} from "./LocalPathSyntax";
+import {LocalFileStore} from "./LocalFileStore";
+import {LocalUserPrincipalLookupService} from "./LocalUserPrincipals";
 import * as jsPath from "path";
 import {Objects} from "../../../utils";
 
@@ -14,13 +18,33 @@ export class LocalFileSystem extends FileSystem {
     private readonly fileSystem: FileSystemProvider;
     private readonly defaultDirectory: string;
     private readonly defaultRoot: string;
-
-    public constructor(provider: LocalFileSystemProvider, dir: string) {
+    private readonly userPrincipalLookupService = new LocalUserPrincipalLookupService();
+    private readonly pathSyntax: LocalPathSyntax;
+    private readonly workingDirectory: string | null;
+
+    /**
+     * Creates a local file system. The relative paths are resolved against the current directory of
+     * the process, or against {@code dir} when the syntax is not the one of the current platform.
+     * @param {LocalFileSystemProvider} provider - the provider of the file system
+     * @param {string} dir - the default directory
+     * @param {LocalPathSyntax} [pathSyntax] - the syntax of the paths, the one of the current platform by default
+     * @throws IllegalArgumentException if the syntax is not the one of the current platform and {@code dir} is not absolute in it
+     */
+    public constructor(provider: LocalFileSystemProvider, dir: string, pathSyntax: LocalPathSyntax = LocalPathSyntax.forPlatform()) {
         super();
         this.fileSystem = provider;
+        this.pathSyntax = pathSyntax;
         const parsedPath: jsPath.ParsedPath = jsPath.parse(dir);
         this.defaultDirectory = parsedPath.dir;
         this.defaultRoot = parsedPath.root;
+        if (pathSyntax === LocalPathSyntax.forPlatform()) {
+            this.workingDirectory = null;
+        } else {
+            const type = pathSyntax.parse(dir).type;
+            if (type !== LocalPathType.ABSOLUTE && type !== LocalPathType.UNC)
+                throw new IllegalArgumentException("Not an absolute " + pathSyntax.name() + " path: " + dir);
+            this.workingDirectory = dir;
+        }
     }
 
     public close() {
@@ -28,18 +52,16 @@ export class LocalFileSystem extends FileSystem {
     }
 
     public getFileStores(): Iterable<FileStore> {
-        throw new Error("Method not implemented.");
+        return LocalFileStore.getFileStores();
     }
 
     public getPath(first: string, more?: string[]): Path {
         Objects.requireNonNullUndefined(first);
-        let path: string = "";
-        if (!more || more.length === 0) {
-            path = first;
-        } else {
+        let path: string = first;
+        if (more && more.length > 0) {
             for (const segment of more) {
                 if (segment.length !== 0) {
-                    if (path.length > 0)
+                    if (path.length > 0 && !path.endsWith(this.getSeparator()))
                         path += this.getSeparator();
                     path += segment;
                 }
@@ -48,8 +70,8 @@ export class LocalFileSystem extends FileSystem {
         return LocalPath.parse(this, path);
     }
 
-    public getPathMatcher(syntaxAndPattern: string): PathMatcher { // TODO
-        throw new Error("Method not implemented.");
+    public getPathMatcher(syntaxAndPattern: string): PathMatcher {
+        return PathMatchers.getPathMatcher(syntaxAndPattern, this.getSeparator(), this.pathSyntax.isCaseInsensitive());
     }
 
     public getRootDirectories(): Iterable<Path> { // TODO find a better way
@@ -61,11 +83,15 @@ export class LocalFileSystem extends FileSystem {
     }
 
     public getSeparator(): string {
-        return jsPath.sep
+        return this.pathSyntax.getSeparator();
+    }
+
+    public getPathSyntax(): LocalPathSyntax {
+        return this.pathSyntax;
     }
 
     public getUserPrincipalLookupService(): UserPrincipalLookupService {
-        throw new UnsupportedOperationException();
+        return this.userPrincipalLookupService;
     }
 
     public isOpen(): boolean {
@@ -80,7 +106,7 @@ export class LocalFileSystem extends FileSystem {
         return this.fileSystem;
     }
 
-    private static readonly supportedFileAttributeViews: Set<string> = new Set<string>(["basic", "dos", "acl", "owner", "user"]);
+    private static readonly supportedFileAttributeViews: Set<string> = new Set<string>(["basic", "posix", "unix", "owner"]);
 
     public supportedFileAttributeViews(): Set<string> {
         return LocalFileSystem.supportedFileAttributeViews;
@@ -94,4 +120,9 @@ export class LocalFileSystem extends FileSystem {
     public getDefaultRoot(): string {
         return this.defaultRoot;
     }
+
+    /* The directory the relative paths are resolved against. */
+    public getWorkingDirectory(): string {
+        return this.workingDirectory ?? process.cwd();
+    }
 }
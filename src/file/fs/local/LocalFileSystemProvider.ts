@@ -1,4 +1,4 @@
-import {FileSystemProvider} from "../../spi";
+import {FileAttributeDispatcher, FileSystemProvider} from "../../spi";
 import {FileSystem} from "../../FileSystem";
 import {Path} from "../../Path";
 import {LocalFileSystem} from "./LocalFileSystem";
@@ -6,17 +6,37 @@ import * as os from "os";
 import * as fs from "fs";
 import {AccessMode} from "../../AccessMode";
 import {CopyOption} from "../../CopyOption";
-import {AccessDeniedException} from "../../exception/AccessDeniedException";
+import {DirectoryNotEmptyException, FileSystemAlreadyExistsException, NotLinkException} from "../../exception";
 import {OpenOption} from "../../OpenOption";
 import {BasicFileAttributes, FileAttribute, FileAttributeView} from "../../attribute";
 import {FileStore} from "../../FileStore";
 import {LinkOption} from "../../LinkOption";
 import {DirectoryStream} from "../../DirectoryStream";
+import {LocalPath} from "./LocalPath";
+import {newLocalInputStream, newLocalOutputStream} from "./LocalFileStreams";
+import {ALL_PERMISSIONS, ALL_READWRITE} from "./LocalFileModeAttribute";
+import {toUnixModeFromAttributes} from "../../spi/UnixFileModes";
+import {isErrnoException, translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalDirectoryStream} from "./LocalDirectoryStream";
+import {copyLocalFile, moveLocalFile} from "./LocalCopyFile";
+import {LocalFileAttributes} from "./LocalFileAttributes";
+import {LocalFileStore} from "./LocalFileStore";
+import {LocalBasicFileAttributeView, LocalPosixFileAttributeView, LocalUnixFileAttributeView} from "./LocalFileAttributeViews";
+import {UnsupportedOperationException} from "../../../exception";
+
+function followLinks(options?: LinkOption[]): boolean {
+    return !options || !options.includes(LinkOption.NOFOLLOW_LINKS);
+}
 
 /* It's a FileSystemProvider that provides a LocalFileSystem */
 export class LocalFileSystemProvider extends FileSystemProvider {
 
     private readonly theFileSystem: LocalFileSystem;
+    private readonly attributes: FileAttributeDispatcher = new FileAttributeDispatcher()
+        .registerBasicView((path, options) => new LocalBasicFileAttributeView(LocalPath.toLocalPath(path).toString(), followLinks(options)))
+        .registerPosixView((path, options) => new LocalPosixFileAttributeView(LocalPath.toLocalPath(path).toString(), followLinks(options)))
+        .registerOwnerView((path, options) => new LocalPosixFileAttributeView(LocalPath.toLocalPath(path).toString(), followLinks(options)))
+        .register("unix", (path, options) => new LocalUnixFileAttributeView(LocalPath.toLocalPath(path).toString(), followLinks(options)));
 
     public constructor() {
         super();
@@ -42,101 +62,190 @@ export class LocalFileSystemProvider extends FileSystemProvider {
         return "file";
     }
 
-    public newFileSystemFromPath(path: Path, env: Map<string, any>): FileSystem {
-        return super.newFileSystemFromPath(path, env);
-    }
-
     public newFileSystemFromUrl(url: URL, env: Map<string, any>): FileSystem {
-        throw new Error("Method not implemented.");
+        // the local file system is created once, with the provider
+        throw new FileSystemAlreadyExistsException();
     }
 
     protected newInputStreamImpl(path: Path, options?: OpenOption[]): ReadableStream {
-        throw new Error("Method not implemented.");
+        return newLocalInputStream(LocalPath.toLocalPath(path), options);
     }
 
     protected newOutputStreamImpl(path: Path, options?: OpenOption[]): WritableStream {
-        throw new Error("Method not implemented.");
+        return newLocalOutputStream(LocalPath.toLocalPath(path), options ?? []);
     }
 
-    public createFile(dir: Path, attrs?: FileAttribute<any>[]): void {
-        throw new Error("Method not implemented.");
+    public createFile(path: Path, attrs?: FileAttribute<any>[]): void {
+        const file = LocalPath.toLocalPath(path).toString();
+        const mode = toUnixModeFromAttributes(ALL_READWRITE, attrs);
+        try {
+            fs.closeSync(fs.openSync(file, fs.constants.O_CREAT | fs.constants.O_EXCL | fs.constants.O_WRONLY, mode));
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
     }
 
     public createDirectory(dir: Path, attrs?: FileAttribute<any>[]): void {
-        throw new Error("Method not implemented.");
+        const file = LocalPath.toLocalPath(dir).toString();
+        const mode = toUnixModeFromAttributes(ALL_PERMISSIONS, attrs);
+        try {
+            fs.mkdirSync(file, {mode: mode});
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
     }
 
-    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
-        throw new Error("Method not implemented.");
+    public createSymbolicLink(link: Path, target: Path, attrs?: FileAttribute<any>[]): void {
+        const file = LocalPath.toLocalPath(link).toString();
+        // the target is stored as given, a relative target is resolved against the directory of the link
+        const targetFile = LocalPath.toLocalPath(target).toString();
+        if (attrs && attrs.length > 0) {
+            throw new UnsupportedOperationException("Initial file attributes not supported when creating symbolic link");
+        }
+        try {
+            fs.symlinkSync(targetFile, file);
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
     }
 
-
-    public getFileStore(path: Path): FileStore {
-        throw new Error("Method not implemented.");
+    public createLink(link: Path, existing: Path): void {
+        const file = LocalPath.toLocalPath(link).toString();
+        const existingFile = LocalPath.toLocalPath(existing).toString();
+        try {
+            fs.linkSync(existingFile, file);
+        } catch (e) {
+            throw translateToIOException(e, file, existingFile);
+        }
     }
 
-    public checkAccess(obj: Path, modes?: AccessMode[]): void { // TODO finish this use readAttributes & co ?
-        const accessModesTocheck: AccessMode[] = [];
-        if (modes) {
-            accessModesTocheck.push(...modes);
-        } else {
-            accessModesTocheck.push(AccessMode.READ);
-        }
-        const path = obj.toString();
+    public readSymbolicLink(link: Path): Path {
+        const localLink = LocalPath.toLocalPath(link);
+        const file = localLink.toString();
         try {
-            for (let mode of accessModesTocheck) {
-                switch (mode) {
-                    case AccessMode.READ:
-                        fs.accessSync(path, fs.constants.R_OK);
-                        break;
-                    case AccessMode.WRITE:
-                        fs.accessSync(path, fs.constants.W_OK);
-                        break;
-                    case AccessMode.EXECUTE:
-                        fs.accessSync(path, fs.constants.X_OK);
-                        break;
-                }
+            return localLink.getFileSystem().getPath(fs.readlinkSync(file));
+        } catch (e) {
+            if (isErrnoException(e) && e.code === "EINVAL") {
+                throw new NotLinkException(file);
             }
-        } catch (err) {
-            throw new AccessDeniedException(path);
+            throw translateToIOException(e, file);
         }
+    }
 
+    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
+        return LocalDirectoryStream.open(LocalPath.toLocalPath(dir), acceptFilter);
+    }
+
+
+    public getFileStore(path: Path): FileStore {
+        return LocalFileStore.forFile(LocalPath.toLocalPath(path).toString());
+    }
+
+    public checkAccess(obj: Path, modes?: AccessMode[]): void {
+        const file = LocalPath.toLocalPath(obj).toString();
+        let mode = fs.constants.F_OK;
+        for (let accessMode of modes ?? []) {
+            switch (accessMode) {
+                case AccessMode.READ:
+                    mode |= fs.constants.R_OK;
+                    break;
+                case AccessMode.WRITE:
+                    mode |= fs.constants.W_OK;
+                    break;
+                case AccessMode.EXECUTE:
+                    mode |= fs.constants.X_OK;
+                    break;
+            }
+        }
+        try {
+            fs.accessSync(file, mode);
+        } catch (e) {
+            throw translateToIOException(e, file);
+        }
     }
 
     public copy(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
-        throw new Error("Method not implemented.");
+        return copyLocalFile(LocalPath.toLocalPath(source), LocalPath.toLocalPath(target), options);
     }
 
     public move(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
-        throw new Error("Method not implemented.");
+        return moveLocalFile(LocalPath.toLocalPath(source), LocalPath.toLocalPath(target), options);
     }
 
     public isHidden(obj: Path): boolean {
-        throw new Error("Method not implemented.");
+        LocalPath.toLocalPath(obj);
+        const name = obj.getFileName()?.toString();
+        // "." and ".." are not hidden files but references to directories
+        return !!name && name.startsWith(".") && name !== "." && name !== "..";
     }
 
     public isSameFile(obj1: Path, obj2: Path): boolean {
-        throw new Error("Method not implemented.");
+        const file1 = LocalPath.toLocalPath(obj1);
+        if (file1.equals(obj2)) {
+            return true;
+        }
+        if (!(obj2 instanceof LocalPath)) {
+            return false;
+        }
+        const attrs1 = LocalFileAttributes.get(file1.toString(), true);
+        const attrs2 = LocalFileAttributes.get(obj2.toString(), true);
+        return attrs1.fileKey().equals(attrs2.fileKey());
     }
 
     public delete(path: Path): void {
-        fs.rmSync(path.toAbsolutePath().toString());
+        const file = LocalPath.toLocalPath(path).toString();
+        try {
+            if (fs.lstatSync(file).isDirectory()) {
+                fs.rmdirSync(file);
+            } else {
+                fs.unlinkSync(file);
+            }
+        } catch (e) {
+            // some systems report a non-empty directory with EEXIST
+            if (isErrnoException(e) && e.code === "EEXIST") {
+                throw new DirectoryNotEmptyException(file);
+            }
+            throw translateToIOException(e, file);
+        }
     }
 
     public readAttributesByType(path: Path, type?: string, options?: LinkOption[]): BasicFileAttributes {
-        throw new Error("Method not implemented.");
+        const file = LocalPath.toLocalPath(path).toString();
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributes":
+            case "posix":
+            case "PosixFileAttributes":
+                return LocalFileAttributes.get(file, followLinks(options));
+            default:
+                throw new UnsupportedOperationException();
+        }
     }
 
-    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView {
-        throw new Error("Method not implemented.");
+    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
+        const file = LocalPath.toLocalPath(path).toString();
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributeView":
+                return new LocalBasicFileAttributeView(file, followLinks(options));
+            case "posix":
+            case "PosixFileAttributeView":
+            case "owner":
+            case "FileOwnerAttributeView":
+                return new LocalPosixFileAttributeView(file, followLinks(options));
+            default:
+                return null;
+        }
     }
 
     public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
-        throw new Error("Method not implemented.");
+        return this.attributes.readAttributes(path, attributes, options);
     }
 
     public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
-        throw new Error("Method not implemented.");
+        this.attributes.setAttribute(path, attribute, value, options);
     }
 
 }
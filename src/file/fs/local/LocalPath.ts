@@ -8,6 +8,9 @@ import fs from "fs";
 import {ProviderMismatchException} from "../../exception/ProviderMismatchException";
 import {IllegalArgumentException} from "../../../exception/IllegalArgumentException";
 import {NullPointerException} from "../../../exception";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalPathSyntax} from "./LocalPathSyntax";
+import type {LocalFileSystem} from "./LocalFileSystem";
 
 /* `LocalPath` is a class that represents a path on the local file system. */
 export class LocalPath extends Path {
@@ -35,9 +38,16 @@ export class LocalPath extends Path {
      * @returns A new LocalPath object.
      */
     public static parse(fileSystem: FileSystem, path: string): LocalPath {
-        let parse = pathFs.parse(path);
-        return LocalPath.pathFromJsPath(parse, fileSystem, LocalPathType.RELATIVE);
+        const components = LocalPath.syntaxOf(fileSystem).parse(path);
+        return new LocalPath(fileSystem, components.type, components.root, components.path);
+    }
+
+    private static syntaxOf(fileSystem: FileSystem): LocalPathSyntax {
+        return (fileSystem as LocalFileSystem).getPathSyntax();
+    }
 
+    private syntax(): LocalPathSyntax {
+        return LocalPath.syntaxOf(this.fileSystem);
     }
 
     public static toLocalPath(path: Path): LocalPath {
@@ -49,7 +59,6 @@ export class LocalPath extends Path {
         return path;
     }
 
-    // @ts-ignore
     private emptyPath(): LocalPath {
         return new LocalPath(this.getFileSystem(), LocalPathType.RELATIVE, "", "");
     }
@@ -123,16 +132,125 @@ export class LocalPath extends Path {
         return this.path.length == 0;
     }
 
+    /* Returns the name elements, none for the empty path. */
+    private names(): string[] {
+        if (this.isEmpty()) {
+            return [];
+        }
+        const names: string[] = [];
+        for (let i = 0; i < this.getNameCount(); i++) {
+            names.push(this.elementAsString(i));
+        }
+        return names;
+    }
+
+    private hasDotOrDotDot(): boolean {
+        return this.names().some(name => name === "." || name === "..");
+    }
+
     public normalize(): Path {
-        throw new Error("Method not implemented.");
+        const names: string[] = [];
+        for (let name of this.names()) {
+            if (name === ".") {
+                continue;
+            }
+            if (name === "..") {
+                if (names.length > 0 && names[names.length - 1] !== "..") {
+                    names.pop();
+                    continue;
+                }
+                if (this.root.length > 0 && this.type !== LocalPathType.DRIVE_RELATIVE) {
+                    // never climb above the root
+                    continue;
+                }
+            }
+            names.push(name);
+        }
+        const path = this.root + names.join(this.fileSystem.getSeparator());
+        if (path === this.path) {
+            return this;
+        }
+        return new LocalPath(this.getFileSystem(), this.type, this.root, path);
     }
 
-    public relativize(other: Path): Path {
-        throw new Error("Method not implemented.");
+    public relativize(obj: Path): Path {
+        let child = LocalPath.toLocalPath(obj);
+        if (child.equals(this)) {
+            return this.emptyPath();
+        }
+        // can only relativize paths of the same type
+        if (this.isAbsolute() !== child.isAbsolute())
+            throw new IllegalArgumentException("'other' is different type of Path");
+        if (!this.syntax().equalNames(this.root, child.root))
+            throw new IllegalArgumentException("'other' has different root");
+        // this path is the empty path
+        if (this.isEmpty()) {
+            return child;
+        }
+
+        let base: LocalPath = this;
+        if (base.hasDotOrDotDot() || child.hasDotOrDotDot()) {
+            base = base.normalize() as LocalPath;
+            child = child.normalize() as LocalPath;
+        }
+        const baseNames = base.names();
+        const childNames = child.names();
+
+        // skip matching names
+        const n = Math.min(baseNames.length, childNames.length);
+        let i = 0;
+        while (i < n && this.syntax().equalNames(baseNames[i], childNames[i])) {
+            i++;
+        }
+
+        // the remainder of base cannot contain ".."
+        const baseRemaining = baseNames.slice(i);
+        if (baseRemaining.includes(".."))
+            throw new IllegalArgumentException("Unable to compute relative path from " + this + " to " + obj);
+
+        const names = baseRemaining.map(_ => "..").concat(childNames.slice(i));
+        return new LocalPath(this.getFileSystem(), LocalPathType.RELATIVE, "", names.join(this.fileSystem.getSeparator()));
     }
 
-    public resolve(other: Path): Path {
-        throw new Error("Method not implemented.");
+    public resolve(obj: Path): Path {
+        const other = LocalPath.toLocalPath(obj);
+        if (other.isEmpty()) {
+            return this;
+        }
+        if (other.isAbsolute()) {
+            return other;
+        }
+        const separator = this.fileSystem.getSeparator();
+        switch (other.type) {
+            case LocalPathType.RELATIVE: {
+                if (this.isEmpty()) {
+                    return other;
+                }
+                const path = this.path.endsWith(separator) || this.root.length === this.path.length
+                    ? this.path + other.path
+                    : this.path + separator + other.path;
+                return new LocalPath(this.getFileSystem(), this.type, this.root, path);
+            }
+            case LocalPathType.DIRECTORY_RELATIVE: {
+                // "\foo" is relative to the root of this path, "C:\bar" resolves it to "C:\foo"
+                if (this.root.length === 0) {
+                    return other;
+                }
+                const root = this.root.endsWith(separator) ? this.root : this.root + separator;
+                return LocalPath.parse(this.getFileSystem(), root + other.path.substring(other.root.length));
+            }
+            default: {
+                // "C:foo" is relative to the current directory of drive C:
+                if (this.root.length < 2 || !this.syntax().equalNames(this.root.substring(0, 2), other.root)) {
+                    return other;
+                }
+                const remaining = other.path.substring(other.root.length);
+                const path = this.path.endsWith(separator) || this.root.length === this.path.length
+                    ? this.path + remaining
+                    : this.path + separator + remaining;
+                return LocalPath.parse(this.getFileSystem(), path);
+            }
+        }
     }
 
     public startsWith(obj: Path): boolean {
@@ -149,7 +267,7 @@ export class LocalPath extends Path {
         }
 
         // if this path has a root component the given path's root must match
-        if (this.root.toUpperCase() !== other.root.toUpperCase()) {
+        if (!this.syntax().equalNames(this.root, other.root)) {
             return false;
         }
 
@@ -165,7 +283,7 @@ export class LocalPath extends Path {
             while (--otherCount >= 0) {
                 const thisElement = this.elementAsString(otherCount);
                 const otherElement = other.elementAsString(otherCount);
-                if (thisElement.toUpperCase() !== otherElement.toUpperCase()) {
+                if (!this.syntax().equalNames(thisElement, otherElement)) {
                     return false;
                 }
             }
@@ -208,7 +326,7 @@ export class LocalPath extends Path {
         if (other.root.length > 0) {
             if (otherCount < thisCount)
                 return false;
-            if (this.root.toUpperCase() !== other.root.toUpperCase())
+            if (!this.syntax().equalNames(this.root, other.root))
                 return false;
         }
 
@@ -217,7 +335,7 @@ export class LocalPath extends Path {
         while (--otherCount >= 0) {
             const thisElement = this.elementAsString(off + otherCount);
             const otherElement = other.elementAsString(otherCount);
-            if (thisElement.toUpperCase() !== otherElement.toUpperCase())
+            if (!this.syntax().equalNames(thisElement, otherElement))
                 return false;
         }
         return true;
@@ -237,7 +355,7 @@ export class LocalPath extends Path {
         for (let i = beginIndex; i < endIndex; i++) {
             path += this.elementAsString(i);
             if (i != (endIndex - 1))
-                path += "\\";
+                path += this.fileSystem.getSeparator();
         }
         return new LocalPath(this.getFileSystem(), LocalPathType.RELATIVE, "", path);
     }
@@ -246,16 +364,47 @@ export class LocalPath extends Path {
         if (this.isAbsolute()) {
             return this;
         }
-        const resolvedPath = pathFs.resolve(this.path);
-        const absolutePath = pathFs.parse(resolvedPath);
-        return LocalPath.pathFromJsPath(absolutePath, this.getFileSystem(), LocalPathType.ABSOLUTE);
+        return LocalPath.parse(this.getFileSystem(), this.syntax().toAbsolute(this.path, (this.fileSystem as LocalFileSystem).getWorkingDirectory()));
     }
 
     public toRealPath(options?: LinkOption[]): Path {
-        // TODO handle options
-        const realpath = fs.realpathSync(this.path);
-        const realPathParsed = pathFs.parse(realpath);
-        return LocalPath.pathFromJsPath(realPathParsed, this.getFileSystem(), LocalPathType.ABSOLUTE);
+        // not made absolute with path.resolve, which would eliminate ".." anyway
+        const absolute = pathFs.isAbsolute(this.path) ? this.path : process.cwd() + pathFs.sep + this.path;
+        let realpath: string;
+        try {
+            if (!options || !options.includes(LinkOption.NOFOLLOW_LINKS)) {
+                realpath = fs.realpathSync(absolute);
+            } else {
+                realpath = LocalPath.removeDotsWithoutFollowingLinks(absolute);
+                // check the file exists, without following links
+                fs.lstatSync(realpath);
+            }
+        } catch (e) {
+            throw translateToIOException(e, this.path);
+        }
+        return LocalPath.parse(this.getFileSystem(), realpath);
+    }
+
+    /**
+     * Eliminates the "." elements of an absolute path, and the ".." elements whose
+     * previous element is not a symbolic link.
+     */
+    private static removeDotsWithoutFollowingLinks(absolute: string): string {
+        const root = pathFs.parse(absolute).root;
+        let result = root;
+        for (let element of absolute.substring(root.length).split(pathFs.sep)) {
+            if (element.length === 0 || element === ".") {
+                continue;
+            }
+            // cannot eliminate ".." if the previous element is a link
+            if (element === ".." && !fs.lstatSync(result).isSymbolicLink()) {
+                result = pathFs.dirname(result);
+                continue;
+            }
+            // not joined with path.join, which would eliminate ".." anyway
+            result += (result.endsWith(pathFs.sep) ? "" : pathFs.sep) + element;
+        }
+        return result;
     }
 
     public toURL(): URL {
@@ -267,23 +416,7 @@ export class LocalPath extends Path {
     }
 
     public compareTo(other: Path): number {
-        const s1: string = this.path;
-        const s2: string = (other as LocalPath).path;
-        const n1 = s1.length;
-        const n2 = s2.length;
-        const min = Math.min(n1, n2);
-        for (let i = 0; i < min; i++) {
-            let c1: string = s1.charAt(i);
-            let c2: string = s2.charAt(i);
-            if (c1 != c2) {
-                c1 = c1.toUpperCase();
-                c2 = c2.toUpperCase();
-                if (c1 != c2) {
-                    return c1.charCodeAt(0) - c2.charCodeAt(0);
-                }
-            }
-        }
-        return n1 - n2;
+        return this.syntax().compareNames(this.path, (other as LocalPath).path);
     }
 
     public equals(other: Path): boolean {
@@ -293,11 +426,6 @@ export class LocalPath extends Path {
         return false;
     }
 
-    private static pathFromJsPath(path: pathFs.ParsedPath, fileSystem: FileSystem, pathType: LocalPathType) {
-        const newPath = path.dir.length !== 0 && path.base.length !== 0 ? path.dir + fileSystem.getSeparator() + path.base : path.dir + path.base;
-        return new LocalPath(fileSystem, pathType, path.root, newPath); // TODO set type
-    }
-
     // generate offset array
     private initOffsets(): number[] {
         if (!this.offsets) {
@@ -334,7 +462,15 @@ export class LocalPath extends Path {
     }
 
     public [Symbol.iterator](): Iterator<Path> {
-        throw new Error("Method not implemented.");
+        let i = 0;
+        return {
+            next: (): IteratorResult<Path> => {
+                if (i < this.getNameCount()) {
+                    return {done: false, value: this.getName(i++)};
+                }
+                return {done: true, value: undefined};
+            },
+        };
     }
 
 
@@ -0,0 +1,242 @@
+import * as pathFs from "path";
+import {LocalPathType} from "./LocalPathType";
+import {InvalidPathException} from "../../exception";
+
+/* The components of a parsed path string. */
+export interface LocalPathComponents {
+    type: LocalPathType;
+    // root component (may be empty)
+    root: string;
+    // normalized path, including the root
+    path: string;
+}
+
+/**
+ * The syntax of the paths of a {@link LocalFileSystem}: how a path string is split into a root
+ * and names, and how names are compared. Every syntax is available on every host, so that
+ * Windows paths can be parsed and manipulated on Linux and the other way round. The file system
+ * of the provider always uses the syntax of the current platform, another syntax is only selected
+ * by creating a {@link LocalFileSystem} with it, to handle foreign paths or to test.
+ */
+export abstract class LocalPathSyntax {
+
+    protected constructor() {
+    }
+
+    /* The syntax of Linux, macOS and the other Unix systems. */
+    public static posix(): LocalPathSyntax {
+        return POSIX;
+    }
+
+    /* The syntax of Windows, with drive letters, UNC shares and case-insensitive names. */
+    public static windows(): LocalPathSyntax {
+        return WINDOWS;
+    }
+
+    /**
+     * Returns the syntax of the given platform.
+     * @param {string} [platform] - a value of {@code process.platform}, the current platform by default
+     */
+    public static forPlatform(platform: string = process.platform): LocalPathSyntax {
+        return platform === "win32" ? WINDOWS : POSIX;
+    }
+
+    /* The name of the syntax, "posix" or "windows". */
+    public abstract name(): string;
+
+    /* The separator put between the names of a path. */
+    public abstract getSeparator(): string;
+
+    /* Tells whether names differing only by their case are equal. */
+    public abstract isCaseInsensitive(): boolean;
+
+    /**
+     * Parses a path string, removing the redundant separators.
+     * @param {string} input - the path string
+     * @returns The type, root and normalized form of the path
+     * @throws InvalidPathException if the path string is invalid
+     */
+    public abstract parse(input: string): LocalPathComponents;
+
+    /**
+     * Resolves a path string against a working directory.
+     * @param {string} path - the path string
+     * @param {string} workingDirectory - an absolute path string of this syntax
+     * @returns An absolute path string
+     */
+    public abstract toAbsolute(path: string, workingDirectory: string): string;
+
+    /* Tells whether two names, or roots, are equal. */
+    public equalNames(name1: string, name2: string): boolean {
+        return this.compareNames(name1, name2) === 0;
+    }
+
+    /**
+     * Compares two path strings lexicographically, ignoring the case if the syntax is case-insensitive.
+     */
+    public compareNames(s1: string, s2: string): number {
+        const min = Math.min(s1.length, s2.length);
+        for (let i = 0; i < min; i++) {
+            let c1: string = s1.charAt(i);
+            let c2: string = s2.charAt(i);
+            if (c1 != c2) {
+                if (this.isCaseInsensitive()) {
+                    c1 = c1.toUpperCase();
+                    c2 = c2.toUpperCase();
+                }
+                if (c1 != c2) {
+                    return c1.charCodeAt(0) - c2.charCodeAt(0);
+                }
+            }
+        }
+        return s1.length - s2.length;
+    }
+
+    public toString(): string {
+        return this.name();
+    }
+}
+
+class PosixPathSyntax extends LocalPathSyntax {
+
+    public constructor() {
+        super();
+    }
+
+    public name(): string {
+        return "posix";
+    }
+
+    public getSeparator(): string {
+        return "/";
+    }
+
+    public isCaseInsensitive(): boolean {
+        return false;
+    }
+
+    public parse(input: string): LocalPathComponents {
+        const nul = input.indexOf("\u0000");
+        if (nul !== -1)
+            throw new InvalidPathException(input, "Nul character not allowed", nul);
+        const root = input.startsWith("/") ? "/" : "";
+        // remove redundant and trailing slashes
+        const names = input.split("/").filter(name => name.length > 0);
+        return {
+            type: root.length > 0 ? LocalPathType.ABSOLUTE : LocalPathType.RELATIVE,
+            root: root,
+            path: root + names.join("/"),
+        };
+    }
+
+    public toAbsolute(path: string, workingDirectory: string): string {
+        return pathFs.posix.resolve(workingDirectory, path);
+    }
+}
+
+const WINDOWS_RESERVED_CHARS = "<>:\"|?*";
+
+function isSlash(c: string): boolean {
+    return c === "\\" || c === "/";
+}
+
+function isLetter(c: string): boolean {
+    return /^[a-zA-Z]$/.test(c);
+}
+
+function nextNonSlash(path: string, off: number): number {
+    while (off < path.length && isSlash(path.charAt(off)))
+        off++;
+    return off;
+}
+
+function nextSlash(path: string, off: number): number {
+    while (off < path.length && !isSlash(path.charAt(off))) {
+        const c = path.charAt(off);
+        if (c < " " || WINDOWS_RESERVED_CHARS.indexOf(c) !== -1)
+            throw new InvalidPathException(path, "Illegal character [" + c + "] in path", off);
+        off++;
+    }
+    return off;
+}
+
+class WindowsPathSyntax extends LocalPathSyntax {
+
+    public constructor() {
+        super();
+    }
+
+    public name(): string {
+        return "windows";
+    }
+
+    public getSeparator(): string {
+        return "\\";
+    }
+
+    public isCaseInsensitive(): boolean {
+        return true;
+    }
+
+    public parse(input: string): LocalPathComponents {
+        let type: LocalPathType = LocalPathType.RELATIVE;
+        let root = "";
+        let off = 0;
+        if (input.length > 1) {
+            const c0 = input.charAt(0);
+            const c1 = input.charAt(1);
+            if (isSlash(c0) && isSlash(c1)) {
+                // UNC: the host and share names, the redundant slashes are collapsed
+                type = LocalPathType.UNC;
+                off = nextNonSlash(input, 2);
+                let next = nextSlash(input, off);
+                if (off === next)
+                    throw new InvalidPathException(input, "UNC path is missing hostname");
+                const host = input.substring(off, next);
+                off = nextNonSlash(input, next);
+                next = nextSlash(input, off);
+                if (off === next)
+                    throw new InvalidPathException(input, "UNC path is missing sharename");
+                root = "\\\\" + host + "\\" + input.substring(off, next) + "\\";
+                off = next;
+            } else if (isLetter(c0) && c1 === ":") {
+                if (input.length > 2 && isSlash(input.charAt(2))) {
+                    type = LocalPathType.ABSOLUTE;
+                    root = input.substring(0, 2) + "\\";
+                    off = 3;
+                } else {
+                    type = LocalPathType.DRIVE_RELATIVE;
+                    root = input.substring(0, 2);
+                    off = 2;
+                }
+            }
+        }
+        if (off === 0 && input.length > 0 && isSlash(input.charAt(0))) {
+            type = LocalPathType.DIRECTORY_RELATIVE;
+            root = "\\";
+        }
+        return {type: type, root: root, path: root + WindowsPathSyntax.normalize(input, off)};
+    }
+
+    /* Joins the names with backslashes, names cannot end with a space. */
+    private static normalize(input: string, off: number): string {
+        const names: string[] = [];
+        off = nextNonSlash(input, off);
+        while (off < input.length) {
+            const next = nextSlash(input, off);
+            const name = input.substring(off, next);
+            if (name.endsWith(" "))
+                throw new InvalidPathException(input, "Trailing char < >", next - 1);
+            names.push(name);
+            off = nextNonSlash(input, next);
+        }
+        return names.join("\\");
+    }
+
+    public toAbsolute(path: string, workingDirectory: string): string {
+        return pathFs.win32.resolve(workingDirectory, path);
+    }
+}
+
+const POSIX: LocalPathSyntax = new PosixPathSyntax();
+const WINDOWS: LocalPathSyntax = new WindowsPathSyntax();
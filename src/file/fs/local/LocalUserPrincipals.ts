@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as os from "os";
+import {GroupPrincipal, UserPrincipal, UserPrincipalLookupService, UserPrincipalNotFoundException} from "../../attribute";
+import {Principal} from "../../../Principal";
+import {ProviderMismatchException} from "../../exception";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+
+const PASSWD = "/etc/passwd";
+const GROUP = "/etc/group";
+
+/* The names and ids of a database such as /etc/passwd, reloaded when the file changes. */
+class IdDatabase {
+    private readonly file: string;
+    private modified: number = -1;
+    private idsByName = new Map<string, number>();
+    private namesById = new Map<number, string>();
+
+    public constructor(file: string) {
+        this.file = file;
+    }
+
+    private refresh(): void {
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(this.file);
+        } catch (e) {
+            // no database, as on systems where the accounts are not stored in files
+            this.idsByName = new Map<string, number>();
+            this.namesById = new Map<number, string>();
+            return;
+        }
+        if (stats.mtimeMs === this.modified) {
+            return;
+        }
+        let content: string;
+        try {
+            content = fs.readFileSync(this.file, "utf-8");
+        } catch (e) {
+            throw translateToIOException(e, this.file);
+        }
+        const idsByName = new Map<string, number>();
+        const namesById = new Map<number, string>();
+        for (let line of content.split("\n")) {
+            // name:password:id:...
+            const fields = line.split(":");
+            if (fields.length < 3 || line.startsWith("#") || !/^[0-9]+$/.test(fields[2])) {
+                continue;
+            }
+            const id = parseInt(fields[2], 10);
+            if (!idsByName.has(fields[0])) {
+                idsByName.set(fields[0], id);
+            }
+            if (!namesById.has(id)) {
+                namesById.set(id, fields[0]);
+            }
+        }
+        this.idsByName = idsByName;
+        this.namesById = namesById;
+        this.modified = stats.mtimeMs;
+    }
+
+    public idOf(name: string): number | undefined {
+        this.refresh();
+        return this.idsByName.get(name);
+    }
+
+    public nameOf(id: number): string | undefined {
+        this.refresh();
+        return this.namesById.get(id);
+    }
+}
+
+const users = new IdDatabase(PASSWD);
+const groups = new IdDatabase(GROUP);
+
+function currentUser(): os.UserInfo<string> | null {
+    try {
+        return os.userInfo();
+    } catch (ignore) {
+        // the current user has no entry in the user database
+        return null;
+    }
+}
+
+/* A user or a group of the local system, identified by its numeric id. */
+export class LocalUser implements UserPrincipal {
+    private readonly id: number;
+    private readonly group: boolean;
+    private readonly name: string;
+
+    public constructor(id: number, isGroup: boolean, name: string) {
+        this.id = id;
+        this.group = isGroup;
+        this.name = name;
+    }
+
+    /**
+     * Returns the principal of the given user id, named after the user database,
+     * or after the numeric id when the user has no entry.
+     * @param {number} uid - the user id
+     */
+    public static fromUid(uid: number): LocalUser {
+        let name = users.nameOf(uid);
+        if (name === undefined) {
+            const info = currentUser();
+            name = info && info.uid === uid ? info.username : uid.toString();
+        }
+        return new LocalUser(uid, false, name);
+    }
+
+    /**
+     * Returns the principal of the given group id, named after the group database,
+     * or after the numeric id when the group has no entry.
+     * @param {number} gid - the group id
+     */
+    public static fromGid(gid: number): LocalGroup {
+        return new LocalGroup(gid, groups.nameOf(gid) ?? gid.toString());
+    }
+
+    /**
+     * Looks up a user, or a group, by name or by numeric id.
+     * @param {string} name - the name, or the numeric id, of the principal
+     * @param {boolean} isGroup - true to lookup a group
+     * @throws UserPrincipalNotFoundException if the principal does not exist
+     */
+    public static lookupName(name: string, isGroup: boolean): LocalUser {
+        const id: number | undefined = isGroup ? groups.idOf(name) : users.idOf(name);
+        if (id !== undefined) {
+            return isGroup ? new LocalGroup(id, name) : new LocalUser(id, false, name);
+        }
+        const info = currentUser();
+        if (!isGroup && info && info.username === name) {
+            return new LocalUser(info.uid, false, name);
+        }
+        if (!/^[0-9]+$/.test(name))
+            throw new UserPrincipalNotFoundException(name);
+        // a numeric id, which does not need an entry in the databases
+        return isGroup ? LocalUser.fromGid(parseInt(name, 10)) : LocalUser.fromUid(parseInt(name, 10));
+    }
+
+    /**
+     * Returns the local principal, or throws if the principal comes from another provider.
+     */
+    public static toLocalUser(principal: Principal): LocalUser {
+        if (!(principal instanceof LocalUser)) {
+            throw new ProviderMismatchException();
+        }
+        return principal;
+    }
+
+    public uid(): number {
+        if (this.group)
+            throw new Error("Should not get here");
+        return this.id;
+    }
+
+    public gid(): number {
+        if (!this.group)
+            throw new Error("Should not get here");
+        return this.id;
+    }
+
+    public isGroup(): boolean {
+        return this.group;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    public equals(other: Principal): boolean {
+        if (!(other instanceof LocalUser)) {
+            return false;
+        }
+        return this.id === other.id && this.group === other.group;
+    }
+
+    public toString(): string {
+        return this.name;
+    }
+}
+
+export class LocalGroup extends LocalUser implements GroupPrincipal {
+
+    public constructor(gid: number, name: string) {
+        super(gid, true, name);
+    }
+}
+
+/* Looks up the local users and groups, the databases are read again only when they change. */
+export class LocalUserPrincipalLookupService extends UserPrincipalLookupService {
+
+    public constructor() {
+        super();
+    }
+
+    public lookupPrincipalByName(name: string): UserPrincipal {
+        return LocalUser.lookupName(name, false);
+    }
+
+    public lookupPrincipalByGroupName(group: string): GroupPrincipal {
+        return LocalUser.lookupName(group, true);
+    }
+}
@@ -5,6 +5,7 @@ export * from "./LocalFileSystem"
 export * from "./LocalFileSystemProvider"
 export * from "./LocalPath"
 export * from "./LocalPathType"
+export * from "./LocalPathSyntax"
 
 
 /* Registering the LocalFileSystemProvider with the FileSystemProviders class. */
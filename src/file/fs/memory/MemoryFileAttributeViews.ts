@@ -0,0 +1,81 @@
+import {
+    BasicFileAttributeView,
+    FileTime,
+    GroupPrincipal,
+    PosixFileAttributeView,
+    PosixFilePermission,
+    UserPrincipal,
+} from "../../attribute";
+import {FileSystemException} from "../../exception";
+import {toUnixMode} from "../../spi/UnixFileModes";
+import {MemoryFileAttributes, MemoryNode} from "./MemoryNode";
+import {MemoryPath} from "./MemoryPath";
+import {MemoryGroup, MemoryUser} from "./MemoryUserPrincipals";
+
+/* The "basic" attribute view of a memory file. */
+export class MemoryBasicFileAttributeView implements BasicFileAttributeView {
+    protected readonly path: MemoryPath;
+    protected readonly followLinks: boolean;
+
+    public constructor(path: MemoryPath, followLinks: boolean) {
+        this.path = path;
+        this.followLinks = followLinks;
+    }
+
+    protected getNode(): MemoryNode {
+        return this.path.getFileSystem().getNode(this.path, this.followLinks);
+    }
+
+    public name(): string {
+        return "basic";
+    }
+
+    public readAttributes(): MemoryFileAttributes {
+        return new MemoryFileAttributes(this.getNode());
+    }
+
+    /* Updates the times of the file, a time not given keeps its current value. */
+    public setTimes(lastModifiedTime?: FileTime, lastAccessTime?: FileTime, createTime?: FileTime): void {
+        const node = this.getNode();
+        node.lastModifiedTime = lastModifiedTime ?? node.lastModifiedTime;
+        node.lastAccessTime = lastAccessTime ?? node.lastAccessTime;
+        node.creationTime = createTime ?? node.creationTime;
+    }
+}
+
+/* The "posix" attribute view of a memory file, also used as its "owner" view. */
+export class MemoryPosixFileAttributeView extends MemoryBasicFileAttributeView implements PosixFileAttributeView {
+
+    public constructor(path: MemoryPath, followLinks: boolean) {
+        super(path, followLinks);
+    }
+
+    public name(): string {
+        return "posix";
+    }
+
+    public setPermissions(perms: Set<PosixFilePermission>): void {
+        const node = this.getNode();
+        node.mode = (node.mode & ~0o777) | toUnixMode(perms);
+    }
+
+    public getOwner(): UserPrincipal {
+        return this.getNode().owner;
+    }
+
+    public setOwner(owner: UserPrincipal): void {
+        const user = MemoryUser.toMemoryUser(owner);
+        if (user.isGroup()) {
+            throw new FileSystemException(this.path.toString(), undefined, "'owner' parameter can't be a group");
+        }
+        this.getNode().owner = user;
+    }
+
+    public setGroup(group: GroupPrincipal): void {
+        const user = MemoryUser.toMemoryUser(group);
+        if (!(user instanceof MemoryGroup)) {
+            throw new FileSystemException(this.path.toString(), undefined, "'" + group.getName() + "' is not a group");
+        }
+        this.getNode().group = user;
+    }
+}
@@ -0,0 +1,85 @@
+import {FileStore} from "../../FileStore";
+import {FileStoreAttributeView} from "../../attribute/FileStoreAttributeView";
+import {FileSystemException} from "../../exception";
+import {UnsupportedOperationException} from "../../../exception";
+
+const SUPPORTED_VIEWS = new Set<string>(["basic", "BasicFileAttributeView", "posix", "PosixFileAttributeView", "owner", "FileOwnerAttributeView"]);
+
+/* The single file store of a memory file system, accounting the bytes of the regular files against its capacity. */
+export class MemoryFileStore extends FileStore {
+    private readonly storeName: string;
+    private readonly capacity: number;
+    private used: number = 0;
+
+    public constructor(name: string, capacity: number) {
+        super();
+        this.storeName = name;
+        this.capacity = capacity;
+    }
+
+    /**
+     * Reserves, or releases when negative, the space of the content of a file.
+     * @param {string} file - the file whose content grows, reported in the exception
+     * @param {number} bytes - the number of bytes
+     * @throws FileSystemException if the store is full
+     */
+    public allocate(file: string, bytes: number): void {
+        if (bytes > 0 && this.used + bytes > this.capacity) {
+            throw new FileSystemException(file, undefined, "No space left on device");
+        }
+        this.used = Math.max(0, this.used + bytes);
+    }
+
+    public name(): string {
+        return this.storeName;
+    }
+
+    public type(): string {
+        return "memory";
+    }
+
+    public isReadOnly(): boolean {
+        return false;
+    }
+
+    public getTotalSpace(): bigint {
+        return BigInt(this.capacity);
+    }
+
+    public getUsableSpace(): bigint {
+        return BigInt(this.capacity - this.used);
+    }
+
+    public getUnallocatedSpace(): bigint {
+        return this.getUsableSpace();
+    }
+
+    public getBlockSize(): bigint {
+        return BigInt(1);
+    }
+
+    public supportsFileAttributeView(name: string): boolean {
+        return SUPPORTED_VIEWS.has(name);
+    }
+
+    public getFileStoreAttributeView(type: string): FileStoreAttributeView | null {
+        return null;
+    }
+
+    public getAttribute(attribute: string): any {
+        switch (attribute) {
+            case "totalSpace":
+                return this.getTotalSpace();
+            case "usableSpace":
+                return this.getUsableSpace();
+            case "unallocatedSpace":
+                return this.getUnallocatedSpace();
+            default:
+                throw new UnsupportedOperationException("'" + attribute + "' not recognized");
+        }
+    }
+
+    public toString(): string {
+        return this.storeName + " (memory)";
+    }
+}
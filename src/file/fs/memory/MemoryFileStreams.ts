@@ -0,0 +1,201 @@
+import {ByteLengthQueuingStrategy, ReadableStream as WebReadableStream, WritableStream as WebWritableStream} from "stream/web";
+import {OpenOption} from "../../OpenOption";
+import {StandardOpenOption} from "../../StandardOpenOption";
+import {LinkOption} from "../../LinkOption";
+import {FileTime} from "../../attribute";
+import {FileAlreadyExistsException, FileSystemException, NoSuchFileException} from "../../exception";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {chunkSize, toBytes} from "../../spi/StreamChunks";
+import {MemoryNode} from "./MemoryNode";
+import {MemoryPath} from "./MemoryPath";
+import {DEFAULT_FILE_MODE, MemoryLookup} from "./MemoryFileSystem";
+
+// size of the chunks read from a file
+const BUFFER_SIZE = 8192;
+
+/* The open options of a memory stream, decoded. */
+class Flags {
+    append: boolean = false;
+    truncateExisting: boolean = false;
+    noFollowLinks: boolean = false;
+    create: boolean = false;
+    createNew: boolean = false;
+    deleteOnClose: boolean = false;
+
+    private constructor() {
+    }
+
+    public static parse(options: OpenOption[]): Flags {
+        const flags = new Flags();
+        for (let option of options) {
+            switch (option) {
+                case StandardOpenOption.READ:
+                case StandardOpenOption.WRITE:
+                    break;
+                case StandardOpenOption.APPEND:
+                    flags.append = true;
+                    break;
+                case StandardOpenOption.TRUNCATE_EXISTING:
+                    flags.truncateExisting = true;
+                    break;
+                case StandardOpenOption.CREATE:
+                    flags.create = true;
+                    break;
+                case StandardOpenOption.CREATE_NEW:
+                    flags.createNew = true;
+                    break;
+                case StandardOpenOption.DELETE_ON_CLOSE:
+                    flags.deleteOnClose = true;
+                    break;
+                case StandardOpenOption.SPARSE:
+                case StandardOpenOption.SYNC:
+                case StandardOpenOption.DSYNC:
+                    // nothing to do in memory
+                    break;
+                case LinkOption.NOFOLLOW_LINKS:
+                    flags.noFollowLinks = true;
+                    break;
+                default:
+                    if (option == null)
+                        throw new NullPointerException();
+                    throw new UnsupportedOperationException(option + " not supported");
+            }
+        }
+        if (flags.append && flags.truncateExisting)
+            throw new IllegalArgumentException("APPEND + TRUNCATE_EXISTING not allowed");
+        return flags;
+    }
+}
+
+/* Checks that an existing file can be opened as a regular file. */
+function checkRegularFile(node: MemoryNode, file: string): void {
+    if (node.isDirectory())
+        throw new FileSystemException(file, undefined, "Is a directory");
+    if (node.isSymbolicLink())
+        throw new FileSystemException(file, undefined, "Too many levels of symbolic links");
+}
+
+/* Deletes a file opened with DELETE_ON_CLOSE, the file opened even if it was moved or replaced meanwhile. */
+function deleteOnClose(path: MemoryPath, lookup: MemoryLookup, node: MemoryNode): void {
+    if (lookup.parent !== null) {
+        path.getFileSystem().unlinkNode(lookup.parent, lookup.name, node);
+    }
+}
+
+/**
+ * Opens a memory file and returns a stream of its bytes. A chunk is copied from the file when it is
+ * read, so that the bytes written to the file meanwhile are read too.
+ * @param {MemoryPath} path - the file to read
+ * @param {OpenOption[]} [options] - the options specifying how the file is opened
+ * @returns A ReadableStream of Uint8Array chunks
+ */
+export function newMemoryInputStream(path: MemoryPath, options?: OpenOption[]): ReadableStream<Uint8Array> {
+    const flags = Flags.parse(options ?? []);
+    const fileSystem = path.getFileSystem();
+    const file = path.toString();
+    const lookup = fileSystem.lookup(path, !flags.noFollowLinks && !flags.deleteOnClose);
+    const node = lookup.node;
+    if (node === null)
+        throw new NoSuchFileException(file);
+    checkRegularFile(node, file);
+    let position = 0;
+    let closed = false;
+    const close = () => {
+        if (!closed) {
+            closed = true;
+            if (flags.deleteOnClose) {
+                deleteOnClose(path, lookup, node);
+            }
+        }
+    };
+    return new WebReadableStream<Uint8Array>({
+        pull(controller) {
+            fileSystem.checkOpen();
+            if (position >= node.size) {
+                node.lastAccessTime = FileTime.fromMillis(Date.now());
+                close();
+                controller.close();
+                return;
+            }
+            const end = Math.min(node.size, position + BUFFER_SIZE);
+            controller.enqueue(node.content.slice(position, end));
+            position = end;
+        },
+        cancel() {
+            close();
+        },
+    }, new ByteLengthQueuingStrategy({highWaterMark: BUFFER_SIZE}));
+}
+
+/**
+ * Opens or creates a memory file and returns a stream writing to it. Chunks may be strings
+ * (encoded as UTF-8), ArrayBuffers or ArrayBufferViews.
+ * @param {MemoryPath} path - the file to write
+ * @param {OpenOption[]} options - the options specifying how the file is created or opened
+ * @returns A WritableStream
+ * @throws FileSystemException if the file store is full
+ */
+export function newMemoryOutputStream(path: MemoryPath, options: OpenOption[]): WritableStream<any> {
+    const flags = Flags.parse(options);
+    const fileSystem = path.getFileSystem();
+    const store = fileSystem.getFileStore();
+    const file = path.toString();
+    // exclusive create never follows the last link
+    const lookup = fileSystem.lookup(path, !flags.noFollowLinks && !flags.createNew && !flags.deleteOnClose);
+    let node = lookup.node;
+    if (node === null) {
+        if (!flags.create && !flags.createNew)
+            throw new NoSuchFileException(file);
+        node = MemoryNode.newFile(DEFAULT_FILE_MODE, fileSystem.getOwner(), fileSystem.getGroup());
+        fileSystem.link(lookup.parent as MemoryNode, lookup.name, node);
+    } else {
+        if (flags.createNew)
+            throw new FileAlreadyExistsException(file);
+        checkRegularFile(node, file);
+        if (flags.truncateExisting) {
+            store.allocate(file, -node.size);
+            node.resize(0);
+            node.touch();
+        }
+    }
+    const target = node;
+    let position = 0;
+    // the space allocated once the file has no link anymore, released when the stream is closed
+    let unlinkedSize = 0;
+    let closed = false;
+    const close = () => {
+        if (!closed) {
+            closed = true;
+            if (flags.deleteOnClose) {
+                deleteOnClose(path, lookup, target);
+            }
+            store.allocate(file, -unlinkedSize);
+        }
+    };
+    return new WebWritableStream<any>({
+        write(chunk) {
+            fileSystem.checkOpen();
+            const bytes = toBytes(chunk);
+            if (flags.append) {
+                position = target.size;
+            }
+            const end = position + bytes.byteLength;
+            if (end > target.size) {
+                store.allocate(file, end - target.size);
+                if (target.links === 0) {
+                    unlinkedSize += end - target.size;
+                }
+                target.resize(end);
+            }
+            target.content.set(bytes, position);
+            position = end;
+            target.touch();
+        },
+        close() {
+            close();
+        },
+        abort() {
+            close();
+        },
+    }, {highWaterMark: BUFFER_SIZE, size: chunkSize});
+}
@@ -0,0 +1,376 @@
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {FileStore} from "../../FileStore";
+import {PathMatcher} from "../../PathMatcher";
+import {AccessMode} from "../../AccessMode";
+import {UserPrincipalLookupService} from "../../attribute";
+import {PathMatchers} from "../../spi/PathMatchers";
+import {UnixPath} from "../../spi/UnixPath";
+import {
+    AccessDeniedException,
+    ClosedFileSystemException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    FileSystemException,
+    NoSuchFileException,
+    NotDirectoryException,
+} from "../../exception";
+import {IllegalArgumentException, NullPointerException} from "../../../exception";
+import {Objects} from "../../../utils";
+import {MemoryNode} from "./MemoryNode";
+import {MemoryFileStore} from "./MemoryFileStore";
+import {MemoryPath} from "./MemoryPath";
+import {MemoryGroup, MemoryUser, MemoryUserPrincipalLookupService} from "./MemoryUserPrincipals";
+import type {MemoryFileSystemProvider} from "./MemoryFileSystemProvider";
+
+// the maximum number of symbolic links followed when locating a file, as on Linux
+const MAX_SYMLINKS = 40;
+// the default capacity of a file system, in bytes
+const DEFAULT_CAPACITY = 4 * 1024 * 1024 * 1024;
+
+export const DEFAULT_FILE_MODE = 0o644;
+export const DEFAULT_DIRECTORY_MODE = 0o755;
+
+/* Where a path leads in the tree: the file if it exists, and the directory where it is, or would be, linked. */
+export interface MemoryLookup {
+    node: MemoryNode | null;
+    // the directory of the file, null for the root
+    parent: MemoryNode | null;
+    name: string;
+    // the directories from the root to the parent
+    ancestors: MemoryNode[];
+    // the absolute path of the file, without links, "." or ".."
+    realPath: string;
+}
+
+function toCapacity(value: any): number {
+    if (value === undefined || value === null) {
+        return DEFAULT_CAPACITY;
+    }
+    const capacity = Number(value);
+    if (!Number.isSafeInteger(capacity) || capacity < 0) {
+        throw new IllegalArgumentException("Invalid capacity: " + value);
+    }
+    return capacity;
+}
+
+/**
+ * A file system whose files are kept in memory, until it is closed. The environment given when it is
+ * created can set its {@code capacity} in bytes, the {@code owner} and the {@code group} of the files.
+ */
+export class MemoryFileSystem extends FileSystem {
+    private readonly fileSystemProvider: MemoryFileSystemProvider;
+    private readonly fileSystemName: string;
+    private readonly store: MemoryFileStore;
+    private readonly root: MemoryNode;
+    private readonly owner: MemoryUser;
+    private readonly group: MemoryGroup;
+    private readonly userPrincipalLookupService = new MemoryUserPrincipalLookupService();
+    private open: boolean = true;
+
+    public constructor(provider: MemoryFileSystemProvider, name: string, env: Map<string, any> = new Map<string, any>()) {
+        super();
+        this.fileSystemProvider = provider;
+        this.fileSystemName = name;
+        this.store = new MemoryFileStore(name, toCapacity(env.get("capacity")));
+        this.owner = new MemoryUser(String(env.get("owner") ?? "user"));
+        this.group = new MemoryGroup(String(env.get("group") ?? "group"));
+        this.root = MemoryNode.newDirectory(DEFAULT_DIRECTORY_MODE, this.owner, this.group);
+        this.root.links = 1;
+    }
+
+    public name(): string {
+        return this.fileSystemName;
+    }
+
+    public provider(): MemoryFileSystemProvider {
+        return this.fileSystemProvider;
+    }
+
+    /* Closes the file system, its files are lost and its name can be used again. */
+    public close(): void {
+        if (this.open) {
+            this.open = false;
+            this.fileSystemProvider.removeFileSystem(this);
+        }
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public isReadOnly(): boolean {
+        return false;
+    }
+
+    public getSeparator(): string {
+        return "/";
+    }
+
+    public getRootDirectories(): Iterable<Path> {
+        return [this.getPath("/")];
+    }
+
+    public getFileStores(): Iterable<FileStore> {
+        return [this.store];
+    }
+
+    public getFileStore(): MemoryFileStore {
+        return this.store;
+    }
+
+    public supportedFileAttributeViews(): Set<string> {
+        return new Set<string>(["basic", "posix", "owner"]);
+    }
+
+    public getPathMatcher(syntaxAndPattern: string): PathMatcher {
+        return PathMatchers.getPathMatcher(syntaxAndPattern, "/");
+    }
+
+    public getUserPrincipalLookupService(): UserPrincipalLookupService {
+        return this.userPrincipalLookupService;
+    }
+
+    public getPath(first: string, more?: string[]): MemoryPath {
+        Objects.requireNonNullUndefined(first);
+        const names = [first, ...(more ?? [])].filter(name => name.length > 0);
+        return new MemoryPath(this, names.join("/"));
+    }
+
+    public getOwner(): MemoryUser {
+        return this.owner;
+    }
+
+    public getGroup(): MemoryGroup {
+        return this.group;
+    }
+
+    public checkOpen(): void {
+        if (!this.open)
+            throw new ClosedFileSystemException();
+    }
+
+    /**
+     * Locates a file, following the symbolic links met on the way.
+     * @param {MemoryPath} path - the path of the file
+     * @param {boolean} followLinks - false to locate a symbolic link rather than its target
+     * @returns The file, null if it does not exist, and the directory where it is linked
+     * @throws NoSuchFileException if a directory of the path does not exist
+     * @throws NotDirectoryException if a directory of the path is not a directory
+     * @throws FileSystemException if too many symbolic links are met
+     */
+    public lookup(path: MemoryPath, followLinks: boolean): MemoryLookup {
+        this.checkOpen();
+        const file = path.toString();
+        let remaining = (path.toAbsolutePath() as UnixPath).getNames().slice();
+        let ancestors: MemoryNode[] = [this.root];
+        let names: string[] = [];
+        let links = 0;
+        while (remaining.length > 0) {
+            const name = remaining.shift() as string;
+            const dir = ancestors[ancestors.length - 1];
+            if (name === "." || name.length === 0) {
+                continue;
+            }
+            if (name === "..") {
+                if (ancestors.length > 1) {
+                    ancestors.pop();
+                    names.pop();
+                }
+                continue;
+            }
+            const node = dir.getEntries().get(name) ?? null;
+            const last = remaining.every(next => next === "." || next.length === 0);
+            if (node === null) {
+                if (!last)
+                    throw new NoSuchFileException(file);
+                return {node: null, parent: dir, name: name, ancestors: ancestors, realPath: "/" + [...names, name].join("/")};
+            }
+            if (node.isSymbolicLink() && (followLinks || !last)) {
+                if (++links > MAX_SYMLINKS)
+                    throw new FileSystemException(file, undefined, "Too many levels of symbolic links");
+                const target = UnixPath.normalizeString(node.target as string);
+                if (target.startsWith("/")) {
+                    ancestors = [this.root];
+                    names = [];
+                }
+                remaining = target.split("/").filter(next => next.length > 0).concat(remaining);
+                continue;
+            }
+            if (node.isDirectory() && !last) {
+                ancestors.push(node);
+                names.push(name);
+                continue;
+            }
+            if (!last)
+                throw new NotDirectoryException(file);
+            return {node: node, parent: dir, name: name, ancestors: ancestors, realPath: "/" + [...names, name].join("/")};
+        }
+        // the root, or a path ending with ".."
+        const node = ancestors.pop() as MemoryNode;
+        return {
+            node: node,
+            parent: ancestors.length > 0 ? ancestors[ancestors.length - 1] : null,
+            name: names.length > 0 ? names[names.length - 1] : "",
+            ancestors: ancestors,
+            realPath: "/" + names.join("/"),
+        };
+    }
+
+    /**
+     * Returns an existing file.
+     * @throws NoSuchFileException if the file does not exist
+     */
+    public getNode(path: MemoryPath, followLinks: boolean): MemoryNode {
+        const node = this.lookup(path, followLinks).node;
+        if (node === null)
+            throw new NoSuchFileException(path.toString());
+        return node;
+    }
+
+    /**
+     * Links a new file, the last symbolic link of the path is not followed.
+     * @throws FileAlreadyExistsException if the file exists
+     */
+    public createNode(path: MemoryPath, node: MemoryNode): void {
+        const lookup = this.lookup(path, false);
+        if (lookup.node !== null || lookup.parent === null)
+            throw new FileAlreadyExistsException(path.toString());
+        this.link(lookup.parent, lookup.name, node);
+    }
+
+    /* Adds an entry to a directory. */
+    public link(dir: MemoryNode, name: string, node: MemoryNode): void {
+        dir.getEntries().set(name, node);
+        node.links++;
+        dir.touch();
+    }
+
+    /* Removes an entry of a directory, the space of a file is released with its last link. */
+    public unlink(dir: MemoryNode, name: string): void {
+        const node = dir.getEntries().get(name);
+        if (node) {
+            dir.getEntries().delete(name);
+            dir.touch();
+            if (--node.links === 0 && node.isRegularFile()) {
+                this.store.allocate(name, -node.size);
+            }
+        }
+    }
+
+    /**
+     * Removes a link of a file opened through an entry: the entry if it still links the file, else the
+     * first entry linking the file, wherever it was moved since. Nothing is removed if the file has no link.
+     * @param {MemoryNode} dir - the directory of the entry
+     * @param {string} name - the name of the entry
+     * @param {MemoryNode} node - the file
+     */
+    public unlinkNode(dir: MemoryNode, name: string, node: MemoryNode): void {
+        if (dir.getEntries().get(name) === node) {
+            this.unlink(dir, name);
+            return;
+        }
+        const found = node.links > 0 ? MemoryFileSystem.findLink(this.root, node) : null;
+        if (found !== null) {
+            this.unlink(found[0], found[1]);
+        }
+    }
+
+    /* Finds an entry linking a file in a directory tree, as [directory, name]. */
+    private static findLink(dir: MemoryNode, node: MemoryNode): [MemoryNode, string] | null {
+        for (const [name, child] of dir.getEntries()) {
+            if (child === node) {
+                return [dir, name];
+            }
+            if (child.isDirectory()) {
+                const found = MemoryFileSystem.findLink(child, node);
+                if (found !== null) {
+                    return found;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Deletes a file, or an empty directory.
+     * @throws NoSuchFileException if the file does not exist
+     * @throws DirectoryNotEmptyException if the directory is not empty
+     */
+    public delete(path: MemoryPath): void {
+        const lookup = this.lookup(path, false);
+        if (lookup.node === null)
+            throw new NoSuchFileException(path.toString());
+        if (lookup.parent === null)
+            throw new FileSystemException(path.toString(), undefined, "Device or resource busy");
+        if (lookup.node.isDirectory() && lookup.node.getEntries().size > 0)
+            throw new DirectoryNotEmptyException(path.toString());
+        this.unlink(lookup.parent, lookup.name);
+    }
+
+    /**
+     * Checks the permissions of the owner of the file system on a file: the permissions
+     * of the owner of the file if it is the same, else those of the group, else those of the others.
+     * @throws AccessDeniedException if a permission is missing
+     */
+    public checkAccess(path: MemoryPath, modes: AccessMode[]): void {
+        const node = this.getNode(path, true);
+        let shift = 0;
+        if (node.owner.equals(this.owner)) {
+            shift = 6;
+        } else if (node.group.equals(this.group)) {
+            shift = 3;
+        }
+        for (let mode of modes) {
+            let bit: number;
+            switch (mode) {
+                case AccessMode.READ:
+                    bit = 0o4;
+                    break;
+                case AccessMode.WRITE:
+                    bit = 0o2;
+                    break;
+                case AccessMode.EXECUTE:
+                    bit = 0o1;
+                    break;
+                default:
+                    throw new NullPointerException();
+            }
+            if (((node.mode >> shift) & bit) === 0)
+                throw new AccessDeniedException(path.toString());
+        }
+    }
+
+    /**
+     * Returns the absolute path of a file, without "." and "..".
+     * @param {MemoryPath} path - the path of the file
+     * @param {boolean} followLinks - true to resolve the symbolic links, false to keep them
+     * @throws NoSuchFileException if the file does not exist
+     */
+    public toRealPath(path: MemoryPath, followLinks: boolean): string {
+        if (followLinks) {
+            const lookup = this.lookup(path, true);
+            if (lookup.node === null)
+                throw new NoSuchFileException(path.toString());
+            return lookup.realPath;
+        }
+        // a ".." cannot be eliminated when the previous name is a link
+        let result = this.getPath("/");
+        for (let name of (path.toAbsolutePath() as UnixPath).getNames()) {
+            if (name === "." || name.length === 0) {
+                continue;
+            }
+            if (name === ".." && !this.getNode(result, false).isSymbolicLink()) {
+                result = (result.getParent() ?? result) as MemoryPath;
+                continue;
+            }
+            result = result.resolve(this.getPath(name)) as MemoryPath;
+        }
+        this.getNode(result, false);
+        return result.toString();
+    }
+
+    public toString(): string {
+        return "memory:" + this.fileSystemName;
+    }
+}
@@ -0,0 +1,334 @@
+import {FileAttributeDispatcher, FileSystemProvider, FileSystemRegistry, SnapshotDirectoryStream} from "../../spi";
+import {Path} from "../../Path";
+import {AccessMode} from "../../AccessMode";
+import {CopyOption} from "../../CopyOption";
+import {StandardCopyOption} from "../../StandardCopyOption";
+import {OpenOption} from "../../OpenOption";
+import {LinkOption} from "../../LinkOption";
+import {DirectoryStream} from "../../DirectoryStream";
+import {BasicFileAttributes, FileAttribute, FileAttributeView} from "../../attribute";
+import {copyToForeignTarget, moveToForeignTarget} from "../../CopyMoveHelper";
+import {
+    FileAlreadyExistsException,
+    FileSystemAlreadyExistsException,
+    FileSystemException,
+    NoSuchFileException,
+    NotDirectoryException,
+    NotLinkException,
+} from "../../exception";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {toUnixModeFromAttributes} from "../../spi/UnixFileModes";
+import {MemoryNode} from "./MemoryNode";
+import {MemoryPath} from "./MemoryPath";
+import {DEFAULT_DIRECTORY_MODE, DEFAULT_FILE_MODE, MemoryFileSystem} from "./MemoryFileSystem";
+import {MemoryFileStore} from "./MemoryFileStore";
+import {newMemoryInputStream, newMemoryOutputStream} from "./MemoryFileStreams";
+import {MemoryBasicFileAttributeView, MemoryPosixFileAttributeView} from "./MemoryFileAttributeViews";
+
+function followLinks(options?: LinkOption[]): boolean {
+    return !options || !options.includes(LinkOption.NOFOLLOW_LINKS);
+}
+
+/* The copy and move options, decoded. */
+class Flags {
+    replaceExisting: boolean = false;
+    followLinks: boolean = true;
+    copyAttributes: boolean = false;
+
+    private constructor() {
+    }
+
+    public static fromCopyOptions(options?: CopyOption[], move: boolean = false): Flags {
+        const flags = new Flags();
+        for (let option of options ?? []) {
+            if (option === StandardCopyOption.REPLACE_EXISTING) {
+                flags.replaceExisting = true;
+                continue;
+            }
+            if (option === LinkOption.NOFOLLOW_LINKS) {
+                flags.followLinks = false;
+                continue;
+            }
+            if (option === StandardCopyOption.COPY_ATTRIBUTES && !move) {
+                flags.copyAttributes = true;
+                continue;
+            }
+            if (option === StandardCopyOption.ATOMIC_MOVE && move) {
+                // a move within a memory file system is always atomic
+                continue;
+            }
+            if (option == null)
+                throw new NullPointerException();
+            throw new UnsupportedOperationException("Unsupported copy option: " + option);
+        }
+        if (move) {
+            flags.followLinks = false;
+            flags.copyAttributes = true;
+        }
+        return flags;
+    }
+}
+
+/**
+ * The provider of the memory file systems, identified by the URLs {@code memory:name}. Each name is
+ * an independent file system, created by {@link FileSystems#newFileSystem} and open until it is closed.
+ * The provider is not installed by importing it: the application installs it with
+ * {@link FileSystemProviders.addProvider}, or declares it to the {@link ServiceLoader}.
+ */
+export class MemoryFileSystemProvider extends FileSystemProvider {
+    private readonly fileSystems = new FileSystemRegistry<MemoryFileSystem>();
+    private readonly attributes: FileAttributeDispatcher = new FileAttributeDispatcher()
+        .registerBasicView((path, options) => new MemoryBasicFileAttributeView(MemoryPath.toMemoryPath(path), followLinks(options)))
+        .registerPosixView((path, options) => new MemoryPosixFileAttributeView(MemoryPath.toMemoryPath(path), followLinks(options)))
+        .registerOwnerView((path, options) => new MemoryPosixFileAttributeView(MemoryPath.toMemoryPath(path), followLinks(options)));
+
+    public constructor() {
+        super();
+    }
+
+    public getScheme(): string {
+        return "memory";
+    }
+
+    /**
+     * Splits a URL {@code memory:name/path} into the name of the file system and the path.
+     * @throws IllegalArgumentException if the URL has no name
+     */
+    private static parseUrl(url: URL): [string, string] {
+        if (url.protocol.toLowerCase() !== "memory:")
+            throw new IllegalArgumentException("URL scheme is not \"memory\"");
+        const spec = url.host.length > 0 ? url.host + url.pathname : url.pathname;
+        const slash = spec.indexOf("/");
+        const name = decodeURIComponent(slash === -1 ? spec : spec.substring(0, slash));
+        const path = slash === -1 ? "/" : spec.substring(slash).split("/").map(decodeURIComponent).join("/");
+        if (name.length === 0)
+            throw new IllegalArgumentException("URL has no file system name");
+        return [name, path];
+    }
+
+    /**
+     * Creates a new memory file system, the environment can set its {@code capacity}, {@code owner} and {@code group}.
+     * @throws FileSystemAlreadyExistsException if a file system of the same name is open
+     */
+    public newFileSystemFromUrl(url: URL, env: Map<string, any>): MemoryFileSystem {
+        const [name] = MemoryFileSystemProvider.parseUrl(url);
+        if (this.fileSystems.find(name) !== null)
+            throw new FileSystemAlreadyExistsException(name);
+        return this.fileSystems.register(name, new MemoryFileSystem(this, name, env));
+    }
+
+    public getFileSystem(url: URL): MemoryFileSystem {
+        const [name] = MemoryFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(name);
+    }
+
+    public getPath(url: URL): Path {
+        const [name, path] = MemoryFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(name).getPath(path);
+    }
+
+    /* Forgets a closed file system. */
+    public removeFileSystem(fileSystem: MemoryFileSystem): void {
+        this.fileSystems.deregister(fileSystem.name(), fileSystem);
+    }
+
+    protected newInputStreamImpl(path: Path, options?: OpenOption[]): ReadableStream {
+        return newMemoryInputStream(MemoryPath.toMemoryPath(path), options);
+    }
+
+    protected newOutputStreamImpl(path: Path, options?: OpenOption[]): WritableStream {
+        return newMemoryOutputStream(MemoryPath.toMemoryPath(path), options ?? []);
+    }
+
+    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
+        const file = MemoryPath.toMemoryPath(dir);
+        const node = file.getFileSystem().getNode(file, true);
+        if (!node.isDirectory())
+            throw new NotDirectoryException(file.toString());
+        return new SnapshotDirectoryStream(file, [...node.getEntries().keys()], acceptFilter);
+    }
+
+    public createFile(path: Path, attrs?: FileAttribute<any>[]): void {
+        const file = MemoryPath.toMemoryPath(path);
+        const fileSystem = file.getFileSystem();
+        const mode = toUnixModeFromAttributes(DEFAULT_FILE_MODE, attrs);
+        fileSystem.createNode(file, MemoryNode.newFile(mode, fileSystem.getOwner(), fileSystem.getGroup()));
+    }
+
+    public createDirectory(dir: Path, attrs?: FileAttribute<any>[]): void {
+        const file = MemoryPath.toMemoryPath(dir);
+        const fileSystem = file.getFileSystem();
+        const mode = toUnixModeFromAttributes(DEFAULT_DIRECTORY_MODE, attrs);
+        fileSystem.createNode(file, MemoryNode.newDirectory(mode, fileSystem.getOwner(), fileSystem.getGroup()));
+    }
+
+    public createSymbolicLink(link: Path, target: Path, attrs?: FileAttribute<any>[]): void {
+        const file = MemoryPath.toMemoryPath(link);
+        const fileSystem = file.getFileSystem();
+        // the target is stored as given, a relative target is resolved against the directory of the link
+        const targetFile = MemoryPath.toMemoryPath(target).toString();
+        if (attrs && attrs.length > 0) {
+            throw new UnsupportedOperationException("Initial file attributes not supported when creating symbolic link");
+        }
+        fileSystem.createNode(file, MemoryNode.newSymbolicLink(targetFile, fileSystem.getOwner(), fileSystem.getGroup()));
+    }
+
+    public createLink(link: Path, existing: Path): void {
+        const file = MemoryPath.toMemoryPath(link);
+        const existingFile = MemoryPath.toMemoryPath(existing);
+        if (file.getFileSystem() !== existingFile.getFileSystem())
+            throw new FileSystemException(file.toString(), existingFile.toString(), "Invalid cross-device link");
+        const node = existingFile.getFileSystem().getNode(existingFile, false);
+        if (node.isDirectory())
+            throw new FileSystemException(file.toString(), existingFile.toString(), "Operation not permitted");
+        file.getFileSystem().createNode(file, node);
+    }
+
+    public readSymbolicLink(link: Path): Path {
+        const file = MemoryPath.toMemoryPath(link);
+        const node = file.getFileSystem().getNode(file, false);
+        if (!node.isSymbolicLink())
+            throw new NotLinkException(file.toString());
+        return file.getFileSystem().getPath(node.target as string);
+    }
+
+    public delete(path: Path): void {
+        const file = MemoryPath.toMemoryPath(path);
+        file.getFileSystem().delete(file);
+    }
+
+    public getFileStore(path: Path): MemoryFileStore {
+        const file = MemoryPath.toMemoryPath(path);
+        file.getFileSystem().getNode(file, true);
+        return file.getFileSystem().getFileStore();
+    }
+
+    public checkAccess(obj: Path, modes?: AccessMode[]): void {
+        const file = MemoryPath.toMemoryPath(obj);
+        file.getFileSystem().checkAccess(file, modes ?? []);
+    }
+
+    public async copy(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = MemoryPath.toMemoryPath(source);
+        const targetFile = MemoryPath.toMemoryPath(target);
+        if (sourceFile.getFileSystem() !== targetFile.getFileSystem()) {
+            return copyToForeignTarget(source, target, options);
+        }
+        const flags = Flags.fromCopyOptions(options);
+        const fileSystem = sourceFile.getFileSystem();
+        const node = fileSystem.getNode(sourceFile, flags.followLinks);
+        if (this.prepareTarget(node, targetFile, flags)) {
+            return;
+        }
+        const copy = node.copy(flags.copyAttributes, fileSystem.getOwner(), fileSystem.getGroup());
+        const size = copy.isRegularFile() ? copy.size : 0;
+        fileSystem.getFileStore().allocate(targetFile.toString(), size);
+        try {
+            fileSystem.createNode(targetFile, copy);
+        } catch (e) {
+            // the copy is not created, its space is released
+            fileSystem.getFileStore().allocate(targetFile.toString(), -size);
+            throw e;
+        }
+    }
+
+    public async move(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = MemoryPath.toMemoryPath(source);
+        const targetFile = MemoryPath.toMemoryPath(target);
+        if (sourceFile.getFileSystem() !== targetFile.getFileSystem()) {
+            return moveToForeignTarget(source, target, options);
+        }
+        const flags = Flags.fromCopyOptions(options, true);
+        const fileSystem = sourceFile.getFileSystem();
+        const from = fileSystem.lookup(sourceFile, false);
+        if (from.node === null)
+            throw new NoSuchFileException(sourceFile.toString());
+        if (from.parent === null)
+            throw new FileSystemException(sourceFile.toString(), targetFile.toString(), "Device or resource busy");
+        // a directory cannot be moved into itself
+        const to = fileSystem.lookup(targetFile, false);
+        if (from.node.isDirectory() && to.ancestors.includes(from.node))
+            throw new FileSystemException(sourceFile.toString(), targetFile.toString(), "Invalid argument");
+        if (this.prepareTarget(from.node, targetFile, flags)) {
+            return;
+        }
+        const node = from.node;
+        fileSystem.createNode(targetFile, node);
+        fileSystem.unlink(from.parent, from.name);
+    }
+
+    /**
+     * Removes an existing target, or fails when the target exists and REPLACE_EXISTING was not requested.
+     * @returns true if the operation is a no-op because source and target are the same file
+     */
+    private prepareTarget(source: MemoryNode, target: MemoryPath, flags: Flags): boolean {
+        const existing = target.getFileSystem().lookup(target, false).node;
+        if (existing !== null) {
+            if (existing === source) {
+                return true;
+            }
+            if (!flags.replaceExisting) {
+                throw new FileAlreadyExistsException(target.toString());
+            }
+            target.getFileSystem().delete(target);
+        }
+        return false;
+    }
+
+    public isHidden(obj: Path): boolean {
+        MemoryPath.toMemoryPath(obj);
+        const name = obj.getFileName()?.toString();
+        // "." and ".." are not hidden files but references to directories
+        return !!name && name.startsWith(".") && name !== "." && name !== "..";
+    }
+
+    public isSameFile(obj1: Path, obj2: Path): boolean {
+        const file1 = MemoryPath.toMemoryPath(obj1);
+        if (file1.equals(obj2)) {
+            return true;
+        }
+        if (!(obj2 instanceof MemoryPath) || obj2.getFileSystem() !== file1.getFileSystem()) {
+            return false;
+        }
+        return file1.getFileSystem().getNode(file1, true) === obj2.getFileSystem().getNode(obj2, true);
+    }
+
+    public readAttributesByType(path: Path, type?: string, options?: LinkOption[]): BasicFileAttributes {
+        const file = MemoryPath.toMemoryPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributes":
+            case "posix":
+            case "PosixFileAttributes":
+                return new MemoryBasicFileAttributeView(file, followLinks(options)).readAttributes();
+            default:
+                throw new UnsupportedOperationException();
+        }
+    }
+
+    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
+        const file = MemoryPath.toMemoryPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributeView":
+                return new MemoryBasicFileAttributeView(file, followLinks(options));
+            case "posix":
+            case "PosixFileAttributeView":
+            case "owner":
+            case "FileOwnerAttributeView":
+                return new MemoryPosixFileAttributeView(file, followLinks(options));
+            default:
+                return null;
+        }
+    }
+
+    public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
+        return this.attributes.readAttributes(path, attributes, options);
+    }
+
+    public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
+        this.attributes.setAttribute(path, attribute, value, options);
+    }
+}
@@ -0,0 +1,207 @@
+import {FileTime, GroupPrincipal, PosixFileAttributes, PosixFilePermission, UserPrincipal} from "../../attribute";
+import {toPosixFilePermissions} from "../../spi/UnixFileModes";
+import {MemoryGroup, MemoryUser} from "./MemoryUserPrincipals";
+
+export enum MemoryNodeType {
+    FILE = "FILE",
+    DIRECTORY = "DIRECTORY",
+    SYMBOLIC_LINK = "SYMBOLIC_LINK",
+}
+
+let lastId = 0;
+
+/**
+ * A file of a memory file system: the content of a regular file, the entries of a directory or the
+ * target of a symbolic link, and the attributes. A regular file is shared by all its hard links.
+ */
+export class MemoryNode {
+    public readonly id: number = ++lastId;
+    public readonly type: MemoryNodeType;
+    // the content of a regular file, its first size bytes are used
+    public content: Uint8Array = new Uint8Array(0);
+    public size: number = 0;
+    // the entries of a directory
+    public readonly entries: Map<string, MemoryNode> | null;
+    // the target of a symbolic link, as given
+    public readonly target: string | null;
+    public mode: number;
+    public owner: MemoryUser;
+    public group: MemoryGroup;
+    public creationTime: FileTime;
+    public lastModifiedTime: FileTime;
+    public lastAccessTime: FileTime;
+    // the number of directory entries linking to this file
+    public links: number = 0;
+
+    private constructor(type: MemoryNodeType, mode: number, owner: MemoryUser, group: MemoryGroup, target: string | null) {
+        this.type = type;
+        this.mode = mode;
+        this.owner = owner;
+        this.group = group;
+        this.target = target;
+        this.entries = type === MemoryNodeType.DIRECTORY ? new Map<string, MemoryNode>() : null;
+        const now = FileTime.fromMillis(Date.now());
+        this.creationTime = now;
+        this.lastModifiedTime = now;
+        this.lastAccessTime = now;
+    }
+
+    public static newFile(mode: number, owner: MemoryUser, group: MemoryGroup): MemoryNode {
+        return new MemoryNode(MemoryNodeType.FILE, mode, owner, group, null);
+    }
+
+    public static newDirectory(mode: number, owner: MemoryUser, group: MemoryGroup): MemoryNode {
+        return new MemoryNode(MemoryNodeType.DIRECTORY, mode, owner, group, null);
+    }
+
+    public static newSymbolicLink(target: string, owner: MemoryUser, group: MemoryGroup): MemoryNode {
+        return new MemoryNode(MemoryNodeType.SYMBOLIC_LINK, 0o777, owner, group, target);
+    }
+
+    public isDirectory(): boolean {
+        return this.type === MemoryNodeType.DIRECTORY;
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.type === MemoryNodeType.SYMBOLIC_LINK;
+    }
+
+    public isRegularFile(): boolean {
+        return this.type === MemoryNodeType.FILE;
+    }
+
+    /* Returns the entries of a directory. */
+    public getEntries(): Map<string, MemoryNode> {
+        if (this.entries === null)
+            throw new Error("Should not get here");
+        return this.entries;
+    }
+
+    /* Returns the number of bytes of a file, or the length of the target of a link. */
+    public getSize(): number {
+        switch (this.type) {
+            case MemoryNodeType.FILE:
+                return this.size;
+            case MemoryNodeType.SYMBOLIC_LINK:
+                return (this.target as string).length;
+            default:
+                return 0;
+        }
+    }
+
+    public touch(): void {
+        this.lastModifiedTime = FileTime.fromMillis(Date.now());
+    }
+
+    /**
+     * Resizes a regular file, the new bytes are zeros.
+     * @param {number} size - the new size
+     */
+    public resize(size: number): void {
+        if (size > this.content.length) {
+            const content = new Uint8Array(Math.max(size, this.content.length * 2, 64));
+            content.set(this.content.subarray(0, this.size));
+            this.content = content;
+        } else if (size < this.size) {
+            this.content.fill(0, size, this.size);
+        }
+        this.size = size;
+    }
+
+    /* Copies the content and the attributes of a file to a new file, not linked yet. */
+    public copy(copyAttributes: boolean, owner: MemoryUser, group: MemoryGroup): MemoryNode {
+        const copy = new MemoryNode(this.type, this.mode, copyAttributes ? this.owner : owner, copyAttributes ? this.group : group, this.target);
+        if (this.isRegularFile()) {
+            copy.content = this.content.slice(0, this.size);
+            copy.size = this.size;
+        }
+        if (copyAttributes) {
+            copy.creationTime = this.creationTime;
+            copy.lastModifiedTime = this.lastModifiedTime;
+            copy.lastAccessTime = this.lastAccessTime;
+        }
+        return copy;
+    }
+}
+
+/* A snapshot of the attributes of a memory file. */
+export class MemoryFileAttributes implements PosixFileAttributes {
+    private readonly node: MemoryNode;
+    private readonly fileSize: number;
+    private readonly modified: FileTime;
+    private readonly accessed: FileTime;
+    private readonly created: FileTime;
+    private readonly fileMode: number;
+    private readonly fileOwner: MemoryUser;
+    private readonly fileGroup: MemoryGroup;
+    private readonly linkCount: number;
+
+    public constructor(node: MemoryNode) {
+        this.node = node;
+        this.fileSize = node.getSize();
+        this.modified = node.lastModifiedTime;
+        this.accessed = node.lastAccessTime;
+        this.created = node.creationTime;
+        this.fileMode = node.mode;
+        this.fileOwner = node.owner;
+        this.fileGroup = node.group;
+        this.linkCount = node.links;
+    }
+
+    public lastModifiedTime(): FileTime {
+        return this.modified;
+    }
+
+    public lastAccessTime(): FileTime {
+        return this.accessed;
+    }
+
+    public creationTime(): FileTime {
+        return this.created;
+    }
+
+    public isRegularFile(): boolean {
+        return this.node.isRegularFile();
+    }
+
+    public isDirectory(): boolean {
+        return this.node.isDirectory();
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.node.isSymbolicLink();
+    }
+
+    public isOther(): boolean {
+        return false;
+    }
+
+    public size(): bigint {
+        return BigInt(this.fileSize);
+    }
+
+    /* The identifier of the file in its file system, shared by its hard links. */
+    public fileKey(): number {
+        return this.node.id;
+    }
+
+    public mode(): number {
+        return this.fileMode;
+    }
+
+    public nlink(): number {
+        return this.linkCount;
+    }
+
+    public owner(): UserPrincipal {
+        return this.fileOwner;
+    }
+
+    public group(): GroupPrincipal {
+        return this.fileGroup;
+    }
+
+    public permissions(): Set<PosixFilePermission> {
+        return toPosixFilePermissions(this.fileMode);
+    }
+}
@@ -0,0 +1,41 @@
+import {Path} from "../../Path";
+import {LinkOption} from "../../LinkOption";
+import {UnixPath} from "../../spi/UnixPath";
+import {ProviderMismatchException} from "../../exception";
+import {NullPointerException} from "../../../exception";
+import type {MemoryFileSystem} from "./MemoryFileSystem";
+
+/* A path of a memory file system, the relative paths are resolved against the root directory. */
+export class MemoryPath extends UnixPath {
+
+    public constructor(fileSystem: MemoryFileSystem, path: string) {
+        super(fileSystem, path);
+    }
+
+    public static toMemoryPath(path: Path): MemoryPath {
+        if (path == null)
+            throw new NullPointerException();
+        if (!(path instanceof MemoryPath)) {
+            throw new ProviderMismatchException();
+        }
+        return path;
+    }
+
+    protected newPath(path: string): MemoryPath {
+        return new MemoryPath(this.getFileSystem(), path);
+    }
+
+    public getFileSystem(): MemoryFileSystem {
+        return super.getFileSystem() as MemoryFileSystem;
+    }
+
+    public toRealPath(options?: LinkOption[]): Path {
+        const followLinks = !options || !options.includes(LinkOption.NOFOLLOW_LINKS);
+        return this.newPath(this.getFileSystem().toRealPath(this, followLinks));
+    }
+
+    /* The URL {@code memory:name/path}, the name of the file system followed by the absolute path. */
+    public toURL(): URL {
+        return new URL("memory:" + encodeURIComponent(this.getFileSystem().name()) + this.toAbsolutePath().toString().split("/").map(encodeURIComponent).join("/"));
+    }
+}
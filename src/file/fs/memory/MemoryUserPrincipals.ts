@@ -0,0 +1,63 @@
+import {GroupPrincipal, UserPrincipal, UserPrincipalLookupService} from "../../attribute";
+import {Principal} from "../../../Principal";
+import {ProviderMismatchException} from "../../exception";
+
+/* A user of a memory file system, identified by its name only: any name is a valid user. */
+export class MemoryUser implements UserPrincipal {
+    private readonly name: string;
+    private readonly group: boolean;
+
+    public constructor(name: string, isGroup: boolean = false) {
+        this.name = name;
+        this.group = isGroup;
+    }
+
+    /**
+     * Returns the memory principal, or throws if the principal comes from another provider.
+     */
+    public static toMemoryUser(principal: Principal): MemoryUser {
+        if (!(principal instanceof MemoryUser)) {
+            throw new ProviderMismatchException();
+        }
+        return principal;
+    }
+
+    public isGroup(): boolean {
+        return this.group;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    public equals(other: Principal): boolean {
+        return other instanceof MemoryUser && this.name === other.name && this.group === other.group;
+    }
+
+    public toString(): string {
+        return this.name;
+    }
+}
+
+export class MemoryGroup extends MemoryUser implements GroupPrincipal {
+
+    public constructor(name: string) {
+        super(name, true);
+    }
+}
+
+/* Looks up the users and groups of a memory file system, which exist as soon as they are named. */
+export class MemoryUserPrincipalLookupService extends UserPrincipalLookupService {
+
+    public constructor() {
+        super();
+    }
+
+    public lookupPrincipalByName(name: string): UserPrincipal {
+        return new MemoryUser(name);
+    }
+
+    public lookupPrincipalByGroupName(group: string): GroupPrincipal {
+        return new MemoryGroup(group);
+    }
+}
@@ -0,0 +1,5 @@
+export * from "./MemoryFileSystem"
+export * from "./MemoryFileSystemProvider"
+export * from "./MemoryPath"
+export * from "./MemoryFileStore"
+export * from "./MemoryUserPrincipals"
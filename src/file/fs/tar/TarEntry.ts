@@ -0,0 +1,164 @@
+import {FileTime, GroupPrincipal, PosixFileAttributes, PosixFilePermission, UserPrincipal} from "../../attribute";
+import {toPosixFilePermissions} from "../../spi/UnixFileModes";
+import {TarGroup, TarUser} from "./TarUserPrincipals";
+
+export enum TarEntryType {
+    FILE = "FILE",
+    DIRECTORY = "DIRECTORY",
+    SYMBOLIC_LINK = "SYMBOLIC_LINK",
+    // the devices and the FIFOs, which have no content
+    OTHER = "OTHER",
+}
+
+let lastId = 0;
+
+/**
+ * A file of a tar archive: the position of the content of a regular file, the entries of a directory
+ * or the target of a symbolic link, and the attributes of its header. The hard links of the archive
+ * share the entry of the file they link to.
+ */
+export class TarEntry {
+    public readonly id: number = ++lastId;
+    public readonly type: TarEntryType;
+    // the entries of a directory
+    public readonly entries: Map<string, TarEntry> | null;
+    // the target of a symbolic link, as given
+    public target: string | null = null;
+    // the position and the size of the content of a regular file in the archive
+    public offset: number = 0;
+    public size: number = 0;
+    public mode: number;
+    public owner: TarUser;
+    public group: TarGroup;
+    public lastModifiedTime: number;
+    public lastAccessTime: number | null = null;
+    public changeTime: number | null = null;
+    // the number of directory entries linking to this file
+    public links: number = 0;
+    // false for the directories of the names of the archive which have no header
+    public explicit: boolean = true;
+
+    public constructor(type: TarEntryType, mode: number, owner: TarUser, group: TarGroup, lastModifiedTime: number) {
+        this.type = type;
+        this.mode = mode;
+        this.owner = owner;
+        this.group = group;
+        this.lastModifiedTime = lastModifiedTime;
+        this.entries = type === TarEntryType.DIRECTORY ? new Map<string, TarEntry>() : null;
+    }
+
+    public isDirectory(): boolean {
+        return this.type === TarEntryType.DIRECTORY;
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.type === TarEntryType.SYMBOLIC_LINK;
+    }
+
+    public isRegularFile(): boolean {
+        return this.type === TarEntryType.FILE;
+    }
+
+    /* Returns the entries of a directory. */
+    public getEntries(): Map<string, TarEntry> {
+        if (this.entries === null)
+            throw new Error("Should not get here");
+        return this.entries;
+    }
+
+    /* Returns the number of bytes of a file, or the length of the target of a link. */
+    public getSize(): number {
+        switch (this.type) {
+            case TarEntryType.FILE:
+                return this.size;
+            case TarEntryType.SYMBOLIC_LINK:
+                return Buffer.byteLength(this.target as string);
+            default:
+                return 0;
+        }
+    }
+}
+
+/* A snapshot of the attributes of a tar entry. */
+export class TarFileAttributes implements PosixFileAttributes {
+    private readonly entry: TarEntry;
+    private readonly fileSize: number;
+    private readonly modified: FileTime;
+    private readonly accessed: FileTime;
+    private readonly changed: FileTime;
+    private readonly fileMode: number;
+    private readonly fileOwner: TarUser;
+    private readonly fileGroup: TarGroup;
+    private readonly linkCount: number;
+
+    public constructor(entry: TarEntry) {
+        this.entry = entry;
+        this.fileSize = entry.getSize();
+        this.modified = FileTime.fromMillis(entry.lastModifiedTime);
+        this.accessed = FileTime.fromMillis(entry.lastAccessTime ?? entry.lastModifiedTime);
+        this.changed = FileTime.fromMillis(entry.changeTime ?? entry.lastModifiedTime);
+        this.fileMode = entry.mode;
+        this.fileOwner = entry.owner;
+        this.fileGroup = entry.group;
+        this.linkCount = entry.links;
+    }
+
+    public lastModifiedTime(): FileTime {
+        return this.modified;
+    }
+
+    /* The access time of the PAX header, else the modification time. */
+    public lastAccessTime(): FileTime {
+        return this.accessed;
+    }
+
+    /* An archive has no creation time, the change time of the PAX header is returned, else the modification time. */
+    public creationTime(): FileTime {
+        return this.changed;
+    }
+
+    public isRegularFile(): boolean {
+        return this.entry.isRegularFile();
+    }
+
+    public isDirectory(): boolean {
+        return this.entry.isDirectory();
+    }
+
+    public isSymbolicLink(): boolean {
+        return this.entry.isSymbolicLink();
+    }
+
+    public isOther(): boolean {
+        return this.entry.type === TarEntryType.OTHER;
+    }
+
+    public size(): bigint {
+        return BigInt(this.fileSize);
+    }
+
+    /* The identifier of the file in its file system, shared by its hard links. */
+    public fileKey(): number {
+        return this.entry.id;
+    }
+
+    public mode(): number {
+        return this.fileMode;
+    }
+
+    public nlink(): number {
+        return this.linkCount;
+    }
+
+    public owner(): UserPrincipal {
+        return this.fileOwner;
+    }
+
+    public group(): GroupPrincipal {
+        return this.fileGroup;
+    }
+
+    public permissions(): Set<PosixFilePermission> {
+        return toPosixFilePermissions(this.fileMode);
+    }
+}
@@ -0,0 +1,66 @@
+import {
+    BasicFileAttributeView,
+    FileTime,
+    GroupPrincipal,
+    PosixFileAttributeView,
+    PosixFilePermission,
+    UserPrincipal,
+} from "../../attribute";
+import {ReadOnlyFileSystemException} from "../../exception";
+import {TarEntry, TarFileAttributes} from "./TarEntry";
+import {TarPath} from "./TarPath";
+
+/* The "basic" attribute view of a tar entry, whose attributes cannot be changed. */
+export class TarBasicFileAttributeView implements BasicFileAttributeView {
+    protected readonly path: TarPath;
+    protected readonly followLinks: boolean;
+
+    public constructor(path: TarPath, followLinks: boolean) {
+        this.path = path;
+        this.followLinks = followLinks;
+    }
+
+    protected getEntry(): TarEntry {
+        return this.path.getFileSystem().getEntry(this.path, this.followLinks);
+    }
+
+    public name(): string {
+        return "basic";
+    }
+
+    public readAttributes(): TarFileAttributes {
+        return new TarFileAttributes(this.getEntry());
+    }
+
+    public setTimes(lastModifiedTime?: FileTime, lastAccessTime?: FileTime, createTime?: FileTime): void {
+        throw new ReadOnlyFileSystemException(this.path.toString());
+    }
+}
+
+/* The "posix" attribute view of a tar entry, also used as its "owner" view: the mode and the owners of its header. */
+export class TarPosixFileAttributeView extends TarBasicFileAttributeView implements PosixFileAttributeView {
+
+    public constructor(path: TarPath, followLinks: boolean) {
+        super(path, followLinks);
+    }
+
+    public name(): string {
+        return "posix";
+    }
+
+    public setPermissions(perms: Set<PosixFilePermission>): void {
+        throw new ReadOnlyFileSystemException(this.path.toString());
+    }
+
+    public getOwner(): UserPrincipal {
+        return this.getEntry().owner;
+    }
+
+    public setOwner(owner: UserPrincipal): void {
+        throw new ReadOnlyFileSystemException(this.path.toString());
+    }
+
+    public setGroup(group: GroupPrincipal): void {
+        throw new ReadOnlyFileSystemException(this.path.toString());
+    }
+}
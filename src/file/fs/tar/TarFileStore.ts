@@ -0,0 +1,71 @@
+import {FileStore} from "../../FileStore";
+import {FileStoreAttributeView} from "../../attribute/FileStoreAttributeView";
+import {UnsupportedOperationException} from "../../../exception";
+import type {TarFileSystem} from "./TarFileSystem";
+
+const SUPPORTED_VIEWS = new Set<string>([
+    "basic", "BasicFileAttributeView", "posix", "PosixFileAttributeView", "owner", "FileOwnerAttributeView",
+]);
+
+/* The single file store of a tar file system, read-only: its total space is the size of the content of the archive and it has no free space. */
+export class TarFileStore extends FileStore {
+    private readonly fileSystem: TarFileSystem;
+
+    public constructor(fileSystem: TarFileSystem) {
+        super();
+        this.fileSystem = fileSystem;
+    }
+
+    public name(): string {
+        return this.fileSystem.getArchive().toString();
+    }
+
+    public type(): string {
+        return "tarfs";
+    }
+
+    public isReadOnly(): boolean {
+        return true;
+    }
+
+    public getTotalSpace(): bigint {
+        return BigInt(this.fileSystem.getContentSize());
+    }
+
+    public getUsableSpace(): bigint {
+        return BigInt(0);
+    }
+
+    public getUnallocatedSpace(): bigint {
+        return BigInt(0);
+    }
+
+    public getBlockSize(): bigint {
+        return BigInt(512);
+    }
+
+    public supportsFileAttributeView(name: string): boolean {
+        return SUPPORTED_VIEWS.has(name);
+    }
+
+    public getFileStoreAttributeView(type: string): FileStoreAttributeView | null {
+        return null;
+    }
+
+    public getAttribute(attribute: string): any {
+        switch (attribute) {
+            case "totalSpace":
+                return this.getTotalSpace();
+            case "usableSpace":
+                return this.getUsableSpace();
+            case "unallocatedSpace":
+                return this.getUnallocatedSpace();
+            default:
+                throw new UnsupportedOperationException("'" + attribute + "' not recognized");
+        }
+    }
+
+    public toString(): string {
+        return this.name() + " (tarfs)";
+    }
+}
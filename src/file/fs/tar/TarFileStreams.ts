@@ -0,0 +1,80 @@
+import {ByteLengthQueuingStrategy, ReadableStream as WebReadableStream} from "stream/web";
+import {OpenOption} from "../../OpenOption";
+import {StandardOpenOption} from "../../StandardOpenOption";
+import {LinkOption} from "../../LinkOption";
+import {FileSystemException, ReadOnlyFileSystemException} from "../../exception";
+import {NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {TarEntryType} from "./TarEntry";
+import {TarPath} from "./TarPath";
+
+// size of the chunks read from an entry
+const BUFFER_SIZE = 8192;
+
+/* The open options of a tar stream, decoded. */
+class Flags {
+    noFollowLinks: boolean = false;
+
+    private constructor() {
+    }
+
+    public static parse(options: OpenOption[], file: string): Flags {
+        const flags = new Flags();
+        for (let option of options) {
+            switch (option) {
+                case StandardOpenOption.READ:
+                case StandardOpenOption.CREATE:
+                case StandardOpenOption.TRUNCATE_EXISTING:
+                case StandardOpenOption.SPARSE:
+                case StandardOpenOption.SYNC:
+                case StandardOpenOption.DSYNC:
+                    // ignored when reading
+                    break;
+                case StandardOpenOption.CREATE_NEW:
+                case StandardOpenOption.DELETE_ON_CLOSE:
+                    throw new ReadOnlyFileSystemException(file);
+                case LinkOption.NOFOLLOW_LINKS:
+                    flags.noFollowLinks = true;
+                    break;
+                default:
+                    if (option == null)
+                        throw new NullPointerException();
+                    throw new UnsupportedOperationException(option + " not supported");
+            }
+        }
+        return flags;
+    }
+}
+
+/**
+ * Opens an entry and returns a stream of its bytes, read from the archive by chunks.
+ * @param {TarPath} path - the entry to read
+ * @param {OpenOption[]} [options] - the options specifying how the entry is opened
+ * @returns A ReadableStream of Uint8Array chunks
+ * @throws ReadOnlyFileSystemException if an option would change the archive
+ */
+export function newTarInputStream(path: TarPath, options?: OpenOption[]): ReadableStream<Uint8Array> {
+    const file = path.toString();
+    const flags = Flags.parse(options ?? [], file);
+    const fileSystem = path.getFileSystem();
+    const entry = fileSystem.getEntry(path, !flags.noFollowLinks);
+    switch (entry.type) {
+        case TarEntryType.DIRECTORY:
+            throw new FileSystemException(file, undefined, "Is a directory");
+        case TarEntryType.SYMBOLIC_LINK:
+            throw new FileSystemException(file, undefined, "Too many levels of symbolic links");
+        case TarEntryType.OTHER:
+            throw new FileSystemException(file, undefined, "No such device or address");
+    }
+    let position = 0;
+    return new WebReadableStream<Uint8Array>({
+        pull(controller) {
+            if (position >= entry.size) {
+                controller.close();
+                return;
+            }
+            const chunk = fileSystem.readContent(entry, position, BUFFER_SIZE, file);
+            controller.enqueue(chunk);
+            position += chunk.length;
+        },
+    }, new ByteLengthQueuingStrategy({highWaterMark: BUFFER_SIZE}));
+}
@@ -0,0 +1,470 @@
+import * as buffer from "buffer";
+import * as fs from "fs";
+import * as zlib from "zlib";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {FileStore} from "../../FileStore";
+import {PathMatcher} from "../../PathMatcher";
+import {UserPrincipalLookupService} from "../../attribute";
+import {PathMatchers} from "../../spi/PathMatchers";
+import {UnixPath} from "../../spi/UnixPath";
+import {
+    ArchiveLimitExceededException,
+    ClosedFileSystemException,
+    FileSystemException,
+    FileSystemNotFoundException,
+    NoSuchFileException,
+    NotDirectoryException,
+} from "../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
+import {Objects} from "../../../utils";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalPath} from "../local/LocalPath";
+import {TarEntry, TarEntryType} from "./TarEntry";
+import {
+    readHeaders,
+    TarRecord,
+    TYPE_BLOCK_DEVICE,
+    TYPE_CHARACTER_DEVICE,
+    TYPE_DIRECTORY,
+    TYPE_FIFO,
+    TYPE_HARD_LINK,
+    TYPE_SYMBOLIC_LINK,
+} from "./TarFormat";
+import {TarFileStore} from "./TarFileStore";
+import {TarPath} from "./TarPath";
+import {TarGroup, TarUser} from "./TarUserPrincipals";
+import type {TarFileSystemProvider} from "./TarFileSystemProvider";
+
+// the maximum number of symbolic links followed when locating an entry, as on Linux
+const MAX_SYMLINKS = 40;
+// the mode of the directories of the names of the archive which have no header
+const IMPLICIT_DIRECTORY_MODE = 0o755;
+// the maximum size of a compressed archive once decompressed in memory
+const DEFAULT_MAX_UNCOMPRESSED_SIZE = 1024 * 1024 * 1024;
+
+/* Where a path leads in the archive: the entry if it exists, and the directory where it is, or would be. */
+export interface TarLookup {
+    entry: TarEntry | null;
+    // the directory of the entry, null for the root
+    parent: TarEntry | null;
+    name: string;
+    // the absolute path of the entry, without links, "." or ".."
+    realPath: string;
+}
+
+/* Tells whether the content of an archive starts with the gzip magic bytes. */
+export function isGzip(header: Uint8Array): boolean {
+    return header.length >= 2 && header[0] === 0x1f && header[1] === 0x8b;
+}
+
+/**
+ * A read-only file system over the entries of a tar archive, compressed with gzip or not. The headers are
+ * read once when the file system is created, the content of the entries is read from the archive on demand.
+ * A compressed archive is decompressed in memory when the file system is created, up to the
+ * {@code maxUncompressedSize} of the environment in bytes, 1 GiB by default.
+ *
+ * <p> The symbolic links are resolved inside the archive: an absolute target starts at the root of the
+ * archive and a target cannot escape it. A hard link shares the entry of the file it links to, the hard
+ * links to a file that does not precede them in the archive are dropped.
+ */
+export class TarFileSystem extends FileSystem {
+    private readonly fileSystemProvider: TarFileSystemProvider;
+    private readonly archive: LocalPath;
+    private readonly key: string;
+    private readonly store: TarFileStore;
+    private readonly root: TarEntry;
+    // the decompressed content of a compressed archive, else the archive is read through fd
+    private data: Uint8Array | null = null;
+    private fd: number = -1;
+    private contentSize: number = 0;
+    private open: boolean = true;
+
+    /**
+     * Opens an archive.
+     * @param {TarFileSystemProvider} provider - the provider
+     * @param {LocalPath} archive - the archive
+     * @param {string} key - the key of the file system in its provider
+     * @param {Map<string, any>} env - the maximum size of a compressed archive once decompressed
+     * @throws FileSystemNotFoundException if the archive does not exist
+     * @throws ArchiveLimitExceededException if a compressed archive is larger than the maximum size once decompressed
+     * @throws FileSystemException if the archive is not a tar archive, or is corrupted
+     * @throws IllegalArgumentException if the maximum size is not a positive number
+     */
+    public constructor(provider: TarFileSystemProvider, archive: LocalPath, key: string, env: Map<string, any>) {
+        super();
+        this.fileSystemProvider = provider;
+        this.archive = archive;
+        this.key = key;
+        this.store = new TarFileStore(this);
+        this.root = new TarEntry(TarEntryType.DIRECTORY, IMPLICIT_DIRECTORY_MODE, new TarUser("", 0), new TarGroup("", 0), Date.now());
+        this.root.links = 1;
+        this.root.explicit = false;
+        const file = archive.toString();
+        const maxSize = Number(env.get("maxUncompressedSize") ?? DEFAULT_MAX_UNCOMPRESSED_SIZE);
+        if (!(maxSize > 0))
+            throw new IllegalArgumentException("Invalid maxUncompressedSize: " + env.get("maxUncompressedSize"));
+        if (!fs.existsSync(file))
+            throw new FileSystemNotFoundException(file);
+        try {
+            this.fd = fs.openSync(file, "r");
+            const header = Buffer.alloc(2);
+            if (isGzip(header.subarray(0, fs.readSync(this.fd, header, 0, 2, 0)))) {
+                this.data = TarFileSystem.gunzip(fs.readFileSync(this.fd), file, maxSize);
+                this.closeArchive();
+            }
+            this.load(readHeaders((position, length) => this.read(position, length), file));
+        } catch (e) {
+            this.closeArchive();
+            throw translateToIOException(e, file);
+        }
+    }
+
+    private static gunzip(compressed: Buffer, file: string, maxSize: number): Uint8Array {
+        try {
+            return zlib.gunzipSync(compressed, {maxOutputLength: Math.min(maxSize, buffer.constants.MAX_LENGTH)});
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE")
+                throw new ArchiveLimitExceededException(file, undefined, "Archive larger than " + maxSize + " bytes once decompressed");
+            throw new FileSystemException(file, undefined, "Invalid gzip data: " + (e as Error).message);
+        }
+    }
+
+    /* Reads the bytes of the decompressed archive, fewer bytes at its end. */
+    private read(position: number, length: number): Uint8Array {
+        if (this.data !== null) {
+            return this.data.slice(position, position + length);
+        }
+        if (this.fd === -1)
+            throw new ClosedFileSystemException();
+        const buffer = Buffer.alloc(length);
+        let read = 0;
+        while (read < length) {
+            const count = fs.readSync(this.fd, buffer, read, length - read, position + read);
+            if (count === 0) {
+                break;
+            }
+            read += count;
+        }
+        return buffer.subarray(0, read);
+    }
+
+    /* Builds the tree of the entries of the archive. */
+    private load(records: TarRecord[]): void {
+        for (const record of records) {
+            const names = record.name.split("/").filter(name => name.length > 0 && name !== ".");
+            // the names escaping the root cannot be reached through paths, they are dropped
+            if (names.includes("..")) {
+                continue;
+            }
+            if (names.length === 0) {
+                // the entry "./" of the archives of a whole directory
+                if (record.type === TYPE_DIRECTORY) {
+                    TarFileSystem.setAttributes(this.root, record);
+                    this.root.explicit = true;
+                }
+                continue;
+            }
+            const parent = this.makeParents(names);
+            const name = names[names.length - 1];
+            const existing = parent.getEntries().get(name);
+            let entry: TarEntry;
+            switch (record.type) {
+                case TYPE_DIRECTORY:
+                    if (existing && existing.isDirectory()) {
+                        // an implicit directory made explicit, or a directory given twice
+                        TarFileSystem.setAttributes(existing, record);
+                        existing.explicit = true;
+                        continue;
+                    }
+                    entry = new TarEntry(TarEntryType.DIRECTORY, 0, parent.owner, parent.group, 0);
+                    break;
+                case TYPE_SYMBOLIC_LINK:
+                    entry = new TarEntry(TarEntryType.SYMBOLIC_LINK, 0, parent.owner, parent.group, 0);
+                    entry.target = record.linkName;
+                    break;
+                case TYPE_HARD_LINK: {
+                    const linked = this.findEntry(record.linkName);
+                    if (linked === null || linked.isDirectory()) {
+                        continue;
+                    }
+                    this.link(parent, name, linked);
+                    continue;
+                }
+                case TYPE_CHARACTER_DEVICE:
+                case TYPE_BLOCK_DEVICE:
+                case TYPE_FIFO:
+                    entry = new TarEntry(TarEntryType.OTHER, 0, parent.owner, parent.group, 0);
+                    break;
+                default:
+                    // the regular files, and the types that are not known as the specification requires
+                    entry = new TarEntry(TarEntryType.FILE, 0, parent.owner, parent.group, 0);
+                    entry.offset = record.offset;
+                    entry.size = record.size;
+                    this.contentSize += record.size;
+                    break;
+            }
+            TarFileSystem.setAttributes(entry, record);
+            // the last entry of a name wins, as when the archive is extracted
+            this.link(parent, name, entry);
+        }
+    }
+
+    private static setAttributes(entry: TarEntry, record: TarRecord): void {
+        entry.mode = record.mode;
+        entry.owner = new TarUser(record.uname, record.uid);
+        entry.group = new TarGroup(record.gname, record.gid);
+        entry.lastModifiedTime = record.lastModifiedTime;
+        entry.lastAccessTime = record.lastAccessTime;
+        entry.changeTime = record.changeTime;
+    }
+
+    /* Returns the directory of the last name, creating the directories without header. */
+    private makeParents(names: string[]): TarEntry {
+        let dir = this.root;
+        for (const name of names.slice(0, -1)) {
+            let child = dir.getEntries().get(name);
+            if (!child || !child.isDirectory()) {
+                child = new TarEntry(TarEntryType.DIRECTORY, IMPLICIT_DIRECTORY_MODE, dir.owner, dir.group, dir.lastModifiedTime);
+                child.explicit = false;
+                this.link(dir, name, child);
+            }
+            dir = child;
+        }
+        return dir;
+    }
+
+    /* Returns the entry of a name of the archive, without following the symbolic links as hard links name the entries of the archive. */
+    private findEntry(name: string): TarEntry | null {
+        let entry: TarEntry | null = this.root;
+        for (const next of name.split("/").filter(next => next.length > 0 && next !== ".")) {
+            if (!entry.isDirectory()) {
+                return null;
+            }
+            entry = entry.getEntries().get(next) ?? null;
+            if (entry === null) {
+                return null;
+            }
+        }
+        return entry;
+    }
+
+    private link(dir: TarEntry, name: string, entry: TarEntry): void {
+        const existing = dir.getEntries().get(name);
+        if (existing) {
+            existing.links--;
+        }
+        dir.getEntries().set(name, entry);
+        entry.links++;
+    }
+
+    private closeArchive(): void {
+        if (this.fd !== -1) {
+            fs.closeSync(this.fd);
+            this.fd = -1;
+        }
+    }
+
+    public provider(): TarFileSystemProvider {
+        return this.fileSystemProvider;
+    }
+
+    /* Returns the archive of this file system. */
+    public getArchive(): LocalPath {
+        return this.archive;
+    }
+
+    /* Returns the key of this file system in its provider, the real path of the archive. */
+    public getKey(): string {
+        return this.key;
+    }
+
+    /* Returns the number of bytes of the regular files of the archive. */
+    public getContentSize(): number {
+        return this.contentSize;
+    }
+
+    /* Closes the file system and the archive. */
+    public close(): void {
+        if (this.open) {
+            this.open = false;
+            this.closeArchive();
+            this.data = null;
+            this.fileSystemProvider.removeFileSystem(this);
+        }
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public isReadOnly(): boolean {
+        return true;
+    }
+
+    public getSeparator(): string {
+        return "/";
+    }
+
+    public getRootDirectories(): Iterable<Path> {
+        return [this.getPath("/")];
+    }
+
+    public getFileStores(): Iterable<FileStore> {
+        return [this.store];
+    }
+
+    public getFileStore(): TarFileStore {
+        return this.store;
+    }
+
+    public supportedFileAttributeViews(): Set<string> {
+        return new Set<string>(["basic", "posix", "owner"]);
+    }
+
+    public getPathMatcher(syntaxAndPattern: string): PathMatcher {
+        return PathMatchers.getPathMatcher(syntaxAndPattern, "/");
+    }
+
+    public getUserPrincipalLookupService(): UserPrincipalLookupService {
+        throw new UnsupportedOperationException();
+    }
+
+    public getPath(first: string, more?: string[]): TarPath {
+        Objects.requireNonNullUndefined(first);
+        const names = [first, ...(more ?? [])].filter(name => name.length > 0);
+        return new TarPath(this, names.join("/"));
+    }
+
+    public checkOpen(): void {
+        if (!this.open)
+            throw new ClosedFileSystemException();
+    }
+
+    /**
+     * Locates an entry, following the symbolic links met on the way.
+     * @param {TarPath} path - the path of the entry
+     * @param {boolean} followLinks - false to locate a symbolic link rather than its target
+     * @returns The entry, null if it does not exist, and the directory where it is
+     * @throws NoSuchFileException if a directory of the path does not exist
+     * @throws NotDirectoryException if a directory of the path is not a directory
+     * @throws FileSystemException if too many symbolic links are met
+     */
+    public lookup(path: TarPath, followLinks: boolean): TarLookup {
+        this.checkOpen();
+        const file = path.toString();
+        let remaining = (path.toAbsolutePath() as UnixPath).getNames().slice();
+        let ancestors: TarEntry[] = [this.root];
+        let names: string[] = [];
+        let links = 0;
+        while (remaining.length > 0) {
+            const name = remaining.shift() as string;
+            const dir = ancestors[ancestors.length - 1];
+            if (name === "." || name.length === 0) {
+                continue;
+            }
+            if (name === "..") {
+                if (ancestors.length > 1) {
+                    ancestors.pop();
+                    names.pop();
+                }
+                continue;
+            }
+            const entry = dir.getEntries().get(name) ?? null;
+            const last = remaining.every(next => next === "." || next.length === 0);
+            if (entry === null) {
+                if (!last)
+                    throw new NoSuchFileException(file);
+                return {entry: null, parent: dir, name: name, realPath: "/" + [...names, name].join("/")};
+            }
+            if (entry.isSymbolicLink() && (followLinks || !last)) {
+                if (++links > MAX_SYMLINKS)
+                    throw new FileSystemException(file, undefined, "Too many levels of symbolic links");
+                const target = UnixPath.normalizeString(entry.target as string);
+                if (target.startsWith("/")) {
+                    ancestors = [this.root];
+                    names = [];
+                }
+                remaining = target.split("/").filter(next => next.length > 0).concat(remaining);
+                continue;
+            }
+            if (entry.isDirectory() && !last) {
+                ancestors.push(entry);
+                names.push(name);
+                continue;
+            }
+            if (!last)
+                throw new NotDirectoryException(file);
+            return {entry: entry, parent: dir, name: name, realPath: "/" + [...names, name].join("/")};
+        }
+        // the root, or a path ending with ".."
+        const entry = ancestors.pop() as TarEntry;
+        return {
+            entry: entry,
+            parent: ancestors.length > 0 ? ancestors[ancestors.length - 1] : null,
+            name: names.length > 0 ? names[names.length - 1] : "",
+            realPath: "/" + names.join("/"),
+        };
+    }
+
+    /**
+     * Returns an existing entry.
+     * @throws NoSuchFileException if the entry does not exist
+     */
+    public getEntry(path: TarPath, followLinks: boolean): TarEntry {
+        const entry = this.lookup(path, followLinks).entry;
+        if (entry === null)
+            throw new NoSuchFileException(path.toString());
+        return entry;
+    }
+
+    /**
+     * Returns the absolute path of an entry, without "." and "..".
+     * @param {TarPath} path - the path of the entry
+     * @param {boolean} followLinks - true to resolve the symbolic links, false to keep them
+     * @throws NoSuchFileException if the entry does not exist
+     */
+    public toRealPath(path: TarPath, followLinks: boolean): string {
+        if (followLinks) {
+            const lookup = this.lookup(path, true);
+            if (lookup.entry === null)
+                throw new NoSuchFileException(path.toString());
+            return lookup.realPath;
+        }
+        // a ".." cannot be eliminated when the previous name is a link
+        let result = this.getPath("/");
+        for (let name of (path.toAbsolutePath() as UnixPath).getNames()) {
+            if (name === "." || name.length === 0) {
+                continue;
+            }
+            if (name === ".." && !this.getEntry(result, false).isSymbolicLink()) {
+                result = (result.getParent() ?? result) as TarPath;
+                continue;
+            }
+            result = result.resolve(this.getPath(name)) as TarPath;
+        }
+        this.getEntry(result, false);
+        return result.toString();
+    }
+
+    /**
+     * Reads a part of the content of a regular file.
+     * @param {TarEntry} entry - the file
+     * @param {number} position - the position in the file
+     * @param {number} length - the maximum number of bytes
+     * @param {string} file - the path of the file, for the errors
+     * @throws FileSystemException if the archive is truncated
+     */
+    public readContent(entry: TarEntry, position: number, length: number, file: string): Uint8Array {
+        this.checkOpen();
+        const count = Math.max(0, Math.min(length, entry.size - position));
+        const bytes = this.read(entry.offset + position, count);
+        if (bytes.length < count)
+            throw new FileSystemException(file, undefined, "Unexpected end of archive");
+        return bytes;
+    }
+
+    public toString(): string {
+        return this.archive.toString();
+    }
+}
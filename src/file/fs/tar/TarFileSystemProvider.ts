@@ -0,0 +1,279 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import {FileAttributeDispatcher, FileSystemProvider, FileSystemProviders, FileSystemRegistry, SnapshotDirectoryStream} from "../../spi";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {AccessMode} from "../../AccessMode";
+import {CopyOption} from "../../CopyOption";
+import {OpenOption} from "../../OpenOption";
+import {LinkOption} from "../../LinkOption";
+import {DirectoryStream} from "../../DirectoryStream";
+import {BasicFileAttributes, FileAttribute, FileAttributeView} from "../../attribute";
+import {copyToForeignTarget} from "../../CopyMoveHelper";
+import {
+    AccessDeniedException,
+    FileSystemAlreadyExistsException,
+    NotDirectoryException,
+    NotLinkException,
+    ReadOnlyFileSystemException,
+} from "../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
+import {LocalPath} from "../local/LocalPath";
+import {TarPath} from "./TarPath";
+import {isGzip, TarFileSystem} from "./TarFileSystem";
+import {TarFileStore} from "./TarFileStore";
+import {newTarInputStream} from "./TarFileStreams";
+import {TarBasicFileAttributeView, TarPosixFileAttributeView} from "./TarFileAttributeViews";
+import {BLOCK_SIZE, isValidHeader} from "./TarFormat";
+
+// the extensions of the archives opened without looking at their content
+const TAR_EXTENSIONS = [".tar", ".tar.gz", ".tgz"];
+// the number of compressed bytes decompressed to find the first header of a compressed archive
+const GZIP_PROBE_SIZE = 64 * 1024;
+
+function followLinks(options?: LinkOption[]): boolean {
+    return !options || !options.includes(LinkOption.NOFOLLOW_LINKS);
+}
+
+/* Tells whether a file is a tar archive, by its extension or by the magic and checksum of its first header. */
+function isTarFile(file: string): boolean {
+    const lower = file.toLowerCase();
+    if (TAR_EXTENSIONS.some(extension => lower.endsWith(extension))) {
+        return true;
+    }
+    let fd: number;
+    try {
+        fd = fs.openSync(file, "r");
+    } catch (ignore) {
+        return false;
+    }
+    try {
+        let header: Uint8Array = Buffer.alloc(GZIP_PROBE_SIZE);
+        header = header.subarray(0, fs.readSync(fd, header, 0, GZIP_PROBE_SIZE, 0));
+        if (isGzip(header)) {
+            // the first bytes of a stream that is not complete
+            header = zlib.gunzipSync(header, {finishFlush: zlib.constants.Z_SYNC_FLUSH});
+        }
+        return header.length >= BLOCK_SIZE && Buffer.from(header.subarray(257, 262)).toString("latin1") === "ustar" && isValidHeader(header.subarray(0, BLOCK_SIZE));
+    } catch (ignore) {
+        return false;
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * The provider of the tar file systems, identified by the URLs {@code tar:<archive URL>!/path}.
+ * A file system is created for a tar archive of the local file system, compressed with gzip or not,
+ * by {@link FileSystems#newFileSystem}, and is open until it is closed. The file systems are read-only.
+ * Importing the provider does not install it: the application adds it to {@link FileSystemProviders}.
+ */
+export class TarFileSystemProvider extends FileSystemProvider {
+    private readonly fileSystems = new FileSystemRegistry<TarFileSystem>();
+    private readonly attributes: FileAttributeDispatcher = new FileAttributeDispatcher()
+        .registerBasicView((path, options) => new TarBasicFileAttributeView(TarPath.toTarPath(path), followLinks(options)))
+        .registerPosixView((path, options) => new TarPosixFileAttributeView(TarPath.toTarPath(path), followLinks(options)))
+        .registerOwnerView((path, options) => new TarPosixFileAttributeView(TarPath.toTarPath(path), followLinks(options)));
+
+    public constructor() {
+        super();
+    }
+
+    public getScheme(): string {
+        return "tar";
+    }
+
+    /**
+     * Splits a URL {@code tar:<archive URL>!/path} into the archive and the path of the entry.
+     * @throws IllegalArgumentException if the archive is not a local file
+     */
+    private static parseUrl(url: URL): [LocalPath, string] {
+        if (url.protocol.toLowerCase() !== "tar:")
+            throw new IllegalArgumentException("URL scheme is not \"tar\"");
+        const spec = url.href.substring("tar:".length);
+        const separator = spec.indexOf("!/");
+        const archiveUrl = new URL(separator === -1 ? spec : spec.substring(0, separator));
+        const entry = separator === -1 ? "/" : spec.substring(separator + 1).split("/").map(decodeURIComponent).join("/");
+        const archive = FileSystemProviders.getProvider(archiveUrl.protocol.replace(":", ""))?.getPath(archiveUrl);
+        if (!(archive instanceof LocalPath))
+            throw new IllegalArgumentException("The archive must be a file of the local file system");
+        return [archive, entry];
+    }
+
+    /* The key of the file system of an archive, its real path if it exists. */
+    private static keyOf(archive: LocalPath): string {
+        const absolute = archive.toAbsolutePath().normalize();
+        return fs.existsSync(absolute.toString()) ? absolute.toRealPath().toString() : absolute.toString();
+    }
+
+    private newTarFileSystem(archive: LocalPath, env: Map<string, any>): TarFileSystem {
+        const key = TarFileSystemProvider.keyOf(archive);
+        if (this.fileSystems.find(key) !== null)
+            throw new FileSystemAlreadyExistsException(key);
+        return this.fileSystems.register(key, new TarFileSystem(this, archive.getFileSystem().getPath(key) as LocalPath, key, env));
+    }
+
+    /**
+     * Opens the archive of a {@code tar:} URL, the environment may give the {@code maxUncompressedSize} of a compressed archive.
+     * @throws FileSystemAlreadyExistsException if the archive is already open
+     */
+    public newFileSystemFromUrl(url: URL, env: Map<string, any>): FileSystem {
+        const [archive] = TarFileSystemProvider.parseUrl(url);
+        return this.newTarFileSystem(archive, env);
+    }
+
+    /**
+     * Opens an archive of the local file system whose extension is .tar, .tar.gz or .tgz, or whose content starts with a ustar header.
+     * @throws UnsupportedOperationException if the file is not a tar archive
+     * @throws FileSystemAlreadyExistsException if the archive is already open
+     */
+    public newFileSystemFromPath(path: Path, env: Map<string, any>): FileSystem {
+        if (!(path instanceof LocalPath) || !isTarFile(path.toString()))
+            throw new UnsupportedOperationException();
+        return this.newTarFileSystem(path, env);
+    }
+
+    public getFileSystem(url: URL): TarFileSystem {
+        const [archive] = TarFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(TarFileSystemProvider.keyOf(archive));
+    }
+
+    public getPath(url: URL): Path {
+        const [archive, entry] = TarFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(TarFileSystemProvider.keyOf(archive)).getPath(entry);
+    }
+
+    /* Forgets a closed file system. */
+    public removeFileSystem(fileSystem: TarFileSystem): void {
+        this.fileSystems.deregister(fileSystem.getKey(), fileSystem);
+    }
+
+    protected newInputStreamImpl(path: Path, options?: OpenOption[]): ReadableStream {
+        return newTarInputStream(TarPath.toTarPath(path), options);
+    }
+
+    protected newOutputStreamImpl(path: Path, options?: OpenOption[]): WritableStream {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(path).toString());
+    }
+
+    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
+        const file = TarPath.toTarPath(dir);
+        const entry = file.getFileSystem().getEntry(file, true);
+        if (!entry.isDirectory())
+            throw new NotDirectoryException(file.toString());
+        return new SnapshotDirectoryStream(file, [...entry.getEntries().keys()], acceptFilter);
+    }
+
+    public createFile(path: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(path).toString());
+    }
+
+    public createDirectory(dir: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(dir).toString());
+    }
+
+    public createSymbolicLink(link: Path, target: Path, attrs?: FileAttribute<any>[]): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(link).toString());
+    }
+
+    public createLink(link: Path, existing: Path): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(link).toString());
+    }
+
+    public readSymbolicLink(link: Path): Path {
+        const file = TarPath.toTarPath(link);
+        const entry = file.getFileSystem().getEntry(file, false);
+        if (!entry.isSymbolicLink())
+            throw new NotLinkException(file.toString());
+        return file.getFileSystem().getPath(entry.target as string);
+    }
+
+    public delete(path: Path): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(path).toString());
+    }
+
+    public getFileStore(path: Path): TarFileStore {
+        const file = TarPath.toTarPath(path);
+        file.getFileSystem().getEntry(file, true);
+        return file.getFileSystem().getFileStore();
+    }
+
+    /* The entries can be read and executed, whatever their mode, but not written. */
+    public checkAccess(obj: Path, modes?: AccessMode[]): void {
+        const file = TarPath.toTarPath(obj);
+        file.getFileSystem().getEntry(file, true);
+        if (modes && modes.includes(AccessMode.WRITE))
+            throw new AccessDeniedException(file.toString());
+    }
+
+    /* Copies an entry out of the archive, the archive itself cannot be a target. */
+    public async copy(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = TarPath.toTarPath(source);
+        const targetFile = TarPath.toTarPath(target);
+        if (sourceFile.getFileSystem() === targetFile.getFileSystem())
+            throw new ReadOnlyFileSystemException(targetFile.toString());
+        return copyToForeignTarget(source, target, options);
+    }
+
+    /* An entry cannot be moved, it cannot be removed from the archive. */
+    public async move(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(source).toString());
+    }
+
+    public isHidden(obj: Path): boolean {
+        TarPath.toTarPath(obj);
+        const name = obj.getFileName()?.toString();
+        // "." and ".." are not hidden files but references to directories
+        return !!name && name.startsWith(".") && name !== "." && name !== "..";
+    }
+
+    public isSameFile(obj1: Path, obj2: Path): boolean {
+        const file1 = TarPath.toTarPath(obj1);
+        if (file1.equals(obj2)) {
+            return true;
+        }
+        if (!(obj2 instanceof TarPath) || obj2.getFileSystem() !== file1.getFileSystem()) {
+            return false;
+        }
+        return file1.getFileSystem().getEntry(file1, true) === obj2.getFileSystem().getEntry(obj2, true);
+    }
+
+    public readAttributesByType(path: Path, type?: string, options?: LinkOption[]): BasicFileAttributes {
+        const file = TarPath.toTarPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributes":
+            case "posix":
+            case "PosixFileAttributes":
+                return new TarBasicFileAttributeView(file, followLinks(options)).readAttributes();
+            default:
+                throw new UnsupportedOperationException();
+        }
+    }
+
+    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
+        const file = TarPath.toTarPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributeView":
+                return new TarBasicFileAttributeView(file, followLinks(options));
+            case "posix":
+            case "PosixFileAttributeView":
+            case "owner":
+            case "FileOwnerAttributeView":
+                return new TarPosixFileAttributeView(file, followLinks(options));
+            default:
+                return null;
+        }
+    }
+
+    public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
+        return this.attributes.readAttributes(path, attributes, options);
+    }
+
+    public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
+        throw new ReadOnlyFileSystemException(TarPath.toTarPath(path).toString());
+    }
+}
@@ -0,0 +1,461 @@
+import {FileSystemException} from "../../exception";
+
+export const BLOCK_SIZE = 512;
+
+export const TYPE_FILE = "0";
+export const TYPE_HARD_LINK = "1";
+export const TYPE_SYMBOLIC_LINK = "2";
+export const TYPE_CHARACTER_DEVICE = "3";
+export const TYPE_BLOCK_DEVICE = "4";
+export const TYPE_DIRECTORY = "5";
+export const TYPE_FIFO = "6";
+export const TYPE_CONTIGUOUS_FILE = "7";
+export const TYPE_GNU_LONG_NAME = "L";
+export const TYPE_GNU_LONG_LINK_NAME = "K";
+export const TYPE_PAX_HEADER = "x";
+export const TYPE_PAX_GLOBAL_HEADER = "g";
+export const TYPE_GNU_DUMP_DIR = "D";
+export const TYPE_GNU_VOLUME_HEADER = "V";
+
+/* An entry of the archive, its header once the extended headers that precede it are applied. */
+export interface TarRecord {
+    name: string;
+    // the type flag of the header, "0" for a regular file whatever the header says
+    type: string;
+    mode: number;
+    uid: number;
+    gid: number;
+    uname: string;
+    gname: string;
+    size: number;
+    // the times in milliseconds, the access and change times come from PAX headers only
+    lastModifiedTime: number;
+    lastAccessTime: number | null;
+    changeTime: number | null;
+    linkName: string;
+    devMajor: number;
+    devMinor: number;
+    // the position of the content in the archive
+    offset: number;
+}
+
+/* Reads the bytes of an archive at a position, fewer bytes at the end of the archive. */
+export type TarReader = (position: number, length: number) => Uint8Array;
+
+function readString(header: Uint8Array, offset: number, length: number): string {
+    let end = offset;
+    while (end < offset + length && header[end] !== 0) {
+        end++;
+    }
+    return Buffer.from(header.buffer, header.byteOffset + offset, end - offset).toString("utf8");
+}
+
+/* Reads a numeric field, in octal or in the base-256 encoding of GNU tar and star for the large values. */
+function readNumber(header: Uint8Array, offset: number, length: number): number {
+    if ((header[offset] & 0x80) !== 0) {
+        // big-endian two's complement, the first byte is 0x80 for a positive value, 0xff for a negative one
+        let value = header[offset] & 0x7f;
+        for (let i = 1; i < length; i++) {
+            value = value * 256 + header[offset + i];
+        }
+        return (header[offset] & 0x40) !== 0 ? value - 2 ** (8 * length - 1) : value;
+    }
+    const text = readString(header, offset, length).trim();
+    return text.length === 0 ? 0 : parseInt(text, 8);
+}
+
+/* Tells whether a header is a block of zeros, the end of the archive. */
+export function isZeroBlock(header: Uint8Array): boolean {
+    return header.every(byte => byte === 0);
+}
+
+/* Checks the checksum of a header, the unsigned sum of its bytes with spaces in place of the checksum, or the signed sum of old archives. */
+export function isValidHeader(header: Uint8Array): boolean {
+    if (header.length < BLOCK_SIZE) {
+        return false;
+    }
+    const expected = readNumber(header, 148, 8);
+    let unsigned = 0;
+    let signed = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        const byte = i >= 148 && i < 156 ? 0x20 : header[i];
+        unsigned += byte;
+        signed += byte > 127 ? byte - 256 : byte;
+    }
+    return expected === unsigned || expected === signed;
+}
+
+/* Parses the records "<length> <key>=<value>\n" of a PAX extended header. */
+function parsePaxHeader(data: Uint8Array, file: string | undefined): Map<string, string> {
+    const records = new Map<string, string>();
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.length);
+    let position = 0;
+    while (position < buffer.length && buffer[position] !== 0) {
+        const space = buffer.indexOf(0x20, position);
+        const length = space === -1 ? NaN : parseInt(buffer.toString("latin1", position, space), 10);
+        if (!(length > 0) || position + length > buffer.length)
+            throw new FileSystemException(file, undefined, "Invalid PAX header");
+        const record = buffer.toString("utf8", space + 1, position + length - 1);
+        const equals = record.indexOf("=");
+        if (equals === -1)
+            throw new FileSystemException(file, undefined, "Invalid PAX header");
+        records.set(record.substring(0, equals), record.substring(equals + 1));
+        position += length;
+    }
+    return records;
+}
+
+function toMillis(seconds: string): number {
+    return Math.round(parseFloat(seconds) * 1000);
+}
+
+/* Applies the PAX records to a header, an empty value restores the value of the header. */
+function applyPaxRecords(record: TarRecord, pax: Map<string, string>): void {
+    for (const [key, value] of pax) {
+        if (value.length === 0) {
+            continue;
+        }
+        switch (key) {
+            case "path":
+                record.name = value;
+                break;
+            case "linkpath":
+                record.linkName = value;
+                break;
+            case "size":
+                record.size = Number(value);
+                break;
+            case "uid":
+                record.uid = Number(value);
+                break;
+            case "gid":
+                record.gid = Number(value);
+                break;
+            case "uname":
+                record.uname = value;
+                break;
+            case "gname":
+                record.gname = value;
+                break;
+            case "mtime":
+                record.lastModifiedTime = toMillis(value);
+                break;
+            case "atime":
+                record.lastAccessTime = toMillis(value);
+                break;
+            case "ctime":
+                record.changeTime = toMillis(value);
+                break;
+            default:
+                // the charset, comment and vendor records are ignored
+                break;
+        }
+    }
+}
+
+/* A header decoded by a TarHeaderDecoder. */
+export interface TarBlock {
+    // the type flag of the header
+    type: string;
+    // the size of the content that follows the header
+    size: number;
+    // the entry, null for the extended headers whose content is given to TarHeaderDecoder#extend
+    record: TarRecord | null;
+}
+
+/* Decodes the headers of an archive one at a time, the extended headers apply to the entry that follows them. */
+export class TarHeaderDecoder {
+    private readonly file: string | undefined;
+    private readonly globalPax = new Map<string, string>();
+    private pax: Map<string, string> | null = null;
+    private longName: string | null = null;
+    private longLinkName: string | null = null;
+    private count: number = 0;
+
+    /**
+     * @param {string} [file] - the archive, for the errors
+     */
+    public constructor(file?: string) {
+        this.file = file;
+    }
+
+    /**
+     * Decodes a header.
+     * @param {Uint8Array} header - the block of the header, not a block of zeros
+     * @param {number} offset - the position of the content in the archive
+     * @returns The type of the header, the size of its content and the entry if it is not an extended header
+     * @throws FileSystemException if the checksum of the header is invalid
+     */
+    public decode(header: Uint8Array, offset: number): TarBlock {
+        if (!isValidHeader(header))
+            throw new FileSystemException(this.file, undefined, this.count === 0 ? "Not a tar archive" : "Invalid tar header checksum");
+        this.count++;
+        const magic = readString(header, 257, 6);
+        const size = readNumber(header, 124, 12);
+        const type = String.fromCharCode(header[156] || 0x30);
+        switch (type) {
+            case TYPE_GNU_LONG_NAME:
+            case TYPE_GNU_LONG_LINK_NAME:
+            case TYPE_PAX_HEADER:
+            case TYPE_PAX_GLOBAL_HEADER:
+            case TYPE_GNU_VOLUME_HEADER:
+                return {type: type, size: size, record: null};
+        }
+        let name = readString(header, 0, 100);
+        // the prefix of the name in the ustar format, the GNU format stores times there
+        const prefix = magic === "ustar" ? readString(header, 345, 155) : "";
+        if (prefix.length > 0) {
+            name = prefix + "/" + name;
+        }
+        const record: TarRecord = {
+            name: this.longName ?? name,
+            type: type,
+            mode: readNumber(header, 100, 8) & 0o7777,
+            uid: readNumber(header, 108, 8),
+            gid: readNumber(header, 116, 8),
+            uname: readString(header, 265, 32),
+            gname: readString(header, 297, 32),
+            size: size,
+            lastModifiedTime: readNumber(header, 136, 12) * 1000,
+            lastAccessTime: null,
+            changeTime: null,
+            linkName: this.longLinkName ?? readString(header, 157, 100),
+            devMajor: readNumber(header, 329, 8),
+            devMinor: readNumber(header, 337, 8),
+            offset: offset,
+        };
+        applyPaxRecords(record, this.globalPax);
+        if (this.pax !== null) {
+            applyPaxRecords(record, this.pax);
+        }
+        switch (record.type) {
+            case TYPE_CONTIGUOUS_FILE:
+                record.type = TYPE_FILE;
+                break;
+            case TYPE_GNU_DUMP_DIR:
+                record.type = TYPE_DIRECTORY;
+                break;
+            case TYPE_FILE:
+                // the old archives mark the directories with a trailing slash only
+                if (record.name.endsWith("/")) {
+                    record.type = TYPE_DIRECTORY;
+                }
+                break;
+        }
+        // a PAX size larger than the size field
+        const contentSize = record.size;
+        if (record.type === TYPE_HARD_LINK || record.type === TYPE_SYMBOLIC_LINK || record.type === TYPE_DIRECTORY) {
+            record.size = 0;
+        }
+        this.pax = null;
+        this.longName = null;
+        this.longLinkName = null;
+        return {type: record.type, size: contentSize, record: record};
+    }
+
+    /**
+     * Applies the content of an extended header to the entries that follow it.
+     * @param {string} type - the type of the extended header
+     * @param {Uint8Array} content - the content of the header
+     * @throws FileSystemException if a PAX header is invalid
+     */
+    public extend(type: string, content: Uint8Array): void {
+        switch (type) {
+            case TYPE_GNU_LONG_NAME:
+                this.longName = readString(content, 0, content.length);
+                break;
+            case TYPE_GNU_LONG_LINK_NAME:
+                this.longLinkName = readString(content, 0, content.length);
+                break;
+            case TYPE_PAX_HEADER:
+                this.pax = parsePaxHeader(content, this.file);
+                break;
+            case TYPE_PAX_GLOBAL_HEADER:
+                parsePaxHeader(content, this.file).forEach((value, key) => this.globalPax.set(key, value));
+                break;
+        }
+    }
+}
+
+/**
+ * Reads the headers of a tar archive: ustar, GNU and PAX, and the old archives without magic.
+ * The content of the entries is not read, except for the GNU long names and the PAX headers.
+ * @param {TarReader} read - reads the bytes of the archive
+ * @param {string} file - the archive, for the errors
+ * @returns The entries, in the order of the archive
+ * @throws FileSystemException if a header is invalid or the archive is truncated
+ */
+export function readHeaders(read: TarReader, file: string): TarRecord[] {
+    const decoder = new TarHeaderDecoder(file);
+    const records: TarRecord[] = [];
+    let position = 0;
+    for (;;) {
+        const header = read(position, BLOCK_SIZE);
+        // the archive ends with two blocks of zeros, or without them
+        if (header.length === 0 || isZeroBlock(header)) {
+            break;
+        }
+        const offset = position + BLOCK_SIZE;
+        const block = decoder.decode(header, offset);
+        if (block.record === null) {
+            const content = read(offset, block.size);
+            if (content.length < block.size)
+                throw new FileSystemException(file, undefined, "Unexpected end of archive");
+            decoder.extend(block.type, content);
+        } else {
+            records.push(block.record);
+        }
+        position = offset + Math.ceil(block.size / BLOCK_SIZE) * BLOCK_SIZE;
+    }
+    return records;
+}
+
+// the archives are padded to a multiple of 20 blocks, as by tar
+export const RECORD_SIZE = 20 * BLOCK_SIZE;
+
+/* The fields of an entry to write, the names are encoded in UTF-8. */
+export interface TarHeader {
+    name: string;
+    type: string;
+    mode: number;
+    uid: number;
+    gid: number;
+    uname: string;
+    gname: string;
+    size: number;
+    // in seconds
+    lastModifiedTime: number;
+    linkName: string;
+}
+
+function isAscii(value: string): boolean {
+    return /^[\x00-\x7f]*$/.test(value);
+}
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string): void {
+    header.set(Buffer.from(value, "utf8").subarray(0, length), offset);
+}
+
+/* Tells whether a number fits in an octal field terminated by a NUL. */
+function fitsOctal(value: number, length: number): boolean {
+    return Number.isSafeInteger(value) && value >= 0 && value.toString(8).length <= length - 1;
+}
+
+/* Writes an octal field terminated by a NUL, zero when the value does not fit and is given by a PAX record. */
+function writeNumber(header: Uint8Array, offset: number, length: number, value: number): void {
+    const digits = fitsOctal(value, length) ? value.toString(8) : "0";
+    writeString(header, offset, length, digits.padStart(length - 1, "0"));
+}
+
+/* Splits a name into the prefix and the name fields of a ustar header, null if it does not fit. */
+function splitName(name: string): [string, string] | null {
+    if (Buffer.byteLength(name) <= 100) {
+        return ["", name];
+    }
+    for (let slash = name.indexOf("/"); slash !== -1; slash = name.indexOf("/", slash + 1)) {
+        const prefix = name.substring(0, slash);
+        const rest = name.substring(slash + 1);
+        if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100 && rest.length > 0) {
+            return [prefix, rest];
+        }
+    }
+    return null;
+}
+
+/* Encodes the records "<length> <key>=<value>\n" of a PAX extended header, the length counting itself. */
+function encodePaxRecords(records: Map<string, string>): Buffer {
+    const lines = [...records].map(([key, value]) => {
+        const line = " " + key + "=" + value + "\n";
+        const size = Buffer.byteLength(line);
+        let length = size + String(size).length;
+        if (String(length).length !== String(size).length) {
+            length = size + String(length).length;
+        }
+        return length + line;
+    });
+    return Buffer.from(lines.join(""), "utf8");
+}
+
+function encodeBlock(header: TarHeader, prefix: string, name: string): Uint8Array {
+    const block = new Uint8Array(BLOCK_SIZE);
+    writeString(block, 0, 100, name);
+    writeNumber(block, 100, 8, header.mode);
+    writeNumber(block, 108, 8, header.uid);
+    writeNumber(block, 116, 8, header.gid);
+    writeNumber(block, 124, 12, header.size);
+    writeNumber(block, 136, 12, header.lastModifiedTime);
+    block[156] = header.type.charCodeAt(0);
+    writeString(block, 157, 100, header.linkName);
+    writeString(block, 257, 6, "ustar");
+    writeString(block, 263, 2, "00");
+    writeString(block, 265, 32, header.uname);
+    writeString(block, 297, 32, header.gname);
+    writeNumber(block, 329, 8, 0);
+    writeNumber(block, 337, 8, 0);
+    writeString(block, 345, 155, prefix);
+    let checksum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        checksum += i >= 148 && i < 156 ? 0x20 : block[i];
+    }
+    writeString(block, 148, 8, checksum.toString(8).padStart(6, "0") + "\0 ");
+    return block;
+}
+
+/**
+ * Encodes the header of an entry in the ustar format, preceded by a PAX extended header when a field
+ * does not fit in the ustar format: a long or non-ASCII name, link name or owner, or a large number.
+ * @param {TarHeader} header - the entry
+ * @returns The blocks of the header, the content of the entry follows them
+ */
+export function encodeHeader(header: TarHeader): Uint8Array {
+    const records = new Map<string, string>();
+    const split = isAscii(header.name) ? splitName(header.name) : null;
+    if (split === null) {
+        records.set("path", header.name);
+    }
+    if (!isAscii(header.linkName) || header.linkName.length > 100) {
+        records.set("linkpath", header.linkName);
+    }
+    if (!isAscii(header.uname) || header.uname.length > 32) {
+        records.set("uname", header.uname);
+    }
+    if (!isAscii(header.gname) || header.gname.length > 32) {
+        records.set("gname", header.gname);
+    }
+    if (!fitsOctal(header.uid, 8)) {
+        records.set("uid", String(header.uid));
+    }
+    if (!fitsOctal(header.gid, 8)) {
+        records.set("gid", String(header.gid));
+    }
+    if (!fitsOctal(header.size, 12)) {
+        records.set("size", String(header.size));
+    }
+    if (!fitsOctal(header.lastModifiedTime, 12)) {
+        records.set("mtime", String(header.lastModifiedTime));
+    }
+    const [prefix, name] = split ?? ["", header.name];
+    const block = encodeBlock(header, prefix, name);
+    if (records.size === 0) {
+        return block;
+    }
+    const data = encodePaxRecords(records);
+    const baseName = header.name.split("/").filter(next => next.length > 0).pop() ?? "";
+    const paxHeader = encodeBlock({
+        name: "",
+        type: TYPE_PAX_HEADER,
+        mode: 0o644,
+        uid: 0,
+        gid: 0,
+        uname: "",
+        gname: "",
+        size: data.length,
+        lastModifiedTime: fitsOctal(header.lastModifiedTime, 12) ? header.lastModifiedTime : 0,
+        linkName: "",
+    }, "", "PaxHeaders/" + (isAscii(baseName) ? baseName : "entry"));
+    const result = new Uint8Array(BLOCK_SIZE + Math.ceil(data.length / BLOCK_SIZE) * BLOCK_SIZE + BLOCK_SIZE);
+    result.set(paxHeader);
+    result.set(data, BLOCK_SIZE);
+    result.set(block, result.length - BLOCK_SIZE);
+    return result;
+}
@@ -0,0 +1,42 @@
+import {Path} from "../../Path";
+import {LinkOption} from "../../LinkOption";
+import {UnixPath} from "../../spi/UnixPath";
+import {ProviderMismatchException} from "../../exception";
+import {NullPointerException} from "../../../exception";
+import type {TarFileSystem} from "./TarFileSystem";
+
+/* A path of a tar file system, the relative paths are resolved against the root of the archive. */
+export class TarPath extends UnixPath {
+
+    public constructor(fileSystem: TarFileSystem, path: string) {
+        super(fileSystem, path);
+    }
+
+    public static toTarPath(path: Path): TarPath {
+        if (path == null)
+            throw new NullPointerException();
+        if (!(path instanceof TarPath)) {
+            throw new ProviderMismatchException();
+        }
+        return path;
+    }
+
+    protected newPath(path: string): TarPath {
+        return new TarPath(this.getFileSystem(), path);
+    }
+
+    public getFileSystem(): TarFileSystem {
+        return super.getFileSystem() as TarFileSystem;
+    }
+
+    public toRealPath(options?: LinkOption[]): Path {
+        const followLinks = !options || !options.includes(LinkOption.NOFOLLOW_LINKS);
+        return this.newPath(this.getFileSystem().toRealPath(this, followLinks));
+    }
+
+    /* The URL {@code tar:<archive URL>!/path}, the URL of the archive followed by the absolute path. */
+    public toURL(): URL {
+        const path = this.toAbsolutePath().toString().split("/").map(encodeURIComponent).join("/");
+        return new URL("tar:" + this.getFileSystem().getArchive().toURL().href + "!" + path);
+    }
+}
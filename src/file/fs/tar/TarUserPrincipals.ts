@@ -0,0 +1,43 @@
+import {GroupPrincipal, UserPrincipal} from "../../attribute";
+import {Principal} from "../../../Principal";
+
+/* The owner of an entry of a tar archive, named by the header, or by its id when the header has no name. */
+export class TarUser implements UserPrincipal {
+    private readonly name: string;
+    private readonly id: number;
+    private readonly group: boolean;
+
+    public constructor(name: string, id: number, isGroup: boolean = false) {
+        this.name = name.length > 0 ? name : String(id);
+        this.id = id;
+        this.group = isGroup;
+    }
+
+    public isGroup(): boolean {
+        return this.group;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    /* The numeric id of the header. */
+    public getId(): number {
+        return this.id;
+    }
+
+    public equals(other: Principal): boolean {
+        return other instanceof TarUser && this.name === other.name && this.id === other.id && this.group === other.group;
+    }
+
+    public toString(): string {
+        return this.name;
+    }
+}
+
+export class TarGroup extends TarUser implements GroupPrincipal {
+
+    public constructor(name: string, id: number) {
+        super(name, id, true);
+    }
+}
@@ -0,0 +1,7 @@
+export * from "./TarFileSystem"
+export * from "./TarFileSystemProvider"
+export * from "./TarPath"
+export * from "./TarFileStore"
+export * from "./TarEntry"
+export * from "./TarFileAttributeViews"
+export * from "./TarUserPrincipals"
@@ -0,0 +1,125 @@
+import {FileTime} from "../../attribute";
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+
+// the unix file types, in the high bits of the external attributes of the entries made on unix
+export const S_IFDIR = 0o040000;
+export const S_IFREG = 0o100000;
+
+/**
+ * Converts a time to the MS-DOS date and time of a zip entry, in local time with a
+ * precision of 2 seconds: the date in the high 16 bits and the time in the low 16 bits.
+ */
+export function toDosTime(millis: number): number {
+    const date = new Date(millis);
+    const year = date.getFullYear();
+    if (year < 1980) {
+        // 1980-01-01 00:00:00
+        return (1 << 21) | (1 << 16);
+    }
+    const dosDate = ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+    return ((dosDate << 16) | dosTime) >>> 0;
+}
+
+/* Converts the MS-DOS date and time of a zip entry to a time, see toDosTime. */
+export function fromDosTime(dosTime: number): number {
+    const year = ((dosTime >>> 25) & 0x7f) + 1980;
+    const month = ((dosTime >>> 21) & 0x0f) - 1;
+    const day = (dosTime >>> 16) & 0x1f;
+    const hours = (dosTime >>> 11) & 0x1f;
+    const minutes = (dosTime >>> 5) & 0x3f;
+    const seconds = (dosTime << 1) & 0x3e;
+    return new Date(year, month, day, hours, minutes, seconds).getTime();
+}
+
+/* Where the data of an entry is: in the archive the file system was opened from, or in memory once written. */
+export interface ZipEntryData {
+    // the offset of the local header in the archive, -1 for the data held in memory
+    offset: number;
+    // the general purpose flags of the entry in the archive
+    flags: number;
+    // the compressed bytes held in memory
+    bytes: Uint8Array | null;
+}
+
+/**
+ * An entry of a zip archive, or a directory implied by the names of the entries. The entries form a tree:
+ * the name of an entry in the archive is computed from its parent, so that moving a directory moves its entries.
+ */
+export class ZipEntry {
+    public name: string;
+    public parent: ZipEntry | null;
+    // the entries of a directory, by name
+    public readonly children: Map<string, ZipEntry> | null;
+    // false for a directory that has no entry of its own in the archive
+    public explicit: boolean;
+    public method: number = METHOD_DEFLATED;
+    public crc: number = 0;
+    public size: number = 0;
+    public compressedSize: number = 0;
+    // the modification time in milliseconds, from the extended timestamp if any, else from the MS-DOS time
+    public lastModifiedTime: number;
+    public versionMadeBy: number = (3 << 8) | 20;
+    public externalAttributes: number;
+    public comment: string | null = null;
+    public data: ZipEntryData = {offset: -1, flags: 0, bytes: new Uint8Array(0)};
+
+    public constructor(name: string, parent: ZipEntry | null, directory: boolean, explicit: boolean = true) {
+        this.name = name;
+        this.parent = parent;
+        this.children = directory ? new Map<string, ZipEntry>() : null;
+        this.explicit = explicit;
+        this.lastModifiedTime = Date.now();
+        this.externalAttributes = directory ? (((S_IFDIR | 0o755) << 16) | 0x10) >>> 0 : ((S_IFREG | 0o644) << 16) >>> 0;
+        if (directory) {
+            this.method = METHOD_STORED;
+        }
+    }
+
+    public isDirectory(): boolean {
+        return this.children !== null;
+    }
+
+    /* Returns the entries of a directory. */
+    public getChildren(): Map<string, ZipEntry> {
+        if (this.children === null)
+            throw new Error("Should not get here");
+        return this.children;
+    }
+
+    /* The name of the entry in the archive, a directory ends with a slash. */
+    public getEntryName(): string {
+        const names: string[] = [];
+        for (let entry: ZipEntry | null = this; entry !== null && entry.parent !== null; entry = entry.parent) {
+            names.unshift(entry.name);
+        }
+        return names.join("/") + (this.isDirectory() ? "/" : "");
+    }
+
+    public getDosTime(): number {
+        return toDosTime(this.lastModifiedTime);
+    }
+
+    public getLastModifiedTime(): FileTime {
+        return FileTime.fromMillis(this.lastModifiedTime);
+    }
+
+    /* Copies the data and the attributes to a new entry, not linked yet. */
+    public copy(name: string, parent: ZipEntry, copyAttributes: boolean): ZipEntry {
+        const copy = new ZipEntry(name, parent, this.isDirectory());
+        copy.method = this.method;
+        copy.crc = this.crc;
+        copy.size = this.size;
+        copy.compressedSize = this.compressedSize;
+        copy.data = this.data;
+        if (copyAttributes) {
+            copy.lastModifiedTime = this.lastModifiedTime;
+            copy.versionMadeBy = this.versionMadeBy;
+            copy.externalAttributes = this.externalAttributes;
+            copy.comment = this.comment;
+        }
+        return copy;
+    }
+}
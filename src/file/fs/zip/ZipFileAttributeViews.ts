@@ -0,0 +1,186 @@
+import {BasicFileAttributes, BasicFileAttributeView, FileTime} from "../../attribute";
+import {AttributesBuilder, BasicFileAttributeViewAdapter} from "../../spi";
+import {IllegalArgumentException} from "../../../exception";
+import {ZipEntry} from "./ZipEntry";
+import {ZipPath} from "./ZipPath";
+
+/* A snapshot of the attributes of a zip entry, with the fields of its header. */
+export class ZipFileAttributes implements BasicFileAttributes {
+    private readonly entry: ZipEntry;
+    private readonly modified: FileTime;
+    private readonly entrySize: number;
+    private readonly entryCompressedSize: number;
+    private readonly entryCrc: number;
+    private readonly entryMethod: number;
+    private readonly entryDosTime: number;
+    private readonly entryComment: string | null;
+
+    public constructor(entry: ZipEntry) {
+        this.entry = entry;
+        this.modified = entry.getLastModifiedTime();
+        this.entrySize = entry.size;
+        this.entryCompressedSize = entry.compressedSize;
+        this.entryCrc = entry.crc;
+        this.entryMethod = entry.method;
+        this.entryDosTime = entry.getDosTime();
+        this.entryComment = entry.comment;
+    }
+
+    public lastModifiedTime(): FileTime {
+        return this.modified;
+    }
+
+    /* An archive has no access time, the modification time is returned. */
+    public lastAccessTime(): FileTime {
+        return this.modified;
+    }
+
+    /* An archive has no creation time, the modification time is returned. */
+    public creationTime(): FileTime {
+        return this.modified;
+    }
+
+    public isRegularFile(): boolean {
+        return !this.entry.isDirectory();
+    }
+
+    public isDirectory(): boolean {
+        return this.entry.isDirectory();
+    }
+
+    public isSymbolicLink(): boolean {
+        return false;
+    }
+
+    public isOther(): boolean {
+        return false;
+    }
+
+    public size(): bigint {
+        return BigInt(this.entrySize);
+    }
+
+    public fileKey(): Object | null {
+        return null;
+    }
+
+    public compressedSize(): bigint {
+        return BigInt(this.entryCompressedSize);
+    }
+
+    /* The CRC-32 of the uncompressed content. */
+    public crc(): number {
+        return this.entryCrc;
+    }
+
+    /* The compression method, 0 when stored and 8 when deflated. */
+    public method(): number {
+        return this.entryMethod;
+    }
+
+    /* The MS-DOS date and time of the header, in local time: the date in the high 16 bits and the time in the low 16 bits. */
+    public dosTime(): number {
+        return this.entryDosTime;
+    }
+
+    public comment(): string | null {
+        return this.entryComment;
+    }
+}
+
+/* The "basic" attribute view of a zip entry, or its "zip" view when created for the "zip" name. */
+export class ZipFileAttributeView implements BasicFileAttributeView {
+    private readonly path: ZipPath;
+    private readonly isZipView: boolean;
+
+    public constructor(path: ZipPath, isZipView: boolean) {
+        this.path = path;
+        this.isZipView = isZipView;
+    }
+
+    private getEntry(): ZipEntry {
+        return this.path.getFileSystem().getEntry(this.path);
+    }
+
+    public name(): string {
+        return this.isZipView ? "zip" : "basic";
+    }
+
+    public readAttributes(): ZipFileAttributes {
+        return new ZipFileAttributes(this.getEntry());
+    }
+
+    /* Updates the modification time, the only time stored in an archive, the other times are ignored. */
+    public setTimes(lastModifiedTime?: FileTime, lastAccessTime?: FileTime, createTime?: FileTime): void {
+        if (lastModifiedTime) {
+            const entry = this.getEntry();
+            this.path.getFileSystem().checkWritable();
+            entry.lastModifiedTime = lastModifiedTime.toMillis();
+        }
+    }
+
+    /**
+     * Changes the compression method of the entry.
+     * @param {number} method - 0 to store the entry, 8 to deflate it
+     */
+    public setMethod(method: number): void {
+        this.path.getFileSystem().setMethod(this.getEntry(), this.path.toString(), method);
+    }
+
+    public setComment(comment: string | null): void {
+        const entry = this.getEntry();
+        this.path.getFileSystem().checkWritable();
+        entry.comment = comment;
+    }
+}
+
+/* Exposes the "zip" attribute view by attribute name. */
+export class ZipFileAttributeViewAdapter extends BasicFileAttributeViewAdapter {
+    private static readonly ZIP_ATTRIBUTE_NAMES = new Set<string>([
+        ...BasicFileAttributeViewAdapter.ATTRIBUTE_NAMES,
+        "compressedSize", "crc", "method", "dosTime", "comment",
+    ]);
+    private readonly zipView: ZipFileAttributeView;
+
+    public constructor(view: ZipFileAttributeView) {
+        super(view);
+        this.zipView = view;
+    }
+
+    public name(): string {
+        return "zip";
+    }
+
+    protected attributeNames(): Set<string> {
+        return ZipFileAttributeViewAdapter.ZIP_ATTRIBUTE_NAMES;
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(this.attributeNames(), attributes, this.name());
+        const attrs = this.zipView.readAttributes();
+        this.addBasicAttributes(attrs, builder);
+        builder.add("compressedSize", attrs.compressedSize());
+        builder.add("crc", attrs.crc());
+        builder.add("method", attrs.method());
+        builder.add("dosTime", attrs.dosTime());
+        builder.add("comment", attrs.comment());
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        switch (attribute) {
+            case "method":
+                this.zipView.setMethod(value);
+                break;
+            case "comment":
+                this.zipView.setComment(value);
+                break;
+            case "compressedSize":
+            case "crc":
+            case "dosTime":
+                throw new IllegalArgumentException("'" + this.name() + ":" + attribute + "' cannot be set");
+            default:
+                super.setAttribute(attribute, value);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import {FileStore} from "../../FileStore";
+import {FileStoreAttributeView} from "../../attribute/FileStoreAttributeView";
+import {UnsupportedOperationException} from "../../../exception";
+import type {ZipFileSystem} from "./ZipFileSystem";
+
+const SUPPORTED_VIEWS = new Set<string>(["basic", "BasicFileAttributeView", "zip", "ZipFileAttributeView"]);
+
+/* The single file store of a zip file system, its space is the space of the store of the archive. */
+export class ZipFileStore extends FileStore {
+    private readonly fileSystem: ZipFileSystem;
+
+    public constructor(fileSystem: ZipFileSystem) {
+        super();
+        this.fileSystem = fileSystem;
+    }
+
+    private getArchiveStore(): FileStore {
+        const archive = this.fileSystem.getArchive();
+        return archive.getFileSystem().provider().getFileStore(archive);
+    }
+
+    public name(): string {
+        return this.fileSystem.getArchive().toString();
+    }
+
+    public type(): string {
+        return "zipfs";
+    }
+
+    public isReadOnly(): boolean {
+        return this.fileSystem.isReadOnly();
+    }
+
+    public getTotalSpace(): bigint {
+        return this.getArchiveStore().getTotalSpace();
+    }
+
+    public getUsableSpace(): bigint {
+        return this.getArchiveStore().getUsableSpace();
+    }
+
+    public getUnallocatedSpace(): bigint {
+        return this.getArchiveStore().getUnallocatedSpace();
+    }
+
+    public getBlockSize(): bigint {
+        return this.getArchiveStore().getBlockSize();
+    }
+
+    public supportsFileAttributeView(name: string): boolean {
+        return SUPPORTED_VIEWS.has(name);
+    }
+
+    public getFileStoreAttributeView(type: string): FileStoreAttributeView | null {
+        return null;
+    }
+
+    public getAttribute(attribute: string): any {
+        switch (attribute) {
+            case "totalSpace":
+                return this.getTotalSpace();
+            case "usableSpace":
+                return this.getUsableSpace();
+            case "unallocatedSpace":
+                return this.getUnallocatedSpace();
+            default:
+                throw new UnsupportedOperationException("'" + attribute + "' not recognized");
+        }
+    }
+
+    public toString(): string {
+        return this.name() + " (zipfs)";
+    }
+}
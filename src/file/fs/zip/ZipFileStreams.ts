@@ -0,0 +1,232 @@
+import {ReadableStream as WebReadableStream, WritableStream as WebWritableStream} from "stream/web";
+import {pipeline, Readable} from "stream";
+import * as zlib from "zlib";
+import {OpenOption} from "../../OpenOption";
+import {StandardOpenOption} from "../../StandardOpenOption";
+import {LinkOption} from "../../LinkOption";
+import {FileAlreadyExistsException, FileSystemException, NoSuchFileException} from "../../exception";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {chunkSize, toBytes} from "../../spi/StreamChunks";
+import {METHOD_DEFLATED, METHOD_STORED, ZipEntry} from "./ZipEntry";
+import {crc32} from "./ZipFormat";
+import type {ZipFileSystem} from "./ZipFileSystem";
+import {ZipPath} from "./ZipPath";
+
+// size of the chunks read from an entry
+const BUFFER_SIZE = 8192;
+
+/* The open options of a zip stream, decoded. */
+class Flags {
+    append: boolean = false;
+    truncateExisting: boolean = false;
+    create: boolean = false;
+    createNew: boolean = false;
+
+    private constructor() {
+    }
+
+    public static parse(options: OpenOption[]): Flags {
+        const flags = new Flags();
+        for (let option of options) {
+            switch (option) {
+                case StandardOpenOption.READ:
+                case StandardOpenOption.WRITE:
+                case StandardOpenOption.SPARSE:
+                case StandardOpenOption.SYNC:
+                case StandardOpenOption.DSYNC:
+                case LinkOption.NOFOLLOW_LINKS:
+                    // nothing to do, an archive has no links
+                    break;
+                case StandardOpenOption.APPEND:
+                    flags.append = true;
+                    break;
+                case StandardOpenOption.TRUNCATE_EXISTING:
+                    flags.truncateExisting = true;
+                    break;
+                case StandardOpenOption.CREATE:
+                    flags.create = true;
+                    break;
+                case StandardOpenOption.CREATE_NEW:
+                    flags.createNew = true;
+                    break;
+                default:
+                    if (option == null)
+                        throw new NullPointerException();
+                    throw new UnsupportedOperationException(option + " not supported");
+            }
+        }
+        if (flags.append && flags.truncateExisting)
+            throw new IllegalArgumentException("APPEND + TRUNCATE_EXISTING not allowed");
+        return flags;
+    }
+}
+
+/**
+ * Opens the content of an entry, decompressed as it is iterated.
+ * @throws ArchiveLimitExceededException if the entry is larger than the maximum size once decompressed
+ * @throws FileSystemException if the entry is compressed with an unsupported method, or its data is not in the archive
+ */
+function openContent(fileSystem: ZipFileSystem, entry: ZipEntry, file: string): AsyncGenerator<Uint8Array> {
+    fileSystem.checkOpen();
+    fileSystem.checkUncompressedSize(entry, file);
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED)
+        throw new FileSystemException(file, undefined, "Unsupported compression method " + entry.method);
+    const compressed = Readable.from(fileSystem.readCompressedChunks(entry, BUFFER_SIZE));
+    const chunks = entry.method === METHOD_STORED ? compressed : pipeline(compressed, zlib.createInflateRaw({chunkSize: BUFFER_SIZE}), () => {
+        // the errors are thrown by the iteration
+    });
+    return checkContent(chunks, file, entry.size, entry.crc);
+}
+
+/* Checks the size and the CRC of the content of an entry, the errors of the compressed data are reported as FileSystemException. */
+async function* checkContent(chunks: Readable, file: string, size: number, crc: number): AsyncGenerator<Uint8Array> {
+    let length = 0;
+    let actualCrc = 0;
+    try {
+        for await (const chunk of chunks) {
+            length += chunk.length;
+            if (length > size) {
+                break;
+            }
+            actualCrc = crc32(chunk, actualCrc);
+            yield chunk;
+        }
+    } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (typeof code === "string" && code.startsWith("Z_"))
+            throw new FileSystemException(file, undefined, "Invalid compressed data: " + (e as Error).message);
+        throw e;
+    } finally {
+        chunks.destroy();
+    }
+    if (length !== size || actualCrc !== crc)
+        throw new FileSystemException(file, undefined, "Invalid entry CRC or size");
+}
+
+/* Compresses the content written to an entry as it is written, with the method of the entry. */
+class ContentCompressor {
+    private readonly deflater: zlib.DeflateRaw | null;
+    private readonly chunks: Uint8Array[] = [];
+    private size: number = 0;
+    private crc: number = 0;
+
+    public constructor(method: number) {
+        if (method === METHOD_DEFLATED) {
+            this.deflater = zlib.createDeflateRaw();
+            this.deflater.on("data", chunk => this.chunks.push(chunk));
+            this.deflater.on("error", () => {
+                // the errors are reported to the writes
+            });
+        } else {
+            this.deflater = null;
+        }
+    }
+
+    public async write(chunk: Uint8Array): Promise<void> {
+        this.size += chunk.length;
+        this.crc = crc32(chunk, this.crc);
+        const deflater = this.deflater;
+        if (deflater === null) {
+            this.chunks.push(chunk);
+            return;
+        }
+        await new Promise<void>((resolve, reject) => deflater.write(chunk, e => e ? reject(e) : resolve()));
+    }
+
+    /* Writes the compressed content to the entry. */
+    public async finish(fileSystem: ZipFileSystem, entry: ZipEntry): Promise<void> {
+        const deflater = this.deflater;
+        if (deflater !== null) {
+            await new Promise<void>((resolve, reject) => {
+                deflater.once("end", resolve);
+                deflater.once("error", reject);
+                deflater.end();
+            });
+        }
+        fileSystem.writeCompressed(entry, Buffer.concat(this.chunks), this.size, this.crc);
+    }
+}
+
+/**
+ * Opens an entry and returns a stream of its bytes, decompressed as the stream is read.
+ * @param {ZipPath} path - the entry to read
+ * @param {OpenOption[]} [options] - the options specifying how the entry is opened
+ * @returns A ReadableStream of Uint8Array chunks
+ */
+export function newZipInputStream(path: ZipPath, options?: OpenOption[]): ReadableStream<Uint8Array> {
+    Flags.parse(options ?? []);
+    const file = path.toString();
+    const entry = path.getFileSystem().getEntry(path);
+    if (entry.isDirectory())
+        throw new FileSystemException(file, undefined, "Is a directory");
+    const content = openContent(path.getFileSystem(), entry, file);
+    return new WebReadableStream<Uint8Array>({
+        async pull(controller) {
+            const result = await content.next();
+            if (result.done) {
+                controller.close();
+            } else {
+                controller.enqueue(result.value);
+            }
+        },
+        async cancel() {
+            await content.return(undefined);
+        },
+    });
+}
+
+/**
+ * Opens or creates an entry and returns a stream writing to it. The content is compressed as it is
+ * written and replaces the content of the entry when the stream is closed.
+ * @param {ZipPath} path - the entry to write
+ * @param {OpenOption[]} options - the options specifying how the entry is created or opened
+ * @returns A WritableStream
+ */
+export function newZipOutputStream(path: ZipPath, options: OpenOption[]): WritableStream<any> {
+    const flags = Flags.parse(options);
+    const fileSystem = path.getFileSystem();
+    const file = path.toString();
+    fileSystem.checkWritable();
+    let entry: ZipEntry | null = fileSystem.lookup(path).entry;
+    // the content kept when appending, compressed again before the content written
+    let kept: AsyncGenerator<Uint8Array> | null = null;
+    if (entry === null) {
+        if (!flags.create && !flags.createNew)
+            throw new NoSuchFileException(file);
+        entry = fileSystem.createEntry(path, false);
+    } else {
+        if (flags.createNew)
+            throw new FileAlreadyExistsException(file);
+        if (entry.isDirectory())
+            throw new FileSystemException(file, undefined, "Is a directory");
+        if (flags.append) {
+            kept = openContent(fileSystem, entry, file);
+        } else if (flags.truncateExisting) {
+            fileSystem.writeContent(entry, new Uint8Array(0));
+        }
+    }
+    const target = entry;
+    const content = kept;
+    const compressor = new ContentCompressor(target.method);
+    let closed = false;
+    return new WebWritableStream<any>({
+        async start() {
+            if (content !== null) {
+                for await (const chunk of content) {
+                    await compressor.write(chunk);
+                }
+            }
+        },
+        async write(chunk) {
+            fileSystem.checkOpen();
+            // the chunk may be reused by the writer
+            await compressor.write(toBytes(chunk).slice());
+        },
+        async close() {
+            if (!closed) {
+                closed = true;
+                await compressor.finish(fileSystem, target);
+            }
+        },
+    }, {highWaterMark: BUFFER_SIZE, size: chunkSize});
+}
@@ -0,0 +1,532 @@
+import * as fs from "fs";
+import * as jsPath from "path";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {FileStore} from "../../FileStore";
+import {PathMatcher} from "../../PathMatcher";
+import {UserPrincipalLookupService} from "../../attribute";
+import {PathMatchers} from "../../spi/PathMatchers";
+import {UnixPath} from "../../spi/UnixPath";
+import {
+    ArchiveLimitExceededException,
+    ClosedFileSystemException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    FileSystemException,
+    FileSystemNotFoundException,
+    NoSuchFileException,
+    NotDirectoryException,
+    ReadOnlyFileSystemException,
+} from "../../exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../exception";
+import {Objects} from "../../../utils";
+import {translateToIOException} from "../../spi/ErrnoExceptions";
+import {LocalPath} from "../local/LocalPath";
+import {METHOD_DEFLATED, METHOD_STORED, ZipEntry} from "./ZipEntry";
+import {compress, crc32, decompress, locateEntryData, readCentralDirectory, readEntryData, readFully, ZipWriter} from "./ZipFormat";
+import {ZipFileStore} from "./ZipFileStore";
+import {ZipPath} from "./ZipPath";
+import type {ZipFileSystemProvider} from "./ZipFileSystemProvider";
+
+/* Where a path leads in the archive: the entry if it exists, and the directory where it is, or would be. */
+export interface ZipLookup {
+    entry: ZipEntry | null;
+    // the directory of the entry, null for the root
+    parent: ZipEntry | null;
+    name: string;
+}
+
+// the maximum size of an entry once decompressed
+const DEFAULT_MAX_UNCOMPRESSED_SIZE = 1024 * 1024 * 1024;
+
+function isTrue(value: any): boolean {
+    return value === true || value === "true";
+}
+
+/**
+ * A file system over the entries of a zip archive. The central directory is read when the file system is
+ * created and the entries are read from the archive on demand; the entries created, replaced or deleted
+ * are held in memory and the archive is rewritten when the file system is closed.
+ *
+ * <p> The environment can set {@code create} to create the archive if it does not exist, {@code readOnly},
+ * {@code encoding} for the names that are not flagged as UTF-8, {@code noCompression} to store the new
+ * entries and {@code forceZIP64} to write all the entries in the ZIP64 format. The entries larger than the
+ * {@code maxUncompressedSize} of the environment in bytes once decompressed, 1 GiB by default, cannot be read.
+ */
+export class ZipFileSystem extends FileSystem {
+    private readonly fileSystemProvider: ZipFileSystemProvider;
+    private readonly archive: LocalPath;
+    private readonly key: string;
+    private readonly readOnly: boolean;
+    private readonly defaultMethod: number;
+    private readonly forceZip64: boolean;
+    private readonly maxUncompressedSize: number;
+    private readonly store: ZipFileStore;
+    private readonly root: ZipEntry = new ZipEntry("", null, true, false);
+    // the entries written to the archive, in order
+    private readonly entries = new Set<ZipEntry>();
+    private fd: number = -1;
+    private dirty: boolean = false;
+    private open: boolean = true;
+
+    /**
+     * Opens an archive.
+     * @param {ZipFileSystemProvider} provider - the provider
+     * @param {LocalPath} archive - the archive
+     * @param {string} key - the key of the file system in its provider
+     * @param {Map<string, any>} env - the properties configuring the file system
+     * @throws FileSystemNotFoundException if the archive does not exist and {@code create} is not set
+     * @throws FileSystemException if the archive is not a zip file
+     * @throws IllegalArgumentException if the maximum size of the entries is not a positive number
+     */
+    public constructor(provider: ZipFileSystemProvider, archive: LocalPath, key: string, env: Map<string, any>) {
+        super();
+        this.fileSystemProvider = provider;
+        this.archive = archive;
+        this.key = key;
+        this.defaultMethod = isTrue(env.get("noCompression")) ? METHOD_STORED : METHOD_DEFLATED;
+        this.forceZip64 = isTrue(env.get("forceZIP64"));
+        this.maxUncompressedSize = Number(env.get("maxUncompressedSize") ?? DEFAULT_MAX_UNCOMPRESSED_SIZE);
+        if (!(this.maxUncompressedSize > 0))
+            throw new IllegalArgumentException("Invalid maxUncompressedSize: " + env.get("maxUncompressedSize"));
+        this.store = new ZipFileStore(this);
+        const file = archive.toString();
+        if (!fs.existsSync(file)) {
+            if (!isTrue(env.get("create")))
+                throw new FileSystemNotFoundException(file);
+            // the archive is written when the file system is closed
+            this.readOnly = false;
+            this.dirty = true;
+            return;
+        }
+        let writable = true;
+        try {
+            fs.accessSync(file, fs.constants.W_OK);
+        } catch (ignore) {
+            writable = false;
+        }
+        this.readOnly = isTrue(env.get("readOnly")) || !writable;
+        try {
+            this.fd = fs.openSync(file, "r");
+            const size = fs.fstatSync(this.fd).size;
+            if (size > 0) {
+                this.load(size, String(env.get("encoding") ?? "utf-8"));
+            }
+        } catch (e) {
+            this.closeArchive();
+            throw translateToIOException(e, file);
+        }
+    }
+
+    /* Builds the tree of the entries of the central directory. */
+    private load(size: number, encoding: string): void {
+        const file = this.archive.toString();
+        for (const record of readCentralDirectory(this.fd, file, size, encoding)) {
+            const names = record.name.split("/").filter(name => name.length > 0 && name !== ".");
+            // the names escaping the root cannot be reached through paths, they are dropped
+            if (names.length === 0 || names.includes("..")) {
+                continue;
+            }
+            const directory = record.name.endsWith("/");
+            let parent = this.root;
+            for (const name of names.slice(0, -1)) {
+                let child = parent.getChildren().get(name);
+                if (!child || !child.isDirectory()) {
+                    if (child) {
+                        this.entries.delete(child);
+                    }
+                    child = new ZipEntry(name, parent, true, false);
+                    parent.getChildren().set(name, child);
+                }
+                parent = child;
+            }
+            const name = names[names.length - 1];
+            const existing = parent.getChildren().get(name);
+            let entry: ZipEntry;
+            if (existing && directory && existing.isDirectory()) {
+                // an implicit directory made explicit
+                entry = existing;
+                entry.explicit = true;
+            } else {
+                if (existing) {
+                    // the last entry of a name wins, as with most tools
+                    this.entries.delete(existing);
+                }
+                entry = new ZipEntry(name, parent, directory);
+                parent.getChildren().set(name, entry);
+            }
+            entry.method = record.method;
+            entry.crc = record.crc;
+            entry.size = record.size;
+            entry.compressedSize = record.compressedSize;
+            entry.lastModifiedTime = record.lastModifiedTime;
+            entry.versionMadeBy = record.versionMadeBy;
+            entry.externalAttributes = record.externalAttributes;
+            entry.comment = record.comment;
+            entry.data = {offset: record.offset, flags: record.flags, bytes: null};
+            this.entries.add(entry);
+        }
+    }
+
+    private closeArchive(): void {
+        if (this.fd !== -1) {
+            fs.closeSync(this.fd);
+            this.fd = -1;
+        }
+    }
+
+    public provider(): ZipFileSystemProvider {
+        return this.fileSystemProvider;
+    }
+
+    /* Returns the archive of this file system. */
+    public getArchive(): LocalPath {
+        return this.archive;
+    }
+
+    /* Returns the key of this file system in its provider, the real path of the archive. */
+    public getKey(): string {
+        return this.key;
+    }
+
+    /**
+     * Closes the file system, writing the archive if an entry was changed.
+     * @throws FileSystemException if the archive cannot be written, the file system is closed anyway
+     */
+    public close(): void {
+        if (!this.open) {
+            return;
+        }
+        this.open = false;
+        try {
+            if (this.dirty && !this.readOnly) {
+                this.sync();
+            }
+        } finally {
+            this.closeArchive();
+            this.fileSystemProvider.removeFileSystem(this);
+        }
+    }
+
+    /* Writes the entries to a temporary file replacing the archive. */
+    private sync(): void {
+        const file = this.archive.toString();
+        const temp = jsPath.join(jsPath.dirname(file), "." + jsPath.basename(file) + "." + process.pid + ".tmp");
+        try {
+            const out = fs.openSync(temp, "w");
+            try {
+                const writer = new ZipWriter(out, this.forceZip64);
+                for (const entry of this.entries) {
+                    writer.putEntry({
+                        name: entry.getEntryName(),
+                        method: entry.method,
+                        crc: entry.crc,
+                        size: entry.size,
+                        compressedSize: entry.compressedSize,
+                        dosTime: entry.getDosTime(),
+                        lastModifiedTime: entry.lastModifiedTime,
+                        versionMadeBy: entry.versionMadeBy,
+                        externalAttributes: entry.externalAttributes,
+                        comment: entry.comment,
+                    }, this.readCompressed(entry));
+                }
+                writer.finish();
+            } finally {
+                fs.closeSync(out);
+            }
+            fs.renameSync(temp, file);
+        } catch (e) {
+            try {
+                fs.unlinkSync(temp);
+            } catch (ignore) {
+                // best effort
+            }
+            throw translateToIOException(e, file);
+        }
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public isReadOnly(): boolean {
+        return this.readOnly;
+    }
+
+    public getSeparator(): string {
+        return "/";
+    }
+
+    public getRootDirectories(): Iterable<Path> {
+        return [this.getPath("/")];
+    }
+
+    public getFileStores(): Iterable<FileStore> {
+        return [this.store];
+    }
+
+    public getFileStore(): ZipFileStore {
+        return this.store;
+    }
+
+    public supportedFileAttributeViews(): Set<string> {
+        return new Set<string>(["basic", "zip"]);
+    }
+
+    public getPathMatcher(syntaxAndPattern: string): PathMatcher {
+        return PathMatchers.getPathMatcher(syntaxAndPattern, "/");
+    }
+
+    public getUserPrincipalLookupService(): UserPrincipalLookupService {
+        throw new UnsupportedOperationException();
+    }
+
+    public getPath(first: string, more?: string[]): ZipPath {
+        Objects.requireNonNullUndefined(first);
+        const names = [first, ...(more ?? [])].filter(name => name.length > 0);
+        return new ZipPath(this, names.join("/"));
+    }
+
+    public checkOpen(): void {
+        if (!this.open)
+            throw new ClosedFileSystemException();
+    }
+
+    /* Checks that the archive can be changed, before a change. */
+    public checkWritable(): void {
+        this.checkOpen();
+        if (this.readOnly)
+            throw new ReadOnlyFileSystemException(this.archive.toString());
+        this.dirty = true;
+    }
+
+    /**
+     * Locates an entry.
+     * @param {ZipPath} path - the path of the entry
+     * @returns The entry, null if it does not exist, and the directory where it is
+     * @throws NoSuchFileException if a directory of the path does not exist
+     * @throws NotDirectoryException if a directory of the path is not a directory
+     */
+    public lookup(path: ZipPath): ZipLookup {
+        this.checkOpen();
+        const names = (path.toAbsolutePath().normalize() as UnixPath).getNames().filter(name => name.length > 0 && name !== "..");
+        let dir = this.root;
+        for (let i = 0; i < names.length; i++) {
+            const entry = dir.getChildren().get(names[i]) ?? null;
+            if (i === names.length - 1) {
+                return {entry: entry, parent: dir, name: names[i]};
+            }
+            if (entry === null)
+                throw new NoSuchFileException(path.toString());
+            if (!entry.isDirectory())
+                throw new NotDirectoryException(path.toString());
+            dir = entry;
+        }
+        return {entry: this.root, parent: null, name: ""};
+    }
+
+    /**
+     * Returns an existing entry.
+     * @throws NoSuchFileException if the entry does not exist
+     */
+    public getEntry(path: ZipPath): ZipEntry {
+        const entry = this.lookup(path).entry;
+        if (entry === null)
+            throw new NoSuchFileException(path.toString());
+        return entry;
+    }
+
+    /**
+     * Adds a new entry.
+     * @param {ZipPath} path - the path of the entry
+     * @param {boolean} directory - true for a directory
+     * @returns The new entry
+     * @throws FileAlreadyExistsException if the entry exists
+     */
+    public createEntry(path: ZipPath, directory: boolean): ZipEntry {
+        this.checkWritable();
+        const lookup = this.lookup(path);
+        if (lookup.entry !== null || lookup.parent === null)
+            throw new FileAlreadyExistsException(path.toString());
+        const entry = new ZipEntry(lookup.name, lookup.parent, directory);
+        entry.method = directory ? METHOD_STORED : this.defaultMethod;
+        this.link(entry, lookup.parent, lookup.name);
+        return entry;
+    }
+
+    /**
+     * Copies an entry, without the entries of a directory. The copy shares the compressed data of the entry.
+     * @param {ZipEntry} entry - the entry
+     * @param {ZipPath} target - the path of the copy, that does not exist
+     * @param {boolean} copyAttributes - true to copy the modification time, the comment and the external attributes
+     */
+    public copyEntry(entry: ZipEntry, target: ZipPath, copyAttributes: boolean): void {
+        this.checkWritable();
+        const lookup = this.lookup(target);
+        if (lookup.entry !== null || lookup.parent === null)
+            throw new FileAlreadyExistsException(target.toString());
+        this.link(entry.copy(lookup.name, lookup.parent, copyAttributes), lookup.parent, lookup.name);
+    }
+
+    /* Adds an entry to a directory, and to the entries written to the archive. */
+    private link(entry: ZipEntry, dir: ZipEntry, name: string): void {
+        entry.name = name;
+        entry.parent = dir;
+        dir.getChildren().set(name, entry);
+        this.entries.add(entry);
+    }
+
+    /**
+     * Deletes an entry, or an empty directory.
+     * @throws NoSuchFileException if the entry does not exist
+     * @throws DirectoryNotEmptyException if the directory is not empty
+     */
+    public delete(path: ZipPath): void {
+        this.checkWritable();
+        const lookup = this.lookup(path);
+        if (lookup.entry === null)
+            throw new NoSuchFileException(path.toString());
+        if (lookup.parent === null)
+            throw new FileSystemException(path.toString(), undefined, "Cannot delete the root directory");
+        if (lookup.entry.isDirectory() && lookup.entry.getChildren().size > 0)
+            throw new DirectoryNotEmptyException(path.toString());
+        lookup.parent.getChildren().delete(lookup.name);
+        this.entries.delete(lookup.entry);
+    }
+
+    /**
+     * Moves an entry, and the entries of a directory, to a new path.
+     * @param {ZipEntry} entry - the entry
+     * @param {ZipPath} target - the new path, that does not exist
+     */
+    public rename(entry: ZipEntry, target: ZipPath): void {
+        this.checkWritable();
+        const lookup = this.lookup(target);
+        if (lookup.entry !== null || lookup.parent === null)
+            throw new FileAlreadyExistsException(target.toString());
+        for (let dir: ZipEntry | null = lookup.parent; dir !== null; dir = dir.parent) {
+            if (dir === entry)
+                throw new FileSystemException(target.toString(), undefined, "Invalid argument");
+        }
+        // the entries of a directory follow it, as their names derive from their parent
+        entry.parent?.getChildren().delete(entry.name);
+        entry.name = lookup.name;
+        entry.parent = lookup.parent;
+        lookup.parent.getChildren().set(lookup.name, entry);
+        if (!entry.explicit) {
+            entry.explicit = true;
+            this.entries.add(entry);
+        }
+    }
+
+    /* Returns the compressed data of an entry. */
+    private readCompressed(entry: ZipEntry): Uint8Array {
+        if (entry.data.bytes !== null) {
+            return entry.data.bytes;
+        }
+        if (this.fd === -1)
+            throw new ClosedFileSystemException();
+        return readEntryData(this.fd, this.archive.toString(), entry.data.offset, entry.compressedSize, entry.data.flags);
+    }
+
+    /**
+     * Returns the compressed data of an entry chunk by chunk, the data in the archive is located first and read
+     * as the chunks are iterated.
+     * @throws FileSystemException if the entry is encrypted, or its data is not in the archive
+     */
+    public readCompressedChunks(entry: ZipEntry, chunkSize: number): Iterable<Uint8Array> {
+        const bytes = entry.data.bytes;
+        if (bytes !== null) {
+            return ZipFileSystem.sliceChunks(bytes, chunkSize);
+        }
+        if (this.fd === -1)
+            throw new ClosedFileSystemException();
+        const file = this.archive.toString();
+        const position = locateEntryData(this.fd, file, entry.data.offset, entry.compressedSize, entry.data.flags);
+        return this.readChunks(file, position, entry.compressedSize, chunkSize);
+    }
+
+    private static* sliceChunks(bytes: Uint8Array, chunkSize: number): Generator<Uint8Array> {
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+            yield bytes.slice(offset, offset + chunkSize);
+        }
+    }
+
+    private* readChunks(file: string, position: number, length: number, chunkSize: number): Generator<Uint8Array> {
+        for (let offset = 0; offset < length; offset += chunkSize) {
+            // the archive is closed with the file system
+            if (this.fd === -1)
+                throw new ClosedFileSystemException();
+            yield readFully(this.fd, file, position + offset, Math.min(chunkSize, length - offset));
+        }
+    }
+
+    /**
+     * Checks that an entry can be decompressed, before it is read.
+     * @throws ArchiveLimitExceededException if the entry is larger than the maximum size once decompressed
+     */
+    public checkUncompressedSize(entry: ZipEntry, file: string): void {
+        if (entry.size > this.maxUncompressedSize)
+            throw new ArchiveLimitExceededException(file, undefined, "Entry larger than " + this.maxUncompressedSize + " bytes once decompressed");
+    }
+
+    /**
+     * Reads the content of an entry.
+     * @throws ArchiveLimitExceededException if the entry is larger than the maximum size once decompressed
+     * @throws FileSystemException if the data is corrupted or compressed with an unsupported method
+     */
+    public readContent(entry: ZipEntry, file: string): Uint8Array {
+        this.checkOpen();
+        this.checkUncompressedSize(entry, file);
+        const content = decompress(file, this.readCompressed(entry), entry.method, entry.size);
+        if (content.length !== entry.size || crc32(content) !== entry.crc)
+            throw new FileSystemException(file, undefined, "Invalid entry CRC or size");
+        return content;
+    }
+
+    /**
+     * Replaces the content of an entry, compressed with the method of the entry.
+     * @param {ZipEntry} entry - the entry
+     * @param {Uint8Array} content - the uncompressed content
+     */
+    public writeContent(entry: ZipEntry, content: Uint8Array): void {
+        this.writeCompressed(entry, compress(content, entry.method), content.length, crc32(content));
+    }
+
+    /**
+     * Replaces the content of an entry by data already compressed with the method of the entry.
+     * @param {ZipEntry} entry - the entry
+     * @param {Uint8Array} bytes - the compressed content
+     * @param {number} size - the size of the content
+     * @param {number} crc - the CRC-32 of the content
+     */
+    public writeCompressed(entry: ZipEntry, bytes: Uint8Array, size: number, crc: number): void {
+        this.checkWritable();
+        entry.crc = crc;
+        entry.size = size;
+        entry.compressedSize = bytes.length;
+        entry.data = {offset: -1, flags: 0, bytes: bytes};
+        entry.lastModifiedTime = Date.now();
+    }
+
+    /**
+     * Changes the compression method of an entry, its data is compressed again.
+     * @throws UnsupportedOperationException if the method is neither STORED nor DEFLATED
+     */
+    public setMethod(entry: ZipEntry, file: string, method: number): void {
+        if (method !== METHOD_STORED && method !== METHOD_DEFLATED)
+            throw new UnsupportedOperationException("Unsupported compression method " + method);
+        if (entry.method === method || entry.isDirectory()) {
+            return;
+        }
+        const content = this.readContent(entry, file);
+        const lastModifiedTime = entry.lastModifiedTime;
+        entry.method = method;
+        this.writeContent(entry, content);
+        entry.lastModifiedTime = lastModifiedTime;
+    }
+
+    public toString(): string {
+        return this.archive.toString();
+    }
+}
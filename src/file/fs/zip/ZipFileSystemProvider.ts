@@ -0,0 +1,333 @@
+import * as fs from "fs";
+import {FileAttributeDispatcher, FileSystemProvider, FileSystemProviders, FileSystemRegistry, SnapshotDirectoryStream} from "../../spi";
+import {FileSystem} from "../../FileSystem";
+import {Path} from "../../Path";
+import {AccessMode} from "../../AccessMode";
+import {CopyOption} from "../../CopyOption";
+import {StandardCopyOption} from "../../StandardCopyOption";
+import {OpenOption} from "../../OpenOption";
+import {LinkOption} from "../../LinkOption";
+import {DirectoryStream} from "../../DirectoryStream";
+import {BasicFileAttributes, FileAttribute, FileAttributeView} from "../../attribute";
+import {copyToForeignTarget, moveToForeignTarget} from "../../CopyMoveHelper";
+import {
+    AccessDeniedException,
+    FileAlreadyExistsException,
+    FileSystemAlreadyExistsException,
+    NotDirectoryException,
+    ReadOnlyFileSystemException,
+} from "../../exception";
+import {IllegalArgumentException, NullPointerException, UnsupportedOperationException} from "../../../exception";
+import {LocalPath} from "../local/LocalPath";
+import {ZipEntry} from "./ZipEntry";
+import {ZipPath} from "./ZipPath";
+import {ZipFileSystem} from "./ZipFileSystem";
+import {ZipFileStore} from "./ZipFileStore";
+import {newZipInputStream, newZipOutputStream} from "./ZipFileStreams";
+import {ZipFileAttributeView, ZipFileAttributeViewAdapter} from "./ZipFileAttributeViews";
+import {isZipSignature} from "./ZipFormat";
+
+// the extensions of the archives opened without looking at their content
+const ZIP_EXTENSIONS = [".zip", ".jar"];
+
+/* The copy and move options, decoded. */
+class Flags {
+    replaceExisting: boolean = false;
+    copyAttributes: boolean = false;
+
+    private constructor() {
+    }
+
+    public static fromCopyOptions(options?: CopyOption[], move: boolean = false): Flags {
+        const flags = new Flags();
+        for (let option of options ?? []) {
+            if (option === StandardCopyOption.REPLACE_EXISTING) {
+                flags.replaceExisting = true;
+                continue;
+            }
+            if (option === LinkOption.NOFOLLOW_LINKS) {
+                // an archive has no links
+                continue;
+            }
+            if (option === StandardCopyOption.COPY_ATTRIBUTES && !move) {
+                flags.copyAttributes = true;
+                continue;
+            }
+            if (option === StandardCopyOption.ATOMIC_MOVE && move) {
+                // a move within an archive is always atomic
+                continue;
+            }
+            if (option == null)
+                throw new NullPointerException();
+            throw new UnsupportedOperationException("Unsupported copy option: " + option);
+        }
+        if (move) {
+            flags.copyAttributes = true;
+        }
+        return flags;
+    }
+}
+
+/* Tells whether a file is a zip archive, by its extension or its signature. */
+function isZipFile(file: string): boolean {
+    const lower = file.toLowerCase();
+    if (ZIP_EXTENSIONS.some(extension => lower.endsWith(extension))) {
+        return true;
+    }
+    let fd: number;
+    try {
+        fd = fs.openSync(file, "r");
+    } catch (ignore) {
+        return false;
+    }
+    try {
+        const header = Buffer.alloc(4);
+        const read = fs.readSync(fd, header, 0, 4, 0);
+        return isZipSignature(header.subarray(0, read));
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * The provider of the zip file systems, identified by the URLs {@code jar:<archive URL>!/path} as in Java.
+ * A file system is created for an archive of the local file system by {@link FileSystems#newFileSystem},
+ * and is open until it is closed. The application installs the provider, see {@link FileSystemProviders.addProvider}.
+ */
+export class ZipFileSystemProvider extends FileSystemProvider {
+    private readonly fileSystems = new FileSystemRegistry<ZipFileSystem>();
+    private readonly attributes: FileAttributeDispatcher = new FileAttributeDispatcher()
+        .registerBasicView(path => new ZipFileAttributeView(ZipPath.toZipPath(path), false))
+        .register("zip", path => new ZipFileAttributeViewAdapter(new ZipFileAttributeView(ZipPath.toZipPath(path), true)));
+
+    public constructor() {
+        super();
+    }
+
+    public getScheme(): string {
+        return "jar";
+    }
+
+    /**
+     * Splits a URL {@code jar:<archive URL>!/path} into the archive and the path of the entry.
+     * @throws IllegalArgumentException if the archive is not a local file
+     */
+    private static parseUrl(url: URL): [LocalPath, string] {
+        if (url.protocol.toLowerCase() !== "jar:")
+            throw new IllegalArgumentException("URL scheme is not \"jar\"");
+        const spec = url.href.substring("jar:".length);
+        const separator = spec.indexOf("!/");
+        const archiveUrl = new URL(separator === -1 ? spec : spec.substring(0, separator));
+        const entry = separator === -1 ? "/" : spec.substring(separator + 1).split("/").map(decodeURIComponent).join("/");
+        const archive = FileSystemProviders.getProvider(archiveUrl.protocol.replace(":", ""))?.getPath(archiveUrl);
+        if (!(archive instanceof LocalPath))
+            throw new IllegalArgumentException("The archive must be a file of the local file system");
+        return [archive, entry];
+    }
+
+    /* The key of the file system of an archive, its real path if it exists. */
+    private static keyOf(archive: LocalPath): string {
+        const absolute = archive.toAbsolutePath().normalize();
+        return fs.existsSync(absolute.toString()) ? absolute.toRealPath().toString() : absolute.toString();
+    }
+
+    private newZipFileSystem(archive: LocalPath, env: Map<string, any>): ZipFileSystem {
+        const key = ZipFileSystemProvider.keyOf(archive);
+        if (this.fileSystems.find(key) !== null)
+            throw new FileSystemAlreadyExistsException(key);
+        return this.fileSystems.register(key, new ZipFileSystem(this, archive.getFileSystem().getPath(key) as LocalPath, key, env));
+    }
+
+    /**
+     * Opens the archive of a {@code jar:} URL, see {@link ZipFileSystem} for the environment.
+     * @throws FileSystemAlreadyExistsException if the archive is already open
+     */
+    public newFileSystemFromUrl(url: URL, env: Map<string, any>): FileSystem {
+        const [archive] = ZipFileSystemProvider.parseUrl(url);
+        return this.newZipFileSystem(archive, env);
+    }
+
+    /**
+     * Opens an archive of the local file system whose extension is .zip or .jar, or whose content starts with a zip header.
+     * @throws UnsupportedOperationException if the file is not a zip archive
+     * @throws FileSystemAlreadyExistsException if the archive is already open
+     */
+    public newFileSystemFromPath(path: Path, env: Map<string, any>): FileSystem {
+        if (!(path instanceof LocalPath) || !isZipFile(path.toString()))
+            throw new UnsupportedOperationException();
+        return this.newZipFileSystem(path, env);
+    }
+
+    public getFileSystem(url: URL): ZipFileSystem {
+        const [archive] = ZipFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(ZipFileSystemProvider.keyOf(archive));
+    }
+
+    public getPath(url: URL): Path {
+        const [archive, entry] = ZipFileSystemProvider.parseUrl(url);
+        return this.fileSystems.get(ZipFileSystemProvider.keyOf(archive)).getPath(entry);
+    }
+
+    /* Forgets a closed file system. */
+    public removeFileSystem(fileSystem: ZipFileSystem): void {
+        this.fileSystems.deregister(fileSystem.getKey(), fileSystem);
+    }
+
+    protected newInputStreamImpl(path: Path, options?: OpenOption[]): ReadableStream {
+        return newZipInputStream(ZipPath.toZipPath(path), options);
+    }
+
+    protected newOutputStreamImpl(path: Path, options?: OpenOption[]): WritableStream {
+        return newZipOutputStream(ZipPath.toZipPath(path), options ?? []);
+    }
+
+    public newDirectoryStream(dir: Path, acceptFilter: (path: Path) => boolean): DirectoryStream<Path> {
+        const file = ZipPath.toZipPath(dir);
+        const entry = file.getFileSystem().getEntry(file);
+        if (!entry.isDirectory())
+            throw new NotDirectoryException(file.toString());
+        return new SnapshotDirectoryStream(file, [...entry.getChildren().keys()], acceptFilter);
+    }
+
+    private static checkAttributes(attrs?: FileAttribute<any>[]): void {
+        if (attrs && attrs.length > 0)
+            throw new UnsupportedOperationException("'" + attrs[0].name() + "' not supported as initial attribute");
+    }
+
+    public createFile(path: Path, attrs?: FileAttribute<any>[]): void {
+        ZipFileSystemProvider.checkAttributes(attrs);
+        const file = ZipPath.toZipPath(path);
+        file.getFileSystem().createEntry(file, false);
+    }
+
+    public createDirectory(dir: Path, attrs?: FileAttribute<any>[]): void {
+        ZipFileSystemProvider.checkAttributes(attrs);
+        const file = ZipPath.toZipPath(dir);
+        file.getFileSystem().createEntry(file, true);
+    }
+
+    public delete(path: Path): void {
+        const file = ZipPath.toZipPath(path);
+        file.getFileSystem().delete(file);
+    }
+
+    public getFileStore(path: Path): ZipFileStore {
+        const file = ZipPath.toZipPath(path);
+        file.getFileSystem().getEntry(file);
+        return file.getFileSystem().getFileStore();
+    }
+
+    /* The entries can be read and executed, and written unless the file system is read-only. */
+    public checkAccess(obj: Path, modes?: AccessMode[]): void {
+        const file = ZipPath.toZipPath(obj);
+        file.getFileSystem().getEntry(file);
+        if (modes && modes.includes(AccessMode.WRITE) && file.getFileSystem().isReadOnly())
+            throw new AccessDeniedException(file.toString());
+    }
+
+    public async copy(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = ZipPath.toZipPath(source);
+        const targetFile = ZipPath.toZipPath(target);
+        if (sourceFile.getFileSystem() !== targetFile.getFileSystem()) {
+            return copyToForeignTarget(source, target, options);
+        }
+        const flags = Flags.fromCopyOptions(options);
+        const fileSystem = sourceFile.getFileSystem();
+        const entry = fileSystem.getEntry(sourceFile);
+        if (this.prepareTarget(entry, targetFile, flags)) {
+            return;
+        }
+        fileSystem.copyEntry(entry, targetFile, flags.copyAttributes);
+    }
+
+    public async move(source: Path, target: Path, options?: CopyOption[]): Promise<void> {
+        const sourceFile = ZipPath.toZipPath(source);
+        const targetFile = ZipPath.toZipPath(target);
+        if (sourceFile.getFileSystem() !== targetFile.getFileSystem()) {
+            return moveToForeignTarget(source, target, options);
+        }
+        const flags = Flags.fromCopyOptions(options, true);
+        const fileSystem = sourceFile.getFileSystem();
+        const entry = fileSystem.getEntry(sourceFile);
+        if (entry.parent === null)
+            throw new IllegalArgumentException("Cannot move the root directory");
+        if (this.prepareTarget(entry, targetFile, flags)) {
+            return;
+        }
+        fileSystem.rename(entry, targetFile);
+    }
+
+    /**
+     * Removes an existing target, or fails when the target exists and REPLACE_EXISTING was not requested.
+     * @returns true if the operation is a no-op because source and target are the same entry
+     */
+    private prepareTarget(source: ZipEntry, target: ZipPath, flags: Flags): boolean {
+        const fileSystem = target.getFileSystem();
+        if (fileSystem.isReadOnly())
+            throw new ReadOnlyFileSystemException(target.toString());
+        const existing = fileSystem.lookup(target).entry;
+        if (existing !== null) {
+            if (existing === source) {
+                return true;
+            }
+            if (!flags.replaceExisting) {
+                throw new FileAlreadyExistsException(target.toString());
+            }
+            fileSystem.delete(target);
+        }
+        return false;
+    }
+
+    public isHidden(obj: Path): boolean {
+        ZipPath.toZipPath(obj);
+        return false;
+    }
+
+    public isSameFile(obj1: Path, obj2: Path): boolean {
+        const file1 = ZipPath.toZipPath(obj1);
+        if (file1.equals(obj2)) {
+            return true;
+        }
+        if (!(obj2 instanceof ZipPath) || obj2.getFileSystem() !== file1.getFileSystem()) {
+            return false;
+        }
+        return file1.getFileSystem().getEntry(file1) === obj2.getFileSystem().getEntry(obj2);
+    }
+
+    public readAttributesByType(path: Path, type?: string, options?: LinkOption[]): BasicFileAttributes {
+        const file = ZipPath.toZipPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributes":
+            case "zip":
+            case "ZipFileAttributes":
+                return new ZipFileAttributeView(file, false).readAttributes();
+            default:
+                throw new UnsupportedOperationException();
+        }
+    }
+
+    public getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null {
+        const file = ZipPath.toZipPath(path);
+        switch (type) {
+            case undefined:
+            case "basic":
+            case "BasicFileAttributeView":
+                return new ZipFileAttributeView(file, false);
+            case "zip":
+            case "ZipFileAttributeView":
+                return new ZipFileAttributeView(file, true);
+            default:
+                return null;
+        }
+    }
+
+    public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
+        return this.attributes.readAttributes(path, attributes, options);
+    }
+
+    public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
+        this.attributes.setAttribute(path, attribute, value, options);
+    }
+}
@@ -0,0 +1,425 @@
+import * as fs from "fs";
+import * as buffer from "buffer";
+import * as zlib from "zlib";
+import {FileSystemException} from "../../exception";
+import {fromDosTime, METHOD_DEFLATED, METHOD_STORED} from "./ZipEntry";
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_SIZE = 22;
+const ZIP64_END_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const ZIP64_EXTRA_ID = 0x0001;
+const EXTENDED_TIMESTAMP_EXTRA_ID = 0x5455;
+
+// the general purpose flags
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+const ZIP64_MAGIC = 0xffffffff;
+const ZIP64_MAGIC_COUNT = 0xffff;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+/* An entry read from the central directory of an archive. */
+export interface ZipEntryRecord {
+    name: string;
+    flags: number;
+    method: number;
+    crc: number;
+    size: number;
+    compressedSize: number;
+    dosTime: number;
+    // the modification time in milliseconds, from the extended timestamp if any, else from the MS-DOS time
+    lastModifiedTime: number;
+    versionMadeBy: number;
+    externalAttributes: number;
+    comment: string | null;
+    // the offset of the local header
+    offset: number;
+}
+
+const CRC_TABLE: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = (c & 1) ? (0xedb88320 ^ (c >>> 1)) : (c >>> 1);
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/* Computes the CRC-32 of bytes, as stored in zip and gzip files, continuing the CRC of the preceding bytes if any. */
+export function crc32(bytes: Uint8Array, previous: number = 0): number {
+    let crc = (previous ^ 0xffffffff) >>> 0;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Compresses the content of an entry.
+ * @param {Uint8Array} content - the uncompressed bytes
+ * @param {number} method - METHOD_STORED or METHOD_DEFLATED
+ * @returns The compressed bytes
+ */
+export function compress(content: Uint8Array, method: number): Uint8Array {
+    return method === METHOD_DEFLATED ? zlib.deflateRawSync(content) : content;
+}
+
+/**
+ * Decompresses the content of an entry, up to its size: a bomb is not inflated in memory.
+ * @param {string} file - the name of the entry, reported in the exceptions
+ * @param {Uint8Array} bytes - the compressed bytes
+ * @param {number} method - the compression method of the entry
+ * @param {number} size - the uncompressed size of the entry
+ * @throws FileSystemException if the method is not supported, or the data is corrupted or larger than the size
+ */
+export function decompress(file: string, bytes: Uint8Array, method: number, size: number): Uint8Array {
+    switch (method) {
+        case METHOD_STORED:
+            return bytes;
+        case METHOD_DEFLATED:
+            try {
+                return zlib.inflateRawSync(bytes, {maxOutputLength: Math.max(1, Math.min(size, buffer.constants.MAX_LENGTH))});
+            } catch (e) {
+                throw new FileSystemException(file, undefined, "Invalid compressed data: " + (e as Error).message);
+            }
+        default:
+            throw new FileSystemException(file, undefined, "Unsupported compression method " + method);
+    }
+}
+
+/* Tells whether the first bytes of a file are a local file header, or the end header of an empty archive. */
+export function isZipSignature(header: Uint8Array): boolean {
+    if (header.length < 4) {
+        return false;
+    }
+    const signature = Buffer.from(header.buffer, header.byteOffset, 4).readUInt32LE(0);
+    return signature === LOCAL_HEADER_SIGNATURE || signature === END_SIGNATURE;
+}
+
+/* Reads a region of the archive, it must be in the archive. */
+export function readFully(fd: number, file: string, position: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    let offset = 0;
+    while (offset < length) {
+        const read = fs.readSync(fd, buffer, offset, length - offset, position + offset);
+        if (read === 0)
+            throw new FileSystemException(file, undefined, "Unexpected end of zip file");
+        offset += read;
+    }
+    return buffer;
+}
+
+function readUInt64(buffer: Buffer, offset: number, file: string): number {
+    const value = buffer.readBigUInt64LE(offset);
+    if (value > BigInt(Number.MAX_SAFE_INTEGER))
+        throw new FileSystemException(file, undefined, "Invalid zip file");
+    return Number(value);
+}
+
+/* Checks that a region given by the archive is in the archive, before it is allocated and read. */
+function checkRegion(file: string, offset: number, size: number, fileSize: number): void {
+    if (offset < 0 || size < 0 || offset + size > fileSize)
+        throw new FileSystemException(file, undefined, "Invalid zip file");
+}
+
+/* Iterates over the extra fields of an entry, as [header id, data]. */
+function* extraFields(extra: Buffer): Generator<[number, Buffer]> {
+    let offset = 0;
+    while (offset + 4 <= extra.length) {
+        const id = extra.readUInt16LE(offset);
+        const size = extra.readUInt16LE(offset + 2);
+        yield [id, extra.subarray(offset + 4, Math.min(extra.length, offset + 4 + size))];
+        offset += 4 + size;
+    }
+}
+
+/* The location and size of the central directory. */
+interface CentralDirectory {
+    count: number;
+    size: number;
+    offset: number;
+}
+
+function readEnd(fd: number, file: string, fileSize: number): CentralDirectory {
+    const length = Math.min(fileSize, END_SIZE + MAX_COMMENT_SIZE);
+    const tail = readFully(fd, file, fileSize - length, length);
+    for (let pos = length - END_SIZE; pos >= 0; pos--) {
+        if (tail.readUInt32LE(pos) !== END_SIGNATURE) {
+            continue;
+        }
+        const end = {count: tail.readUInt16LE(pos + 10), size: tail.readUInt32LE(pos + 12), offset: tail.readUInt32LE(pos + 16)};
+        const endOffset = fileSize - length + pos;
+        if (end.count !== ZIP64_MAGIC_COUNT && end.size !== ZIP64_MAGIC && end.offset !== ZIP64_MAGIC) {
+            return end;
+        }
+        if (endOffset < ZIP64_LOCATOR_SIZE)
+            throw new FileSystemException(file, undefined, "ZIP64 end locator not found");
+        const locator = readFully(fd, file, endOffset - ZIP64_LOCATOR_SIZE, ZIP64_LOCATOR_SIZE);
+        if (locator.readUInt32LE(0) !== ZIP64_LOCATOR_SIGNATURE)
+            throw new FileSystemException(file, undefined, "ZIP64 end locator not found");
+        const zip64EndOffset = readUInt64(locator, 8, file);
+        checkRegion(file, zip64EndOffset, ZIP64_END_SIZE, fileSize);
+        const zip64End = readFully(fd, file, zip64EndOffset, ZIP64_END_SIZE);
+        if (zip64End.readUInt32LE(0) !== ZIP64_END_SIGNATURE)
+            throw new FileSystemException(file, undefined, "ZIP64 end header not found");
+        return {count: readUInt64(zip64End, 32, file), size: readUInt64(zip64End, 40, file), offset: readUInt64(zip64End, 48, file)};
+    }
+    throw new FileSystemException(file, undefined, "zip END header not found");
+}
+
+/**
+ * Reads the central directory of an archive.
+ * @param {number} fd - the open archive
+ * @param {string} file - the archive, reported in the exceptions
+ * @param {number} fileSize - the size of the archive
+ * @param {string} encoding - the encoding of the names and comments that are not flagged as UTF-8
+ * @returns The entries, in the order of the central directory
+ * @throws FileSystemException if the archive is not a zip file
+ */
+export function readCentralDirectory(fd: number, file: string, fileSize: number, encoding: string): ZipEntryRecord[] {
+    const end = readEnd(fd, file, fileSize);
+    checkRegion(file, end.offset, end.size, fileSize);
+    const cd = readFully(fd, file, end.offset, end.size);
+    const utf8 = new TextDecoder("utf-8");
+    const decoder = new TextDecoder(encoding);
+    const records: ZipEntryRecord[] = [];
+    let pos = 0;
+    for (let i = 0; i < end.count; i++) {
+        if (pos + CENTRAL_HEADER_SIZE > cd.length || cd.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE)
+            throw new FileSystemException(file, undefined, "Invalid central directory header");
+        const flags = cd.readUInt16LE(pos + 8);
+        const nameLength = cd.readUInt16LE(pos + 28);
+        const extraLength = cd.readUInt16LE(pos + 30);
+        const commentLength = cd.readUInt16LE(pos + 32);
+        const textDecoder = (flags & FLAG_UTF8) !== 0 ? utf8 : decoder;
+        const nameStart = pos + CENTRAL_HEADER_SIZE;
+        const extra = cd.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+        const dosTime = ((cd.readUInt16LE(pos + 14) << 16) | cd.readUInt16LE(pos + 12)) >>> 0;
+        const record: ZipEntryRecord = {
+            name: textDecoder.decode(cd.subarray(nameStart, nameStart + nameLength)),
+            flags: flags,
+            method: cd.readUInt16LE(pos + 10),
+            crc: cd.readUInt32LE(pos + 16),
+            compressedSize: cd.readUInt32LE(pos + 20),
+            size: cd.readUInt32LE(pos + 24),
+            dosTime: dosTime,
+            lastModifiedTime: fromDosTime(dosTime),
+            versionMadeBy: cd.readUInt16LE(pos + 4),
+            externalAttributes: cd.readUInt32LE(pos + 38),
+            comment: commentLength > 0 ? textDecoder.decode(cd.subarray(nameStart + nameLength + extraLength, nameStart + nameLength + extraLength + commentLength)) : null,
+            offset: cd.readUInt32LE(pos + 42),
+        };
+        for (const [id, data] of extraFields(extra)) {
+            if (id === ZIP64_EXTRA_ID) {
+                // only the fields whose value does not fit are present, in this order
+                let offset = 0;
+                if (record.size === ZIP64_MAGIC && offset + 8 <= data.length) {
+                    record.size = readUInt64(data, offset, file);
+                    offset += 8;
+                }
+                if (record.compressedSize === ZIP64_MAGIC && offset + 8 <= data.length) {
+                    record.compressedSize = readUInt64(data, offset, file);
+                    offset += 8;
+                }
+                if (record.offset === ZIP64_MAGIC && offset + 8 <= data.length) {
+                    record.offset = readUInt64(data, offset, file);
+                }
+            } else if (id === EXTENDED_TIMESTAMP_EXTRA_ID && data.length >= 5 && (data[0] & 1) !== 0) {
+                record.lastModifiedTime = data.readInt32LE(1) * 1000;
+            }
+        }
+        records.push(record);
+        pos = nameStart + nameLength + extraLength + commentLength;
+    }
+    return records;
+}
+
+/**
+ * Reads the compressed data of an entry.
+ * @param {number} fd - the open archive
+ * @param {string} file - the archive, reported in the exceptions
+ * @param {number} offset - the offset of the local header of the entry
+ * @param {number} compressedSize - the size of the data, from the central directory
+ * @param {number} flags - the general purpose flags, from the central directory
+ */
+export function readEntryData(fd: number, file: string, offset: number, compressedSize: number, flags: number): Uint8Array {
+    return readFully(fd, file, locateEntryData(fd, file, offset, compressedSize, flags), compressedSize);
+}
+
+/* Returns the offset of the compressed data of an entry, after its local header, see readEntryData. */
+export function locateEntryData(fd: number, file: string, offset: number, compressedSize: number, flags: number): number {
+    if ((flags & FLAG_ENCRYPTED) !== 0)
+        throw new FileSystemException(file, undefined, "Encrypted entries are not supported");
+    const fileSize = fs.fstatSync(fd).size;
+    checkRegion(file, offset, LOCAL_HEADER_SIZE, fileSize);
+    const header = readFully(fd, file, offset, LOCAL_HEADER_SIZE);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE)
+        throw new FileSystemException(file, undefined, "Invalid local file header");
+    const dataOffset = offset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    checkRegion(file, dataOffset, compressedSize, fileSize);
+    return dataOffset;
+}
+
+/* An entry to write, with its compressed data. */
+export interface ZipEntryOutput {
+    name: string;
+    method: number;
+    crc: number;
+    size: number;
+    compressedSize: number;
+    dosTime: number;
+    lastModifiedTime: number;
+    versionMadeBy: number;
+    externalAttributes: number;
+    comment: string | null;
+}
+
+/**
+ * Writes a zip archive to a file, entry by entry, then the central directory. The names and comments are
+ * encoded as UTF-8, the ZIP64 format is used for the values that do not fit, or for all the entries if forced.
+ */
+export class ZipWriter {
+    private readonly fd: number;
+    private readonly forceZip64: boolean;
+    private readonly centralDirectory: Buffer[] = [];
+    private position: number = 0;
+    private count: number = 0;
+
+    public constructor(fd: number, forceZip64: boolean) {
+        this.fd = fd;
+        this.forceZip64 = forceZip64;
+    }
+
+    private write(buffer: Uint8Array): void {
+        let offset = 0;
+        while (offset < buffer.length) {
+            offset += fs.writeSync(this.fd, buffer, offset, buffer.length - offset, this.position + offset);
+        }
+        this.position += buffer.length;
+    }
+
+    private static extendedTimestamp(entry: ZipEntryOutput): Buffer {
+        const extra = Buffer.alloc(9);
+        extra.writeUInt16LE(EXTENDED_TIMESTAMP_EXTRA_ID, 0);
+        extra.writeUInt16LE(5, 2);
+        extra.writeUInt8(1, 4);
+        extra.writeInt32LE(Math.max(-0x80000000, Math.min(0x7fffffff, Math.floor(entry.lastModifiedTime / 1000))), 5);
+        return extra;
+    }
+
+    private static zip64Extra(values: number[]): Buffer {
+        const extra = Buffer.alloc(4 + 8 * values.length);
+        extra.writeUInt16LE(ZIP64_EXTRA_ID, 0);
+        extra.writeUInt16LE(8 * values.length, 2);
+        values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + 8 * i));
+        return extra;
+    }
+
+    /**
+     * Writes an entry.
+     * @param {ZipEntryOutput} entry - the entry
+     * @param {Uint8Array} data - the compressed data
+     */
+    public putEntry(entry: ZipEntryOutput, data: Uint8Array): void {
+        const name = Buffer.from(entry.name, "utf8");
+        const comment = Buffer.from(entry.comment ?? "", "utf8");
+        const offset = this.position;
+        const zip64 = this.forceZip64 || entry.size >= ZIP64_MAGIC || entry.compressedSize >= ZIP64_MAGIC;
+        const version = zip64 || offset >= ZIP64_MAGIC ? VERSION_ZIP64 : VERSION_DEFAULT;
+        const timestamp = ZipWriter.extendedTimestamp(entry);
+
+        // the local header has both sizes when they do not fit
+        const localExtra = zip64 ? Buffer.concat([ZipWriter.zip64Extra([entry.size, entry.compressedSize]), timestamp]) : timestamp;
+        const local = Buffer.alloc(LOCAL_HEADER_SIZE);
+        local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+        local.writeUInt16LE(version, 4);
+        local.writeUInt16LE(FLAG_UTF8, 6);
+        local.writeUInt16LE(entry.method, 8);
+        local.writeUInt32LE(entry.dosTime, 10);
+        local.writeUInt32LE(entry.crc, 14);
+        local.writeUInt32LE(zip64 ? ZIP64_MAGIC : entry.compressedSize, 18);
+        local.writeUInt32LE(zip64 ? ZIP64_MAGIC : entry.size, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(localExtra.length, 28);
+        this.write(local);
+        this.write(name);
+        this.write(localExtra);
+        this.write(data);
+
+        // the central header has only the values that do not fit
+        const values: number[] = [];
+        if (zip64) {
+            values.push(entry.size, entry.compressedSize);
+        }
+        if (this.forceZip64 || offset >= ZIP64_MAGIC) {
+            values.push(offset);
+        }
+        const centralExtra = values.length > 0 ? Buffer.concat([ZipWriter.zip64Extra(values), timestamp]) : timestamp;
+        const central = Buffer.alloc(CENTRAL_HEADER_SIZE);
+        central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+        central.writeUInt16LE((entry.versionMadeBy & 0xff00) | Math.max(version, entry.versionMadeBy & 0xff), 4);
+        central.writeUInt16LE(version, 6);
+        central.writeUInt16LE(FLAG_UTF8, 8);
+        central.writeUInt16LE(entry.method, 10);
+        central.writeUInt32LE(entry.dosTime, 12);
+        central.writeUInt32LE(entry.crc, 16);
+        central.writeUInt32LE(zip64 ? ZIP64_MAGIC : entry.compressedSize, 20);
+        central.writeUInt32LE(zip64 ? ZIP64_MAGIC : entry.size, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt16LE(centralExtra.length, 30);
+        central.writeUInt16LE(comment.length, 32);
+        central.writeUInt32LE(entry.externalAttributes >>> 0, 38);
+        central.writeUInt32LE(this.forceZip64 || offset >= ZIP64_MAGIC ? ZIP64_MAGIC : offset, 42);
+        this.centralDirectory.push(central, name, centralExtra, comment);
+        this.count++;
+    }
+
+    /* Writes the central directory and the end records. */
+    public finish(): void {
+        const offset = this.position;
+        for (const buffer of this.centralDirectory) {
+            this.write(buffer);
+        }
+        const size = this.position - offset;
+        const zip64 = this.forceZip64 || this.count >= ZIP64_MAGIC_COUNT || offset >= ZIP64_MAGIC || size >= ZIP64_MAGIC;
+        if (zip64) {
+            const zip64EndOffset = this.position;
+            const zip64End = Buffer.alloc(ZIP64_END_SIZE);
+            zip64End.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+            zip64End.writeBigUInt64LE(BigInt(ZIP64_END_SIZE - 12), 4);
+            zip64End.writeUInt16LE((3 << 8) | VERSION_ZIP64, 12);
+            zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+            zip64End.writeBigUInt64LE(BigInt(this.count), 24);
+            zip64End.writeBigUInt64LE(BigInt(this.count), 32);
+            zip64End.writeBigUInt64LE(BigInt(size), 40);
+            zip64End.writeBigUInt64LE(BigInt(offset), 48);
+            this.write(zip64End);
+            const locator = Buffer.alloc(ZIP64_LOCATOR_SIZE);
+            locator.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 0);
+            locator.writeBigUInt64LE(BigInt(zip64EndOffset), 8);
+            locator.writeUInt32LE(1, 16);
+            this.write(locator);
+        }
+        const end = Buffer.alloc(END_SIZE);
+        end.writeUInt32LE(END_SIGNATURE, 0);
+        end.writeUInt16LE(zip64 ? ZIP64_MAGIC_COUNT : this.count, 8);
+        end.writeUInt16LE(zip64 ? ZIP64_MAGIC_COUNT : this.count, 10);
+        end.writeUInt32LE(zip64 ? ZIP64_MAGIC : size, 12);
+        end.writeUInt32LE(zip64 ? ZIP64_MAGIC : offset, 16);
+        this.write(end);
+    }
+}
@@ -0,0 +1,44 @@
+import {Path} from "../../Path";
+import {LinkOption} from "../../LinkOption";
+import {UnixPath} from "../../spi/UnixPath";
+import {ProviderMismatchException} from "../../exception";
+import {NullPointerException} from "../../../exception";
+import type {ZipFileSystem} from "./ZipFileSystem";
+
+/* A path of a zip file system, the relative paths are resolved against the root of the archive. */
+export class ZipPath extends UnixPath {
+
+    public constructor(fileSystem: ZipFileSystem, path: string) {
+        super(fileSystem, path);
+    }
+
+    public static toZipPath(path: Path): ZipPath {
+        if (path == null)
+            throw new NullPointerException();
+        if (!(path instanceof ZipPath)) {
+            throw new ProviderMismatchException();
+        }
+        return path;
+    }
+
+    protected newPath(path: string): ZipPath {
+        return new ZipPath(this.getFileSystem(), path);
+    }
+
+    public getFileSystem(): ZipFileSystem {
+        return super.getFileSystem() as ZipFileSystem;
+    }
+
+    /* The absolute path without "." and "..", once checked that the entry exists. */
+    public toRealPath(options?: LinkOption[]): Path {
+        const realPath = this.toAbsolutePath().normalize();
+        this.getFileSystem().getEntry(this);
+        return realPath;
+    }
+
+    /* The URL {@code jar:<archive URL>!/path}, the URL of the archive followed by the absolute path. */
+    public toURL(): URL {
+        const path = this.toAbsolutePath().toString().split("/").map(encodeURIComponent).join("/");
+        return new URL("jar:" + this.getFileSystem().getArchive().toURL().href + "!" + path);
+    }
+}
@@ -0,0 +1,6 @@
+export * from "./ZipFileSystem"
+export * from "./ZipFileSystemProvider"
+export * from "./ZipPath"
+export * from "./ZipFileStore"
+export * from "./ZipFileAttributeViews"
+export {METHOD_STORED, METHOD_DEFLATED} from "./ZipEntry"
@@ -1,6 +1,10 @@
 export * as attribute from "./attribute";
 export * as spi from "./spi";
 export * as local from "./fs/local";
+export * as memory from "./fs/memory";
+export * as zip from "./fs/zip";
+export * as tar from "./fs/tar";
+export * as http from "./fs/http";
 export * from "./AccessMode";
 export * from "./CopyOption";
 export * from "./DirectoryStream";
@@ -18,3 +22,5 @@ export * from "./StandardCopyOption";
 export * from "./StandardOpenOption";
 export * from "./FileVisitResult";
 export * from "./FileVisitor";
+export type {TarArchiveOptions} from "./TarArchiver";
+export type {ArchiveExtractOptions} from "./ArchiveExtractor";
@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+import {FileTypeDetector} from "./FileTypeDetector";
+import {Path} from "../Path";
+
+/* The content types of the usual file extensions, completed by the mime.types files. */
+const BUILT_IN_MIME_TYPES: [string, string[]][] = [
+    ["application/gzip", ["gz"]],
+    ["application/java-archive", ["jar"]],
+    ["application/javascript", ["js", "mjs", "cjs"]],
+    ["application/json", ["json", "map"]],
+    ["application/msword", ["doc"]],
+    ["application/octet-stream", ["bin", "exe", "dll", "class"]],
+    ["application/pdf", ["pdf"]],
+    ["application/rtf", ["rtf"]],
+    ["application/vnd.ms-excel", ["xls"]],
+    ["application/vnd.ms-powerpoint", ["ppt"]],
+    ["application/vnd.oasis.opendocument.spreadsheet", ["ods"]],
+    ["application/vnd.oasis.opendocument.text", ["odt"]],
+    ["application/vnd.openxmlformats-officedocument.presentationml.presentation", ["pptx"]],
+    ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", ["xlsx"]],
+    ["application/vnd.openxmlformats-officedocument.wordprocessingml.document", ["docx"]],
+    ["application/wasm", ["wasm"]],
+    ["application/x-7z-compressed", ["7z"]],
+    ["application/x-bzip2", ["bz2"]],
+    ["application/x-gtar", ["tgz", "tar.gz", "tbz2", "tar.bz2", "txz", "tar.xz"]],
+    ["application/x-sh", ["sh"]],
+    ["application/x-tar", ["tar"]],
+    ["application/x-xz", ["xz"]],
+    ["application/xml", ["xml", "xsd", "xsl"]],
+    ["application/yaml", ["yaml", "yml"]],
+    ["application/zip", ["zip"]],
+    ["audio/flac", ["flac"]],
+    ["audio/mpeg", ["mp3"]],
+    ["audio/ogg", ["ogg", "oga"]],
+    ["audio/wav", ["wav"]],
+    ["font/otf", ["otf"]],
+    ["font/ttf", ["ttf"]],
+    ["font/woff", ["woff"]],
+    ["font/woff2", ["woff2"]],
+    ["image/bmp", ["bmp"]],
+    ["image/gif", ["gif"]],
+    ["image/jpeg", ["jpg", "jpeg", "jpe"]],
+    ["image/png", ["png"]],
+    ["image/svg+xml", ["svg", "svgz"]],
+    ["image/tiff", ["tif", "tiff"]],
+    ["image/vnd.microsoft.icon", ["ico"]],
+    ["image/webp", ["webp"]],
+    ["text/css", ["css"]],
+    ["text/csv", ["csv"]],
+    ["text/html", ["html", "htm"]],
+    ["text/markdown", ["md", "markdown"]],
+    ["text/plain", ["txt", "text", "log", "conf", "ini"]],
+    ["text/x-c", ["c", "h"]],
+    ["text/x-java-source", ["java"]],
+    ["text/x-python", ["py"]],
+    ["text/x-typescript", ["ts", "tsx"]],
+    ["video/mp4", ["mp4", "m4v"]],
+    ["video/mpeg", ["mpeg", "mpg"]],
+    ["video/webm", ["webm"]],
+    ["video/x-msvideo", ["avi"]],
+];
+
+/**
+ * The default FileTypeDetector, guessing the content type of a file from the extension of its name.
+ * The built-in table is completed, and overridden, by the entries of the mime.types files,
+ * whose lines are a content type followed by its extensions: {@code text/plain txt text}.
+ */
+export class DefaultFileTypeDetector extends FileTypeDetector {
+    private readonly mimeTypesFiles: string[];
+    private mimeTypes: Map<string, string> | null = null;
+
+    /**
+     * @param {string[]} [mimeTypesFiles] - the mime.types files, by increasing order of precedence,
+     * {@code /etc/mime.types} then {@code ~/.mime.types} by default
+     */
+    public constructor(mimeTypesFiles: string[] = [
+        "/etc/mime.types",
+        jsPath.join(os.homedir(), ".mime.types"),
+    ]) {
+        super();
+        this.mimeTypesFiles = mimeTypesFiles;
+    }
+
+    /**
+     * Parses the content of a mime.types file, ignoring the comments and the types without extensions.
+     * @param {string} content - the content of the file
+     * @returns The content types, by lower-case extension
+     */
+    public static parseMimeTypes(content: string): Map<string, string> {
+        const mimeTypes = new Map<string, string>();
+        for (let line of content.split(/\r?\n/)) {
+            const comment = line.indexOf("#");
+            if (comment !== -1) {
+                line = line.substring(0, comment);
+            }
+            const fields = line.trim().split(/\s+/);
+            if (fields.length < 2 || fields[0].indexOf("/") <= 0) {
+                continue;
+            }
+            for (let i = 1; i < fields.length; i++) {
+                mimeTypes.set(DefaultFileTypeDetector.toKey(fields[i]), fields[0]);
+            }
+        }
+        return mimeTypes;
+    }
+
+    private static toKey(extension: string): string {
+        return (extension.startsWith(".") ? extension.substring(1) : extension).toLowerCase();
+    }
+
+    /**
+     * Adds, or replaces, the content type of an extension.
+     * @param {string} extension - the extension, with or without the leading dot, such as {@code tar.gz}
+     * @param {string} contentType - the content type
+     */
+    public register(extension: string, contentType: string): void {
+        this.getMimeTypes().set(DefaultFileTypeDetector.toKey(extension), contentType);
+    }
+
+    /* The table is built on first use, so that the files are not read when no type is probed. */
+    private getMimeTypes(): Map<string, string> {
+        if (this.mimeTypes === null) {
+            const mimeTypes = new Map<string, string>();
+            for (let [contentType, extensions] of BUILT_IN_MIME_TYPES) {
+                for (let extension of extensions) {
+                    mimeTypes.set(extension, contentType);
+                }
+            }
+            for (let file of this.mimeTypesFiles) {
+                let content: string;
+                try {
+                    content = fs.readFileSync(file, "utf-8");
+                } catch (ignore) {
+                    // a missing or unreadable file is not an error
+                    continue;
+                }
+                DefaultFileTypeDetector.parseMimeTypes(content).forEach((contentType, extension) => mimeTypes.set(extension, contentType));
+            }
+            this.mimeTypes = mimeTypes;
+        }
+        return this.mimeTypes;
+    }
+
+    /**
+     * Returns the content type of the longest known extension of the file name,
+     * so that {@code a.tar.gz} is looked up as {@code tar.gz} before {@code gz}.
+     */
+    public probeContentType(path: Path): string | null {
+        const fileName = path.getFileName();
+        if (fileName === null) {
+            return null;
+        }
+        const name = fileName.toString().toLowerCase();
+        const mimeTypes = this.getMimeTypes();
+        // a leading dot starts the name of a hidden file, not an extension
+        let dot = name.indexOf(".", 1);
+        while (dot !== -1) {
+            const contentType = mimeTypes.get(name.substring(dot + 1));
+            if (contentType !== undefined) {
+                return contentType;
+            }
+            dot = name.indexOf(".", dot + 1);
+        }
+        return null;
+    }
+}
@@ -0,0 +1,23 @@
+import {AttributeView} from "../attribute";
+
+/**
+ * An attribute view whose attributes are read and updated by name, as used by
+ * {@link Files#readAttributes}, {@link Files#getAttribute} and {@link Files#setAttribute}.
+ */
+export interface DynamicFileAttributeView extends AttributeView {
+    /**
+     * Reads a set of file attributes as a bulk operation.
+     * @param {string[]} attributes - the names of the attributes to read, {@code "*"} reads all of them
+     * @returns A map of the attribute names to their values
+     * @throws IllegalArgumentException if an attribute is not recognized
+     */
+    readAttributes(attributes: string[]): Map<string, any>;
+
+    /**
+     * Sets the value of a file attribute.
+     * @param {string} attribute - the name of the attribute
+     * @param value - the attribute value
+     * @throws IllegalArgumentException if the attribute is not recognized or cannot be set
+     */
+    setAttribute(attribute: string, value: any): void;
+}
@@ -0,0 +1,297 @@
+import {
+    BasicFileAttributes,
+    BasicFileAttributeView,
+    DosFileAttributes,
+    DosFileAttributeView,
+    FileOwnerAttributeView,
+    PosixFileAttributes,
+    PosixFileAttributeView,
+    UserDefinedFileAttributeView,
+} from "../attribute";
+import {IllegalArgumentException} from "../../exception";
+import {DynamicFileAttributeView} from "./DynamicFileAttributeView";
+
+/**
+ * Builds the map returned by {@link DynamicFileAttributeView#readAttributes}, keeping only
+ * the attributes that were requested.
+ */
+export class AttributesBuilder {
+    private readonly names = new Set<string>();
+    private readonly map = new Map<string, any>();
+    private copyAll: boolean = false;
+
+    private constructor(allowed: Set<string>, requested: string[], viewName: string) {
+        for (let name of requested) {
+            if (name === "*") {
+                this.copyAll = true;
+            } else {
+                if (!allowed.has(name))
+                    throw new IllegalArgumentException("'" + viewName + ":" + name + "' not recognized");
+                this.names.add(name);
+            }
+        }
+    }
+
+    /**
+     * Creates a builder.
+     * @param allowed - the names of the attributes supported by the view
+     * @param {string[]} requested - the names of the requested attributes, may contain {@code "*"}
+     * @param {string} viewName - the name of the view, used in error messages
+     * @throws IllegalArgumentException if a requested attribute is not supported
+     */
+    public static create(allowed: Set<string>, requested: string[], viewName: string): AttributesBuilder {
+        return new AttributesBuilder(allowed, requested, viewName);
+    }
+
+    /* Tells whether the given attribute was requested. */
+    public match(name: string): boolean {
+        return this.copyAll || this.names.has(name);
+    }
+
+    public add(name: string, value: any): void {
+        if (this.match(name)) {
+            this.map.set(name, value);
+        }
+    }
+
+    public unmodifiableMap(): Map<string, any> {
+        return new Map<string, any>(this.map);
+    }
+}
+
+function unrecognized(view: DynamicFileAttributeView, attribute: string): IllegalArgumentException {
+    return new IllegalArgumentException("'" + view.name() + ":" + attribute + "' not recognized");
+}
+
+const BASIC_ATTRIBUTE_NAMES: string[] = [
+    "lastModifiedTime",
+    "lastAccessTime",
+    "creationTime",
+    "size",
+    "isRegularFile",
+    "isDirectory",
+    "isSymbolicLink",
+    "isOther",
+    "fileKey",
+];
+
+/* Exposes a BasicFileAttributeView by attribute name. */
+export class BasicFileAttributeViewAdapter implements DynamicFileAttributeView {
+    protected static readonly ATTRIBUTE_NAMES = new Set<string>(BASIC_ATTRIBUTE_NAMES);
+    private readonly view: BasicFileAttributeView;
+
+    public constructor(view: BasicFileAttributeView) {
+        this.view = view;
+    }
+
+    public name(): string {
+        return "basic";
+    }
+
+    protected attributeNames(): Set<string> {
+        return BasicFileAttributeViewAdapter.ATTRIBUTE_NAMES;
+    }
+
+    /**
+     * Adds the basic attributes to the builder.
+     */
+    protected addBasicAttributes(attrs: BasicFileAttributes, builder: AttributesBuilder): void {
+        builder.add("lastModifiedTime", attrs.lastModifiedTime());
+        builder.add("lastAccessTime", attrs.lastAccessTime());
+        builder.add("creationTime", attrs.creationTime());
+        builder.add("size", attrs.size());
+        builder.add("isRegularFile", attrs.isRegularFile());
+        builder.add("isDirectory", attrs.isDirectory());
+        builder.add("isSymbolicLink", attrs.isSymbolicLink());
+        builder.add("isOther", attrs.isOther());
+        builder.add("fileKey", attrs.fileKey());
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(this.attributeNames(), attributes, this.name());
+        this.addBasicAttributes(this.view.readAttributes(), builder);
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        switch (attribute) {
+            case "lastModifiedTime":
+                this.view.setTimes(value, undefined, undefined);
+                break;
+            case "lastAccessTime":
+                this.view.setTimes(undefined, value, undefined);
+                break;
+            case "creationTime":
+                this.view.setTimes(undefined, undefined, value);
+                break;
+            default:
+                throw unrecognized(this, attribute);
+        }
+    }
+}
+
+/* Exposes a PosixFileAttributeView by attribute name. */
+export class PosixFileAttributeViewAdapter extends BasicFileAttributeViewAdapter {
+    protected static readonly POSIX_ATTRIBUTE_NAMES = new Set<string>([...BASIC_ATTRIBUTE_NAMES, "permissions", "owner", "group"]);
+    private readonly posixView: PosixFileAttributeView;
+
+    public constructor(view: PosixFileAttributeView) {
+        super(view);
+        this.posixView = view;
+    }
+
+    public name(): string {
+        return "posix";
+    }
+
+    protected attributeNames(): Set<string> {
+        return PosixFileAttributeViewAdapter.POSIX_ATTRIBUTE_NAMES;
+    }
+
+    /**
+     * Adds the basic and posix attributes to the builder.
+     */
+    protected addPosixAttributes(attrs: PosixFileAttributes, builder: AttributesBuilder): void {
+        this.addBasicAttributes(attrs, builder);
+        builder.add("permissions", attrs.permissions());
+        builder.add("owner", attrs.owner());
+        builder.add("group", attrs.group());
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(this.attributeNames(), attributes, this.name());
+        this.addPosixAttributes(this.posixView.readAttributes(), builder);
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        switch (attribute) {
+            case "permissions":
+                this.posixView.setPermissions(value);
+                break;
+            case "owner":
+                this.posixView.setOwner(value);
+                break;
+            case "group":
+                this.posixView.setGroup(value);
+                break;
+            default:
+                super.setAttribute(attribute, value);
+        }
+    }
+}
+
+/* Exposes a FileOwnerAttributeView by attribute name. */
+export class FileOwnerAttributeViewAdapter implements DynamicFileAttributeView {
+    private static readonly ATTRIBUTE_NAMES = new Set<string>(["owner"]);
+    private readonly view: FileOwnerAttributeView;
+
+    public constructor(view: FileOwnerAttributeView) {
+        this.view = view;
+    }
+
+    public name(): string {
+        return "owner";
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(FileOwnerAttributeViewAdapter.ATTRIBUTE_NAMES, attributes, this.name());
+        builder.add("owner", this.view.getOwner());
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        if (attribute !== "owner")
+            throw unrecognized(this, attribute);
+        this.view.setOwner(value);
+    }
+}
+
+/* Exposes a DosFileAttributeView by attribute name. */
+export class DosFileAttributeViewAdapter extends BasicFileAttributeViewAdapter {
+    private static readonly DOS_ATTRIBUTE_NAMES = new Set<string>([...BASIC_ATTRIBUTE_NAMES, "readonly", "hidden", "system", "archive"]);
+    private readonly dosView: DosFileAttributeView;
+
+    public constructor(view: DosFileAttributeView) {
+        super(view);
+        this.dosView = view;
+    }
+
+    public name(): string {
+        return "dos";
+    }
+
+    protected attributeNames(): Set<string> {
+        return DosFileAttributeViewAdapter.DOS_ATTRIBUTE_NAMES;
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const builder = AttributesBuilder.create(this.attributeNames(), attributes, this.name());
+        const attrs: DosFileAttributes = this.dosView.readAttributes();
+        this.addBasicAttributes(attrs, builder);
+        builder.add("readonly", attrs.isReadOnly());
+        builder.add("hidden", attrs.isHidden());
+        builder.add("system", attrs.isSystem());
+        builder.add("archive", attrs.isArchive());
+        return builder.unmodifiableMap();
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        switch (attribute) {
+            case "readonly":
+                this.dosView.setReadOnly(value);
+                break;
+            case "hidden":
+                this.dosView.setHidden(value);
+                break;
+            case "system":
+                this.dosView.setSystem(value);
+                break;
+            case "archive":
+                this.dosView.setArchive(value);
+                break;
+            default:
+                super.setAttribute(attribute, value);
+        }
+    }
+}
+
+/* Exposes a UserDefinedFileAttributeView by attribute name, values are byte arrays. */
+export class UserDefinedFileAttributeViewAdapter implements DynamicFileAttributeView {
+    private readonly view: UserDefinedFileAttributeView;
+
+    public constructor(view: UserDefinedFileAttributeView) {
+        this.view = view;
+    }
+
+    public name(): string {
+        return "user";
+    }
+
+    public readAttributes(attributes: string[]): Map<string, any> {
+        const names = new Set<string>();
+        for (let name of attributes) {
+            if (name === "*") {
+                this.view.list().forEach(n => names.add(n));
+            } else {
+                if (name.length === 0)
+                    throw unrecognized(this, name);
+                names.add(name);
+            }
+        }
+        const result = new Map<string, any>();
+        for (let name of names) {
+            result.set(name, this.view.read(name));
+        }
+        return result;
+    }
+
+    public setAttribute(attribute: string, value: any): void {
+        if (value instanceof ArrayBuffer) {
+            value = new Uint8Array(value);
+        }
+        if (!(value instanceof Uint8Array))
+            throw new IllegalArgumentException("The value of '" + this.name() + ":" + attribute + "' must be a byte array");
+        this.view.write(attribute, value);
+    }
+}
@@ -0,0 +1,71 @@
+import {
+    AccessDeniedException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    FileSystemException,
+    NoSuchFileException,
+    NotDirectoryException,
+    ReadOnlyFileSystemException,
+} from "../exception";
+
+/* The reasons given for the errors that have no dedicated exception, as reported by strerror(3). */
+const REASONS: { [code: string]: string } = {
+    EISDIR: "Is a directory",
+    EXDEV: "Invalid cross-device link",
+    EBUSY: "Device or resource busy",
+    EINVAL: "Invalid argument",
+    EMLINK: "Too many links",
+    ENAMETOOLONG: "File name too long",
+    ENOSPC: "No space left on device",
+    EDQUOT: "Disk quota exceeded",
+    EMFILE: "Too many open files",
+    ENFILE: "Too many open files in system",
+    ETXTBSY: "Text file busy",
+    EFBIG: "File too large",
+    EIO: "Input/output error",
+    ENXIO: "No such device or address",
+    ENODEV: "No such device",
+    ENOTSUP: "Operation not supported",
+    EOPNOTSUPP: "Operation not supported",
+};
+
+/**
+ * Tells whether the given value is an error raised by the node {@code fs} module.
+ */
+export function isErrnoException(err: unknown): err is NodeJS.ErrnoException {
+    // errors of the fs module may come from another realm, so instanceof Error cannot be trusted
+    return typeof err === "object" && err !== null && typeof (err as NodeJS.ErrnoException).code === "string";
+}
+
+/**
+ * Translates an error raised by the node {@code fs} module into the matching
+ * {@link IOException}. Errors that do not come from the file system are returned unchanged.
+ * @param err - the error to translate
+ * @param {string} [file] - the file the operation was applied to
+ * @param {string} [other] - the second file of a two-files operation
+ * @returns The translated error, ready to be thrown.
+ */
+export function translateToIOException(err: unknown, file?: string, other?: string): unknown {
+    if (!isErrnoException(err)) {
+        return err;
+    }
+    switch (err.code) {
+        case "ENOENT":
+            return new NoSuchFileException(file, other);
+        case "EEXIST":
+            return new FileAlreadyExistsException(file, other);
+        case "EACCES":
+        case "EPERM":
+            return new AccessDeniedException(file as string, other);
+        case "ELOOP":
+            return new FileSystemException(file, other, "Too many levels of symbolic links or unable to access attributes of symbolic link");
+        case "ENOTEMPTY":
+            return new DirectoryNotEmptyException(file);
+        case "ENOTDIR":
+            return new NotDirectoryException(file);
+        case "EROFS":
+            return new ReadOnlyFileSystemException(file, other);
+        default:
+            return new FileSystemException(file, other, REASONS[err.code as string] ?? err.message);
+    }
+}
@@ -0,0 +1,116 @@
+import {Path} from "../Path";
+import {LinkOption} from "../LinkOption";
+import {
+    BasicFileAttributeView,
+    DosFileAttributeView,
+    FileOwnerAttributeView,
+    PosixFileAttributeView,
+    UserDefinedFileAttributeView,
+} from "../attribute";
+import {UnsupportedOperationException} from "../../exception";
+import {DynamicFileAttributeView} from "./DynamicFileAttributeView";
+import {
+    BasicFileAttributeViewAdapter,
+    DosFileAttributeViewAdapter,
+    FileOwnerAttributeViewAdapter,
+    PosixFileAttributeViewAdapter,
+    UserDefinedFileAttributeViewAdapter,
+} from "./DynamicFileAttributeViews";
+
+/* Creates the view of a file, or returns null if the view is not available for this file. */
+export type DynamicFileAttributeViewFactory = (path: Path, options?: LinkOption[]) => DynamicFileAttributeView | null;
+
+/**
+ * Implements the {@code "view:attribute1,attribute2"} syntax of {@link FileSystemProvider#readAttributes}
+ * and {@link FileSystemProvider#setAttribute} on top of the attribute views registered by a provider.
+ * When the view name is omitted, the {@code "basic"} view is used.
+ */
+export class FileAttributeDispatcher {
+    private readonly factories = new Map<string, DynamicFileAttributeViewFactory>();
+
+    /**
+     * Registers a view accessed by attribute name, replacing any view of the same name.
+     * @param {string} name - the name of the view
+     * @param factory - creates the view of a file
+     * @returns This dispatcher
+     */
+    public register(name: string, factory: DynamicFileAttributeViewFactory): FileAttributeDispatcher {
+        this.factories.set(name, factory);
+        return this;
+    }
+
+    public registerBasicView(factory: (path: Path, options?: LinkOption[]) => BasicFileAttributeView | null): FileAttributeDispatcher {
+        return this.register("basic", (path, options) => adapt(factory(path, options), BasicFileAttributeViewAdapter));
+    }
+
+    public registerPosixView(factory: (path: Path, options?: LinkOption[]) => PosixFileAttributeView | null): FileAttributeDispatcher {
+        return this.register("posix", (path, options) => adapt(factory(path, options), PosixFileAttributeViewAdapter));
+    }
+
+    public registerOwnerView(factory: (path: Path, options?: LinkOption[]) => FileOwnerAttributeView | null): FileAttributeDispatcher {
+        return this.register("owner", (path, options) => adapt(factory(path, options), FileOwnerAttributeViewAdapter));
+    }
+
+    public registerDosView(factory: (path: Path, options?: LinkOption[]) => DosFileAttributeView | null): FileAttributeDispatcher {
+        return this.register("dos", (path, options) => adapt(factory(path, options), DosFileAttributeViewAdapter));
+    }
+
+    public registerUserDefinedView(factory: (path: Path, options?: LinkOption[]) => UserDefinedFileAttributeView | null): FileAttributeDispatcher {
+        return this.register("user", (path, options) => adapt(factory(path, options), UserDefinedFileAttributeViewAdapter));
+    }
+
+    /**
+     * Returns the names of the registered views.
+     */
+    public supportedFileAttributeViews(): Set<string> {
+        return new Set<string>(this.factories.keys());
+    }
+
+    private getView(path: Path, name: string, options?: LinkOption[]): DynamicFileAttributeView {
+        const factory = this.factories.get(name);
+        const view = factory ? factory(path, options) : null;
+        if (!view)
+            throw new UnsupportedOperationException("View '" + name + "' not available");
+        return view;
+    }
+
+    /**
+     * Reads a set of file attributes as a bulk operation.
+     * @param {Path} path - the path to the file
+     * @param {string} attributes - the attributes to read, in the form {@code [view:]*} or {@code [view:]name1,name2}
+     * @param {LinkOption[]} [options] - options indicating how symbolic links are handled
+     * @returns A map of the attribute names, without the view name, to their values
+     * @throws UnsupportedOperationException if the view is not available
+     * @throws IllegalArgumentException if an attribute is not recognized
+     */
+    public readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any> {
+        const [view, names] = FileAttributeDispatcher.split(attributes);
+        return this.getView(path, view, options).readAttributes(names.split(","));
+    }
+
+    /**
+     * Sets the value of a file attribute.
+     * @param {Path} path - the path to the file
+     * @param {string} attribute - the attribute to set, in the form {@code [view:]name}
+     * @param value - the attribute value
+     * @param {LinkOption[]} [options] - options indicating how symbolic links are handled
+     * @throws UnsupportedOperationException if the view is not available
+     * @throws IllegalArgumentException if the attribute is not recognized or cannot be set
+     */
+    public setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void {
+        const [view, name] = FileAttributeDispatcher.split(attribute);
+        this.getView(path, view, options).setAttribute(name, value);
+    }
+
+    private static split(attribute: string): [string, string] {
+        const pos = attribute.indexOf(":");
+        if (pos === -1) {
+            return ["basic", attribute];
+        }
+        return [attribute.substring(0, pos), attribute.substring(pos + 1)];
+    }
+}
+
+function adapt<V>(view: V | null, adapter: new (view: V) => DynamicFileAttributeView): DynamicFileAttributeView | null {
+    return view ? new adapter(view) : null;
+}
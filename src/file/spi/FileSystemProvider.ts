@@ -9,17 +9,36 @@ import {FileStore} from "../FileStore";
 import {LinkOption} from "../LinkOption";
 import {StandardOpenOption} from "../StandardOpenOption";
 import {DirectoryStream} from "../DirectoryStream";
+import {NoSuchFileException} from "../exception";
 
 /* A contract for file system providers. */
 export abstract class FileSystemProvider {
     public abstract getScheme(): string;
 
+    /**
+     * Creates a new file system identified by a URL, registered as open until it is closed.
+     * @param {URL} uri - the URL identifying the file system
+     * @param {Map<string, any>} env - the provider specific properties configuring the file system
+     * @throws FileSystemAlreadyExistsException if the file system is already open
+     */
     public abstract newFileSystemFromUrl(uri: URL, env: Map<string, any>): FileSystem;
 
+    /**
+     * Creates a new file system accessing the content of a file, such as an archive.
+     * The default implementation throws UnsupportedOperationException, to let the other providers try.
+     * @param {Path} path - the path to the file
+     * @param {Map<string, any>} env - the provider specific properties configuring the file system
+     * @throws UnsupportedOperationException if the provider does not support the type of the file
+     */
     public newFileSystemFromPath(path: Path, env: Map<string, any>): FileSystem {
         throw new UnsupportedOperationException();
     }
 
+    /**
+     * Returns an open file system created by this provider, see {@link FileSystemRegistry}.
+     * @param {URL} url - the URL identifying the file system
+     * @throws FileSystemNotFoundException if the file system is not open
+     */
     public abstract getFileSystem(url: URL): FileSystem | null;
 
     public abstract getPath(url: URL): Path ;
@@ -139,7 +158,10 @@ export abstract class FileSystemProvider {
             this.delete(path);
             return true;
         } catch (e) {
-            return false;
+            if (e instanceof NoSuchFileException) {
+                return false;
+            }
+            throw e;
         }
     }
 
@@ -159,7 +181,7 @@ export abstract class FileSystemProvider {
 
     public abstract readAttributes(path: Path, attributes: string, options?: LinkOption[]): Map<string, any>;
 
-    public abstract getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView;
+    public abstract getFileAttributeView(path: Path, type?: string, options?: LinkOption[]): FileAttributeView | null;
 
     public abstract setAttribute(path: Path, attribute: string, value: any, options?: LinkOption[]): void;
 
@@ -1,22 +1,101 @@
 import {FileSystemProvider} from "./FileSystemProvider";
+import {ServiceDeclaration, ServiceDeclarations, ServiceLoader} from "./ServiceLoader";
+import {ServiceConfigurationError} from "../../exception";
 
-/* It's a class that manages a list of file system providers */
+function isProvider(service: any): service is FileSystemProvider {
+    return !!service && typeof service.getScheme === "function" && typeof service.getFileSystem === "function";
+}
+
+/**
+ * It's a class that manages a list of file system providers: the providers added by the application,
+ * and the providers declared to the {@link ServiceLoader} once the application loads the declarations,
+ * each loaded on the first lookup of its scheme.
+ */
 export class FileSystemProviders {
-    private static readonly installedProviders: FileSystemProvider[] = FileSystemProviders.loadProviders()
+    private static readonly installedProviders = new Map<string, FileSystemProvider>();
+    private static declaredProviders = new Map<string, ServiceDeclaration[]>();
+
+    /**
+     * Declares the providers discovered by the {@link ServiceLoader}, in place of the providers declared before.
+     * The modules are required on the first lookup of their scheme.
+     * @param {ServiceDeclarations} [declarations] - the declarations, discovered from the current directory and environment by default
+     * @throws ServiceConfigurationError if a declaration is malformed
+     */
+    public static loadDeclaredProviders(declarations: ServiceDeclarations = ServiceLoader.discover()): void {
+        this.declaredProviders = new Map<string, ServiceDeclaration[]>(declarations.providers);
+    }
 
-    private static loadProviders() {
-        return [];
+    /* Loads the declared provider of a scheme, unless a provider is installed already. */
+    private static loadProvider(scheme: string): FileSystemProvider | null {
+        const installed = this.installedProviders.get(scheme);
+        if (installed) {
+            return installed;
+        }
+        const declarations = this.declaredProviders.get(scheme);
+        if (!declarations) {
+            return null;
+        }
+        if (declarations.length > 1) {
+            throw new ServiceConfigurationError("Several providers for scheme \"" + scheme + "\": " + declarations.join(", "));
+        }
+        const provider = declarations[0].load(isProvider);
+        if (provider.getScheme().toLowerCase() !== scheme) {
+            throw new ServiceConfigurationError(declarations[0] + ": provides the scheme \"" + provider.getScheme() + "\" instead of \"" + scheme + "\"");
+        }
+        this.installedProviders.set(scheme, provider);
+        return provider;
     }
 
+    /**
+     * Installs a provider, it takes precedence over a provider declared for the same scheme
+     * and replaces the provider installed for the scheme, if any.
+     * @param {FileSystemProvider} provider - the provider to install
+     */
     public static addProvider(provider: FileSystemProvider): void {
-        this.installedProviders.push(provider);
+        this.replaceProvider(provider);
+    }
+
+    /**
+     * Installs a provider in place of the provider of the same scheme, installed or declared.
+     * @param {FileSystemProvider} provider - the provider to install
+     * @returns The provider that was installed, or null
+     */
+    public static replaceProvider(provider: FileSystemProvider): FileSystemProvider | null {
+        const scheme = provider.getScheme().toLowerCase();
+        const previous = this.installedProviders.get(scheme) ?? null;
+        this.installedProviders.set(scheme, provider);
+        return previous;
+    }
+
+    /**
+     * Uninstalls the provider of a scheme, the provider declared for the scheme is not loaded anymore.
+     * @param {string} scheme - the URL scheme of the provider
+     * @returns True if a provider was installed or declared for the scheme
+     */
+    public static removeProvider(scheme: string): boolean {
+        scheme = scheme.toLowerCase();
+        const removed = this.installedProviders.delete(scheme);
+        return this.declaredProviders.delete(scheme) || removed;
+    }
+
+    /**
+     * It returns the provider of a scheme, loading it if it is only declared
+     * @param {string} scheme - the URL scheme, such as "file"
+     * @returns The provider, or null if no provider is installed for the scheme.
+     * @throws ServiceConfigurationError if the declared provider cannot be loaded, or several providers are declared for the scheme
+     */
+    public static getProvider(scheme: string): FileSystemProvider | null {
+        return this.loadProvider(scheme.toLowerCase());
     }
 
     /**
-     * It returns an array of all the installed providers
+     * It returns an array of all the installed providers, loading all the declared providers
      * @returns The installed providers.
      */
     public static getInstalledProviders(): FileSystemProvider[] {
-        return this.installedProviders;
+        for (let scheme of this.declaredProviders.keys()) {
+            this.loadProvider(scheme);
+        }
+        return [...this.installedProviders.values()];
     }
 }
@@ -0,0 +1,63 @@
+import {FileSystem} from "../FileSystem";
+import {FileSystemAlreadyExistsException, FileSystemNotFoundException} from "../exception";
+
+/**
+ * The open file systems of a provider, by key, such as the real path of an archive or the name of
+ * a memory file system. A provider registers a file system when it is created, returns it from
+ * {@link FileSystemProvider#getFileSystem} while it is open, and deregisters it when it is closed.
+ */
+export class FileSystemRegistry<F extends FileSystem = FileSystem> {
+    private readonly fileSystems = new Map<string, F>();
+
+    /**
+     * Registers an open file system.
+     * @param {string} key - the key identifying the file system in its provider
+     * @param {F} fileSystem - the file system
+     * @returns The file system
+     * @throws FileSystemAlreadyExistsException if a file system is already open for the key
+     */
+    public register(key: string, fileSystem: F): F {
+        if (this.fileSystems.has(key)) {
+            throw new FileSystemAlreadyExistsException(key);
+        }
+        this.fileSystems.set(key, fileSystem);
+        return fileSystem;
+    }
+
+    /**
+     * Deregisters a file system, once it is closed.
+     * @param {string} key - the key identifying the file system in its provider
+     * @param {F} [fileSystem] - the file system, it is deregistered only if it is the one registered for the key
+     * @returns True if the file system was registered
+     */
+    public deregister(key: string, fileSystem?: F): boolean {
+        const registered = this.fileSystems.get(key);
+        if (registered === undefined || (fileSystem !== undefined && registered !== fileSystem)) {
+            return false;
+        }
+        return this.fileSystems.delete(key);
+    }
+
+    /* Returns the open file system of the key, or null. */
+    public find(key: string): F | null {
+        return this.fileSystems.get(key) ?? null;
+    }
+
+    /**
+     * Returns the open file system of the key.
+     * @param {string} key - the key identifying the file system in its provider
+     * @throws FileSystemNotFoundException if no file system is open for the key
+     */
+    public get(key: string): F {
+        const fileSystem = this.fileSystems.get(key);
+        if (fileSystem === undefined) {
+            throw new FileSystemNotFoundException(key);
+        }
+        return fileSystem;
+    }
+
+    /* Returns the open file systems. */
+    public getFileSystems(): F[] {
+        return [...this.fileSystems.values()];
+    }
+}
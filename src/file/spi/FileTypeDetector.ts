@@ -33,5 +33,16 @@ export abstract class FileTypeDetector { // TODO
      *
      * @see Files#probeContentType
      */
-    public abstract probeContentType(path: Path): string;
+    public abstract probeContentType(path: Path): string | null;
+
+    /**
+     * Probes the given file to guess its content type, reading its bytes if needed. The detectors examining the
+     * content of the files override this method, the others return the result of {@link probeContentType}.
+     * @param {Path} path - the path to the file to probe
+     * @returns A promise of the content type, or of null if the file type is not recognized
+     * @see Files#probeContentTypeAsync
+     */
+    public async probeContentTypeAsync(path: Path): Promise<string | null> {
+        return this.probeContentType(path);
+    }
 }
@@ -1,28 +1,77 @@
 import {FileTypeDetector} from "./FileTypeDetector";
-import {Path} from "../Path";
-
-class DefaultFileTypeDetector extends FileTypeDetector {
-    public constructor() {
-        super();
-    }
-
-    public probeContentType(path: Path): string { // TODO
-        throw new Error("Method not implemented.");
-    }
+import {DefaultFileTypeDetector} from "./DefaultFileTypeDetector";
+import {MagicFileTypeDetector} from "./MagicFileTypeDetector";
+import {ServiceDeclarations, ServiceLoader} from "./ServiceLoader";
 
+function isDetector(service: any): service is FileTypeDetector {
+    return !!service && typeof service.probeContentType === "function";
 }
 
-export class FileTypeDetectors { // TODO
+/**
+ * It's a class that manages the file type detectors: the detectors added by the application or declared to
+ * the {@link ServiceLoader}, and the magic-bytes detector, asked before the default detector.
+ */
+export class FileTypeDetectors {
     public static readonly defaultFileTypeDetector: FileTypeDetector = FileTypeDetectors.createDefaultFileTypeDetector();
 
-    public static readonly installedDetectors: FileTypeDetector[] = FileTypeDetectors.loadInstalledDetectors();
+    private static detectors: FileTypeDetector[] | null = null;
 
     static createDefaultFileTypeDetector(): FileTypeDetector {
         return new DefaultFileTypeDetector()
     }
 
-    static loadInstalledDetectors(): FileTypeDetector[] { // TODO
-        return []
+    static loadInstalledDetectors(): FileTypeDetector[] {
+        // the content of a file is more reliable than its name
+        return [new MagicFileTypeDetector()];
+    }
+
+    /**
+     * Installs the detectors discovered by the {@link ServiceLoader}, asked before the detectors installed earlier
+     * and in the order they are declared.
+     * @param {ServiceDeclarations} [declarations] - the declarations, discovered from the current directory and environment by default
+     * @throws ServiceConfigurationError if a declaration is malformed, or a declared detector cannot be loaded
+     */
+    public static loadDeclaredDetectors(declarations: ServiceDeclarations = ServiceLoader.discover()): void {
+        const detectors = declarations.detectors.map(declaration => declaration.load(isDetector));
+        this.getInstalledDetectors().unshift(...detectors);
     }
-}
 
+    /**
+     * It returns the installed detectors, in the order they are asked
+     * @returns The installed detectors, the default detector excluded.
+     */
+    public static getInstalledDetectors(): FileTypeDetector[] {
+        if (this.detectors === null) {
+            this.detectors = this.loadInstalledDetectors();
+        }
+        return this.detectors;
+    }
+
+    /* The installed detectors, as returned by getInstalledDetectors. */
+    public static get installedDetectors(): FileTypeDetector[] {
+        return this.getInstalledDetectors();
+    }
+
+    /**
+     * Installs a detector, asked before the detectors installed earlier.
+     * @param {FileTypeDetector} detector - the detector to install
+     */
+    public static addDetector(detector: FileTypeDetector): void {
+        this.getInstalledDetectors().unshift(detector);
+    }
+
+    /**
+     * Uninstalls a detector.
+     * @param {FileTypeDetector} detector - the detector to uninstall
+     * @returns True if the detector was installed
+     */
+    public static removeDetector(detector: FileTypeDetector): boolean {
+        const detectors = this.getInstalledDetectors();
+        const index = detectors.indexOf(detector);
+        if (index === -1) {
+            return false;
+        }
+        detectors.splice(index, 1);
+        return true;
+    }
+}
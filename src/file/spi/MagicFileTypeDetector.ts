@@ -0,0 +1,281 @@
+import {FileTypeDetector} from "./FileTypeDetector";
+import {Path} from "../Path";
+import {Files} from "../Files";
+import {translateToIOException} from "./ErrnoExceptions";
+import * as fs from "fs";
+
+// number of bytes read at the beginning of a file, enough for the tar header and the first zip entries
+const HEADER_SIZE = 4096;
+
+/**
+ * A magic number: a sequence of bytes found at a fixed offset at the beginning of the files of a type.
+ */
+export class MagicSignature {
+    private readonly contentType: string;
+    private readonly magic: (number | null)[];
+    private readonly offset: number;
+
+    /**
+     * @param {string} contentType - the content type of the files starting with the magic number
+     * @param {(number | null)[] | string} magic - the bytes, where null matches any byte, or a string of latin-1 characters
+     * @param {number} [offset] - the offset of the magic number in the file
+     */
+    public constructor(contentType: string, magic: (number | null)[] | string, offset: number = 0) {
+        this.contentType = contentType;
+        this.magic = typeof magic === "string" ? [...magic].map(c => c.charCodeAt(0) & 0xff) : magic;
+        this.offset = offset;
+    }
+
+    public getContentType(): string {
+        return this.contentType;
+    }
+
+    /* Tells whether the header of a file starts with the magic number. */
+    public matches(header: Uint8Array): boolean {
+        if (this.offset + this.magic.length > header.length) {
+            return false;
+        }
+        for (let i = 0; i < this.magic.length; i++) {
+            const b = this.magic[i];
+            if (b !== null && header[this.offset + i] !== b) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns the content type of a file whose header matches, a subclass can look further into the header.
+     * @param {Uint8Array} header - the first bytes of the file
+     */
+    public probe(header: Uint8Array): string | null {
+        return this.contentType;
+    }
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+    return String.fromCharCode(...bytes.subarray(start, Math.min(end, bytes.length)));
+}
+
+/* A RIFF container, the form type follows the size of the chunk. */
+function riff(form: string): (number | null)[] {
+    return [0x52, 0x49, 0x46, 0x46, null, null, null, null, ...[...form].map(c => c.charCodeAt(0))];
+}
+
+/* The entries of a zip archive tell an OpenDocument, an Office Open XML document or a jar from a plain zip. */
+class ZipSignature extends MagicSignature {
+
+    public constructor() {
+        super("application/zip", "PK\u0003\u0004");
+    }
+
+    public probe(header: Uint8Array): string | null {
+        const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+        let off = 0;
+        let first = true;
+        while (off + 30 <= header.length && view.getUint32(off, true) === 0x04034b50) {
+            const compressedSize = view.getUint32(off + 18, true);
+            const nameLength = view.getUint16(off + 26, true);
+            const extraLength = view.getUint16(off + 28, true);
+            const name = latin1(header, off + 30, off + 30 + nameLength);
+            const data = off + 30 + nameLength + extraLength;
+            if (first && name === "mimetype" && view.getUint16(off + 8, true) === 0) {
+                // OpenDocument: a first entry, stored, holds the content type
+                return latin1(header, data, data + compressedSize);
+            }
+            if (name.startsWith("word/")) {
+                return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+            }
+            if (name.startsWith("xl/")) {
+                return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+            }
+            if (name.startsWith("ppt/")) {
+                return "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+            }
+            if (name === "META-INF/MANIFEST.MF") {
+                return "application/java-archive";
+            }
+            // the next entry follows the data, unless the sizes are in a data descriptor
+            if ((view.getUint16(off + 6, true) & 0x08) !== 0) {
+                break;
+            }
+            off = data + compressedSize;
+            first = false;
+        }
+        return this.getContentType();
+    }
+}
+
+const INTERPRETERS = new Map<string, string>([
+    ["sh", "application/x-sh"],
+    ["bash", "application/x-sh"],
+    ["dash", "application/x-sh"],
+    ["zsh", "application/x-sh"],
+    ["ksh", "application/x-sh"],
+    ["node", "application/javascript"],
+    ["deno", "application/javascript"],
+    ["python", "text/x-python"],
+    ["perl", "application/x-perl"],
+    ["ruby", "application/x-ruby"],
+    ["php", "application/x-php"],
+]);
+
+/* A script starting with {@code #!}, typed after its interpreter, which may be run through env. */
+class ShebangSignature extends MagicSignature {
+
+    public constructor() {
+        super("text/plain", "#!");
+    }
+
+    public probe(header: Uint8Array): string | null {
+        const end = header.indexOf(0x0a);
+        const line = latin1(header, 2, end === -1 ? header.length : end).trim().split(/\s+/);
+        let program = line[0] ?? "";
+        if (program.endsWith("/env")) {
+            // skip the options of env, such as -S
+            program = line.slice(1).find(arg => !arg.startsWith("-")) ?? "";
+        }
+        const name = program.substring(program.lastIndexOf("/") + 1);
+        // python3, python3.11
+        return INTERPRETERS.get(name.replace(/[0-9.]+$/, "")) ?? this.getContentType();
+    }
+}
+
+/* The signatures are tried in order, the longest first when one is the prefix of another. */
+const BUILT_IN_SIGNATURES: MagicSignature[] = [
+    new MagicSignature("image/png", [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    new MagicSignature("image/jpeg", [0xff, 0xd8, 0xff]),
+    new MagicSignature("image/gif", "GIF87a"),
+    new MagicSignature("image/gif", "GIF89a"),
+    new MagicSignature("image/webp", riff("WEBP")),
+    new MagicSignature("audio/wav", riff("WAVE")),
+    new MagicSignature("video/x-msvideo", riff("AVI ")),
+    new MagicSignature("image/tiff", "II*\u0000"),
+    new MagicSignature("image/tiff", "MM\u0000*"),
+    new MagicSignature("image/bmp", "BM"),
+    new MagicSignature("image/vnd.microsoft.icon", [0x00, 0x00, 0x01, 0x00]),
+    new MagicSignature("application/pdf", "%PDF-"),
+    new MagicSignature("application/postscript", "%!PS"),
+    new MagicSignature("application/rtf", "{\\rtf"),
+    new ZipSignature(),
+    new MagicSignature("application/zip", "PK\u0005\u0006"),
+    new MagicSignature("application/gzip", [0x1f, 0x8b]),
+    new MagicSignature("application/x-bzip2", "BZh"),
+    new MagicSignature("application/x-xz", [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]),
+    new MagicSignature("application/x-7z-compressed", [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+    new MagicSignature("application/x-tar", "ustar", 257),
+    new MagicSignature("application/x-executable", [0x7f, 0x45, 0x4c, 0x46]),
+    new MagicSignature("application/wasm", [0x00, 0x61, 0x73, 0x6d]),
+    new MagicSignature("application/java-vm", [0xca, 0xfe, 0xba, 0xbe]),
+    new MagicSignature("audio/ogg", "OggS"),
+    new MagicSignature("audio/flac", "fLaC"),
+    new MagicSignature("audio/mpeg", "ID3"),
+    new MagicSignature("application/xml", "<?xml"),
+    new MagicSignature("text/plain; charset=UTF-32BE", [0x00, 0x00, 0xfe, 0xff]),
+    new MagicSignature("text/plain; charset=UTF-32LE", [0xff, 0xfe, 0x00, 0x00]),
+    new MagicSignature("text/plain; charset=UTF-8", [0xef, 0xbb, 0xbf]),
+    new MagicSignature("text/plain; charset=UTF-16BE", [0xfe, 0xff]),
+    new MagicSignature("text/plain; charset=UTF-16LE", [0xff, 0xfe]),
+    new ShebangSignature(),
+];
+
+/**
+ * A FileTypeDetector sniffing the content of the files: their first bytes are matched against
+ * a database of magic numbers. The custom signatures are tried before the built-in ones.
+ * The files of the default file system are read by {@link Files#probeContentType}, the files of the
+ * other file systems only by {@link Files#probeContentTypeAsync}, as their content is read asynchronously.
+ */
+export class MagicFileTypeDetector extends FileTypeDetector {
+    private readonly signatures: MagicSignature[] = [];
+
+    public constructor() {
+        super();
+    }
+
+    /**
+     * Registers a signature, tried before the signatures registered earlier and the built-in ones.
+     * @param {MagicSignature} signature - the signature
+     */
+    public addSignature(signature: MagicSignature): void {
+        this.signatures.unshift(signature);
+    }
+
+    /**
+     * Returns the content type of the first signature matching the given bytes.
+     * @param {Uint8Array} header - the first bytes of a file
+     * @returns The content type, or null if no signature matches
+     */
+    public detect(header: Uint8Array): string | null {
+        for (let signature of [...this.signatures, ...BUILT_IN_SIGNATURES]) {
+            if (signature.matches(header)) {
+                const contentType = signature.probe(header);
+                if (contentType) {
+                    return contentType;
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Reads the first bytes of a file of the default file system, the other files are left to the next
+     * detectors, see probeContentTypeAsync.
+     * @throws IOException if the file cannot be read
+     */
+    public probeContentType(path: Path): string | null {
+        if (path.getFileSystem().provider().getScheme() !== "file" || !Files.isRegularFile(path)) {
+            return null;
+        }
+        return this.detect(MagicFileTypeDetector.readLocalHeader(path.toString()));
+    }
+
+    /**
+     * Reads the first bytes of the file, the files that are not regular files,
+     * or that do not exist, are left to the next detectors.
+     */
+    public async probeContentTypeAsync(path: Path): Promise<string | null> {
+        if (!Files.isRegularFile(path)) {
+            return null;
+        }
+        return this.detect(await MagicFileTypeDetector.readHeader(path));
+    }
+
+    private static readLocalHeader(file: string): Uint8Array {
+        const header = Buffer.alloc(HEADER_SIZE);
+        let fd = -1;
+        try {
+            fd = fs.openSync(file, "r");
+            return header.subarray(0, fs.readSync(fd, header, 0, HEADER_SIZE, 0));
+        } catch (e) {
+            throw translateToIOException(e, file);
+        } finally {
+            if (fd !== -1) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+
+    private static async readHeader(path: Path): Promise<Uint8Array> {
+        const header = new Uint8Array(HEADER_SIZE);
+        let length = 0;
+        const reader = Files.newInputStream(path).getReader();
+        try {
+            while (length < HEADER_SIZE) {
+                const {done, value} = await reader.read();
+                if (done) {
+                    break;
+                }
+                const chunk: Uint8Array = value.subarray(0, HEADER_SIZE - length);
+                header.set(chunk, length);
+                length += chunk.length;
+            }
+        } finally {
+            try {
+                await reader.cancel();
+            } catch (ignore) {
+                // the error of the read, if any, is the one reported
+            }
+        }
+        return header.subarray(0, length);
+    }
+}
@@ -0,0 +1,184 @@
+import {Path} from "../Path";
+import {PathMatcher} from "../PathMatcher";
+import {IllegalArgumentException, PatternSyntaxException, UnsupportedOperationException} from "../../exception";
+
+const REGEX_META_CHARS = ".^$+{[]|()}\\*?/";
+
+function isRegexMeta(c: string): boolean {
+    return REGEX_META_CHARS.indexOf(c) !== -1;
+}
+
+function escapeRegex(value: string): string {
+    return [...value].map(c => isRegexMeta(c) ? "\\" + c : c).join("");
+}
+
+/* A PathMatcher that matches the string representation of paths against a compiled regular expression. */
+class RegexPathMatcher implements PathMatcher {
+    private readonly regex: RegExp;
+
+    public constructor(regex: RegExp) {
+        this.regex = regex;
+    }
+
+    public matches(path: Path | null): boolean {
+        return path !== null && path !== undefined && this.regex.test(path.toString());
+    }
+}
+
+/**
+ * Implements the {@code glob} and {@code regex} syntaxes of {@link FileSystem#getPathMatcher},
+ * for the file systems whose paths are strings of names joined by a separator.
+ */
+export class PathMatchers {
+
+    private constructor() {
+    }
+
+    /**
+     * Returns a PathMatcher for the given pattern, compiled once.
+     * @param {string} syntaxAndPattern - the syntax and the pattern, in the form {@code syntax:pattern}
+     * @param {string} separator - the name separator of the file system
+     * @param {boolean} [ignoreCase] - true when the names of the file system are not case sensitive
+     * @throws IllegalArgumentException if the parameter does not take the form {@code syntax:pattern}
+     * @throws PatternSyntaxException if the pattern is invalid
+     * @throws UnsupportedOperationException if the syntax is not known
+     */
+    public static getPathMatcher(syntaxAndPattern: string, separator: string, ignoreCase: boolean = false): PathMatcher {
+        const pos = syntaxAndPattern.indexOf(":");
+        if (pos <= 0)
+            throw new IllegalArgumentException();
+        const syntax = syntaxAndPattern.substring(0, pos);
+        const input = syntaxAndPattern.substring(pos + 1);
+        let expr: string;
+        if (syntax.toLowerCase() === "glob") {
+            expr = PathMatchers.globToRegex(input, separator);
+        } else if (syntax.toLowerCase() === "regex") {
+            expr = "^(?:" + input + ")$";
+        } else {
+            throw new UnsupportedOperationException("Syntax '" + syntax + "' not recognized");
+        }
+        try {
+            return new RegexPathMatcher(new RegExp(expr, ignoreCase ? "i" : ""));
+        } catch (e) {
+            throw new PatternSyntaxException(e instanceof Error ? e.message : String(e), input);
+        }
+    }
+
+    /**
+     * Translates a glob pattern into a regular expression matching the whole path.
+     * In the glob, {@code /} stands for the separator and {@code \} escapes the next character.
+     * @param {string} glob - the glob pattern
+     * @param {string} separator - the name separator of the file system
+     * @returns The source of the regular expression
+     * @throws PatternSyntaxException if the glob is invalid
+     */
+    public static globToRegex(glob: string, separator: string): string {
+        const sep = escapeRegex(separator);
+        const notSep = "[^" + sep + "]";
+        const next = (i: number): string => i < glob.length ? glob.charAt(i) : "";
+        let inGroup = false;
+        let regex = "^";
+        let i = 0;
+        while (i < glob.length) {
+            let c = glob.charAt(i++);
+            switch (c) {
+                case "\\":
+                    // escape special characters
+                    if (i === glob.length)
+                        throw new PatternSyntaxException("No character to escape", glob, i - 1);
+                    regex += escapeRegex(glob.charAt(i++));
+                    break;
+                case "/":
+                    regex += sep;
+                    break;
+                case "[": {
+                    // don't match name separator in class
+                    regex += "(?!" + sep + ")[";
+                    if (next(i) === "^") {
+                        // escape the regex negation char if it appears
+                        regex += "\\^";
+                        i++;
+                    } else {
+                        // negation
+                        if (next(i) === "!") {
+                            regex += "^";
+                            i++;
+                        }
+                        // hyphen allowed at start
+                        if (next(i) === "-") {
+                            regex += "\\-";
+                            i++;
+                        }
+                    }
+                    let hasRangeStart = false;
+                    let last = "";
+                    while (i < glob.length) {
+                        c = glob.charAt(i++);
+                        if (c === "]") {
+                            break;
+                        }
+                        if (c === "/" || c === separator)
+                            throw new PatternSyntaxException("Explicit 'name separator' in class", glob, i - 1);
+                        if (c === "-") {
+                            if (!hasRangeStart)
+                                throw new PatternSyntaxException("Invalid range", glob, i - 1);
+                            c = next(i++);
+                            if (c === "" || c === "]") {
+                                // a trailing hyphen stands for itself
+                                regex += "\\-";
+                                break;
+                            }
+                            if (c < last)
+                                throw new PatternSyntaxException("Invalid range", glob, i - 3);
+                            regex += "-" + escapeRegex(c);
+                            hasRangeStart = false;
+                        } else {
+                            regex += c === "\\" || c === "[" || c === "^" ? "\\" + c : c;
+                            hasRangeStart = true;
+                            last = c;
+                        }
+                    }
+                    if (c !== "]")
+                        throw new PatternSyntaxException("Missing ']", glob, i - 1);
+                    regex += "]";
+                    break;
+                }
+                case "{":
+                    if (inGroup)
+                        throw new PatternSyntaxException("Cannot nest groups", glob, i - 1);
+                    regex += "(?:(?:";
+                    inGroup = true;
+                    break;
+                case "}":
+                    if (inGroup) {
+                        regex += "))";
+                        inGroup = false;
+                    } else {
+                        regex += "\\}";
+                    }
+                    break;
+                case ",":
+                    regex += inGroup ? ")|(?:" : ",";
+                    break;
+                case "*":
+                    if (next(i) === "*") {
+                        // crosses directory boundaries
+                        regex += "[\\s\\S]*";
+                        i++;
+                    } else {
+                        // within directory boundary
+                        regex += notSep + "*";
+                    }
+                    break;
+                case "?":
+                    regex += notSep;
+                    break;
+                default:
+                    regex += c === separator ? sep : escapeRegex(c);
+            }
+        }
+        if (inGroup)
+            throw new PatternSyntaxException("Missing '}", glob, i - 1);
+        return regex + "$";
+    }
+}
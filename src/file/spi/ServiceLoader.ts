@@ -0,0 +1,239 @@
+import * as fs from "fs";
+import * as jsPath from "path";
+import {ServiceConfigurationError} from "../../exception";
+
+// the field of package.json declaring the services of a package
+const PACKAGE_FIELD = "filesystems";
+// the configuration file looked up in the current directory
+const CONFIG_FILE = "filesystems.config.json";
+
+/* The declaration of a service: the module exporting it, and where it was declared. */
+export class ServiceDeclaration {
+    private readonly specifier: string;
+    private readonly baseDir: string;
+    private readonly source: string;
+
+    /**
+     * @param {string} specifier - the module, relative to the base directory or a package name,
+     * followed by {@code #name} when the service is not the default export
+     * @param {string} baseDir - the directory the module is resolved from
+     * @param {string} source - the file, or the environment variable, declaring the service
+     */
+    public constructor(specifier: string, baseDir: string, source: string) {
+        this.specifier = specifier;
+        this.baseDir = baseDir;
+        this.source = source;
+    }
+
+    public getSpecifier(): string {
+        return this.specifier;
+    }
+
+    public getSource(): string {
+        return this.source;
+    }
+
+    /**
+     * Requires the module and returns the service it exports: an instance, or a class that is instantiated.
+     * @param {(service: any) => boolean} isService - tells whether a value is a service of the expected type
+     * @throws ServiceConfigurationError if the module cannot be loaded or does not export a service
+     */
+    public load<T>(isService: (service: any) => service is T): T {
+        const hash = this.specifier.lastIndexOf("#");
+        const moduleName = hash === -1 ? this.specifier : this.specifier.substring(0, hash);
+        const exportName = hash === -1 ? "default" : this.specifier.substring(hash + 1);
+        let exported: any;
+        try {
+            const module = require(require.resolve(moduleName, {paths: [this.baseDir]}));
+            exported = module[exportName] ?? (hash === -1 ? module : undefined);
+            if (typeof exported === "function") {
+                exported = new exported();
+            }
+        } catch (e) {
+            throw new ServiceConfigurationError(this + ": cannot be loaded: " + (e instanceof Error ? e.message : String(e)));
+        }
+        if (!isService(exported)) {
+            throw new ServiceConfigurationError(this + ": does not export a service of the expected type");
+        }
+        return exported;
+    }
+
+    public toString(): string {
+        return "\"" + this.specifier + "\" declared in " + this.source;
+    }
+}
+
+/* The services declared by the packages, the configuration file and the environment. */
+export class ServiceDeclarations {
+    // the providers by scheme, several declarations of a scheme are a conflict
+    public readonly providers = new Map<string, ServiceDeclaration[]>();
+    public readonly detectors: ServiceDeclaration[] = [];
+
+    /* Adds the declarations of a source, replacing the providers declared by the sources of lower precedence. */
+    public merge(other: ServiceDeclarations): void {
+        other.providers.forEach((declarations, scheme) => this.providers.set(scheme, declarations));
+        this.detectors.push(...other.detectors);
+    }
+}
+
+/**
+ * Discovers the file system providers and the file type detectors, as the Java ServiceLoader does.
+ * The services are declared, from the lowest to the highest precedence:
+ * <ul>
+ *     <li>by the {@code filesystems} field of the package.json of the application, and of the packages listed
+ *     by its {@code dependencies} and {@code optionalDependencies}:
+ *     {@code {"providers": {"zip": "./dist/ZipProvider"}, "detectors": ["./dist/Detector#MyDetector"]}}</li>
+ *     <li>by the configuration file {@code filesystems.config.json} of the current directory,
+ *     or the file named by the {@code FILESYSTEMS_CONFIG} environment variable, with the same content</li>
+ *     <li>by the {@code FILESYSTEMS_PROVIDERS} environment variable, such as {@code zip=./zip,mem=memfs},
+ *     and the {@code FILESYSTEMS_DETECTORS} environment variable, a comma separated list of modules</li>
+ * </ul>
+ * Only the declarations are read, the modules are required when the services are first used. Nothing is
+ * discovered until the application asks for it, with {@link FileSystemProviders.loadDeclaredProviders}
+ * and {@link FileTypeDetectors.loadDeclaredDetectors}.
+ */
+export class ServiceLoader {
+
+    private constructor() {
+    }
+
+    /**
+     * Collects the declarations of services.
+     * @param {string} [cwd] - the directory of the application
+     * @param {NodeJS.ProcessEnv} [env] - the environment variables
+     * @throws ServiceConfigurationError if a declaration is malformed
+     */
+    public static discover(cwd: string = process.cwd(), env: NodeJS.ProcessEnv = process.env): ServiceDeclarations {
+        const declarations = new ServiceDeclarations();
+        declarations.merge(ServiceLoader.fromPackages(cwd));
+        const configFile = env.FILESYSTEMS_CONFIG ? jsPath.resolve(cwd, env.FILESYSTEMS_CONFIG) : jsPath.join(cwd, CONFIG_FILE);
+        if (env.FILESYSTEMS_CONFIG || fs.existsSync(configFile)) {
+            declarations.merge(ServiceLoader.fromJson(ServiceLoader.readJson(configFile), jsPath.dirname(configFile), configFile));
+        }
+        declarations.merge(ServiceLoader.fromEnvironment(cwd, env));
+        return declarations;
+    }
+
+    /* The package.json of the application, then those of its dependencies, in the order they are declared. */
+    private static fromPackages(cwd: string): ServiceDeclarations {
+        const declarations = new ServiceDeclarations();
+        const packageFile = jsPath.join(cwd, "package.json");
+        if (!fs.existsSync(packageFile)) {
+            return declarations;
+        }
+        const json = ServiceLoader.readJson(packageFile);
+        if (!json || typeof json !== "object") {
+            return declarations;
+        }
+        if (json[PACKAGE_FIELD] !== undefined) {
+            ServiceLoader.add(declarations, ServiceLoader.fromJson(json[PACKAGE_FIELD], cwd, packageFile));
+        }
+        const names = new Set<string>([...Object.keys(json.dependencies ?? {}), ...Object.keys(json.optionalDependencies ?? {})]);
+        for (let name of names) {
+            const dir = ServiceLoader.findPackage(name, cwd);
+            if (dir !== null) {
+                ServiceLoader.addDependency(declarations, dir);
+            }
+        }
+        return declarations;
+    }
+
+    /* Finds the directory of an installed package, in the node_modules directories from the nearest, as require does. */
+    private static findPackage(name: string, cwd: string): string | null {
+        for (let dir = cwd; ; dir = jsPath.dirname(dir)) {
+            const packageDir = jsPath.join(dir, "node_modules", name);
+            if (fs.existsSync(jsPath.join(packageDir, "package.json"))) {
+                return packageDir;
+            }
+            if (jsPath.dirname(dir) === dir) {
+                return null;
+            }
+        }
+    }
+
+    private static addDependency(declarations: ServiceDeclarations, dir: string): void {
+        const packageFile = jsPath.join(dir, "package.json");
+        let text: string;
+        try {
+            text = fs.readFileSync(packageFile, "utf-8");
+        } catch (ignore) {
+            return;
+        }
+        // only the packages declaring services are parsed, a malformed package.json of another package is ignored
+        if (!text.includes("\"" + PACKAGE_FIELD + "\"")) {
+            return;
+        }
+        const json = ServiceLoader.parseJson(text, packageFile);
+        if (json && typeof json === "object" && json[PACKAGE_FIELD] !== undefined) {
+            ServiceLoader.add(declarations, ServiceLoader.fromJson(json[PACKAGE_FIELD], dir, packageFile));
+        }
+    }
+
+    /* Adds the declarations of a source of the same precedence, keeping every declaration of a scheme. */
+    private static add(declarations: ServiceDeclarations, other: ServiceDeclarations): void {
+        other.providers.forEach((list, scheme) => declarations.providers.set(scheme, [...(declarations.providers.get(scheme) ?? []), ...list]));
+        declarations.detectors.push(...other.detectors);
+    }
+
+    private static readJson(file: string): any {
+        let text: string;
+        try {
+            text = fs.readFileSync(file, "utf-8");
+        } catch (e) {
+            throw new ServiceConfigurationError(file + ": " + (e instanceof Error ? e.message : String(e)));
+        }
+        return ServiceLoader.parseJson(text, file);
+    }
+
+    private static parseJson(text: string, file: string): any {
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            throw new ServiceConfigurationError(file + ": " + (e instanceof Error ? e.message : String(e)));
+        }
+    }
+
+    private static fromJson(json: any, baseDir: string, source: string): ServiceDeclarations {
+        const declarations = new ServiceDeclarations();
+        if (!json || typeof json !== "object") {
+            throw new ServiceConfigurationError(source + ": the services must be declared by an object");
+        }
+        const providers = json.providers ?? {};
+        if (typeof providers !== "object" || Array.isArray(providers)) {
+            throw new ServiceConfigurationError(source + ": \"providers\" must map the schemes to modules");
+        }
+        for (let scheme of Object.keys(providers)) {
+            if (typeof providers[scheme] !== "string") {
+                throw new ServiceConfigurationError(source + ": the provider of \"" + scheme + "\" must be a module name");
+            }
+            declarations.providers.set(scheme.toLowerCase(), [new ServiceDeclaration(providers[scheme], baseDir, source)]);
+        }
+        const detectors = json.detectors ?? [];
+        if (!Array.isArray(detectors) || detectors.some(detector => typeof detector !== "string")) {
+            throw new ServiceConfigurationError(source + ": \"detectors\" must be a list of modules");
+        }
+        declarations.detectors.push(...detectors.map(detector => new ServiceDeclaration(detector, baseDir, source)));
+        return declarations;
+    }
+
+    private static fromEnvironment(cwd: string, env: NodeJS.ProcessEnv): ServiceDeclarations {
+        const declarations = new ServiceDeclarations();
+        const split = (value: string | undefined): string[] => (value ?? "").split(",").map(item => item.trim()).filter(item => item.length > 0);
+        for (let item of split(env.FILESYSTEMS_PROVIDERS)) {
+            const equals = item.indexOf("=");
+            if (equals <= 0) {
+                throw new ServiceConfigurationError("FILESYSTEMS_PROVIDERS: \"" + item + "\" is not of the form scheme=module");
+            }
+            const scheme = item.substring(0, equals).trim().toLowerCase();
+            ServiceLoader.add(declarations, ServiceLoader.single(scheme, new ServiceDeclaration(item.substring(equals + 1).trim(), cwd, "FILESYSTEMS_PROVIDERS")));
+        }
+        declarations.detectors.push(...split(env.FILESYSTEMS_DETECTORS).map(detector => new ServiceDeclaration(detector, cwd, "FILESYSTEMS_DETECTORS")));
+        return declarations;
+    }
+
+    private static single(scheme: string, declaration: ServiceDeclaration): ServiceDeclarations {
+        const declarations = new ServiceDeclarations();
+        declarations.providers.set(scheme, [declaration]);
+        return declarations;
+    }
+}
@@ -0,0 +1,63 @@
+import {DirectoryStream} from "../DirectoryStream";
+import {Path} from "../Path";
+import {IllegalStateException} from "../../exception";
+
+/**
+ * A directory stream over the names of the entries of a directory, read when the stream is opened,
+ * for the file systems that hold their directories in memory such as the memory and archive file systems.
+ * The entries created or deleted afterwards are not seen.
+ */
+export class SnapshotDirectoryStream implements DirectoryStream<Path> {
+    private readonly dir: Path;
+    private readonly names: string[];
+    private readonly filter: (path: Path) => boolean;
+    private iterator: Iterator<Path> | null = null;
+    private closed: boolean = false;
+
+    /**
+     * Creates a directory stream.
+     * @param {Path} dir - the directory
+     * @param {string[]} names - the names of the entries of the directory
+     * @param filter - the filter applied to each entry
+     */
+    public constructor(dir: Path, names: string[], filter: (path: Path) => boolean) {
+        this.dir = dir;
+        this.names = names;
+        this.filter = filter;
+    }
+
+    public directory(): Path {
+        return this.dir;
+    }
+
+    public isOpen(): boolean {
+        return !this.closed;
+    }
+
+    public close(): void {
+        this.closed = true;
+    }
+
+    private* entries(): Generator<Path> {
+        for (let name of this.names) {
+            if (this.closed) {
+                return;
+            }
+            const path = this.dir.resolve(this.dir.getFileSystem().getPath(name));
+            if (this.filter(path)) {
+                yield path;
+            }
+        }
+    }
+
+    public [Symbol.iterator](): Iterator<Path> {
+        if (this.closed) {
+            throw new IllegalStateException("Directory stream is closed");
+        }
+        if (this.iterator) {
+            throw new IllegalStateException("Iterator already obtained");
+        }
+        this.iterator = this.entries();
+        return this.iterator;
+    }
+}
@@ -0,0 +1,21 @@
+/* The size of a chunk written to a stream, in bytes. */
+export function chunkSize(chunk: any): number {
+    return typeof chunk === "string" ? Buffer.byteLength(chunk, "utf8") : chunk.byteLength;
+}
+
+/* Converts a chunk written to a stream to bytes, a string is encoded as UTF-8. */
+export function toBytes(chunk: any): Uint8Array {
+    if (chunk instanceof Uint8Array) {
+        return chunk;
+    }
+    if (typeof chunk === "string") {
+        return Buffer.from(chunk, "utf8");
+    }
+    if (ArrayBuffer.isView(chunk)) {
+        return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    }
+    if (chunk instanceof ArrayBuffer) {
+        return new Uint8Array(chunk);
+    }
+    throw new TypeError("Chunk must be a string, an ArrayBuffer or an ArrayBufferView");
+}
@@ -0,0 +1,65 @@
+import {FileAttribute, PosixFilePermission} from "../attribute";
+import {NullPointerException, UnsupportedOperationException} from "../../exception";
+
+/* The permission bits of a unix file mode. */
+const PERMISSION_BITS: [PosixFilePermission, number][] = [
+    [PosixFilePermission.OWNER_READ, 0o400],
+    [PosixFilePermission.OWNER_WRITE, 0o200],
+    [PosixFilePermission.OWNER_EXECUTE, 0o100],
+    [PosixFilePermission.GROUP_READ, 0o040],
+    [PosixFilePermission.GROUP_WRITE, 0o020],
+    [PosixFilePermission.GROUP_EXECUTE, 0o010],
+    [PosixFilePermission.OTHERS_READ, 0o004],
+    [PosixFilePermission.OTHERS_WRITE, 0o002],
+    [PosixFilePermission.OTHERS_EXECUTE, 0o001],
+];
+
+/**
+ * Converts a set of permissions to the permission bits of a unix file mode.
+ */
+export function toUnixMode(perms: Set<PosixFilePermission>): number {
+    let mode = 0;
+    for (const [perm, bit] of PERMISSION_BITS) {
+        if (perms.has(perm)) {
+            mode |= bit;
+        }
+    }
+    return mode;
+}
+
+/**
+ * Converts the permission bits of a unix file mode to a set of permissions.
+ */
+export function toPosixFilePermissions(mode: number): Set<PosixFilePermission> {
+    const perms = new Set<PosixFilePermission>();
+    for (const [perm, bit] of PERMISSION_BITS) {
+        if ((mode & bit) !== 0) {
+            perms.add(perm);
+        }
+    }
+    return perms;
+}
+
+/**
+ * Computes the mode a file is created with from the initial attributes given to
+ * createFile or createDirectory. Only the permissions can be set atomically.
+ * @param {number} defaultMode - the mode to use when no permissions are given
+ * @param {FileAttribute<any>[]} [attrs] - the initial attributes
+ * @returns The mode to give to open(2) or mkdir(2)
+ * @throws UnsupportedOperationException if an attribute cannot be set atomically
+ */
+export function toUnixModeFromAttributes(defaultMode: number, attrs?: FileAttribute<any>[]): number {
+    let mode = defaultMode;
+    if (attrs) {
+        for (const attr of attrs) {
+            if (attr == null)
+                throw new NullPointerException();
+            const name = attr.name();
+            if (name !== "posix:permissions" && name !== "unix:permissions") {
+                throw new UnsupportedOperationException("'" + name + "' not supported as initial attribute");
+            }
+            mode = toUnixMode(attr.value());
+        }
+    }
+    return mode;
+}
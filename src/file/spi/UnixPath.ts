@@ -0,0 +1,215 @@
+import {Path} from "../Path";
+import {FileSystem} from "../FileSystem";
+import {LinkOption} from "../LinkOption";
+import {InvalidPathException, ProviderMismatchException} from "../exception";
+import {IllegalArgumentException, NullPointerException} from "../../exception";
+
+/**
+ * A path of names separated by slashes, with an optional "/" root, for the file systems that are not
+ * backed by the local file system, such as the memory and archive file systems. A subclass creates
+ * the paths of its file system and locates the files; the names are compared case-sensitively.
+ */
+export abstract class UnixPath extends Path {
+    private readonly fileSystem: FileSystem;
+    // normalized path string: no redundant or trailing slash
+    private readonly path: string;
+    private names: string[] | undefined;
+
+    protected constructor(fileSystem: FileSystem, path: string) {
+        super();
+        this.fileSystem = fileSystem;
+        this.path = UnixPath.normalizeString(path);
+    }
+
+    /**
+     * Removes the redundant and trailing slashes of a path string.
+     * @throws InvalidPathException if the path contains a NUL character
+     */
+    public static normalizeString(input: string): string {
+        const nul = input.indexOf("\u0000");
+        if (nul !== -1)
+            throw new InvalidPathException(input, "Nul character not allowed", nul);
+        const root = input.startsWith("/") ? "/" : "";
+        return root + input.split("/").filter(name => name.length > 0).join("/");
+    }
+
+    /* Creates a path of the same file system. */
+    protected abstract newPath(path: string): UnixPath;
+
+    /* Returns the path of the same class, or throws if the path comes from another provider. */
+    protected checkPath(path: Path): UnixPath {
+        if (path == null)
+            throw new NullPointerException();
+        if (!(path instanceof UnixPath) || path.constructor !== this.constructor || path.fileSystem !== this.fileSystem)
+            throw new ProviderMismatchException();
+        return path;
+    }
+
+    public getFileSystem(): FileSystem {
+        return this.fileSystem;
+    }
+
+    public isAbsolute(): boolean {
+        return this.path.startsWith("/");
+    }
+
+    private isEmpty(): boolean {
+        return this.path.length === 0;
+    }
+
+    /* The name elements, the empty path has a single empty name. */
+    public getNames(): string[] {
+        if (!this.names) {
+            const names = this.path.split("/");
+            this.names = this.isAbsolute() ? names.slice(1).filter(name => name.length > 0) : names;
+        }
+        return this.names;
+    }
+
+    public getRoot(): Path | null {
+        return this.isAbsolute() ? this.newPath("/") : null;
+    }
+
+    public getFileName(): Path | null {
+        if (this.isEmpty())
+            return this;
+        if (this.path === "/")
+            return null;
+        return this.newPath(this.path.substring(this.path.lastIndexOf("/") + 1));
+    }
+
+    public getParent(): Path | null {
+        const names = this.getNames();
+        if (this.path === "/" || (!this.isAbsolute() && names.length <= 1))
+            return null;
+        if (this.isAbsolute() && names.length === 1)
+            return this.getRoot();
+        return this.newPath(this.path.substring(0, this.path.lastIndexOf("/")));
+    }
+
+    public getNameCount(): number {
+        return this.getNames().length;
+    }
+
+    public getName(index: number): Path {
+        const names = this.getNames();
+        if (index < 0 || index >= names.length)
+            throw new IllegalArgumentException();
+        return this.newPath(names[index]);
+    }
+
+    public subpath(beginIndex: number, endIndex: number): Path {
+        const names = this.getNames();
+        if (beginIndex < 0 || beginIndex >= names.length || endIndex > names.length || beginIndex >= endIndex)
+            throw new IllegalArgumentException();
+        return this.newPath(names.slice(beginIndex, endIndex).join("/"));
+    }
+
+    public startsWith(other: Path): boolean {
+        if (!(other instanceof UnixPath) || other.fileSystem !== this.fileSystem)
+            return false;
+        if (this.isAbsolute() !== other.isAbsolute())
+            return false;
+        if (other.isEmpty())
+            return this.isEmpty();
+        const names = this.getNames();
+        const otherNames = other.getNames();
+        return otherNames.length <= names.length && otherNames.every((name, i) => name === names[i]);
+    }
+
+    public endWith(other: Path): boolean {
+        if (!(other instanceof UnixPath) || other.fileSystem !== this.fileSystem)
+            return false;
+        if (other.isEmpty())
+            return this.isEmpty();
+        if (other.isAbsolute())
+            return other.path === this.path;
+        const names = this.getNames();
+        const otherNames = other.getNames();
+        const off = names.length - otherNames.length;
+        return off >= 0 && otherNames.every((name, i) => name === names[off + i]);
+    }
+
+    public normalize(): Path {
+        const names: string[] = [];
+        for (let name of this.isEmpty() ? [] : this.getNames()) {
+            if (name === ".")
+                continue;
+            if (name === "..") {
+                if (names.length > 0 && names[names.length - 1] !== "..") {
+                    names.pop();
+                    continue;
+                }
+                if (this.isAbsolute()) {
+                    // never climb above the root
+                    continue;
+                }
+            }
+            names.push(name);
+        }
+        const path = (this.isAbsolute() ? "/" : "") + names.join("/");
+        return path === this.path ? this : this.newPath(path);
+    }
+
+    public resolve(obj: Path): Path {
+        const other = this.checkPath(obj);
+        if (other.isEmpty())
+            return this;
+        if (other.isAbsolute() || this.isEmpty())
+            return other;
+        return this.newPath(this.path + "/" + other.path);
+    }
+
+    public relativize(obj: Path): Path {
+        let child = this.checkPath(obj);
+        if (child.path === this.path)
+            return this.newPath("");
+        if (this.isAbsolute() !== child.isAbsolute())
+            throw new IllegalArgumentException("'other' is different type of Path");
+        if (this.isEmpty())
+            return child;
+        const baseNames = (this.normalize() as UnixPath).getNames().filter(name => name.length > 0);
+        const childNames = (child.normalize() as UnixPath).getNames().filter(name => name.length > 0);
+        let i = 0;
+        while (i < baseNames.length && i < childNames.length && baseNames[i] === childNames[i])
+            i++;
+        // the remainder of base cannot contain ".."
+        if (baseNames.slice(i).includes(".."))
+            throw new IllegalArgumentException("Unable to compute relative path from " + this + " to " + obj);
+        return this.newPath(baseNames.slice(i).map(_ => "..").concat(childNames.slice(i)).join("/"));
+    }
+
+    /* A relative path is resolved against the root, the only working directory of these file systems. */
+    public toAbsolutePath(): Path {
+        return this.isAbsolute() ? this : this.newPath("/" + this.path);
+    }
+
+    public abstract toRealPath(options?: LinkOption[]): Path;
+
+    public abstract toURL(): URL;
+
+    public compareTo(other: Path): number {
+        const otherPath = (other as UnixPath).path;
+        return this.path < otherPath ? -1 : (this.path > otherPath ? 1 : 0);
+    }
+
+    public equals(other: Path | null | undefined): boolean {
+        return other instanceof UnixPath && other.fileSystem === this.fileSystem && other.path === this.path;
+    }
+
+    public toString(): string {
+        return this.path;
+    }
+
+    public [Symbol.iterator](): Iterator<Path> {
+        let i = 0;
+        return {
+            next: (): IteratorResult<Path> => {
+                if (i < this.getNameCount()) {
+                    return {done: false, value: this.getName(i++)};
+                }
+                return {done: true, value: undefined};
+            },
+        };
+    }
+}
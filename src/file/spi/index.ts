@@ -1,4 +1,14 @@
 export * from "./FileSystemProvider";
 export * from "./FileSystemProviders";
+export * from "./FileSystemRegistry";
 export * from "./FileTypeDetector";
 export * from "./FileTypeDetectors";
+export * from "./DefaultFileTypeDetector";
+export * from "./MagicFileTypeDetector";
+export * from "./ServiceLoader";
+export * from "./DynamicFileAttributeView";
+export * from "./DynamicFileAttributeViews";
+export * from "./FileAttributeDispatcher";
+export * from "./PathMatchers";
+export * from "./UnixPath";
+export * from "./SnapshotDirectoryStream";
@@ -0,0 +1,222 @@
+import {FileSystem, Files, FileSystems, Path, Paths} from "../../src/file";
+import {FileTime, PosixFilePermissions} from "../../src/file/attribute";
+import {
+    ArchiveLimitExceededException,
+    FileAlreadyExistsException,
+    UnsafeArchiveEntryException,
+} from "../../src/file/exception";
+import {encodeHeader, TYPE_CHARACTER_DEVICE, TYPE_FILE, TYPE_HARD_LINK, TYPE_SYMBOLIC_LINK} from "../../src/file/fs/tar/TarFormat";
+import {crc32, ZipWriter} from "../../src/file/fs/zip/ZipFormat";
+import {METHOD_DEFLATED} from "../../src/file/fs/zip";
+import {FileSystemProviders} from "../../src/file/spi";
+import {MemoryFileSystemProvider} from "../../src/file/fs/memory";
+import {readString, useTempDirectory} from "./TestSupport";
+import {ReadableStream as WebReadableStream, WritableStream as WebWritableStream} from "stream/web";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as jsPath from "path";
+import * as zlib from "zlib";
+
+FileSystemProviders.addProvider(new MemoryFileSystemProvider());
+
+const MTIME = FileTime.fromMillis(Date.UTC(2021, 5, 1));
+
+interface TestEntry {
+    name: string;
+    type?: string;
+    content?: string | Buffer;
+    linkName?: string;
+    mode?: number;
+}
+
+const tmpDir = useTempDirectory("extract-");
+let memory: FileSystem;
+let target: Path;
+
+beforeEach(() => {
+    memory = FileSystems.newFileSystem(new URL("memory:extract"), new Map<string, any>());
+    target = memory.getPath("/target");
+    Files.createDirectory(target);
+});
+
+afterEach(() => {
+    memory.close();
+});
+
+/* Writes a tar archive with any names and types, which Files.archive does not. */
+function tar(entries: TestEntry[]): Buffer {
+    const blocks: Buffer[] = [];
+    for (const entry of entries) {
+        const content = Buffer.from(entry.content ?? "");
+        blocks.push(Buffer.from(encodeHeader({
+            name: entry.name,
+            type: entry.type ?? TYPE_FILE,
+            mode: entry.mode ?? 0o644,
+            uid: 0,
+            gid: 0,
+            uname: "root",
+            gname: "root",
+            size: content.length,
+            lastModifiedTime: MTIME.toMillis() / 1000,
+            linkName: entry.linkName ?? "",
+        })));
+        blocks.push(content, Buffer.alloc((512 - content.length % 512) % 512));
+    }
+    blocks.push(Buffer.alloc(1024));
+    return Buffer.concat(blocks);
+}
+
+/* Writes a zip archive made on unix, the size of an entry may lie. */
+function zip(entries: (TestEntry & {size?: number})[]): Buffer {
+    const file = jsPath.join(tmpDir(), "test.zip");
+    const fd = fs.openSync(file, "w");
+    try {
+        const writer = new ZipWriter(fd, false);
+        for (const entry of entries) {
+            const content = Buffer.from(entry.content ?? "");
+            const data = zlib.deflateRawSync(content);
+            writer.putEntry({
+                name: entry.name,
+                method: METHOD_DEFLATED,
+                crc: crc32(content),
+                size: entry.size ?? content.length,
+                compressedSize: data.length,
+                dosTime: 0,
+                lastModifiedTime: MTIME.toMillis(),
+                versionMadeBy: (3 << 8) | 20,
+                externalAttributes: ((entry.mode ?? 0o100644) << 16) >>> 0,
+                comment: null,
+            }, data);
+        }
+        writer.finish();
+    } finally {
+        fs.closeSync(fd);
+    }
+    return fs.readFileSync(file);
+}
+
+/* A stream of bytes in small chunks, as read from a network. */
+function stream(bytes: Buffer): ReadableStream {
+    let position = 0;
+    return new WebReadableStream({
+        pull(controller) {
+            if (position >= bytes.length) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(new Uint8Array(bytes.subarray(position, position + 1000)));
+            position += 1000;
+        },
+    }) as ReadableStream;
+}
+
+function at(name: string): Path {
+    return target.resolve(memory.getPath(name));
+}
+
+test("ExtractTar", async () => {
+    const source = memory.getPath("/source");
+    Files.createDirectories(source.resolve(memory.getPath("bin")));
+    const writer = Files.newOutputStream(source.resolve(memory.getPath("bin/run.sh"))).getWriter();
+    await writer.write("#!/bin/sh\n");
+    await writer.close();
+    Files.setPosixFilePermissions(source.resolve(memory.getPath("bin/run.sh")), PosixFilePermissions.fromString("rwxr-x---"));
+    Files.setLastModifiedTime(source.resolve(memory.getPath("bin")), MTIME);
+    Files.createSymbolicLink(source.resolve(memory.getPath("run")), memory.getPath("bin/run.sh"));
+    const chunks: Buffer[] = [];
+    await Files.archive(source, new WebWritableStream({
+        write(chunk) {
+            chunks.push(Buffer.from(chunk));
+        },
+    }) as WritableStream, {gzip: true});
+
+    await Files.extract(stream(Buffer.concat(chunks)), target);
+    expect(await readString(Files.newInputStream(at("bin/run.sh")))).toEqual("#!/bin/sh\n");
+    expect(Files.getPosixFilePermissions(at("bin/run.sh"))).toEqual(PosixFilePermissions.fromString("rwxr-x---"));
+    expect(Files.getLastModifiedTime(at("bin")).toMillis()).toEqual(MTIME.toMillis());
+    expect(Files.readSymbolicLink(at("run")).toString()).toEqual("bin/run.sh");
+    expect(await readString(Files.newInputStream(at("run")))).toEqual("#!/bin/sh\n");
+
+    // the same entries again
+    await expect(Files.extract(stream(Buffer.concat(chunks)), target)).rejects.toThrow(FileAlreadyExistsException);
+    await Files.extract(stream(Buffer.concat(chunks)), target, {replaceExisting: true});
+    expect(await readString(Files.newInputStream(at("run")))).toEqual("#!/bin/sh\n");
+});
+
+test("ExtractZip", async () => {
+    const bytes = zip([
+        {name: "docs/", mode: 0o040750},
+        {name: "docs/readme.txt", content: "read me"},
+        {name: "latest", content: "docs/readme.txt", mode: 0o120777},
+    ]);
+    const local = jsPath.join(tmpDir(), "local.zip");
+    fs.writeFileSync(local, bytes);
+    await Files.extract(Paths.of(local), target);
+    expect(await readString(Files.newInputStream(at("docs/readme.txt")))).toEqual("read me");
+    expect(Files.getPosixFilePermissions(at("docs"))).toEqual(PosixFilePermissions.fromString("rwxr-x---"));
+    expect(Files.readSymbolicLink(at("latest")).toString()).toEqual("docs/readme.txt");
+
+    // a stream is copied to a temporary file
+    const other = memory.getPath("/other");
+    Files.createDirectory(other);
+    await Files.extract(stream(bytes), other);
+    expect(await readString(Files.newInputStream(other.resolve(memory.getPath("docs/readme.txt"))))).toEqual("read me");
+});
+
+test("ExtractPathTraversal", async () => {
+    for (const name of ["../evil.txt", "docs/../../evil.txt", "/evil.txt", "C:/evil.txt"]) {
+        await expect(Files.extract(stream(tar([{name: name, content: "evil"}])), target)).rejects.toThrow(UnsafeArchiveEntryException);
+        await expect(Files.extract(stream(zip([{name: name, content: "evil"}])), target)).rejects.toThrow(UnsafeArchiveEntryException);
+    }
+    expect(Files.exists(memory.getPath("/evil.txt"))).toBeFalsy();
+    expect(Files.list(target)).toEqual([]);
+});
+
+test("ExtractUnsafeLinks", async () => {
+    const unsafe: TestEntry[][] = [
+        [{name: "etc", type: TYPE_SYMBOLIC_LINK, linkName: "../../etc"}],
+        [{name: "etc", type: TYPE_SYMBOLIC_LINK, linkName: "/etc"}],
+        // a link to the target directory, then a link through it
+        [{name: "here", type: TYPE_SYMBOLIC_LINK, linkName: "."}, {name: "up", type: TYPE_SYMBOLIC_LINK, linkName: "here/../x"}],
+        [{name: "up", type: TYPE_SYMBOLIC_LINK, linkName: "here/../x"}, {name: "here", type: TYPE_SYMBOLIC_LINK, linkName: "."}],
+        // a file written through a link
+        [{name: "dir", type: TYPE_SYMBOLIC_LINK, linkName: "sub"}, {name: "dir/file.txt", content: "evil"}],
+        [{name: "passwd", type: TYPE_HARD_LINK, linkName: "../etc/passwd"}],
+        [{name: "passwd", type: TYPE_HARD_LINK, linkName: "missing"}],
+        [{name: "tty", type: TYPE_CHARACTER_DEVICE}],
+    ];
+    for (const entries of unsafe) {
+        await expect(Files.extract(stream(tar(entries)), target)).rejects.toThrow(UnsafeArchiveEntryException);
+    }
+    expect(Files.list(target)).toEqual([]);
+
+    const links = tar([{name: "bin/tool", content: "tool"}, {name: "tool", type: TYPE_HARD_LINK, linkName: "bin/tool"}, {name: "bin/alias", type: TYPE_SYMBOLIC_LINK, linkName: "tool"}]);
+    await expect(Files.extract(stream(links), target, {allowSymbolicLinks: false})).rejects.toThrow(UnsafeArchiveEntryException);
+    await Files.extract(stream(links), target, {replaceExisting: true});
+    expect(await readString(Files.newInputStream(at("tool")))).toEqual("tool");
+    expect(await readString(Files.newInputStream(at("bin/alias")))).toEqual("tool");
+});
+
+test("ExtractLimits", async () => {
+    const entries = tar([{name: "a", content: "a"}, {name: "b", content: "b"}, {name: "c", content: "c"}]);
+    await expect(Files.extract(stream(entries), target, {maxEntries: 2})).rejects.toThrow(ArchiveLimitExceededException);
+    const zipEntries = zip([{name: "a"}, {name: "b"}, {name: "c"}]);
+    await expect(Files.extract(stream(zipEntries), memory.getPath("/"), {maxEntries: 2})).rejects.toThrow(ArchiveLimitExceededException);
+    expect(Files.exists(memory.getPath("/a"))).toBeFalsy();
+
+    // a gzip bomb, the size is checked as the content is written
+    const bomb = zlib.gzipSync(tar([{name: "zeros", content: Buffer.alloc(4 * 1024 * 1024)}]));
+    expect(bomb.length).toBeLessThan(10000);
+    await expect(Files.extract(stream(bomb), target, {maxTotalSize: 1024 * 1024})).rejects.toThrow(ArchiveLimitExceededException);
+    // a zip entry larger than its declared size
+    const liar = zip([{name: "zeros", content: Buffer.alloc(4 * 1024 * 1024), size: 10}]);
+    await expect(Files.extract(stream(liar), target, {maxEntrySize: 1024 * 1024})).rejects.toThrow(ArchiveLimitExceededException);
+    expect(Files.exists(at("zeros"))).toBeFalsy();
+    // a zip stream is copied to a temporary file up to the maximum archive size
+    const stored = zip([{name: "a", content: crypto.randomBytes(8000)}, {name: "b", content: "b"}]);
+    await expect(Files.extract(stream(stored), target, {maxArchiveSize: 4000})).rejects.toThrow(ArchiveLimitExceededException);
+    await expect(Files.extract(stream(stored), target, {maxTotalSize: 4000})).rejects.toThrow("Archive larger than 4000 bytes");
+
+    await Files.extract(stream(bomb), target, {maxTotalSize: 8 * 1024 * 1024});
+    expect(Files.size(at("zeros"))).toEqual(BigInt(4 * 1024 * 1024));
+});
@@ -0,0 +1,95 @@
+import {FileSystems, Paths} from "../../src/file";
+import {FileSystemProviders, FileSystemRegistry} from "../../src/file/spi";
+import {FileSystemAlreadyExistsException, FileSystemNotFoundException, ProviderNotFoundException} from "../../src/file/exception";
+import {UnsupportedOperationException} from "../../src/exception";
+
+/* A provider of file systems named after the host of their URL, or after the archives they open. */
+function fakeProvider(scheme: string, extension: string) {
+    const registry = new FileSystemRegistry<any>();
+    const newFileSystem = (key: string, env: Map<string, any>) => {
+        const fileSystem: any = {
+            key: key,
+            env: env,
+            open: true,
+            provider: () => provider,
+            isOpen: () => fileSystem.open,
+            close: () => {
+                fileSystem.open = false;
+                registry.deregister(key, fileSystem);
+            },
+        };
+        return registry.register(key, fileSystem);
+    };
+    const provider: any = {
+        registry: registry,
+        getScheme: () => scheme,
+        getFileSystem: (url: URL) => registry.get(url.host),
+        newFileSystemFromUrl: (url: URL, env: Map<string, any>) => newFileSystem(url.host, env),
+        newFileSystemFromPath: (path: any, env: Map<string, any>) => {
+            if (!path.toString().endsWith(extension))
+                throw new UnsupportedOperationException();
+            return newFileSystem(path.toString(), env);
+        },
+    };
+    return provider;
+}
+
+const fake = fakeProvider("fake", ".fake");
+const archive = fakeProvider("archive", ".arc");
+FileSystemProviders.addProvider(fake);
+FileSystemProviders.addProvider(archive);
+
+test("NewFileSystemFromUrl", () => {
+    const env = new Map<string, any>([["create", true]]);
+    const fileSystem: any = FileSystems.newFileSystem(new URL("fake://one/"), env);
+    expect(fileSystem.env).toBe(env);
+    expect(FileSystems.getFileSystem(new URL("FAKE://one/dir/file"))).toBe(fileSystem);
+    expect(() => FileSystems.newFileSystem(new URL("fake://one/"), new Map())).toThrow(FileSystemAlreadyExistsException);
+    expect(() => FileSystems.getFileSystem(new URL("fake://two/"))).toThrow(FileSystemNotFoundException);
+
+    fileSystem.close();
+    expect(fileSystem.isOpen()).toBeFalsy();
+    expect(() => FileSystems.getFileSystem(new URL("fake://one/"))).toThrow(FileSystemNotFoundException);
+    // a closed file system can be created again
+    const reopened = FileSystems.newFileSystem(new URL("fake://one/"), new Map());
+    expect(reopened).not.toBe(fileSystem);
+    // closing the old instance again does not deregister the new one
+    fileSystem.close();
+    expect(FileSystems.getFileSystem(new URL("fake://one/"))).toBe(reopened);
+    reopened.close();
+});
+
+test("NewFileSystemFromPath", () => {
+    const fileSystem: any = FileSystems.newFileSystem(Paths.of("/tmp/data.arc"));
+    expect(fileSystem.provider()).toBe(archive);
+    expect(fileSystem.env.size).toEqual(0);
+    const other: any = FileSystems.newFileSystem(Paths.of("/tmp/data.fake"), new Map([["k", "v"]]));
+    expect(other.provider()).toBe(fake);
+    expect(other.env.get("k")).toEqual("v");
+    expect(() => FileSystems.newFileSystem(Paths.of("/tmp/data.arc"))).toThrow(FileSystemAlreadyExistsException);
+    expect(() => FileSystems.newFileSystem(Paths.of("/tmp/data.txt"))).toThrow(ProviderNotFoundException);
+    fileSystem.close();
+    other.close();
+    expect(archive.registry.getFileSystems()).toEqual([]);
+});
+
+test("UnknownScheme", () => {
+    expect(() => FileSystems.newFileSystem(new URL("unknown://host/"), new Map())).toThrow(ProviderNotFoundException);
+    expect(() => FileSystems.getFileSystem(new URL("unknown://host/"))).toThrow(ProviderNotFoundException);
+});
+
+test("DefaultFileSystem", () => {
+    expect(FileSystems.getFileSystem(new URL("file:///"))).toBe(FileSystems.getDefault());
+    expect(() => FileSystems.newFileSystem(new URL("file:///"), new Map())).toThrow(FileSystemAlreadyExistsException);
+});
+
+test("MissingDefaultProvider", () => {
+    for (const provider of [null, {getScheme: () => "file"}]) {
+        jest.isolateModules(() => {
+            const {FileSystemProviders} = require("../../src/file/spi");
+            const {ProviderNotFoundException} = require("../../src/file/exception");
+            jest.spyOn(FileSystemProviders, "getProvider").mockReturnValue(provider);
+            expect(() => require("../../src/file/FileSystems")).toThrow(ProviderNotFoundException);
+        });
+    }
+});
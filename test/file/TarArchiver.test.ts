@@ -0,0 +1,186 @@
+import {FileSystem, Files, FileSystems, LinkOption, Path, Paths} from "../../src/file";
+import {FileTime, PosixFilePermissions} from "../../src/file/attribute";
+import {TarFileAttributes, TarFileSystemProvider} from "../../src/file/fs/tar";
+import {FileSystemProviders} from "../../src/file/spi";
+import {MemoryFileSystemProvider} from "../../src/file/fs/memory";
+import {readString, useTempDirectory} from "./TestSupport";
+import {WritableStream as WebWritableStream} from "stream/web";
+import * as fs from "fs";
+import * as jsPath from "path";
+import * as zlib from "zlib";
+
+FileSystemProviders.addProvider(new MemoryFileSystemProvider());
+FileSystemProviders.addProvider(new TarFileSystemProvider());
+
+const MTIME = FileTime.fromMillis(Date.UTC(2021, 5, 1));
+
+const tmpDir = useTempDirectory("tar-archive-");
+let memory: FileSystem;
+
+beforeEach(() => {
+    memory = FileSystems.newFileSystem(new URL("memory:archive"), new Map<string, any>([["owner", "alice"], ["group", "staff"]]));
+});
+
+afterEach(() => {
+    memory.close();
+});
+
+async function write(path: Path, content: string): Promise<void> {
+    const writer = Files.newOutputStream(path).getWriter();
+    await writer.write(content);
+    await writer.close();
+    Files.setLastModifiedTime(path, MTIME);
+}
+
+async function archive(start: Path, options?: object): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    const stream = new WebWritableStream({
+        write(chunk) {
+            chunks.push(Buffer.from(chunk));
+        },
+    });
+    await Files.archive(start, stream, options);
+    return Buffer.concat(chunks);
+}
+
+/* Opens an archive with the tar provider. */
+function open(bytes: Buffer, name: string = "archive.tar"): FileSystem {
+    const file = jsPath.join(tmpDir(), name);
+    fs.writeFileSync(file, bytes);
+    return FileSystems.newFileSystem(Paths.of(file), new Map<string, any>());
+}
+
+async function createTree(root: Path, reversed: boolean = false): Promise<void> {
+    const steps = [
+        async () => {
+            Files.createDirectories(root.resolve(memory.getPath("src/lib")));
+            await write(root.resolve(memory.getPath("src/lib/util.ts")), "export {}");
+            Files.setPosixFilePermissions(root.resolve(memory.getPath("src/lib")), PosixFilePermissions.fromString("rwxr-x---"));
+        },
+        async () => {
+            await write(root.resolve(memory.getPath("run.sh")), "#!/bin/sh\n");
+            Files.setPosixFilePermissions(root.resolve(memory.getPath("run.sh")), PosixFilePermissions.fromString("rwxr-xr-x"));
+        },
+        async () => {
+            Files.createDirectories(root.resolve(memory.getPath("build")));
+            await write(root.resolve(memory.getPath("build/out.js")), "compiled");
+        },
+        async () => {
+            Files.createSymbolicLink(root.resolve(memory.getPath("latest")), memory.getPath("src/lib/util.ts"));
+        },
+    ];
+    Files.createDirectories(root);
+    for (const step of reversed ? steps.reverse() : steps) {
+        await step();
+    }
+}
+
+test("ArchiveTree", async () => {
+    const root = memory.getPath("/project");
+    await createTree(root);
+    const tarfs = open(await archive(root));
+    try {
+        expect(Files.walk(tarfs.getPath("/")).map(path => path.toString()).sort()).toEqual([
+            "/", "/build", "/build/out.js", "/latest", "/run.sh", "/src", "/src/lib", "/src/lib/util.ts",
+        ]);
+        expect(await readString(Files.newInputStream(tarfs.getPath("/src/lib/util.ts")))).toEqual("export {}");
+        const script = Files.readAttributesByType(tarfs.getPath("/run.sh"), "posix") as TarFileAttributes;
+        expect(script.mode()).toEqual(0o755);
+        expect(script.owner().getName()).toEqual("alice");
+        expect(script.group().getName()).toEqual("staff");
+        expect(script.lastModifiedTime().toMillis()).toEqual(MTIME.toMillis());
+        expect(Files.getPosixFilePermissions(tarfs.getPath("/src/lib"))).toEqual(PosixFilePermissions.fromString("rwxr-x---"));
+        expect(Files.isSymbolicLink(tarfs.getPath("/latest"))).toBeTruthy();
+        expect(Files.readSymbolicLink(tarfs.getPath("/latest")).toString()).toEqual("src/lib/util.ts");
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("ArchiveReproducible", async () => {
+    await createTree(memory.getPath("/first"));
+    await createTree(memory.getPath("/second"), true);
+    const options = {gzip: true, mtime: FileTime.fromMillis(0), uid: 0, gid: 0, uname: "root", gname: "root"};
+    const first = await archive(memory.getPath("/first"), options);
+    const second = await archive(memory.getPath("/second"), options);
+    expect(first.equals(second)).toBeTruthy();
+    expect(zlib.gunzipSync(first).length % 10240).toEqual(0);
+
+    const tarfs = open(first, "archive.tgz");
+    try {
+        const attrs = Files.readAttributesByType(tarfs.getPath("/build/out.js"), "posix", [LinkOption.NOFOLLOW_LINKS]) as TarFileAttributes;
+        expect(attrs.owner().getName()).toEqual("root");
+        expect(attrs.lastModifiedTime().toMillis()).toEqual(0);
+        expect(await readString(Files.newInputStream(tarfs.getPath("/build/out.js")))).toEqual("compiled");
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("ArchiveFilters", async () => {
+    const root = memory.getPath("/project");
+    await createTree(root);
+    let tarfs = open(await archive(root, {exclude: ["build", "*.sh"], prefix: "package"}));
+    try {
+        expect(Files.walk(tarfs.getPath("/")).map(path => path.toString()).sort()).toEqual([
+            "/", "/package", "/package/latest", "/package/src", "/package/src/lib", "/package/src/lib/util.ts",
+        ]);
+    } finally {
+        tarfs.close();
+    }
+    tarfs = open(await archive(root, {include: ["**.{ts,js}"], followLinks: true}));
+    try {
+        expect(Files.walk(tarfs.getPath("/")).map(path => path.toString()).sort()).toEqual([
+            "/", "/build", "/build/out.js", "/src", "/src/lib", "/src/lib/util.ts",
+        ]);
+        // the directories of the entries have no header
+        expect((Files.readAttributesByType(tarfs.getPath("/src/lib"), "posix") as TarFileAttributes).mode()).toEqual(0o755);
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("ArchiveLongNames", async () => {
+    const dir = memory.getPath("/long/" + "d".repeat(80) + "/" + "é".repeat(30));
+    Files.createDirectories(dir);
+    const file = dir.resolve(memory.getPath("f".repeat(120) + ".txt"));
+    await write(file, "deep");
+    Files.createDirectories(memory.getPath("/long/" + "a".repeat(60)));
+    await write(memory.getPath("/long/" + "a".repeat(60) + "/" + "b".repeat(90)), "split");
+    const tarfs = open(await archive(memory.getPath("/long")));
+    try {
+        const relative = memory.getPath("/long").relativize(file).toString();
+        expect(await readString(Files.newInputStream(tarfs.getPath("/" + relative)))).toEqual("deep");
+        expect(await readString(Files.newInputStream(tarfs.getPath("/" + "a".repeat(60) + "/" + "b".repeat(90))))).toEqual("split");
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("ArchiveSingleFile", async () => {
+    const local = Paths.of(jsPath.join(tmpDir(), "notes.txt"));
+    fs.writeFileSync(local.toString(), "local file");
+    fs.chmodSync(local.toString(), 0o600);
+    const tarfs = open(await archive(local, {gzip: true}), "single.tar.gz");
+    try {
+        expect(Files.list(tarfs.getPath("/")).map(path => path.toString())).toEqual(["/notes.txt"]);
+        expect(await readString(Files.newInputStream(tarfs.getPath("/notes.txt")))).toEqual("local file");
+        expect((Files.readAttributesByType(tarfs.getPath("/notes.txt"), "posix") as TarFileAttributes).mode()).toEqual(0o600);
+        expect(Files.getOwner(tarfs.getPath("/notes.txt")).getName()).toEqual(Files.getOwner(local).getName());
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("ArchiveFailingStream", async () => {
+    const root = memory.getPath("/project");
+    await createTree(root);
+    for (const gzip of [false, true]) {
+        const stream = new WebWritableStream({
+            write() {
+                return Promise.reject(new Error("disk full"));
+            },
+        });
+        await expect(Files.archive(root, stream, {gzip: gzip})).rejects.toThrow("disk full");
+    }
+});
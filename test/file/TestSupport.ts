@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+
+/**
+ * Reads a stream to its end.
+ * @param {ReadableStream} stream - the stream to read
+ * @returns the bytes of the stream
+ */
+export async function readBytes(stream: ReadableStream): Promise<Buffer> {
+    const reader = stream.getReader();
+    const chunks: Buffer[] = [];
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(Buffer.from(result.value));
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Reads a stream to its end and decodes it as UTF-8.
+ * @param {ReadableStream} stream - the stream to read
+ * @returns the text of the stream
+ */
+export async function readString(stream: ReadableStream): Promise<string> {
+    return (await readBytes(stream)).toString("utf8");
+}
+
+/**
+ * Creates a temporary directory before each test of the file and deletes it after.
+ * The directory is created before the hooks registered after this call run.
+ * @param {string} prefix - the prefix of the directory name
+ * @returns a function returning the real path of the directory of the current test
+ */
+export function useTempDirectory(prefix: string): () => string {
+    let dir: string;
+    beforeEach(() => {
+        dir = fs.realpathSync(fs.mkdtempSync(jsPath.join(os.tmpdir(), prefix)));
+    });
+    afterEach(() => {
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+    return () => dir;
+}
@@ -0,0 +1,48 @@
+import {ChronoUnit, Instant} from "@js-joda/core";
+import {FileTime} from "../../../src/file/attribute";
+import {IllegalArgumentException} from "../../../src/exception";
+
+test("FileTimeUnits", () => {
+    const time = FileTime.from(90, ChronoUnit.MINUTES);
+    expect(time.to(ChronoUnit.HOURS)).toEqual(BigInt(1));
+    expect(time.to(ChronoUnit.SECONDS)).toEqual(BigInt(5400));
+    expect(time.toMillis()).toEqual(5400000);
+    expect(FileTime.from(BigInt(1), ChronoUnit.DAYS).equals(FileTime.from(24, ChronoUnit.HOURS))).toBeTruthy();
+    expect(FileTime.fromMillis(-1500).to(ChronoUnit.SECONDS)).toEqual(BigInt(-1));
+    expect(() => FileTime.from(1, ChronoUnit.WEEKS)).toThrow(IllegalArgumentException);
+});
+
+test("FileTimeNanosPrecision", () => {
+    // more digits than a double can hold
+    const nanos = BigInt("1700000000123456789");
+    const time = FileTime.fromNanos(nanos);
+    expect(time.toNanos()).toEqual(nanos);
+    expect(time.to(ChronoUnit.MICROS)).toEqual(BigInt("1700000000123456"));
+    expect(time.toInstant().nano()).toEqual(123456789);
+});
+
+test("FileTimeInstant", () => {
+    const instant = Instant.parse("2021-03-04T05:06:07.000000008Z");
+    const time = FileTime.fromInstant(instant);
+    expect(time.toInstant().equals(instant)).toBeTruthy();
+    expect(FileTime.fromMillis(-1).toInstant().equals(Instant.ofEpochMilli(-1))).toBeTruthy();
+    expect(FileTime.from(BigInt("999999999999999999"), ChronoUnit.DAYS).toInstant()).toBe(Instant.MAX);
+});
+
+test("FileTimeCompare", () => {
+    const earlier = FileTime.fromMillis(1000);
+    const later = FileTime.fromNanos(BigInt(1000000001));
+    expect(earlier.compareTo(later)).toBeLessThan(0);
+    expect(later.compareTo(earlier)).toBeGreaterThan(0);
+    expect(earlier.compareTo(FileTime.from(1, ChronoUnit.SECONDS))).toEqual(0);
+    expect(earlier.equals(FileTime.from(1, ChronoUnit.SECONDS))).toBeTruthy();
+    expect(earlier.equals(later)).toBeFalsy();
+    expect(earlier.equals(1000)).toBeFalsy();
+});
+
+test("FileTimeToString", () => {
+    expect(FileTime.fromMillis(0).toString()).toEqual("1970-01-01T00:00:00Z");
+    expect(FileTime.fromInstant(Instant.parse("2021-03-04T05:06:07.120Z")).toString()).toEqual("2021-03-04T05:06:07.12Z");
+    expect(FileTime.fromNanos(BigInt(1)).toString()).toEqual("1970-01-01T00:00:00.000000001Z");
+    expect(FileTime.fromMillis(-1).toString()).toEqual("1969-12-31T23:59:59.999Z");
+});
@@ -0,0 +1,22 @@
+import {PosixFilePermission, PosixFilePermissions} from "../../../src/file/attribute";
+import {IllegalArgumentException} from "../../../src/exception";
+
+test("PosixFilePermissionsFromString", () => {
+    const perms = PosixFilePermissions.fromString("rwxr-x---");
+    expect([...perms].sort()).toEqual([
+        PosixFilePermission.GROUP_EXECUTE,
+        PosixFilePermission.GROUP_READ,
+        PosixFilePermission.OWNER_EXECUTE,
+        PosixFilePermission.OWNER_READ,
+        PosixFilePermission.OWNER_WRITE,
+    ]);
+    expect(PosixFilePermissions.toString(perms)).toEqual("rwxr-x---");
+    expect(() => PosixFilePermissions.fromString("rwx")).toThrow(IllegalArgumentException);
+    expect(() => PosixFilePermissions.fromString("xwrr-x---")).toThrow(IllegalArgumentException);
+});
+
+test("PosixFilePermissionsAsFileAttribute", () => {
+    const attr = PosixFilePermissions.asFileAttribute(new Set([PosixFilePermission.OWNER_READ]));
+    expect(attr.name()).toEqual("posix:permissions");
+    expect(attr.value()).toEqual(new Set([PosixFilePermission.OWNER_READ]));
+});
@@ -0,0 +1,117 @@
+import {Files, LinkOption, Paths, StandardCopyOption} from "../../../../src/file";
+import {
+    AtomicMoveNotSupportedException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    NoSuchFileException,
+} from "../../../../src/file/exception";
+import {UnsupportedOperationException} from "../../../../src/exception";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+// simulates a target on another device when set
+const mockRenameOptions = {crossDevice: false};
+
+jest.mock("fs", () => {
+    const actual = jest.requireActual("fs");
+    return {
+        ...actual,
+        renameSync: (oldPath: string, newPath: string) => {
+            if (mockRenameOptions.crossDevice) {
+                throw Object.assign(new Error("EXDEV: cross-device link not permitted"), {code: "EXDEV"});
+            }
+            actual.renameSync(oldPath, newPath);
+        },
+    };
+});
+
+const tmpDir = useTempDirectory("local-copy-");
+
+function file(name: string): string {
+    return jsPath.join(tmpDir(), name);
+}
+
+beforeEach(() => {
+    fs.writeFileSync(file("source.txt"), "content");
+});
+
+afterEach(() => {
+    mockRenameOptions.crossDevice = false;
+});
+
+test("LocalCopy", async () => {
+    await Files.copy(Paths.of(file("source.txt")), Paths.of(file("target.txt")));
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("content");
+    await expect(Files.copy(Paths.of(file("source.txt")), Paths.of(file("target.txt")))).rejects.toThrow(FileAlreadyExistsException);
+    await expect(Files.copy(Paths.of(file("missing.txt")), Paths.of(file("other.txt")))).rejects.toThrow(NoSuchFileException);
+    await expect(Files.copy(Paths.of(file("source.txt")), Paths.of(file("other.txt")), [StandardCopyOption.ATOMIC_MOVE]))
+        .rejects.toThrow(UnsupportedOperationException);
+});
+
+test("LocalCopyReplaceExisting", async () => {
+    fs.writeFileSync(file("target.txt"), "old");
+    await Files.copy(Paths.of(file("source.txt")), Paths.of(file("target.txt")), [StandardCopyOption.REPLACE_EXISTING]);
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("content");
+});
+
+test("LocalCopyAttributes", async () => {
+    fs.chmodSync(file("source.txt"), 0o640);
+    const time = new Date(2020, 1, 1);
+    fs.utimesSync(file("source.txt"), time, time);
+    await Files.copy(Paths.of(file("source.txt")), Paths.of(file("target.txt")), [StandardCopyOption.COPY_ATTRIBUTES]);
+    const stats = fs.statSync(file("target.txt"));
+    expect(stats.mode & 0o777).toEqual(0o640);
+    expect(stats.mtime.getTime()).toEqual(time.getTime());
+});
+
+test("LocalCopySymbolicLink", async () => {
+    fs.symlinkSync("source.txt", file("link"));
+    await Files.copy(Paths.of(file("link")), Paths.of(file("copy")), [LinkOption.NOFOLLOW_LINKS]);
+    expect(fs.readlinkSync(file("copy"))).toEqual("source.txt");
+    await Files.copy(Paths.of(file("link")), Paths.of(file("followed")));
+    expect(fs.lstatSync(file("followed")).isFile()).toBeTruthy();
+});
+
+test("LocalCopyDirectory", async () => {
+    fs.mkdirSync(file("dir"));
+    fs.writeFileSync(file("dir/entry"), "entry");
+    await Files.copy(Paths.of(file("dir")), Paths.of(file("copy")));
+    expect(fs.statSync(file("copy")).isDirectory()).toBeTruthy();
+    expect(fs.readdirSync(file("copy"))).toEqual([]);
+});
+
+test("LocalMove", async () => {
+    await Files.move(Paths.of(file("source.txt")), Paths.of(file("target.txt")));
+    expect(fs.existsSync(file("source.txt"))).toBeFalsy();
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("content");
+
+    fs.writeFileSync(file("source.txt"), "new");
+    await expect(Files.move(Paths.of(file("source.txt")), Paths.of(file("target.txt")))).rejects.toThrow(FileAlreadyExistsException);
+    await Files.move(Paths.of(file("source.txt")), Paths.of(file("target.txt")), [StandardCopyOption.REPLACE_EXISTING]);
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("new");
+});
+
+test("LocalMoveAtomic", async () => {
+    await Files.move(Paths.of(file("source.txt")), Paths.of(file("target.txt")), [StandardCopyOption.ATOMIC_MOVE]);
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("content");
+});
+
+test("LocalMoveAcrossDevices", async () => {
+    const time = new Date(2020, 1, 1);
+    fs.utimesSync(file("source.txt"), time, time);
+    mockRenameOptions.crossDevice = true;
+    await Files.move(Paths.of(file("source.txt")), Paths.of(file("target.txt")));
+    expect(fs.existsSync(file("source.txt"))).toBeFalsy();
+    expect(fs.readFileSync(file("target.txt"), "utf8")).toEqual("content");
+    expect(fs.statSync(file("target.txt")).mtime.getTime()).toEqual(time.getTime());
+
+    await expect(Files.move(Paths.of(file("target.txt")), Paths.of(file("other.txt")), [StandardCopyOption.ATOMIC_MOVE]))
+        .rejects.toThrow(AtomicMoveNotSupportedException);
+    expect(fs.existsSync(file("target.txt"))).toBeTruthy();
+
+    fs.mkdirSync(file("dir"));
+    fs.writeFileSync(file("dir/entry"), "entry");
+    await expect(Files.move(Paths.of(file("dir")), Paths.of(file("moved")))).rejects.toThrow(DirectoryNotEmptyException);
+    expect(fs.existsSync(file("dir/entry"))).toBeTruthy();
+});
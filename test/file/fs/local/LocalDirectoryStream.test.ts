@@ -0,0 +1,68 @@
+import {Files, Path, Paths} from "../../../../src/file";
+import {NoSuchFileException} from "../../../../src/file/exception";
+import {IllegalStateException} from "../../../../src/exception";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const tmpDir = useTempDirectory("local-dirstream-");
+
+beforeEach(() => {
+    for (const name of ["a.txt", "b.txt", "c.md"]) {
+        fs.writeFileSync(jsPath.join(tmpDir(), name), name);
+    }
+    fs.mkdirSync(jsPath.join(tmpDir(), "sub"));
+});
+
+function names(paths: Iterable<Path>): string[] {
+    return [...paths].map(p => p.getFileName()?.toString() as string).sort();
+}
+
+test("LocalDirectoryStreamList", () => {
+    const ds = Files.newDirectoryStream(Paths.of(tmpDir()));
+    try {
+        expect(names(ds)).toEqual(["a.txt", "b.txt", "c.md", "sub"]);
+    } finally {
+        ds.close();
+    }
+    expect(names(Files.list(Paths.of(tmpDir())))).toEqual(["a.txt", "b.txt", "c.md", "sub"]);
+});
+
+test("LocalDirectoryStreamEntriesAreChildren", () => {
+    for (const path of Files.list(Paths.of(tmpDir()))) {
+        expect(path.getParent()?.toString()).toEqual(tmpDir());
+    }
+});
+
+test("LocalDirectoryStreamFiltered", () => {
+    const ds = Files.newDirectoryStreamFiltered(Paths.of(tmpDir()), path => path.toString().endsWith(".txt"));
+    try {
+        expect(names(ds)).toEqual(["a.txt", "b.txt"]);
+    } finally {
+        ds.close();
+    }
+});
+
+test("LocalDirectoryStreamSingleIterator", () => {
+    const ds = Files.newDirectoryStream(Paths.of(tmpDir()));
+    ds[Symbol.iterator]();
+    expect(() => ds[Symbol.iterator]()).toThrow(IllegalStateException);
+    ds.close();
+    ds.close();
+});
+
+test("LocalDirectoryStreamClosed", () => {
+    const ds = Files.newDirectoryStream(Paths.of(tmpDir()));
+    const iterator = ds[Symbol.iterator]();
+    expect(iterator.next().done).toBeFalsy();
+    ds.close();
+    expect(iterator.next().done).toBeTruthy();
+
+    const closed = Files.newDirectoryStream(Paths.of(tmpDir()));
+    closed.close();
+    expect(() => closed[Symbol.iterator]()).toThrow(IllegalStateException);
+});
+
+test("LocalDirectoryStreamNoSuchDirectory", () => {
+    expect(() => Files.newDirectoryStream(Paths.of(jsPath.join(tmpDir(), "missing")))).toThrow(NoSuchFileException);
+});
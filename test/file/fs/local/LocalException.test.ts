@@ -0,0 +1,34 @@
+import {
+    AccessDeniedException,
+    DirectoryNotEmptyException,
+    FileSystemException,
+    NoSuchFileException,
+    NotDirectoryException,
+    ReadOnlyFileSystemException,
+} from "../../../../src/file/exception";
+import {translateToIOException} from "../../../../src/file/spi/ErrnoExceptions";
+
+function errno(code: string): NodeJS.ErrnoException {
+    const err: NodeJS.ErrnoException = new Error(code + ": failure");
+    err.code = code;
+    return err;
+}
+
+test("TranslateErrno", () => {
+    expect(translateToIOException(errno("ENOENT"), "/a")).toBeInstanceOf(NoSuchFileException);
+    expect(translateToIOException(errno("EPERM"), "/a")).toBeInstanceOf(AccessDeniedException);
+    expect(translateToIOException(errno("ENOTEMPTY"), "/a")).toBeInstanceOf(DirectoryNotEmptyException);
+    expect(translateToIOException(errno("ENOTDIR"), "/a")).toBeInstanceOf(NotDirectoryException);
+    const readOnly = translateToIOException(errno("EROFS"), "/a", "/b") as ReadOnlyFileSystemException;
+    expect(readOnly).toBeInstanceOf(ReadOnlyFileSystemException);
+    expect(readOnly.getFile()).toEqual("/a");
+    expect(readOnly.getOther()).toEqual("/b");
+    const crossDevice = translateToIOException(errno("EXDEV"), "/a", "/b") as FileSystemException;
+    expect(crossDevice.getReason()).toEqual("Invalid cross-device link");
+    expect((translateToIOException(errno("EWHATEVER"), "/a") as FileSystemException).getReason()).toEqual("EWHATEVER: failure");
+});
+
+test("TranslateOtherErrors", () => {
+    const err = new TypeError("not an errno");
+    expect(translateToIOException(err, "/a")).toBe(err);
+});
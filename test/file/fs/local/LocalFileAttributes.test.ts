@@ -0,0 +1,104 @@
+import {Files, LinkOption, Paths} from "../../../../src/file";
+import {
+    BasicFileAttributeView,
+    FileTime,
+    PosixFileAttributes,
+    PosixFileAttributeView,
+    PosixFilePermissions,
+} from "../../../../src/file/attribute";
+import {NoSuchFileException} from "../../../../src/file/exception";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+
+const tmpDir = useTempDirectory("local-attributes-");
+let file: string;
+
+beforeEach(() => {
+    file = jsPath.join(tmpDir(), "file.txt");
+    fs.writeFileSync(file, "0123456789");
+    fs.symlinkSync("file.txt", jsPath.join(tmpDir(), "link"));
+});
+
+test("LocalBasicFileAttributes", () => {
+    const attrs = Files.readAttributesByType(Paths.of(file));
+    expect(attrs.isRegularFile()).toBeTruthy();
+    expect(attrs.isDirectory()).toBeFalsy();
+    expect(attrs.isSymbolicLink()).toBeFalsy();
+    expect(attrs.isOther()).toBeFalsy();
+    expect(attrs.size()).toEqual(BigInt(10));
+    expect(Files.size(Paths.of(file))).toEqual(BigInt(10));
+    expect(attrs.lastModifiedTime().toMillis()).toEqual(Math.trunc(fs.statSync(file).mtimeMs));
+    expect(Files.isDirectory(Paths.of(tmpDir()))).toBeTruthy();
+    expect(Files.isRegularFile(Paths.of(tmpDir()))).toBeFalsy();
+    expect(() => Files.readAttributesByType(Paths.of(jsPath.join(tmpDir(), "missing")))).toThrow(NoSuchFileException);
+});
+
+test("LocalBasicFileAttributesNoFollowLinks", () => {
+    const link = Paths.of(jsPath.join(tmpDir(), "link"));
+    expect(Files.readAttributesByType(link).isRegularFile()).toBeTruthy();
+    expect(Files.readAttributesByType(link, "BasicFileAttributes", [LinkOption.NOFOLLOW_LINKS]).isSymbolicLink()).toBeTruthy();
+    expect(Files.isSymbolicLink(link)).toBeTruthy();
+    expect(Files.isSymbolicLink(Paths.of(file))).toBeFalsy();
+});
+
+test("LocalPosixFileAttributes", () => {
+    fs.chmodSync(file, 0o640);
+    const attrs = Files.readAttributesByType(Paths.of(file), "PosixFileAttributes") as PosixFileAttributes;
+    expect(PosixFilePermissions.toString(attrs.permissions())).toEqual("rw-r-----");
+    expect(PosixFilePermissions.toString(Files.getPosixFilePermissions(Paths.of(file)))).toEqual("rw-r-----");
+    expect(attrs.owner().equals(Files.getOwner(Paths.of(file)))).toBeTruthy();
+    expect(attrs.owner().getName()).toEqual(os.userInfo().username);
+});
+
+test("LocalSetPermissions", () => {
+    Files.setPosixFilePermissions(Paths.of(file), PosixFilePermissions.fromString("r--------"));
+    expect(fs.statSync(file).mode & 0o777).toEqual(0o400);
+});
+
+test("LocalSetTimes", () => {
+    const time = FileTime.fromMillis(Date.UTC(2021, 5, 3, 10, 20, 30, 400));
+    Files.setLastModifiedTime(Paths.of(file), time);
+    expect(Files.getLastModifiedTime(Paths.of(file)).toMillis()).toEqual(time.toMillis());
+
+    const view = Files.getFileAttributeView(Paths.of(file), "BasicFileAttributeView") as BasicFileAttributeView;
+    view.setTimes(undefined, time);
+    expect(view.readAttributes().lastAccessTime().toMillis()).toEqual(time.toMillis());
+});
+
+test("LocalSetOwnerAndGroup", () => {
+    const view = Files.getFileAttributeView(Paths.of(file), "PosixFileAttributeView") as PosixFileAttributeView;
+    const attrs = view.readAttributes();
+    // giving the file to its current owner and group is always allowed
+    view.setOwner(attrs.owner());
+    view.setGroup(attrs.group());
+    expect(view.readAttributes().owner().equals(attrs.owner())).toBeTruthy();
+    expect(view.readAttributes().group().equals(attrs.group())).toBeTruthy();
+});
+
+test("LocalUnsupportedAttributeView", () => {
+    expect(Files.getFileAttributeView(Paths.of(file), "AclFileAttributeView")).toBeNull();
+});
+
+test("LocalReadAttributesByName", () => {
+    fs.chmodSync(file, 0o640);
+    const posix = Files.readAttributes(Paths.of(file), "posix:permissions,owner");
+    expect([...posix.keys()]).toEqual(["permissions", "owner"]);
+    expect(PosixFilePermissions.toString(posix.get("permissions"))).toEqual("rw-r-----");
+    expect(Files.getAttribute(Paths.of(file), "size")).toEqual(BigInt(10));
+    expect(Files.getAttribute(Paths.of(file), "unix:mode") & 0o777).toEqual(0o640);
+    expect(Files.getAttribute(Paths.of(file), "unix:ino")).toEqual(fs.statSync(file, {bigint: true}).ino);
+    expect(Files.readAttributes(Paths.of(file), "unix:*").get("nlink")).toEqual(1);
+    expect(Files.getAttribute(Paths.of(file), "owner:owner").getName()).toEqual(os.userInfo().username);
+});
+
+test("LocalSetAttributeByName", () => {
+    Files.setAttribute(Paths.of(file), "posix:permissions", PosixFilePermissions.fromString("rwx------"));
+    expect(fs.statSync(file).mode & 0o777).toEqual(0o700);
+    Files.setAttribute(Paths.of(file), "unix:mode", 0o604);
+    expect(fs.statSync(file).mode & 0o777).toEqual(0o604);
+    const time = FileTime.fromMillis(Date.UTC(2020, 0, 1));
+    Files.setAttribute(Paths.of(file), "lastModifiedTime", time);
+    expect(fs.statSync(file).mtime.getTime()).toEqual(time.toMillis());
+});
@@ -0,0 +1,37 @@
+import {Files, FileSystems, Paths} from "../../../../src/file";
+import {NoSuchFileException} from "../../../../src/file/exception";
+import {LocalFileStore} from "../../../../src/file/fs/local/LocalFileStore";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+/* statfs is only available since Node.js 18.15. */
+const testStatfs = typeof fs.statfsSync === "function" ? test : test.skip;
+const tmpDir = useTempDirectory("local-store-");
+
+test("LocalFileStoreOfFile", () => {
+    const store = Files.getFileStore(Paths.of(tmpDir()));
+    expect(store.name().length).toBeGreaterThan(0);
+    expect(store.type().length).toBeGreaterThan(0);
+    expect(store.isReadOnly()).toBeFalsy();
+    expect(store.supportsFileAttributeView("basic")).toBeTruthy();
+    expect(store.supportsFileAttributeView("dos")).toBeFalsy();
+    expect(() => Files.getFileStore(Paths.of(jsPath.join(tmpDir(), "missing")))).toThrow(NoSuchFileException);
+});
+
+testStatfs("LocalFileStoreSpace", () => {
+    const store = Files.getFileStore(Paths.of(tmpDir()));
+    const stats = fs.statfsSync(tmpDir(), {bigint: true});
+    expect(store.getBlockSize()).toEqual(stats.bsize);
+    expect(store.getTotalSpace()).toEqual(stats.blocks * stats.bsize);
+    expect(store.getTotalSpace() >= store.getUnallocatedSpace()).toBeTruthy();
+    expect(store.getUnallocatedSpace() >= store.getUsableSpace()).toBeTruthy();
+    expect(store.getAttribute("totalSpace")).toEqual(store.getTotalSpace());
+});
+
+test("LocalFileStores", () => {
+    const stores = [...FileSystems.getDefault().getFileStores()];
+    expect(stores.map(store => store.toString())).toContainEqual(expect.stringMatching(/^\/ \(/));
+    const store = Files.getFileStore(Paths.of(tmpDir()));
+    expect(stores.some(s => s instanceof LocalFileStore && s.equals(store))).toBeTruthy();
+});
@@ -0,0 +1,100 @@
+import {Files, Path, Paths, StandardOpenOption} from "../../../../src/file";
+import {FileAlreadyExistsException, NoSuchFileException} from "../../../../src/file/exception";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../../src/exception";
+import {newLocalInputStream} from "../../../../src/file/fs/local/LocalFileStreams";
+import {readString, useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const tmpDir = useTempDirectory("local-streams-");
+
+async function write(path: Path, content: string, options?: StandardOpenOption[]): Promise<void> {
+    const writer = Files.newOutputStream(path, options).getWriter();
+    await writer.write(content);
+    await writer.close();
+}
+
+test("LocalInputStreamReadsFile", async () => {
+    const file = jsPath.join(tmpDir(), "a.txt");
+    const content = "x".repeat(20000) + "end";
+    fs.writeFileSync(file, content);
+    expect(await readString(Files.newInputStream(Paths.of(file)))).toEqual(content);
+});
+
+test("LocalInputStreamNoSuchFile", () => {
+    expect(() => Files.newInputStream(Paths.of(jsPath.join(tmpDir(), "missing")))).toThrow(NoSuchFileException);
+});
+
+test("LocalInputStreamRejectsWriteAndAppend", () => {
+    const file = jsPath.join(tmpDir(), "a.txt");
+    fs.writeFileSync(file, "content");
+    expect(() => newLocalInputStream(Paths.of(file), [StandardOpenOption.WRITE])).toThrow(UnsupportedOperationException);
+    expect(() => newLocalInputStream(Paths.of(file), [StandardOpenOption.APPEND])).toThrow(UnsupportedOperationException);
+});
+
+test("LocalOutputStreamDefaultOptions", async () => {
+    const file = jsPath.join(tmpDir(), "b.txt");
+    await write(Paths.of(file), "hello world");
+    expect(fs.readFileSync(file, "utf8")).toEqual("hello world");
+    await write(Paths.of(file), "bye");
+    expect(fs.readFileSync(file, "utf8")).toEqual("bye");
+});
+
+test("LocalOutputStreamAppend", async () => {
+    const file = jsPath.join(tmpDir(), "c.txt");
+    fs.writeFileSync(file, "hello");
+    await write(Paths.of(file), " world", [StandardOpenOption.APPEND]);
+    expect(fs.readFileSync(file, "utf8")).toEqual("hello world");
+    expect(() => Files.newOutputStream(Paths.of(file), [StandardOpenOption.APPEND, StandardOpenOption.TRUNCATE_EXISTING]))
+        .toThrow(IllegalArgumentException);
+});
+
+test("LocalOutputStreamCreateNew", async () => {
+    const file = jsPath.join(tmpDir(), "d.txt");
+    await write(Paths.of(file), "new", [StandardOpenOption.CREATE_NEW]);
+    expect(fs.readFileSync(file, "utf8")).toEqual("new");
+    expect(() => Files.newOutputStream(Paths.of(file), [StandardOpenOption.CREATE_NEW])).toThrow(FileAlreadyExistsException);
+});
+
+test("LocalOutputStreamWithoutCreate", () => {
+    const file = jsPath.join(tmpDir(), "e.txt");
+    expect(() => Files.newOutputStream(Paths.of(file), [StandardOpenOption.WRITE])).toThrow(NoSuchFileException);
+});
+
+test("LocalStreamsDeleteOnClose", async () => {
+    const file = jsPath.join(tmpDir(), "f.txt");
+    await write(Paths.of(file), "temp", [StandardOpenOption.CREATE, StandardOpenOption.DELETE_ON_CLOSE]);
+    expect(fs.existsSync(file)).toBeFalsy();
+
+    fs.writeFileSync(file, "temp");
+    const stream = Files.newInputStream(Paths.of(file), [StandardOpenOption.DELETE_ON_CLOSE]);
+    await stream.cancel();
+    expect(fs.existsSync(file)).toBeFalsy();
+});
+
+test("LocalStreamsExitHookRegisteredOnDeleteOnClose", async () => {
+    const file = jsPath.join(tmpDir(), "g.txt");
+    fs.writeFileSync(file, "temp");
+    const once = jest.spyOn(process, "once");
+    try {
+        let streams: any;
+        jest.isolateModules(() => {
+            streams = require("../../../../src/file/fs/local/LocalFileStreams");
+        });
+        await streams.newLocalInputStream(Paths.of(file)).cancel();
+        expect(once).not.toHaveBeenCalledWith("exit", expect.any(Function));
+        await streams.newLocalInputStream(Paths.of(file), [StandardOpenOption.DELETE_ON_CLOSE]).cancel();
+        expect(once).toHaveBeenCalledWith("exit", expect.any(Function));
+        expect(fs.existsSync(file)).toBeFalsy();
+    } finally {
+        once.mockRestore();
+    }
+});
+
+test("LocalStreamsCopy", async () => {
+    const source = jsPath.join(tmpDir(), "source.bin");
+    const target = jsPath.join(tmpDir(), "target.bin");
+    fs.writeFileSync(source, Buffer.alloc(50000, 7));
+    await Files.copyFromStream(Files.newInputStream(Paths.of(source)), Paths.of(target));
+    expect(fs.readFileSync(target).equals(fs.readFileSync(source))).toBeTruthy();
+});
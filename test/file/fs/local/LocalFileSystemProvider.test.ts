@@ -0,0 +1,84 @@
+import {AccessMode, Files, Paths} from "../../../../src/file";
+import {FileAttribute, PosixFilePermissions} from "../../../../src/file/attribute";
+import {
+    AccessDeniedException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    NoSuchFileException,
+    NotDirectoryException,
+} from "../../../../src/file/exception";
+import {UnsupportedOperationException} from "../../../../src/exception";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const tmpDir = useTempDirectory("local-provider-");
+
+test("LocalCreateFile", () => {
+    const file = Paths.of(jsPath.join(tmpDir(), "file.txt"));
+    Files.createFile(file);
+    expect(fs.statSync(file.toString()).isFile()).toBeTruthy();
+    expect(() => Files.createFile(file)).toThrow(FileAlreadyExistsException);
+    expect(() => Files.createFile(Paths.of(jsPath.join(tmpDir(), "missing", "file.txt")))).toThrow(NoSuchFileException);
+});
+
+test("LocalCreateFileWithPermissions", () => {
+    const file = Paths.of(jsPath.join(tmpDir(), "secret.txt"));
+    Files.createFile(file, [PosixFilePermissions.asFileAttribute(PosixFilePermissions.fromString("rw-------"))]);
+    expect(fs.statSync(file.toString()).mode & 0o777).toEqual(0o600);
+});
+
+test("LocalCreateDirectory", () => {
+    const dir = Paths.of(jsPath.join(tmpDir(), "dir"));
+    Files.createDirectory(dir, [PosixFilePermissions.asFileAttribute(PosixFilePermissions.fromString("rwx------"))]);
+    const stats = fs.statSync(dir.toString());
+    expect(stats.isDirectory()).toBeTruthy();
+    expect(stats.mode & 0o777).toEqual(0o700);
+    expect(() => Files.createDirectory(dir)).toThrow(FileAlreadyExistsException);
+});
+
+test("LocalCreateWithUnsupportedAttribute", () => {
+    const attr: FileAttribute<boolean> = {
+        name: () => "dos:hidden",
+        value: () => true,
+    };
+    const file = Paths.of(jsPath.join(tmpDir(), "hidden.txt"));
+    expect(() => Files.createFile(file, [attr])).toThrow(UnsupportedOperationException);
+    expect(fs.existsSync(file.toString())).toBeFalsy();
+});
+
+test("LocalDelete", () => {
+    const dir = jsPath.join(tmpDir(), "dir");
+    const file = jsPath.join(dir, "file.txt");
+    fs.mkdirSync(dir);
+    fs.writeFileSync(file, "content");
+    expect(() => Files.delete(Paths.of(dir))).toThrow(DirectoryNotEmptyException);
+    expect(() => Files.delete(Paths.of(jsPath.join(file, "child")))).toThrow(NotDirectoryException);
+    Files.delete(Paths.of(file));
+    Files.delete(Paths.of(dir));
+    expect(fs.existsSync(dir)).toBeFalsy();
+    expect(() => Files.delete(Paths.of(dir))).toThrow(NoSuchFileException);
+    expect(Files.deleteIfExists(Paths.of(dir))).toBeFalsy();
+});
+
+test("LocalCheckAccess", () => {
+    const file = jsPath.join(tmpDir(), "file.txt");
+    fs.writeFileSync(file, "content");
+    fs.chmodSync(file, 0o400);
+    expect(Files.exists(Paths.of(file))).toBeTruthy();
+    expect(Files.isReadable(Paths.of(file))).toBeTruthy();
+    expect(Files.isExecutable(Paths.of(file))).toBeFalsy();
+    expect(Files.notExists(Paths.of(jsPath.join(tmpDir(), "missing")))).toBeTruthy();
+    const provider = Paths.of(file).getFileSystem().provider();
+    expect(() => provider.checkAccess(Paths.of(jsPath.join(tmpDir(), "missing")))).toThrow(NoSuchFileException);
+    if (process.getuid && process.getuid() !== 0) {
+        expect(() => provider.checkAccess(Paths.of(file), [AccessMode.WRITE])).toThrow(AccessDeniedException);
+    }
+});
+
+test("LocalIsHidden", () => {
+    expect(Files.isHidden(Paths.of(jsPath.join(tmpDir(), ".hidden")))).toBeTruthy();
+    expect(Files.isHidden(Paths.of(jsPath.join(tmpDir(), "visible.txt")))).toBeFalsy();
+    expect(Files.isHidden(Paths.of("."))).toBeFalsy();
+    expect(Files.isHidden(Paths.of(".."))).toBeFalsy();
+});
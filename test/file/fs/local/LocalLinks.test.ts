@@ -0,0 +1,106 @@
+import {Files, FileVisitResult, LinkOption, Path, Paths} from "../../../../src/file";
+import {FileVisitOption} from "../../../../src/file/FileVisitOption";
+import {
+    FileAlreadyExistsException,
+    FileSystemLoopException,
+    NoSuchFileException,
+    NotLinkException,
+} from "../../../../src/file/exception";
+import {IOException} from "../../../../src/exception";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const tmpDir = useTempDirectory("local-links-");
+
+function file(name: string): string {
+    return jsPath.join(tmpDir(), name);
+}
+
+beforeEach(() => {
+    fs.mkdirSync(file("dir"));
+    fs.writeFileSync(file("dir/file.txt"), "content");
+});
+
+test("LocalCreateSymbolicLink", () => {
+    const relative = Files.createSymbolicLink(Paths.of(file("relative")), Paths.of("dir/file.txt"));
+    expect(fs.readlinkSync(file("relative"))).toEqual("dir/file.txt");
+    expect(Files.isSymbolicLink(relative)).toBeTruthy();
+    expect(Files.readSymbolicLink(relative).toString()).toEqual("dir/file.txt");
+    expect(fs.readFileSync(file("relative"), "utf-8")).toEqual("content");
+
+    const absolute = Files.createSymbolicLink(Paths.of(file("absolute")), Paths.of(file("dir")));
+    expect(Files.readSymbolicLink(absolute).toString()).toEqual(file("dir"));
+    expect(Files.isDirectory(absolute)).toBeTruthy();
+    expect(Files.isDirectory(absolute, [LinkOption.NOFOLLOW_LINKS])).toBeFalsy();
+
+    // dangling links are allowed
+    const dangling = Files.createSymbolicLink(Paths.of(file("dangling")), Paths.of("missing"));
+    expect(Files.isSymbolicLink(dangling)).toBeTruthy();
+    expect(Files.exists(dangling)).toBeFalsy();
+    expect(() => Files.createSymbolicLink(dangling, Paths.of("other"))).toThrow(FileAlreadyExistsException);
+});
+
+test("LocalReadSymbolicLinkErrors", () => {
+    expect(() => Files.readSymbolicLink(Paths.of(file("dir/file.txt")))).toThrow(NotLinkException);
+    expect(() => Files.readSymbolicLink(Paths.of(file("missing")))).toThrow(NoSuchFileException);
+});
+
+test("LocalCreateLink", () => {
+    Files.createLink(Paths.of(file("hard.txt")), Paths.of(file("dir/file.txt")));
+    expect(fs.statSync(file("hard.txt")).ino).toEqual(fs.statSync(file("dir/file.txt")).ino);
+    expect(Files.isSymbolicLink(Paths.of(file("hard.txt")))).toBeFalsy();
+    expect(() => Files.createLink(Paths.of(file("other.txt")), Paths.of(file("missing")))).toThrow(NoSuchFileException);
+});
+
+test("LocalToRealPath", () => {
+    fs.symlinkSync("dir", file("link"));
+    const path = Paths.of(file("link") + "/./file.txt");
+    expect(path.toRealPath().toString()).toEqual(file("dir/file.txt"));
+    expect(path.toRealPath([LinkOption.NOFOLLOW_LINKS]).toString()).toEqual(file("link/file.txt"));
+    expect(Paths.of(file("dir") + "/../link").toRealPath([LinkOption.NOFOLLOW_LINKS]).toString()).toEqual(file("link"));
+    // ".." after a link cannot be eliminated without following it
+    expect(Paths.of(file("link") + "/../dir").toRealPath([LinkOption.NOFOLLOW_LINKS]).toString()).toEqual(file("link") + "/../dir");
+    expect(() => Paths.of(file("missing")).toRealPath([LinkOption.NOFOLLOW_LINKS])).toThrow(NoSuchFileException);
+});
+
+test("LocalIsSameFile", () => {
+    fs.symlinkSync("dir", file("link"));
+    fs.linkSync(file("dir/file.txt"), file("hard.txt"));
+    const path = Paths.of(file("dir/file.txt"));
+    expect(Files.isSameFile(path, Paths.of(file("dir/file.txt")))).toBeTruthy();
+    expect(Files.isSameFile(path, Paths.of(file("link/file.txt")))).toBeTruthy();
+    expect(Files.isSameFile(path, Paths.of(file("hard.txt")))).toBeTruthy();
+    expect(Files.isSameFile(path, Paths.of(file("dir")))).toBeFalsy();
+    // equal paths are the same file, even when it does not exist
+    expect(Files.isSameFile(Paths.of(file("missing")), Paths.of(file("missing")))).toBeTruthy();
+    expect(() => Files.isSameFile(path, Paths.of(file("missing")))).toThrow(NoSuchFileException);
+});
+
+test("LocalFileKey", () => {
+    fs.symlinkSync("dir", file("link"));
+    const key = Files.readAttributesByType(Paths.of(file("dir")), "BasicFileAttributes").fileKey() as any;
+    const linkKey = Files.readAttributesByType(Paths.of(file("link")), "BasicFileAttributes").fileKey() as any;
+    const noFollowKey = Files.readAttributesByType(Paths.of(file("link")), "BasicFileAttributes", [LinkOption.NOFOLLOW_LINKS]).fileKey() as any;
+    expect(key.equals(linkKey)).toBeTruthy();
+    expect(key.valueOf()).toEqual(linkKey.valueOf());
+    expect(key.compareTo(linkKey)).toEqual(0);
+    expect(key.equals(noFollowKey)).toBeFalsy();
+    expect(key.toString()).toMatch(/^\(dev=[0-9a-f]+,ino=[0-9]+\)$/);
+});
+
+test("LocalWalkFollowLinksLoop", () => {
+    fs.symlinkSync("..", file("dir/parent"));
+    const failures = new Map<string, IOException>();
+    Files.walkFileTree(Paths.of(file("dir")), {
+        preVisitDirectory: () => FileVisitResult.CONTINUE,
+        visitFile: () => FileVisitResult.CONTINUE,
+        visitFileFailed: (path: Path, exc: IOException) => {
+            failures.set(path.toString(), exc);
+            return FileVisitResult.CONTINUE;
+        },
+        postVisitDirectory: () => FileVisitResult.CONTINUE,
+    }, Number.MAX_VALUE, [FileVisitOption.FOLLOW_LINKS]);
+    expect([...failures.keys()]).toEqual([file("dir/parent/dir")]);
+    expect(failures.get(file("dir/parent/dir"))).toBeInstanceOf(FileSystemLoopException);
+});
@@ -1,6 +1,10 @@
 import {Files, Path, Paths} from "../../../../src/file";
 import os from "os";
 import {Objects} from "../../../../src/utils";
+import {ProviderMismatchException} from "../../../../src/file/exception";
+import {IllegalArgumentException} from "../../../../src/exception";
+import * as fs from "fs";
+import * as jsPath from "path";
 
 const rootPath: Path = Paths.of("/");
 const currentPath: Path = Paths.of(".");
@@ -42,3 +46,77 @@ test("LocalPathCurrentGetRoot", () => {
         expect(currentPath?.toAbsolutePath()?.getRoot()?.equals(rootPath?.toAbsolutePath())).toBeTruthy()
     }
 })
+
+function path(value: string): Path {
+    return Paths.of(value);
+}
+
+test("LocalPathParse", () => {
+    expect(path("/a//b/").toString()).toEqual("/a/b");
+    expect(path("/a//b/").isAbsolute()).toBeTruthy();
+    expect(path("a/b").isAbsolute()).toBeFalsy();
+    expect(path("a/b").subpath(0, 2).toString()).toEqual("a/b");
+    expect([...path("/a/b/c")].map(name => name.toString())).toEqual(["a", "b", "c"]);
+    expect([...path("/")].length).toEqual(0);
+})
+
+test("LocalPathNormalize", () => {
+    expect(path("a/./b/../c").normalize().toString()).toEqual("a/c");
+    expect(path("/a/../../b").normalize().toString()).toEqual("/b");
+    expect(path("/..").normalize().toString()).toEqual("/");
+    expect(path("../a/../../b").normalize().toString()).toEqual("../../b");
+    expect(path("a/..").normalize().toString()).toEqual("");
+    expect(path("").normalize().toString()).toEqual("");
+    expect(path("/a/b").normalize().isAbsolute()).toBeTruthy();
+})
+
+test("LocalPathResolve", () => {
+    expect(path("/a").resolve(path("b/c")).toString()).toEqual("/a/b/c");
+    expect(path("/").resolve(path("b")).toString()).toEqual("/b");
+    expect(path("a").resolve(path("/b")).toString()).toEqual("/b");
+    expect(path("a").resolve(path("")).toString()).toEqual("a");
+    expect(path("").resolve(path("b")).toString()).toEqual("b");
+    expect(path("a/b").resolveFromString("c")?.toString()).toEqual("a/b/c");
+    expect(path("a/b").resolveSibling(path("c")).toString()).toEqual("a/c");
+    expect(path("a").resolveSibling(path("c")).toString()).toEqual("c");
+    expect(() => path("a").resolve({} as Path)).toThrow(ProviderMismatchException);
+})
+
+test("LocalPathRelativize", () => {
+    expect(path("/a/b").relativize(path("/a/b/c/d")).toString()).toEqual("c/d");
+    expect(path("/a/b").relativize(path("/a/x")).toString()).toEqual("../x");
+    expect(path("/a/b").relativize(path("/a/b")).toString()).toEqual("");
+    expect(path("/a/b/c").relativize(path("/")).toString()).toEqual("../../..");
+    expect(path("a/./b").relativize(path("a/c/../d")).toString()).toEqual("../d");
+    expect(path("").relativize(path("a")).toString()).toEqual("a");
+    expect(() => path("/a").relativize(path("b"))).toThrow(IllegalArgumentException);
+    expect(() => path("../a").relativize(path("b"))).toThrow(IllegalArgumentException);
+    expect(() => path("a").relativize({} as Path)).toThrow(ProviderMismatchException);
+})
+
+test("LocalPathRoundTrip", () => {
+    const bases = ["", "a", "a/b", "/", "/a", "/a/b/c"];
+    const others = ["", "x", "x/y", "../x", "../../x/y"];
+    for (let base of bases) {
+        for (let other of others) {
+            const p = path(base);
+            const q = path(other);
+            const dotDots = [...q].filter(name => name.toString() === "..").length;
+            if (p.isAbsolute() && dotDots > p.getNameCount()) {
+                // cannot climb above the root
+                continue;
+            }
+            expect(p.relativize(p.resolve(q)).equals(q)).toBeTruthy();
+        }
+    }
+})
+
+test("LocalCreateDirectories", () => {
+    const tmpDir = fs.mkdtempSync(jsPath.join(os.tmpdir(), "local-path-"));
+    try {
+        const dir = Files.createDirectories(path(jsPath.join(tmpDir, "a", "b", "c")));
+        expect(fs.statSync(dir.toString()).isDirectory()).toBeTruthy();
+    } finally {
+        fs.rmSync(tmpDir, {recursive: true, force: true});
+    }
+})
@@ -0,0 +1,105 @@
+import {FileSystems, Path} from "../../../../src/file";
+import {LocalFileSystem, LocalFileSystemProvider, LocalPathSyntax, LocalPathType} from "../../../../src/file/fs/local";
+import {InvalidPathException} from "../../../../src/file/exception";
+import {IllegalArgumentException} from "../../../../src/exception";
+
+const provider = FileSystems.getDefault().provider() as LocalFileSystemProvider;
+const windows = new LocalFileSystem(provider, "C:\\Users\\me", LocalPathSyntax.windows());
+const posix = new LocalFileSystem(provider, "/home/me", LocalPathSyntax.posix());
+
+function win(first: string, ...more: string[]): Path {
+    return windows.getPath(first, more);
+}
+
+test("PlatformSyntax", () => {
+    expect(LocalPathSyntax.forPlatform("win32")).toBe(LocalPathSyntax.windows());
+    expect(LocalPathSyntax.forPlatform("linux")).toBe(LocalPathSyntax.posix());
+    expect(windows.getSeparator()).toEqual("\\");
+    expect(posix.getSeparator()).toEqual("/");
+});
+
+test("WindowsPathTypes", () => {
+    const cases: [string, LocalPathType, string, string][] = [
+        ["C:\\Windows\\System32", LocalPathType.ABSOLUTE, "C:\\", "C:\\Windows\\System32"],
+        ["c:/Program Files//App/", LocalPathType.ABSOLUTE, "c:\\", "c:\\Program Files\\App"],
+        ["C:foo\\bar", LocalPathType.DRIVE_RELATIVE, "C:", "C:foo\\bar"],
+        ["\\foo/bar", LocalPathType.DIRECTORY_RELATIVE, "\\", "\\foo\\bar"],
+        ["//server/share/dir\\file.txt", LocalPathType.UNC, "\\\\server\\share\\", "\\\\server\\share\\dir\\file.txt"],
+        ["foo/bar\\baz", LocalPathType.RELATIVE, "", "foo\\bar\\baz"],
+    ];
+    for (let [input, type, root, normalized] of cases) {
+        const path = win(input);
+        expect((path as any).getType()).toEqual(type);
+        expect(path.getRoot()?.toString() ?? "").toEqual(root);
+        expect(path.toString()).toEqual(normalized);
+        expect(path.isAbsolute()).toEqual(type === LocalPathType.ABSOLUTE || type === LocalPathType.UNC);
+    }
+});
+
+test("WindowsToAbsolutePath", () => {
+    expect(win("docs\\a.txt").toAbsolutePath().toString()).toEqual("C:\\Users\\me\\docs\\a.txt");
+    expect(win("\\docs").toAbsolutePath().toString()).toEqual("C:\\docs");
+    expect(win("C:\\docs").toAbsolutePath().toString()).toEqual("C:\\docs");
+    expect(posix.getPath("docs").toAbsolutePath().toString()).toEqual(process.platform === "win32" ? "/home/me/docs" : process.cwd() + "/docs");
+    expect(() => new LocalFileSystem(provider, "Users\\me", LocalPathSyntax.windows())).toThrow(IllegalArgumentException);
+});
+
+test("WindowsInvalidPaths", () => {
+    expect(() => win("C:\\foo<bar")).toThrow(InvalidPathException);
+    expect(() => win("foo\\bar?")).toThrow(InvalidPathException);
+    expect(() => win("foo \\bar")).toThrow(InvalidPathException);
+    expect(() => win("\\\\server")).toThrow(InvalidPathException);
+    expect(() => win("\\\\server\\")).toThrow(InvalidPathException);
+    let error: InvalidPathException | null = null;
+    try {
+        win("ab:c");
+    } catch (e) {
+        error = e as InvalidPathException;
+    }
+    expect(error).toBeInstanceOf(InvalidPathException);
+    expect(error?.getIndex()).toEqual(2);
+    expect(error?.getInput()).toEqual("ab:c");
+    expect(() => posix.getPath("a\u0000b")).toThrow(InvalidPathException);
+});
+
+test("WindowsPathElements", () => {
+    const path = win("C:\\Users\\Me\\file.txt");
+    expect(path.getNameCount()).toEqual(3);
+    expect(path.getFileName()?.toString()).toEqual("file.txt");
+    expect(path.getParent()?.toString()).toEqual("C:\\Users\\Me");
+    expect(win("C:\\Users").getParent()?.toString()).toEqual("C:\\");
+    expect(win("C:\\").getParent()).toBeNull();
+    expect(path.subpath(0, 2).toString()).toEqual("Users\\Me");
+    expect([...win("\\\\host\\share\\a\\b")].map(name => name.toString())).toEqual(["a", "b"]);
+});
+
+test("WindowsPathComparison", () => {
+    expect(win("C:\\Users\\ME").equals(win("c:/users/me"))).toBeTruthy();
+    expect(win("C:\\Users\\Me\\file.txt").startsWith(win("c:\\users"))).toBeTruthy();
+    expect(win("C:\\Users\\Me\\file.txt").endWith(win("ME\\FILE.TXT"))).toBeTruthy();
+    expect(posix.getPath("/home/Me").equals(posix.getPath("/home/me"))).toBeFalsy();
+    expect(posix.getPath("/home/Me").startsWith(posix.getPath("/HOME"))).toBeFalsy();
+    expect(windows.getPathMatcher("glob:*.TXT").matches(win("notes.txt"))).toBeTruthy();
+    expect(windows.getPathMatcher("glob:C:/**/*.txt").matches(win("C:\\a\\b.txt"))).toBeTruthy();
+});
+
+test("WindowsResolve", () => {
+    expect(win("C:\\a").resolve(win("b\\c")).toString()).toEqual("C:\\a\\b\\c");
+    expect(win("C:\\").resolve(win("b")).toString()).toEqual("C:\\b");
+    expect(win("C:\\a").resolve(win("D:\\b")).toString()).toEqual("D:\\b");
+    expect(win("C:\\a").resolve(win("\\b")).toString()).toEqual("C:\\b");
+    expect(win("\\\\h\\s\\a").resolve(win("\\b")).toString()).toEqual("\\\\h\\s\\b");
+    expect(win("C:\\a").resolve(win("c:b")).toString()).toEqual("C:\\a\\b");
+    expect(win("C:\\a").resolve(win("D:b")).toString()).toEqual("D:b");
+    expect(win("C:").resolve(win("b")).toString()).toEqual("C:b");
+});
+
+test("WindowsNormalizeAndRelativize", () => {
+    expect(win("C:\\a\\..\\..\\b\\.\\c").normalize().toString()).toEqual("C:\\b\\c");
+    expect(win("C:..\\a").normalize().toString()).toEqual("C:..\\a");
+    expect(win("C:\\a\\b").relativize(win("c:\\A\\x\\y")).toString()).toEqual("..\\x\\y");
+    expect(() => win("C:\\a").relativize(win("D:\\a"))).toThrow(IllegalArgumentException);
+    const p = win("C:\\a\\b");
+    const q = win("..\\x");
+    expect(p.relativize(p.resolve(q)).equals(q)).toBeTruthy();
+});
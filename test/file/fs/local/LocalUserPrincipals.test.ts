@@ -0,0 +1,45 @@
+import {Files, FileSystems, Paths} from "../../../../src/file";
+import {PosixFileAttributeView, UserPrincipalNotFoundException} from "../../../../src/file/attribute";
+import {useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+
+const lookupService = FileSystems.getDefault().getUserPrincipalLookupService();
+const tmpDir = useTempDirectory("local-users-");
+
+test("LookupPrincipalByName", () => {
+    const root = lookupService.lookupPrincipalByName("root");
+    expect(root.getName()).toEqual("root");
+    expect(root.equals(lookupService.lookupPrincipalByName("0"))).toBeTruthy();
+    expect(lookupService.lookupPrincipalByName("0").getName()).toEqual("root");
+    const current = lookupService.lookupPrincipalByName(os.userInfo().username);
+    expect(current.equals(lookupService.lookupPrincipalByName(os.userInfo().uid.toString()))).toBeTruthy();
+    expect(root.equals(lookupService.lookupPrincipalByGroupName("0"))).toBeFalsy();
+});
+
+test("LookupPrincipalByNameNotFound", () => {
+    expect(() => lookupService.lookupPrincipalByName("no-such-user")).toThrow(UserPrincipalNotFoundException);
+    try {
+        lookupService.lookupPrincipalByGroupName("no-such-group");
+        fail("group found");
+    } catch (e) {
+        expect(e).toBeInstanceOf(UserPrincipalNotFoundException);
+        expect((e as UserPrincipalNotFoundException).getName()).toEqual("no-such-group");
+    }
+});
+
+test("SetOwnerAndGroupByName", () => {
+    const file = Paths.of(jsPath.join(tmpDir(), "file.txt"));
+    fs.writeFileSync(file.toString(), "content");
+    const owner = lookupService.lookupPrincipalByName(os.userInfo().username);
+    Files.setOwner(file, owner);
+    expect(Files.getOwner(file).equals(owner)).toBeTruthy();
+    expect(Files.getOwner(file).getName()).toEqual(os.userInfo().username);
+
+    const group = lookupService.lookupPrincipalByGroupName(process.getgid().toString());
+    const view = Files.getFileAttributeView(file, "PosixFileAttributeView") as PosixFileAttributeView;
+    view.setGroup(group);
+    expect(view.readAttributes().group().equals(group)).toBeTruthy();
+    expect(fs.statSync(file.toString()).gid).toEqual(process.getgid());
+});
@@ -0,0 +1,252 @@
+import {AccessMode, Files, FileSystems, LinkOption, Path, Paths, StandardCopyOption, StandardOpenOption} from "../../../../src/file";
+import {FileTime, PosixFilePermissions} from "../../../../src/file/attribute";
+import {MemoryFileSystem, MemoryFileSystemProvider} from "../../../../src/file/fs/memory";
+import {
+    AccessDeniedException,
+    ClosedFileSystemException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    FileSystemAlreadyExistsException,
+    FileSystemException,
+    FileSystemNotFoundException,
+    NoSuchFileException,
+    NotDirectoryException,
+    NotLinkException,
+    ProviderMismatchException,
+} from "../../../../src/file/exception";
+import {IllegalArgumentException} from "../../../../src/exception";
+import {FileSystemProviders} from "../../../../src/file/spi";
+import {readString} from "../../TestSupport";
+
+FileSystemProviders.addProvider(new MemoryFileSystemProvider());
+
+let fileSystem: MemoryFileSystem;
+let counter = 0;
+
+beforeEach(() => {
+    fileSystem = FileSystems.newFileSystem(new URL("memory:test" + ++counter), new Map<string, any>()) as MemoryFileSystem;
+});
+
+afterEach(() => {
+    fileSystem.close();
+});
+
+async function write(path: Path, content: string, options?: StandardOpenOption[]): Promise<void> {
+    const writer = Files.newOutputStream(path, options).getWriter();
+    await writer.write(content);
+    await writer.close();
+}
+
+test("MemoryFileSystemsAreNamed", async () => {
+    const other = FileSystems.newFileSystem(new URL("memory:other"), new Map<string, any>());
+    try {
+        expect(FileSystems.getFileSystem(new URL("memory:other"))).toBe(other);
+        expect(() => FileSystems.newFileSystem(new URL("memory:other"), new Map<string, any>())).toThrow(FileSystemAlreadyExistsException);
+        await write(other.getPath("/a.txt"), "other");
+        expect(Files.exists(fileSystem.getPath("/a.txt"))).toBeFalsy();
+        expect(await readString(Files.newInputStream(Paths.ofURL(new URL("memory:other/a.txt"))))).toEqual("other");
+        expect(other.getPath("dir", ["a b"]).toURL().toString()).toEqual("memory:other/dir/a%20b");
+    } finally {
+        other.close();
+    }
+    expect(other.isOpen()).toBeFalsy();
+    expect(() => FileSystems.getFileSystem(new URL("memory:other"))).toThrow(FileSystemNotFoundException);
+    expect(() => Files.exists(other.getPath("/a.txt"))).toThrow(ClosedFileSystemException);
+    expect(() => FileSystems.newFileSystem(new URL("memory:"), new Map<string, any>())).toThrow(IllegalArgumentException);
+});
+
+test("MemoryPaths", () => {
+    const path = fileSystem.getPath("/dir//sub/", ["file.txt"]);
+    expect(path.toString()).toEqual("/dir/sub/file.txt");
+    expect(path.getParent()?.toString()).toEqual("/dir/sub");
+    expect(path.getFileName()?.toString()).toEqual("file.txt");
+    expect(fileSystem.getPath("a/./b/../c").normalize().toString()).toEqual("a/c");
+    expect(fileSystem.getPath("a").toAbsolutePath().toString()).toEqual("/a");
+    expect(fileSystem.getPath("/a/b").relativize(fileSystem.getPath("/a/c/d")).toString()).toEqual("../c/d");
+    expect(() => fileSystem.getPath("/a").resolve(Paths.of("/tmp"))).toThrow(ProviderMismatchException);
+});
+
+test("MemoryStreams", async () => {
+    const file = fileSystem.getPath("/file.txt");
+    expect(() => Files.newInputStream(file)).toThrow(NoSuchFileException);
+    await write(file, "hello");
+    await write(file, " world", [StandardOpenOption.APPEND]);
+    expect(await readString(Files.newInputStream(file))).toEqual("hello world");
+    expect(Files.size(file)).toEqual(BigInt(11));
+    await write(file, "bye");
+    expect(await readString(Files.newInputStream(file))).toEqual("bye");
+    expect(() => Files.newOutputStream(file, [StandardOpenOption.CREATE_NEW])).toThrow(FileAlreadyExistsException);
+    expect(() => Files.newOutputStream(fileSystem.getPath("/missing"), [StandardOpenOption.WRITE])).toThrow(NoSuchFileException);
+    expect(() => Files.newInputStream(fileSystem.getPath("/"))).toThrow(FileSystemException);
+    expect(() => Files.newOutputStream(file, [StandardOpenOption.APPEND, StandardOpenOption.TRUNCATE_EXISTING])).toThrow(IllegalArgumentException);
+
+    const big = "x".repeat(20000);
+    await write(file, big);
+    expect(await readString(Files.newInputStream(file))).toEqual(big);
+
+    const temp = fileSystem.getPath("/temp");
+    await write(temp, "temp");
+    expect(await readString(Files.newInputStream(temp, [StandardOpenOption.DELETE_ON_CLOSE]))).toEqual("temp");
+    expect(Files.exists(temp)).toBeFalsy();
+
+    // the file opened is deleted, not the file found at its path when the stream is closed
+    await write(temp, "temp");
+    const input = Files.newInputStream(temp, [StandardOpenOption.DELETE_ON_CLOSE]);
+    const moved = fileSystem.getPath("/moved");
+    Files.move(temp, moved);
+    await write(temp, "new");
+    expect(await readString(input)).toEqual("temp");
+    expect(Files.exists(moved)).toBeFalsy();
+    expect(await readString(Files.newInputStream(temp))).toEqual("new");
+    const output = Files.newOutputStream(temp, [StandardOpenOption.DELETE_ON_CLOSE]).getWriter();
+    Files.move(temp, moved);
+    await output.close();
+    expect(Files.exists(moved)).toBeFalsy();
+});
+
+test("MemoryDirectories", async () => {
+    const dir = fileSystem.getPath("/a/b");
+    expect(() => Files.createDirectory(dir)).toThrow(NoSuchFileException);
+    Files.createDirectories(dir);
+    Files.createFile(dir.resolve(fileSystem.getPath("one")));
+    Files.createFile(fileSystem.getPath("/a/b/two"));
+    expect(() => Files.createFile(fileSystem.getPath("/a/b/two"))).toThrow(FileAlreadyExistsException);
+    expect(() => Files.createFile(fileSystem.getPath("/a/b/two/three"))).toThrow(NotDirectoryException);
+    expect(Files.list(dir).map(path => path.toString()).sort()).toEqual(["/a/b/one", "/a/b/two"]);
+    expect(Files.isDirectory(dir)).toBeTruthy();
+    expect(Files.isRegularFile(fileSystem.getPath("a/b/one"))).toBeTruthy();
+
+    const stream = Files.newDirectoryStream(dir);
+    stream[Symbol.iterator]();
+    expect(() => stream[Symbol.iterator]()).toThrow(/already obtained/);
+    stream.close();
+
+    expect(() => Files.delete(dir)).toThrow(DirectoryNotEmptyException);
+    Files.delete(fileSystem.getPath("/a/b/one"));
+    Files.delete(fileSystem.getPath("/a/b/two"));
+    Files.delete(dir);
+    expect(Files.exists(dir)).toBeFalsy();
+    expect(() => Files.delete(dir)).toThrow(NoSuchFileException);
+});
+
+test("MemoryLinks", async () => {
+    Files.createDirectory(fileSystem.getPath("/dir"));
+    const file = fileSystem.getPath("/dir/file");
+    await write(file, "content");
+    const link = fileSystem.getPath("/link");
+    Files.createSymbolicLink(link, fileSystem.getPath("dir/file"));
+    expect(Files.isSymbolicLink(link)).toBeTruthy();
+    expect(Files.readSymbolicLink(link).toString()).toEqual("dir/file");
+    expect(await readString(Files.newInputStream(link))).toEqual("content");
+    expect(() => Files.newInputStream(link, [LinkOption.NOFOLLOW_LINKS])).toThrow(/symbolic links/);
+    expect(() => Files.readSymbolicLink(file)).toThrow(NotLinkException);
+    expect(link.toRealPath().toString()).toEqual("/dir/file");
+    expect(link.toRealPath([LinkOption.NOFOLLOW_LINKS]).toString()).toEqual("/link");
+
+    // a relative target is resolved against the directory of the link
+    const dirLink = fileSystem.getPath("/dir/self");
+    Files.createSymbolicLink(dirLink, fileSystem.getPath("."));
+    expect(await readString(Files.newInputStream(fileSystem.getPath("/dir/self/self/file")))).toEqual("content");
+
+    const loop = fileSystem.getPath("/loop");
+    Files.createSymbolicLink(loop, loop);
+    expect(() => Files.newInputStream(loop)).toThrow(/Too many levels/);
+
+    const hardLink = fileSystem.getPath("/hard");
+    Files.createLink(hardLink, file);
+    expect(Files.isSameFile(hardLink, file)).toBeTruthy();
+    expect(Files.getAttribute(file, "posix:size")).toEqual(BigInt(7));
+    Files.delete(file);
+    expect(await readString(Files.newInputStream(hardLink))).toEqual("content");
+    expect(() => Files.createLink(fileSystem.getPath("/dirlink"), fileSystem.getPath("/dir"))).toThrow(FileSystemException);
+});
+
+test("MemoryCopyAndMove", async () => {
+    const source = fileSystem.getPath("/source");
+    await write(source, "data");
+    Files.setLastModifiedTime(source, FileTime.fromMillis(1000));
+    const copy = fileSystem.getPath("/copy");
+    await Files.copy(source, copy);
+    expect(await readString(Files.newInputStream(copy))).toEqual("data");
+    expect(Files.getLastModifiedTime(copy).toMillis()).not.toEqual(1000);
+    await expect(Files.copy(source, copy)).rejects.toThrow(FileAlreadyExistsException);
+    await Files.copy(source, copy, [StandardCopyOption.REPLACE_EXISTING, StandardCopyOption.COPY_ATTRIBUTES]);
+    expect(Files.getLastModifiedTime(copy).toMillis()).toEqual(1000);
+
+    Files.createDirectories(fileSystem.getPath("/d1/d2"));
+    await Files.move(source, fileSystem.getPath("/d1/d2/moved"), [StandardCopyOption.ATOMIC_MOVE]);
+    expect(Files.exists(source)).toBeFalsy();
+    await Files.move(fileSystem.getPath("/d1"), fileSystem.getPath("/d3"));
+    expect(await readString(Files.newInputStream(fileSystem.getPath("/d3/d2/moved")))).toEqual("data");
+    await expect(Files.move(fileSystem.getPath("/d3"), fileSystem.getPath("/d3/d2/d3"))).rejects.toThrow(/Invalid argument/);
+
+    // between two memory file systems
+    const other = FileSystems.newFileSystem(new URL("memory:copy-target"), new Map<string, any>());
+    try {
+        await Files.copy(copy, other.getPath("/copy"));
+        expect(await readString(Files.newInputStream(other.getPath("/copy")))).toEqual("data");
+    } finally {
+        other.close();
+    }
+});
+
+test("MemoryAttributes", async () => {
+    const file = fileSystem.getPath("/file");
+    Files.createFile(file, [PosixFilePermissions.asFileAttribute(PosixFilePermissions.fromString("r--r-----"))]);
+    const attrs: any = Files.readAttributesByType(file, "PosixFileAttributes");
+    expect(attrs.isRegularFile()).toBeTruthy();
+    expect(attrs.owner().getName()).toEqual("user");
+    expect(attrs.group().getName()).toEqual("group");
+    expect(PosixFilePermissions.toString(attrs.permissions())).toEqual("r--r-----");
+    expect(Files.getAttribute(file, "posix:permissions")).toEqual(PosixFilePermissions.fromString("r--r-----"));
+
+    file.getFileSystem().provider().checkAccess(file, [AccessMode.READ]);
+    expect(() => file.getFileSystem().provider().checkAccess(file, [AccessMode.WRITE])).toThrow(AccessDeniedException);
+    expect(Files.isReadable(file)).toBeTruthy();
+    expect(Files.isWritable(file)).toBeFalsy();
+
+    const lookup = fileSystem.getUserPrincipalLookupService();
+    Files.setOwner(file, lookup.lookupPrincipalByName("other"));
+    expect(Files.getOwner(file).getName()).toEqual("other");
+    // the owner of the file system is now in the group of the file
+    expect(Files.isReadable(file)).toBeTruthy();
+    expect(() => Files.setOwner(file, lookup.lookupPrincipalByGroupName("staff"))).toThrow(FileSystemException);
+
+    Files.setAttribute(file, "lastModifiedTime", FileTime.fromMillis(1000));
+    expect(Files.getLastModifiedTime(file).toMillis()).toEqual(1000);
+});
+
+test("MemoryCapacity", async () => {
+    const small = FileSystems.newFileSystem(new URL("memory:small"), new Map<string, any>([["capacity", 10]]));
+    try {
+        const store = Files.getFileStore(small.getPath("/"));
+        expect(store.type()).toEqual("memory");
+        expect(store.getTotalSpace()).toEqual(BigInt(10));
+        await write(small.getPath("/a"), "12345678");
+        expect(store.getUsableSpace()).toEqual(BigInt(2));
+        await expect(write(small.getPath("/b"), "123")).rejects.toThrow(/No space left on device/);
+        Files.delete(small.getPath("/a"));
+        expect(store.getUsableSpace()).toEqual(BigInt(10));
+        // the space of a copy that fails is released
+        await write(small.getPath("/a"), "1234");
+        const createNode = jest.spyOn(MemoryFileSystem.prototype, "createNode").mockImplementationOnce(path => {
+            throw new FileAlreadyExistsException(path.toString());
+        });
+        try {
+            await expect(Files.copy(small.getPath("/a"), small.getPath("/c"))).rejects.toThrow(FileAlreadyExistsException);
+        } finally {
+            createNode.mockRestore();
+        }
+        expect(store.getUsableSpace()).toEqual(BigInt(6));
+        // the space written to a deleted file is released when its stream is closed
+        const writer = Files.newOutputStream(small.getPath("/d")).getWriter();
+        Files.delete(small.getPath("/d"));
+        await writer.write("12345");
+        expect(store.getUsableSpace()).toEqual(BigInt(1));
+        await writer.close();
+        expect(store.getUsableSpace()).toEqual(BigInt(6));
+    } finally {
+        small.close();
+    }
+    expect(() => FileSystems.newFileSystem(new URL("memory:invalid"), new Map<string, any>([["capacity", "lots"]]))).toThrow(IllegalArgumentException);
+});
@@ -0,0 +1,199 @@
+import {FileSystem, Files, FileSystems, LinkOption, Path, Paths} from "../../../../src/file";
+import {PosixFilePermissions} from "../../../../src/file/attribute";
+import {TarFileAttributes, TarFileSystem, TarFileSystemProvider} from "../../../../src/file/fs/tar";
+import {
+    ArchiveLimitExceededException,
+    FileSystemAlreadyExistsException,
+    FileSystemException,
+    NoSuchFileException,
+    NotLinkException,
+    ProviderNotFoundException,
+    ReadOnlyFileSystemException,
+} from "../../../../src/file/exception";
+import {FileSystemProviders} from "../../../../src/file/spi";
+import {readBytes, useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+import * as zlib from "zlib";
+
+FileSystemProviders.addProvider(new TarFileSystemProvider());
+
+// written by Python's tarfile in the GNU format with "./" names: the directory "dir" (0750) with "hello.txt" (0640)
+// and a file of 124 characters, "implicit/child.txt" whose directory has no header, the symbolic links "link" to
+// "dir/hello.txt" and "abs" to "/dir", the hard link "hard" to "dir/hello.txt", the FIFO "fifo", "big.bin" of
+// 20000 bytes and "../escape.txt"; all owned by alice:staff (1000:50) and modified at 1600000000
+const GNU_TGZ = "H4sIAAAAAAACA+3dVXTTUBwG8OAw3B0yXEakSRqc4QOKy3CormFdO9oOhru7u7u7u7u7u7vLE2n3wsZOOXtItrN+30vac/ryO1//9+bch4SiCcXDyBEFwXNlRYHxfme0mphrTAiWEzUiz3o/MyzD8hqCFAgVEuVy650kSehtktHs43fyzywWItmFok2Sk1ajfyYh/Yssh/7V699qttkclDvarVj/Wt5H/6w2Tv8aQV4uSAb9K54QT/NBZKjDaTMFBhCIn4WiKTpY57CH6SR7uILrv3eu478yGoaLtRfIu4VnmSB1as6/3/bvWf/tiRTFthwkCfUfs//zPvZ/Nvb+zwmMoMX+r0Zs8tJP2vURZoyCn86/FBEp//UlN220SjaTEivyf+efEeLc/3OCyGH+1Yi3dIyBH8+/Tbkb/7/Pf0QxAec/HM+zBKlR/mgC5z+03uAiklr/LM+Icv+ee1Os/wr3b9U7Tcr37/P879/5F3h5/2fVOJz0+/4tksWhRv98QuafYXiC1OL+T4X+DVIYZZDsidY/LzJ8POu/Bvf/qiRFylSp06RNlz5DQMZMmbNkzZY9R85cufPkzZe/QMFChYsUJQOLFS9RslTpMmXLlQ+qQNEMq+F4QStWrFS5StVq1WsE16xVu07devVDGjRspGvcpGmz5i1atmrdJrRtu/YdOnbq3KWr3mA0mS1hVqlbuC3C7ojs7nS5o3r0jO7Vu0/ffv0HDBw0eMjQYcNHjBw1eszYceMnTJw0ecrUadNnzJw1e87cefMXLFy0eMnSZctXrFy1es3ades3bNy0ecvWbdt37Ny1e8/effsPHDx0+MjRY8dPnDx1+szZc+cvXLx0+crVa9dv3Lx1+87de/cfPHz0+MnTZ89fvHz1+s3bd+8/fPz0+cvXb99//Pz1G3TQQQcddNBBBx100EEHHXTQQQcddNBBBx100EEHHXTQQQcddNBBBx100EEHHXTQQQcddNBBBx100EEHHXTQQQcddNBBBx100EEHHXTQQQcddNBBBx100EEHHXTQQQc9SdHxhOTk/vxniqLNLqM+0qzw+598Pf+Tj/v+J87z/hc8/1H5yIsDXv2AIAiCIH6WP7wud7EAeAAA";
+// the same entries written in the PAX format, without "./" names, and "été.txt" whose PAX header sets the access time and the owner bob
+const PAX_TGZ = "H4sIAAAAAAACA+2dV3gUVRiGx4rGgh27g2DH3XOmghqDWIggCioi9tnsbHZkS9ydaCwICvYCiiAW7KhRsWLvRrFQFOy9N+y9XDGbeJPAs5qLmcTs+97M7vPMxbzPN//5Z87F/HElfESAbZqlo7RN0fpfWFrbsQ1F6rZmG7L1t5BCaoaimhFcm9JY9J1CcClOxqtzy5wXnJZKKT2OpFeIR5O/6Ez+lrTIP6r8024mk4/5TX6I+VtGmfyDsNvnrxmWUFRB/qFTW8p+gDomX8gk+1YpUGHE4rH44JFOU63rJN1CePXfWtcrPgpNtu8FwfqvyaD+m6Ks/wrNX+oD1QbHT1eXGkGuiyj1HtaeLuv/Ycfb1v+NMv1ftu//uqlLk/4fBZl8rl7NOVmXUqhIvGxDcON7frwu7WWS4bwE/Gv9C7PD879u2Bb1HwWtsVMGFUvGy42LZP/Htjux/6PrwXKhalFsTlR4/TuJotL98pd68EqoavHgBmD9D5W0U0hGkX/Z/b8V1H/wSqBK6j90Ul4qH03+Rmf2/21hK6rF81/oJLz6WMLLdWH+hi2M5dd/wft/NKy08iqrrrZ6rzXWrFpr7XXW7b3e+htsuNHGm/TZdLPNt9hyq623Uftu26//dtvvsONOO+8yYNdYXEhNN0zLHjhot933qN6zZvBeQ/beZ9/9htbuP2z4ASMOPGjkqIMPOXT0YWMOH3vEkUcdfcyxxzmJuqSbqk97x4/LZHP5hhMKRb/xxJOaTj7l1NPGnz5h4hlnTpp81tnnnHve+RdceNHFU6Zecum0y6bPuHzmFVdedfWsa6697vobbrxp9s233Np82+13zLnzrrvvufe+ufc/8OBDDz/y6GOPP/HkU08/0/Lsc/Oef+HFl+YvWLjo5VcWL3n1tdffePOtt9959733P/jwo48/+fSzz7/48quvl37z7Xff//DjTz//8utvv//x519/o4466qijjjrqqKOOOuqoo4466qijjjrqqKOOOuqoo4466qijjjrqqKOOOuqoo4466qijjjrqqKOOOuqoo4466qijjjrqqKOOOuqoo4466qijjjrqqKOOOuqoo4466qh3K3W+kNyzicXibrHOaXBDn/9U7vufRsf5T5qp8/3HKAgWB0Y/VHL9d4P5T8Iyl5//ZDH/KQo0TXV8L+tWS6ttFI8QMbNK6mpjaShMdSKfqJL/TIhqafZbmhnV1LOo8WtC7Pz/tf93nP8oNYP+HwnFxmzWLVAHAAAAAAAAAAAAAAAAAAAAAAAAAP8nlgEAfipfAKAAAA==";
+
+const LONG_NAME = "n".repeat(120) + ".txt";
+
+const tmpDir = useTempDirectory("tarfs-");
+
+function writeArchive(name: string, base64: string, gunzip: boolean): string {
+    const file = jsPath.join(tmpDir(), name);
+    const bytes = Buffer.from(base64, "base64");
+    fs.writeFileSync(file, gunzip ? zlib.gunzipSync(bytes) : bytes);
+    return file;
+}
+
+function open(file: string): FileSystem {
+    return FileSystems.newFileSystem(Paths.of(file), new Map<string, any>());
+}
+
+async function readString(path: Path): Promise<string> {
+    return (await readBytes(Files.newInputStream(path))).toString("utf8");
+}
+
+function names(dir: Path): string[] {
+    return Files.list(dir).map(path => path.toString()).sort();
+}
+
+test("TarReadGnuArchive", async () => {
+    const tarfs = open(writeArchive("fixture.tgz", GNU_TGZ, false));
+    try {
+        expect(tarfs).toBeInstanceOf(TarFileSystem);
+        expect(tarfs.isReadOnly()).toBeTruthy();
+        expect(names(tarfs.getPath("/"))).toEqual(["/abs", "/big.bin", "/dir", "/fifo", "/hard", "/implicit", "/link"]);
+        expect(names(tarfs.getPath("/dir"))).toEqual(["/dir/hello.txt", "/dir/" + LONG_NAME]);
+        expect(await readString(tarfs.getPath("/dir/hello.txt"))).toEqual("Hello, World!\n");
+        expect(await readString(tarfs.getPath("dir", [LONG_NAME]))).toEqual("long name");
+        expect(await readString(tarfs.getPath("/implicit/child.txt"))).toEqual("child");
+        const big = await readBytes(Files.newInputStream(tarfs.getPath("/big.bin")));
+        expect(big.length).toEqual(20000);
+        expect(big.every((byte, i) => byte === i % 251)).toBeTruthy();
+        expect(() => Files.newInputStream(tarfs.getPath("/missing"))).toThrow(NoSuchFileException);
+        expect(() => Files.newInputStream(tarfs.getPath("/dir"))).toThrow(/Is a directory/);
+        expect(() => FileSystems.newFileSystem(Paths.of(jsPath.join(tmpDir(), "fixture.tgz")), new Map<string, any>())).toThrow(FileSystemAlreadyExistsException);
+    } finally {
+        tarfs.close();
+    }
+    expect(tarfs.isOpen()).toBeFalsy();
+});
+
+test("TarReadPaxArchive", async () => {
+    // a plain archive, recognized by its header rather than its name
+    const tarfs = open(writeArchive("fixture.bin", PAX_TGZ, true));
+    try {
+        expect(names(tarfs.getPath("/"))).toEqual(["/abs", "/big.bin", "/dir", "/fifo", "/hard", "/implicit", "/link", "/été.txt"]);
+        expect(await readString(tarfs.getPath("/dir/" + LONG_NAME))).toEqual("long name");
+        const summer = tarfs.getPath("/été.txt");
+        expect(await readString(summer)).toEqual("summer");
+        const attrs = Files.readAttributesByType(summer, "posix") as TarFileAttributes;
+        expect(attrs.owner().getName()).toEqual("bob");
+        expect(attrs.lastAccessTime().toMillis()).toEqual(1600000100500);
+        expect(attrs.lastModifiedTime().toMillis()).toEqual(1600000000000);
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("TarLinks", async () => {
+    const tarfs = open(writeArchive("fixture.tar.gz", GNU_TGZ, false));
+    try {
+        const link = tarfs.getPath("/link");
+        expect(Files.isSymbolicLink(link)).toBeTruthy();
+        expect(Files.readSymbolicLink(link).toString()).toEqual("dir/hello.txt");
+        expect(await readString(link)).toEqual("Hello, World!\n");
+        expect(() => Files.newInputStream(link, [LinkOption.NOFOLLOW_LINKS])).toThrow(FileSystemException);
+        expect(() => Files.readSymbolicLink(tarfs.getPath("/dir"))).toThrow(NotLinkException);
+        // an absolute target starts at the root of the archive
+        expect(names(tarfs.getPath("/abs"))).toEqual(["/abs/hello.txt", "/abs/" + LONG_NAME]);
+        expect(tarfs.getPath("/abs/hello.txt").toRealPath().toString()).toEqual("/dir/hello.txt");
+        expect(tarfs.getPath("/abs/../link").toRealPath([LinkOption.NOFOLLOW_LINKS]).toString()).toEqual("/abs/../link");
+
+        const hard = tarfs.getPath("/hard");
+        expect(Files.isRegularFile(hard)).toBeTruthy();
+        expect(await readString(hard)).toEqual("Hello, World!\n");
+        expect(Files.isSameFile(hard, tarfs.getPath("/dir/hello.txt"))).toBeTruthy();
+        expect(Files.getAttribute(hard, "posix:permissions")).toEqual(PosixFilePermissions.fromString("rw-r-----"));
+
+        expect(Files.readAttributesByType(tarfs.getPath("/fifo")).isOther()).toBeTruthy();
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("TarPosixAttributes", () => {
+    const tarfs = open(writeArchive("fixture.tgz", GNU_TGZ, false));
+    try {
+        const dir = tarfs.getPath("/dir");
+        const attrs = Files.readAttributesByType(dir, "posix") as TarFileAttributes;
+        expect(attrs.isDirectory()).toBeTruthy();
+        expect(attrs.mode()).toEqual(0o750);
+        expect(attrs.owner().getName()).toEqual("alice");
+        expect(attrs.group().getName()).toEqual("staff");
+        expect(attrs.lastModifiedTime().toMillis()).toEqual(1600000000000);
+        const map = Files.readAttributes(tarfs.getPath("/dir/hello.txt"), "posix:*");
+        expect(map.get("size")).toEqual(BigInt(14));
+        expect(map.get("permissions")).toEqual(PosixFilePermissions.fromString("rw-r-----"));
+        expect(Files.getOwner(tarfs.getPath("/link"), [LinkOption.NOFOLLOW_LINKS]).getName()).toEqual("alice");
+        expect(Files.readAttributesByType(tarfs.getPath("/link"), "basic", [LinkOption.NOFOLLOW_LINKS]).size()).toEqual(BigInt(13));
+        // the implicit directory has the default mode
+        expect((Files.readAttributesByType(tarfs.getPath("/implicit"), "posix") as TarFileAttributes).mode()).toEqual(0o755);
+        expect(Files.getFileStore(dir).isReadOnly()).toBeTruthy();
+        expect(Files.getFileStore(dir).type()).toEqual("tarfs");
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("TarReadOnly", async () => {
+    const tarfs = open(writeArchive("fixture.tgz", GNU_TGZ, false));
+    try {
+        const hello = tarfs.getPath("/dir/hello.txt");
+        expect(() => Files.createFile(tarfs.getPath("/new"))).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.createDirectory(tarfs.getPath("/new"))).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.newOutputStream(hello)).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.delete(hello)).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.setAttribute(hello, "posix:permissions", new Set())).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.getFileAttributeView(hello, "posix")?.setTimes()).toThrow(ReadOnlyFileSystemException);
+        expect(Files.isWritable(hello)).toBeFalsy();
+        expect(Files.isReadable(hello)).toBeTruthy();
+        await expect(Files.move(hello, tarfs.getPath("/moved"))).rejects.toThrow(ReadOnlyFileSystemException);
+        await expect(Files.copy(hello, tarfs.getPath("/copy"))).rejects.toThrow(ReadOnlyFileSystemException);
+
+        // an entry can be copied out of the archive
+        const target = Paths.of(jsPath.join(tmpDir(), "hello.txt"));
+        await Files.copy(hello, target);
+        expect(fs.readFileSync(target.toString(), "utf8")).toEqual("Hello, World!\n");
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("TarGzipLimit", () => {
+    // a gzip bomb is not decompressed in memory beyond the maximum size
+    const bomb = jsPath.join(tmpDir(), "bomb.tgz");
+    fs.writeFileSync(bomb, zlib.gzipSync(Buffer.alloc(4 * 1024 * 1024)));
+    const env = new Map<string, any>([["maxUncompressedSize", 1024 * 1024]]);
+    expect(() => FileSystems.newFileSystem(Paths.of(bomb), env)).toThrow(ArchiveLimitExceededException);
+    expect(() => FileSystems.newFileSystem(Paths.of(bomb), new Map<string, any>([["maxUncompressedSize", -1]]))).toThrow("Invalid maxUncompressedSize: -1");
+
+    const tarfs = FileSystems.newFileSystem(Paths.of(writeArchive("gnu.tgz", GNU_TGZ, false)), env);
+    try {
+        expect(Files.exists(tarfs.getPath("/dir/hello.txt"))).toBeTruthy();
+    } finally {
+        tarfs.close();
+    }
+});
+
+test("TarOpenByUrl", async () => {
+    const file = writeArchive("fixture.data", GNU_TGZ, false);
+    const url = new URL("tar:" + Paths.of(file).toURL().href + "!/");
+    const tarfs = FileSystems.newFileSystem(url, new Map<string, any>());
+    try {
+        expect(FileSystems.getFileSystem(url)).toBe(tarfs);
+        expect(Paths.ofURL(new URL(url.href + "dir/hello.txt")).toString()).toEqual("/dir/hello.txt");
+        expect(tarfs.getPath("/dir/hello.txt").toURL().href).toEqual(url.href + "dir/hello.txt");
+    } finally {
+        tarfs.close();
+    }
+    // a compressed archive is recognized by its content too
+    open(file).close();
+
+    fs.writeFileSync(jsPath.join(tmpDir(), "plain.txt"), "not an archive");
+    expect(() => open(jsPath.join(tmpDir(), "plain.txt"))).toThrow(ProviderNotFoundException);
+    fs.writeFileSync(jsPath.join(tmpDir(), "corrupted.tar"), "x".repeat(1024));
+    expect(() => open(jsPath.join(tmpDir(), "corrupted.tar"))).toThrow(/Not a tar archive/);
+});
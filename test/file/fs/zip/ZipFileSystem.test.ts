@@ -0,0 +1,268 @@
+import {FileSystem, Files, FileSystems, Path, Paths, StandardCopyOption, StandardOpenOption} from "../../../../src/file";
+import {FileTime} from "../../../../src/file/attribute";
+import {METHOD_DEFLATED, METHOD_STORED, ZipFileAttributes, ZipFileSystem, ZipFileSystemProvider} from "../../../../src/file/fs/zip";
+import {
+    ArchiveLimitExceededException,
+    DirectoryNotEmptyException,
+    FileAlreadyExistsException,
+    FileSystemAlreadyExistsException,
+    FileSystemException,
+    FileSystemNotFoundException,
+    NoSuchFileException,
+    ReadOnlyFileSystemException,
+} from "../../../../src/file/exception";
+import {IllegalArgumentException} from "../../../../src/exception";
+import {crc32, ZipWriter} from "../../../../src/file/fs/zip/ZipFormat";
+import {FileSystemProviders} from "../../../../src/file/spi";
+import {readString, useTempDirectory} from "../../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+import * as zlib from "zlib";
+
+FileSystemProviders.addProvider(new ZipFileSystemProvider());
+
+// written by Python's zipfile: "dir/", "dir/hello.txt" (deflated, with a comment), "stored.bin",
+// "été.txt" (UTF-8 flag) and "implicit/child.txt" whose directory has no entry
+const FIXTURE = "UEsDBBQAAAAAAMxTsVAAAAAAAAAAAAAAAAAEAAAAZGlyL1BLAwQUAAAACADMU7FQQyOK8RMAAAAqAAAADQAAAGRpci9oZWxsby50eHTzSM3JyddRCM8vyklR5PLAwwMAUEsDBBQAAAAAAIMYIlKI4s7OEAAAABAAAAAKAAAAc3RvcmVkLmJpbgABAgMEBQYHCAkKCwwNDg9QSwMEFAAACAAAgxgiUixJhCIGAAAABgAAAAkAAADDqXTDqS50eHRzdW1tZXJQSwMEFAAAAAAAgxgiUilUsyIFAAAABQAAABIAAABpbXBsaWNpdC9jaGlsZC50eHRjaGlsZFBLAQIUAxQAAAAAAMxTsVAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAAACAAQAAAABkaXIvUEsBAhQDFAAAAAgAzFOxUEMjivETAAAAKgAAAA0AAAAIAAAAAAAAAIABIgAAAGRpci9oZWxsby50eHRncmVldGluZ1BLAQIUAxQAAAAAAIMYIlKI4s7OEAAAABAAAAAKAAAAAAAAAAAAAACAAWAAAABzdG9yZWQuYmluUEsBAhQDFAAACAAAgxgiUixJhCIGAAAABgAAAAkAAAAAAAAAAAAAAIABmAAAAMOpdMOpLnR4dFBLAQIUAxQAAAAAAIMYIlIpVLMiBQAAAAUAAAASAAAAAAAAAAAAAACAAcUAAABpbXBsaWNpdC9jaGlsZC50eHRQSwUGAAAAAAUABQAkAQAA+gAAAAAA";
+
+const tmpDir = useTempDirectory("zipfs-");
+let archive: string;
+
+beforeEach(() => {
+    archive = jsPath.join(tmpDir(), "fixture.zip");
+    fs.writeFileSync(archive, Buffer.from(FIXTURE, "base64"));
+});
+
+async function write(path: Path, content: string, options?: StandardOpenOption[]): Promise<void> {
+    const writer = Files.newOutputStream(path, options).getWriter();
+    await writer.write(content);
+    await writer.close();
+}
+
+function open(file: string = archive, env: Map<string, any> = new Map<string, any>()): FileSystem {
+    return FileSystems.newFileSystem(Paths.of(file), env);
+}
+
+/* Writes an archive of a single deflated entry "zeros", whose size in the central directory is the given one. */
+function writeZeros(file: string, content: Buffer, size: number): void {
+    const data = zlib.deflateRawSync(content);
+    const fd = fs.openSync(file, "w");
+    try {
+        const writer = new ZipWriter(fd, false);
+        writer.putEntry({name: "zeros", method: METHOD_DEFLATED, crc: crc32(content), size: size, compressedSize: data.length, dosTime: 0, lastModifiedTime: 0, versionMadeBy: 20, externalAttributes: 0, comment: null}, data);
+        writer.finish();
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+function names(dir: Path): string[] {
+    return Files.list(dir).map(path => path.toString()).sort();
+}
+
+test("ZipReadEntries", async () => {
+    const zipfs = open();
+    try {
+        expect(zipfs).toBeInstanceOf(ZipFileSystem);
+        expect(names(zipfs.getPath("/"))).toEqual(["/dir", "/implicit", "/stored.bin", "/été.txt"]);
+        expect(names(zipfs.getPath("/dir"))).toEqual(["/dir/hello.txt"]);
+        expect(await readString(Files.newInputStream(zipfs.getPath("/dir/hello.txt")))).toEqual("Hello, World!\n".repeat(3));
+        expect(await readString(Files.newInputStream(zipfs.getPath("été.txt")))).toEqual("summer");
+        expect(await readString(Files.newInputStream(zipfs.getPath("/implicit/child.txt")))).toEqual("child");
+        expect(Files.isDirectory(zipfs.getPath("/implicit"))).toBeTruthy();
+        expect(Files.isRegularFile(zipfs.getPath("/stored.bin"))).toBeTruthy();
+        expect(Files.size(zipfs.getPath("/stored.bin"))).toEqual(BigInt(16));
+        expect(() => Files.newInputStream(zipfs.getPath("/missing"))).toThrow(NoSuchFileException);
+        expect(() => FileSystems.newFileSystem(Paths.of(archive), new Map<string, any>())).toThrow(FileSystemAlreadyExistsException);
+    } finally {
+        zipfs.close();
+    }
+    expect(zipfs.isOpen()).toBeFalsy();
+    // nothing changed, the archive is not rewritten
+    expect(fs.readFileSync(archive).toString("base64")).toEqual(FIXTURE);
+});
+
+test("ZipEntryAttributes", () => {
+    const zipfs = open();
+    try {
+        const hello = zipfs.getPath("/dir/hello.txt");
+        const attrs = Files.readAttributesByType(hello, "zip") as ZipFileAttributes;
+        expect(attrs.method()).toEqual(METHOD_DEFLATED);
+        expect(attrs.size()).toEqual(BigInt(42));
+        expect(attrs.compressedSize()).toEqual(BigInt(19));
+        expect(attrs.crc()).toEqual(0xf18a2343);
+        expect(attrs.comment()).toEqual("greeting");
+        expect(attrs.lastModifiedTime().toMillis()).toEqual(new Date(2020, 4, 17, 10, 30, 24).getTime());
+        expect(attrs.dosTime()).toEqual(0x50b153cc);
+
+        const map = Files.readAttributes(zipfs.getPath("/stored.bin"), "zip:method,size,crc");
+        expect(map.get("method")).toEqual(METHOD_STORED);
+        expect(map.get("size")).toEqual(BigInt(16));
+        expect(map.has("crc")).toBeTruthy();
+        expect(() => Files.readAttributes(hello, "zip:unknown")).toThrow(/not recognized/);
+        expect(Files.getFileAttributeView(hello, "zip")?.name()).toEqual("zip");
+    } finally {
+        zipfs.close();
+    }
+});
+
+test("ZipWriteEntries", async () => {
+    let zipfs = open();
+    try {
+        await write(zipfs.getPath("/dir/hello.txt"), "replaced");
+        await write(zipfs.getPath("/stored.bin"), " and more", [StandardOpenOption.APPEND]);
+        Files.createDirectories(zipfs.getPath("/new/sub"));
+        await write(zipfs.getPath("/new/sub/ünï.txt"), "x".repeat(10000));
+        Files.delete(zipfs.getPath("/été.txt"));
+        expect(() => Files.delete(zipfs.getPath("/dir"))).toThrow(DirectoryNotEmptyException);
+        expect(() => Files.createFile(zipfs.getPath("/dir/hello.txt"))).toThrow(FileAlreadyExistsException);
+        Files.setAttribute(zipfs.getPath("/implicit/child.txt"), "zip:method", METHOD_DEFLATED);
+        Files.setLastModifiedTime(zipfs.getPath("/new/sub/ünï.txt"), FileTime.fromMillis(Date.UTC(2022, 0, 1)));
+        // not written until closed
+        expect(fs.readFileSync(archive).toString("base64")).toEqual(FIXTURE);
+    } finally {
+        zipfs.close();
+    }
+
+    zipfs = open();
+    try {
+        expect(names(zipfs.getPath("/"))).toEqual(["/dir", "/implicit", "/new", "/stored.bin"]);
+        expect(await readString(Files.newInputStream(zipfs.getPath("/dir/hello.txt")))).toEqual("replaced");
+        expect(Buffer.from(await readString(Files.newInputStream(zipfs.getPath("/stored.bin"))), "utf8").subarray(16).toString()).toEqual(" and more");
+        const big = zipfs.getPath("/new/sub/ünï.txt");
+        expect(await readString(Files.newInputStream(big))).toEqual("x".repeat(10000));
+        const attrs = Files.readAttributesByType(big, "zip") as ZipFileAttributes;
+        expect(attrs.compressedSize() < attrs.size()).toBeTruthy();
+        expect(attrs.lastModifiedTime().toMillis()).toEqual(Date.UTC(2022, 0, 1));
+        expect(Files.getAttribute(zipfs.getPath("/implicit/child.txt"), "zip:method")).toEqual(METHOD_DEFLATED);
+        expect(await readString(Files.newInputStream(zipfs.getPath("/implicit/child.txt")))).toEqual("child");
+    } finally {
+        zipfs.close();
+    }
+});
+
+test("ZipCopyAndMove", async () => {
+    let zipfs = open();
+    try {
+        await Files.copy(zipfs.getPath("/dir/hello.txt"), zipfs.getPath("/copy.txt"));
+        await expect(Files.copy(zipfs.getPath("/stored.bin"), zipfs.getPath("/copy.txt"))).rejects.toThrow(FileAlreadyExistsException);
+        await Files.move(zipfs.getPath("/dir"), zipfs.getPath("/moved"), [StandardCopyOption.ATOMIC_MOVE]);
+        await expect(Files.move(zipfs.getPath("/moved"), zipfs.getPath("/moved/inside"))).rejects.toThrow(/Invalid argument/);
+
+        // between the archive and the local file system
+        await Files.copy(zipfs.getPath("/stored.bin"), Paths.of(jsPath.join(tmpDir(), "stored.bin")));
+        fs.writeFileSync(jsPath.join(tmpDir(), "local.txt"), "local");
+        await Files.copy(Paths.of(jsPath.join(tmpDir(), "local.txt")), zipfs.getPath("/local.txt"));
+    } finally {
+        zipfs.close();
+    }
+    expect(fs.readFileSync(jsPath.join(tmpDir(), "stored.bin"))).toEqual(Buffer.from([...Array(16).keys()]));
+
+    zipfs = open();
+    try {
+        expect(names(zipfs.getPath("/"))).toEqual(["/copy.txt", "/implicit", "/local.txt", "/moved", "/stored.bin", "/été.txt"]);
+        expect(await readString(Files.newInputStream(zipfs.getPath("/copy.txt")))).toEqual("Hello, World!\n".repeat(3));
+        expect(await readString(Files.newInputStream(zipfs.getPath("/moved/hello.txt")))).toEqual("Hello, World!\n".repeat(3));
+        expect(await readString(Files.newInputStream(zipfs.getPath("/local.txt")))).toEqual("local");
+    } finally {
+        zipfs.close();
+    }
+});
+
+test("ZipCreateAndZip64", async () => {
+    const file = jsPath.join(tmpDir(), "new.jar");
+    expect(() => open(file)).toThrow(FileSystemNotFoundException);
+    const url = new URL("jar:" + Paths.of(file).toURL().href + "!/");
+    const zipfs = FileSystems.newFileSystem(url, new Map<string, any>([["create", true], ["forceZIP64", true], ["noCompression", "true"]]));
+    try {
+        await write(zipfs.getPath("/a.txt"), "zip64");
+        expect(FileSystems.getFileSystem(url)).toBe(zipfs);
+        expect(Paths.ofURL(new URL(url.href + "a.txt")).toString()).toEqual("/a.txt");
+        expect(zipfs.getPath("/a.txt").toURL().href).toEqual(url.href + "a.txt");
+    } finally {
+        zipfs.close();
+    }
+    const bytes = fs.readFileSync(file);
+    // the ZIP64 end record and locator precede the end record
+    expect(bytes.readUInt32LE(bytes.length - 22 - 20)).toEqual(0x07064b50);
+    expect(bytes.readUInt16LE(8)).toEqual(METHOD_STORED);
+
+    const reopened = open(file);
+    try {
+        expect(await readString(Files.newInputStream(reopened.getPath("/a.txt")))).toEqual("zip64");
+    } finally {
+        reopened.close();
+    }
+});
+
+test("ZipInvalidArchives", async () => {
+    const file = jsPath.join(tmpDir(), "zip64.zip");
+    const zipfs = FileSystems.newFileSystem(new URL("jar:" + Paths.of(file).toURL().href + "!/"), new Map<string, any>([["create", true], ["forceZIP64", true]]));
+    try {
+        await write(zipfs.getPath("/a.txt"), "zip64");
+    } finally {
+        zipfs.close();
+    }
+    const bytes = fs.readFileSync(file);
+    const zip64End = bytes.length - 22 - 20 - 56;
+    // a central directory larger than the archive, and an offset larger than the safe integers
+    for (const [offset, value] of [[zip64End + 40, BigInt(2) ** BigInt(40)], [zip64End + 48, BigInt(2) ** BigInt(60)]] as [number, bigint][]) {
+        const invalid = Buffer.from(bytes);
+        invalid.writeBigUInt64LE(value, offset);
+        fs.writeFileSync(file, invalid);
+        expect(() => open(file)).toThrow(FileSystemException);
+        expect(() => open(file)).toThrow("Invalid zip file");
+    }
+
+    // an entry whose content is larger than its size is not inflated in memory
+    const bomb = jsPath.join(tmpDir(), "bomb.zip");
+    writeZeros(bomb, Buffer.alloc(16 * 1024 * 1024), 10);
+    const bombfs = open(bomb);
+    try {
+        await expect((async () => readString(Files.newInputStream(bombfs.getPath("/zeros"))))()).rejects.toThrow(FileSystemException);
+    } finally {
+        bombfs.close();
+    }
+});
+
+test("ZipUncompressedSizeLimit", async () => {
+    const file = jsPath.join(tmpDir(), "zeros.zip");
+    const content = Buffer.alloc(4 * 1024 * 1024);
+    writeZeros(file, content, content.length);
+    const limited = open(file, new Map<string, any>([["maxUncompressedSize", 1024 * 1024]]));
+    try {
+        const path = limited.getPath("/zeros");
+        expect(() => Files.newInputStream(path)).toThrow(ArchiveLimitExceededException);
+        expect(() => Files.newOutputStream(path, [StandardOpenOption.APPEND])).toThrow(ArchiveLimitExceededException);
+    } finally {
+        limited.close();
+    }
+
+    // the entries are inflated chunk by chunk as they are read
+    const zipfs = open(file);
+    try {
+        const reader = Files.newInputStream(zipfs.getPath("/zeros")).getReader();
+        let size = 0;
+        for (let result = await reader.read(); !result.done; result = await reader.read()) {
+            expect(result.value.length).toBeLessThanOrEqual(8192);
+            size += result.value.length;
+        }
+        expect(size).toEqual(content.length);
+    } finally {
+        zipfs.close();
+    }
+    expect(() => open(file, new Map<string, any>([["maxUncompressedSize", "none"]]))).toThrow(IllegalArgumentException);
+});
+
+test("ZipReadOnly", async () => {
+    const zipfs = open(archive, new Map<string, any>([["readOnly", true]]));
+    try {
+        expect(zipfs.isReadOnly()).toBeTruthy();
+        expect(() => Files.createFile(zipfs.getPath("/new"))).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.newOutputStream(zipfs.getPath("/new"))).toThrow(ReadOnlyFileSystemException);
+        expect(() => Files.delete(zipfs.getPath("/stored.bin"))).toThrow(ReadOnlyFileSystemException);
+        expect(Files.isWritable(zipfs.getPath("/stored.bin"))).toBeFalsy();
+    } finally {
+        zipfs.close();
+    }
+});
@@ -0,0 +1,75 @@
+import {Files, Path, Paths} from "../../../src/file";
+import {DefaultFileTypeDetector} from "../../../src/file/spi";
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+
+function probe(detector: DefaultFileTypeDetector, name: string): string | null {
+    return detector.probeContentType(Paths.of(name));
+}
+
+test("BuiltInTypes", () => {
+    const detector = new DefaultFileTypeDetector([]);
+    expect(probe(detector, "/tmp/index.html")).toEqual("text/html");
+    expect(probe(detector, "photo.JPG")).toEqual("image/jpeg");
+    expect(probe(detector, "Archive.Zip")).toEqual("application/zip");
+    expect(probe(detector, "notes.txt")).toEqual("text/plain");
+});
+
+test("CompoundExtensions", () => {
+    const detector = new DefaultFileTypeDetector([]);
+    expect(probe(detector, "release-1.0.tar.gz")).toEqual("application/x-gtar");
+    expect(probe(detector, "data.json.gz")).toEqual("application/gzip");
+    expect(probe(detector, "lib.min.js")).toEqual("application/javascript");
+    detector.register(".min.js", "text/x-minified");
+    expect(probe(detector, "lib.MIN.js")).toEqual("text/x-minified");
+});
+
+test("UnknownTypes", () => {
+    const detector = new DefaultFileTypeDetector([]);
+    expect(probe(detector, "README")).toBeNull();
+    expect(probe(detector, ".bashrc")).toBeNull();
+    expect(probe(detector, "file.unknownext")).toBeNull();
+    expect(probe(detector, "trailing.")).toBeNull();
+    expect(detector.probeContentType(Paths.of("/"))).toBeNull();
+    expect(probe(detector, ".hidden.json")).toEqual("application/json");
+});
+
+test("ParseMimeTypes", () => {
+    const mimeTypes = DefaultFileTypeDetector.parseMimeTypes([
+        "# MIME type                 Extensions",
+        "application/x-custom        cst CSTX  # trailing comment",
+        "",
+        "application/x-noextension",
+        "not-a-type                  abc",
+        "text/x-tab\tt1\tt2",
+    ].join("\n"));
+    expect(mimeTypes.get("cst")).toEqual("application/x-custom");
+    expect(mimeTypes.get("cstx")).toEqual("application/x-custom");
+    expect(mimeTypes.get("t2")).toEqual("text/x-tab");
+    expect(mimeTypes.has("abc")).toBeFalsy();
+    expect(mimeTypes.size).toEqual(4);
+});
+
+test("MimeTypesFiles", () => {
+    const dir = fs.mkdtempSync(jsPath.join(os.tmpdir(), "mimetypes-"));
+    try {
+        const system = jsPath.join(dir, "mime.types");
+        const user = jsPath.join(dir, ".mime.types");
+        fs.writeFileSync(system, "application/x-system sys shared\ntext/x-override txt\n");
+        fs.writeFileSync(user, "application/x-user shared\n");
+        const detector = new DefaultFileTypeDetector([system, user, jsPath.join(dir, "missing.types")]);
+        expect(probe(detector, "a.sys")).toEqual("application/x-system");
+        expect(probe(detector, "a.SHARED")).toEqual("application/x-user");
+        expect(probe(detector, "a.txt")).toEqual("text/x-override");
+        expect(probe(detector, "a.png")).toEqual("image/png");
+    } finally {
+        fs.rmSync(dir, {recursive: true});
+    }
+});
+
+test("FilesProbeContentType", () => {
+    const path: Path = Paths.of(os.tmpdir(), ["probe.pdf"]);
+    expect(Files.probeContentType(path)).toEqual("application/pdf");
+    expect(Files.probeContentType(Paths.of(os.tmpdir(), ["no-extension"]))).toBeNull();
+});
@@ -0,0 +1,108 @@
+import {Paths} from "../../../src/file";
+import {BasicFileAttributes, BasicFileAttributeView, FileTime, UserDefinedFileAttributeView} from "../../../src/file/attribute";
+import {FileAttributeDispatcher} from "../../../src/file/spi";
+import {IllegalArgumentException, UnsupportedOperationException} from "../../../src/exception";
+
+class FakeBasicView implements BasicFileAttributeView {
+    modified: FileTime = FileTime.fromMillis(1000);
+
+    name(): string {
+        return "basic";
+    }
+
+    readAttributes(): BasicFileAttributes {
+        const modified = this.modified;
+        return {
+            lastModifiedTime: () => modified,
+            lastAccessTime: () => modified,
+            creationTime: () => modified,
+            isRegularFile: () => true,
+            isDirectory: () => false,
+            isSymbolicLink: () => false,
+            isOther: () => false,
+            size: () => BigInt(42),
+            fileKey: () => null,
+        };
+    }
+
+    setTimes(lastModifiedTime?: FileTime): void {
+        if (lastModifiedTime) {
+            this.modified = lastModifiedTime;
+        }
+    }
+}
+
+class FakeUserView implements UserDefinedFileAttributeView {
+    readonly values = new Map<string, Uint8Array>([["color", Uint8Array.of(1, 2)]]);
+
+    name(): string {
+        return "user";
+    }
+
+    list(): string[] {
+        return [...this.values.keys()];
+    }
+
+    size(name: string): number {
+        return this.read(name).length;
+    }
+
+    read(name: string): Uint8Array {
+        return this.values.get(name) as Uint8Array;
+    }
+
+    write(name: string, value: Uint8Array): number {
+        this.values.set(name, value);
+        return value.length;
+    }
+
+    delete(name: string): void {
+        this.values.delete(name);
+    }
+}
+
+const path = Paths.of("file");
+let basic: FakeBasicView;
+let user: FakeUserView;
+let dispatcher: FileAttributeDispatcher;
+
+beforeEach(() => {
+    basic = new FakeBasicView();
+    user = new FakeUserView();
+    dispatcher = new FileAttributeDispatcher()
+        .registerBasicView(() => basic)
+        .registerUserDefinedView(() => user);
+});
+
+test("DispatcherSupportedViews", () => {
+    expect(dispatcher.supportedFileAttributeViews()).toEqual(new Set(["basic", "user"]));
+});
+
+test("DispatcherReadAttributes", () => {
+    expect(dispatcher.readAttributes(path, "size")).toEqual(new Map([["size", BigInt(42)]]));
+    expect(dispatcher.readAttributes(path, "basic:size,isDirectory")).toEqual(new Map<string, any>([
+        ["size", BigInt(42)],
+        ["isDirectory", false],
+    ]));
+    const all = dispatcher.readAttributes(path, "basic:*");
+    expect(all.size).toEqual(9);
+    expect(all.get("lastModifiedTime")).toBe(basic.modified);
+    expect(dispatcher.readAttributes(path, "*").size).toEqual(9);
+    expect(dispatcher.readAttributes(path, "user:*")).toEqual(new Map([["color", Uint8Array.of(1, 2)]]));
+});
+
+test("DispatcherReadAttributesErrors", () => {
+    expect(() => dispatcher.readAttributes(path, "posix:permissions")).toThrow(UnsupportedOperationException);
+    expect(() => dispatcher.readAttributes(path, "basic:size,color")).toThrow(IllegalArgumentException);
+    expect(() => dispatcher.readAttributes(path, "basic:")).toThrow(IllegalArgumentException);
+});
+
+test("DispatcherSetAttribute", () => {
+    const time = FileTime.fromMillis(2000);
+    dispatcher.setAttribute(path, "lastModifiedTime", time);
+    expect(basic.modified).toBe(time);
+    dispatcher.setAttribute(path, "user:size", Uint8Array.of(3));
+    expect(user.read("size")).toEqual(Uint8Array.of(3));
+    expect(() => dispatcher.setAttribute(path, "basic:size", BigInt(1))).toThrow(IllegalArgumentException);
+    expect(() => dispatcher.setAttribute(path, "user:size", "text")).toThrow(IllegalArgumentException);
+});
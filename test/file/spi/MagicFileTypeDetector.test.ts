@@ -0,0 +1,131 @@
+import {FileSystemProviders, FileTypeDetectors, MagicFileTypeDetector, MagicSignature} from "../../../src/file/spi";
+import {Files, FileSystems, Path, Paths} from "../../../src/file";
+import {MemoryFileSystemProvider} from "../../../src/file/fs/memory";
+import {useTempDirectory} from "../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const dir = useTempDirectory("magic-");
+
+function file(name: string, content: Uint8Array | string): Path {
+    fs.writeFileSync(jsPath.join(dir(), name), content);
+    return Paths.of(dir(), [name]);
+}
+
+function bytes(...values: number[]): Uint8Array {
+    return Uint8Array.from(values);
+}
+
+/* The local file header of a stored zip entry, followed by its data. */
+function zipEntry(name: string, data: string = ""): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    return Buffer.concat([header, Buffer.from(name, "latin1"), Buffer.from(data, "latin1")]);
+}
+
+test("BuiltInSignatures", () => {
+    const detector = new MagicFileTypeDetector();
+    expect(detector.detect(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0))).toEqual("image/png");
+    expect(detector.detect(bytes(0xff, 0xd8, 0xff, 0xe0))).toEqual("image/jpeg");
+    expect(detector.detect(Buffer.from("GIF89a..."))).toEqual("image/gif");
+    expect(detector.detect(Buffer.from("%PDF-1.7\n"))).toEqual("application/pdf");
+    expect(detector.detect(bytes(0x1f, 0x8b, 0x08))).toEqual("application/gzip");
+    expect(detector.detect(bytes(0x7f, 0x45, 0x4c, 0x46, 2, 1, 1))).toEqual("application/x-executable");
+    expect(detector.detect(bytes(0x00, 0x61, 0x73, 0x6d, 1, 0, 0, 0))).toEqual("application/wasm");
+    expect(detector.detect(Buffer.from("RIFF\u0010\u0000\u0000\u0000WEBPVP8 ", "latin1"))).toEqual("image/webp");
+    expect(detector.detect(Buffer.from("RIFF\u0010\u0000\u0000\u0000WAVEfmt ", "latin1"))).toEqual("audio/wav");
+    const tar = Buffer.alloc(512);
+    tar.write("ustar\u000000", 257, "latin1");
+    expect(detector.detect(tar)).toEqual("application/x-tar");
+    expect(detector.detect(Buffer.from("plain text"))).toBeNull();
+    expect(detector.detect(bytes())).toBeNull();
+});
+
+test("ByteOrderMarks", () => {
+    const detector = new MagicFileTypeDetector();
+    expect(detector.detect(bytes(0xef, 0xbb, 0xbf, 0x41))).toEqual("text/plain; charset=UTF-8");
+    expect(detector.detect(bytes(0xfe, 0xff, 0x00, 0x41))).toEqual("text/plain; charset=UTF-16BE");
+    expect(detector.detect(bytes(0xff, 0xfe, 0x41, 0x00))).toEqual("text/plain; charset=UTF-16LE");
+    expect(detector.detect(bytes(0xff, 0xfe, 0x00, 0x00))).toEqual("text/plain; charset=UTF-32LE");
+    expect(detector.detect(bytes(0x00, 0x00, 0xfe, 0xff))).toEqual("text/plain; charset=UTF-32BE");
+});
+
+test("Shebang", () => {
+    const detector = new MagicFileTypeDetector();
+    expect(detector.detect(Buffer.from("#!/bin/bash\necho hi\n"))).toEqual("application/x-sh");
+    expect(detector.detect(Buffer.from("#!/usr/bin/env python3\nprint()\n"))).toEqual("text/x-python");
+    expect(detector.detect(Buffer.from("#!/usr/bin/env -S node --harmony\n"))).toEqual("application/javascript");
+    expect(detector.detect(Buffer.from("#! /usr/bin/perl -w\n"))).toEqual("application/x-perl");
+    expect(detector.detect(Buffer.from("#!/opt/tool/run\n"))).toEqual("text/plain");
+});
+
+test("ZipContainers", () => {
+    const detector = new MagicFileTypeDetector();
+    expect(detector.detect(zipEntry("hello.txt", "hello"))).toEqual("application/zip");
+    expect(detector.detect(Buffer.concat([zipEntry("[Content_Types].xml", "<Types/>"), zipEntry("_rels/.rels"), zipEntry("word/document.xml")])))
+        .toEqual("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(detector.detect(Buffer.concat([zipEntry("[Content_Types].xml"), zipEntry("xl/workbook.xml")])))
+        .toEqual("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(detector.detect(Buffer.concat([zipEntry("META-INF/"), zipEntry("META-INF/MANIFEST.MF", "Manifest-Version: 1.0\n")])))
+        .toEqual("application/java-archive");
+    expect(detector.detect(Buffer.concat([zipEntry("mimetype", "application/vnd.oasis.opendocument.text"), zipEntry("content.xml")])))
+        .toEqual("application/vnd.oasis.opendocument.text");
+});
+
+test("CustomSignatures", () => {
+    const detector = new MagicFileTypeDetector();
+    detector.addSignature(new MagicSignature("application/x-custom", "MAGIC", 2));
+    detector.addSignature(new MagicSignature("application/x-any-pdf", [0x25, null, 0x44, 0x46]));
+    expect(detector.detect(Buffer.from("..MAGIC"))).toEqual("application/x-custom");
+    expect(detector.detect(Buffer.from(".MAGIC"))).toBeNull();
+    // custom signatures come before the built-in ones
+    expect(detector.detect(Buffer.from("%PDF-1.4"))).toEqual("application/x-any-pdf");
+});
+
+test("ProbeFiles", async () => {
+    const detector = new MagicFileTypeDetector();
+    const big = Buffer.alloc(100000, 0x20);
+    Buffer.from("%PDF-1.4").copy(big);
+    expect(await detector.probeContentTypeAsync(file("big", big))).toEqual("application/pdf");
+    expect(await detector.probeContentTypeAsync(file("empty", ""))).toBeNull();
+    expect(await detector.probeContentTypeAsync(Paths.of(dir(), ["missing.png"]))).toBeNull();
+    expect(await detector.probeContentTypeAsync(Paths.of(dir()))).toBeNull();
+    expect(detector.probeContentType(Paths.of(dir(), ["big"]))).toEqual("application/pdf");
+    expect(detector.probeContentType(Paths.of(dir(), ["empty"]))).toBeNull();
+    expect(detector.probeContentType(Paths.of(dir(), ["missing.png"]))).toBeNull();
+});
+
+test("InstalledAheadOfDefault", async () => {
+    expect(FileTypeDetectors.getInstalledDetectors()[0]).toBeInstanceOf(MagicFileTypeDetector);
+    expect(FileTypeDetectors.installedDetectors).toBe(FileTypeDetectors.getInstalledDetectors());
+    // the content wins over a misleading extension
+    expect(await Files.probeContentTypeAsync(file("image.txt", bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)))).toEqual("image/png");
+    expect(await Files.probeContentTypeAsync(file("script", "#!/bin/sh\nexit 0\n"))).toEqual("application/x-sh");
+    // unknown content is typed after the name
+    expect(await Files.probeContentTypeAsync(file("notes.txt", "some notes"))).toEqual("text/plain");
+    expect(await Files.probeContentTypeAsync(Paths.of(dir(), ["missing.pdf"]))).toEqual("application/pdf");
+    expect(await Files.probeContentTypeAsync(file("unknown", "???"))).toBeNull();
+    expect(Files.probeContentType(file("image.txt", bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)))).toEqual("image/png");
+    expect(Files.probeContentType(file("notes.txt", "some notes"))).toEqual("text/plain");
+});
+
+test("SynchronousProbeOfOtherFileSystems", async () => {
+    FileSystemProviders.addProvider(new MemoryFileSystemProvider());
+    const memory = FileSystems.newFileSystem(new URL("memory:magic"), new Map<string, any>());
+    try {
+        const image = memory.getPath("/image.txt");
+        const writer = Files.newOutputStream(image).getWriter();
+        await writer.write(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a));
+        await writer.close();
+        // the content of the files of the other file systems is only read by the asynchronous probe
+        expect(new MagicFileTypeDetector().probeContentType(image)).toBeNull();
+        expect(Files.probeContentType(image)).toEqual("text/plain");
+        expect(await Files.probeContentTypeAsync(image)).toEqual("image/png");
+    } finally {
+        memory.close();
+    }
+});
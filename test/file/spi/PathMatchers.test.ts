@@ -0,0 +1,100 @@
+import {FileSystems, Files, Path, Paths} from "../../../src/file";
+import {PathMatchers} from "../../../src/file/spi";
+import {IllegalArgumentException, PatternSyntaxException, UnsupportedOperationException} from "../../../src/exception";
+import * as fs from "fs";
+import * as os from "os";
+import * as jsPath from "path";
+
+function matches(syntaxAndPattern: string, path: string, separator: string = "/"): boolean {
+    return PathMatchers.getPathMatcher(syntaxAndPattern, separator).matches({toString: () => path} as Path);
+}
+
+test("GlobWildcards", () => {
+    expect(matches("glob:*.java", "Foo.java")).toBeTruthy();
+    expect(matches("glob:*.java", "dir/Foo.java")).toBeFalsy();
+    expect(matches("glob:**/*.java", "dir/sub/Foo.java")).toBeTruthy();
+    expect(matches("glob:**", "dir/sub\nname")).toBeTruthy();
+    expect(matches("glob:foo.?", "foo.c")).toBeTruthy();
+    expect(matches("glob:foo.?", "foo.cc")).toBeFalsy();
+    expect(matches("glob:a?b", "a/b")).toBeFalsy();
+});
+
+test("GlobClassesAndGroups", () => {
+    expect(matches("glob:[a-c]x", "bx")).toBeTruthy();
+    expect(matches("glob:[a-c]x", "dx")).toBeFalsy();
+    expect(matches("glob:[!a-c]x", "dx")).toBeTruthy();
+    expect(matches("glob:[!a-c]x", "/x")).toBeFalsy();
+    expect(matches("glob:[-a]", "-")).toBeTruthy();
+    expect(matches("glob:[a-]", "-")).toBeTruthy();
+    expect(matches("glob:[^a]", "^")).toBeTruthy();
+    expect(matches("glob:*.{java,class}", "Foo.class")).toBeTruthy();
+    expect(matches("glob:*.{java,class}", "Foo.jar")).toBeFalsy();
+    expect(matches("glob:{}", "")).toBeTruthy();
+    expect(matches("glob:a,b}", "a,b}")).toBeTruthy();
+});
+
+test("GlobEscapesAndMetaChars", () => {
+    expect(matches("glob:\\*", "*")).toBeTruthy();
+    expect(matches("glob:\\*", "a")).toBeFalsy();
+    expect(matches("glob:a.b(c)+$", "a.b(c)+$")).toBeTruthy();
+    expect(matches("glob:a.b", "axb")).toBeFalsy();
+});
+
+test("GlobSeparator", () => {
+    expect(matches("glob:dir/*.txt", "dir\\a.txt", "\\")).toBeTruthy();
+    expect(matches("glob:dir\\\\*.txt", "dir\\a.txt", "\\")).toBeTruthy();
+    expect(matches("glob:*.txt", "dir\\a.txt", "\\")).toBeFalsy();
+    expect(matches("glob:*.txt", "dir/a.txt", "\\")).toBeTruthy();
+    expect(PathMatchers.getPathMatcher("glob:*.TXT", "\\", true).matches({toString: () => "a.txt"} as Path)).toBeTruthy();
+});
+
+test("GlobSyntaxErrors", () => {
+    expect(() => matches("glob:\\", "")).toThrow(PatternSyntaxException);
+    expect(() => matches("glob:[a", "")).toThrow(PatternSyntaxException);
+    expect(() => matches("glob:[a/b]", "")).toThrow(PatternSyntaxException);
+    expect(() => matches("glob:[c-a]", "")).toThrow(PatternSyntaxException);
+    expect(() => matches("glob:{a,{b}}", "")).toThrow(PatternSyntaxException);
+    expect(() => matches("glob:{a", "")).toThrow(PatternSyntaxException);
+    try {
+        matches("glob:{a", "");
+    } catch (e) {
+        expect((e as PatternSyntaxException).getDescription()).toEqual("Missing '}");
+        expect((e as PatternSyntaxException).getPattern()).toEqual("{a");
+        expect((e as PatternSyntaxException).getIndex()).toEqual(1);
+    }
+});
+
+test("RegexSyntax", () => {
+    expect(matches("regex:.*\\.java", "dir/Foo.java")).toBeTruthy();
+    expect(matches("regex:Foo|Bar", "Bar")).toBeTruthy();
+    // the whole path must match
+    expect(matches("regex:Foo|Bar", "FooBar")).toBeFalsy();
+    expect(() => matches("regex:(", "")).toThrow(PatternSyntaxException);
+});
+
+test("PathMatcherErrors", () => {
+    expect(() => matches("*.java", "")).toThrow(IllegalArgumentException);
+    expect(() => matches("other:*.java", "")).toThrow(UnsupportedOperationException);
+    expect(matches("GLOB:*.java", "Foo.java")).toBeTruthy();
+    expect(PathMatchers.getPathMatcher("glob:*", "/").matches(null)).toBeFalsy();
+});
+
+test("LocalPathMatcher", () => {
+    const dir = fs.mkdtempSync(jsPath.join(os.tmpdir(), "path-matcher-"));
+    try {
+        fs.writeFileSync(jsPath.join(dir, "a.txt"), "");
+        fs.writeFileSync(jsPath.join(dir, "b.md"), "");
+        fs.writeFileSync(jsPath.join(dir, "c.txt"), "");
+        const matcher = FileSystems.getDefault().getPathMatcher("glob:**/*.txt");
+        expect(matcher.matches(Paths.of(jsPath.join(dir, "a.txt")))).toBeTruthy();
+        const stream = Files.newDirectoryStreamFilteredWithGlob(Paths.of(dir), "*.{txt,csv}");
+        try {
+            const names = [...stream].map(path => path.getFileName()?.toString()).sort();
+            expect(names).toEqual(["a.txt", "c.txt"]);
+        } finally {
+            stream.close();
+        }
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+});
@@ -0,0 +1,178 @@
+import {ServiceLoader} from "../../../src/file/spi";
+import {ServiceConfigurationError} from "../../../src/exception";
+import {useTempDirectory} from "../TestSupport";
+import * as fs from "fs";
+import * as jsPath from "path";
+
+const dir = useTempDirectory("services-");
+
+function write(file: string, content: string | object): void {
+    const path = jsPath.join(dir(), file);
+    fs.mkdirSync(jsPath.dirname(path), {recursive: true});
+    fs.writeFileSync(path, typeof content === "string" ? content : JSON.stringify(content));
+}
+
+/* A module exporting a provider class, counting how many times the module is loaded. */
+function providerModule(scheme: string, exportName: string = "default"): string {
+    return `globalThis.servicesLoaded = (globalThis.servicesLoaded || 0) + 1;
+exports.${exportName} = class {
+    getScheme() { return "${scheme}"; }
+    getFileSystem(url) { return null; }
+    getPath(url) { return "${scheme}:" + url.pathname; }
+};`;
+}
+
+beforeEach(() => {
+    (globalThis as any).servicesLoaded = 0;
+    write("package.json", {
+        name: "app",
+        dependencies: {"pkg-a": "1.0.0", "@scope/pkg-b": "1.0.0"},
+        optionalDependencies: {"plain": "1.0.0", "missing": "1.0.0"},
+        filesystems: {providers: {app: "./app-provider"}},
+    });
+    write("app-provider.js", providerModule("app"));
+    write("node_modules/pkg-a/package.json", {name: "pkg-a", filesystems: {providers: {dup: "./a"}, detectors: ["./detector#TextDetector"]}});
+    write("node_modules/pkg-a/a.js", providerModule("dup"));
+    write("node_modules/pkg-a/detector.js", "exports.TextDetector = class { probeContentType(path) { return 'text/x-detected'; } };");
+    write("node_modules/@scope/pkg-b/package.json", {name: "@scope/pkg-b", filesystems: {providers: {DUP: "./b", b: "./b#Provider"}}});
+    write("node_modules/@scope/pkg-b/b.js", providerModule("b", "Provider"));
+    write("node_modules/plain/package.json", {name: "plain"});
+    write("node_modules/undeclared/package.json", {name: "undeclared", filesystems: {providers: {undeclared: "./u"}}});
+    write("config/custom.json", {providers: {dup: "../node_modules/pkg-a/a"}});
+    write("env-provider.js", providerModule("env"));
+});
+
+test("DiscoverPackages", () => {
+    const declarations = ServiceLoader.discover(dir(), {});
+    // the packages the application does not depend on are not scanned
+    expect([...declarations.providers.keys()].sort()).toEqual(["app", "b", "dup"]);
+    expect(declarations.providers.get("app")?.[0].getSource()).toEqual(jsPath.join(dir(), "package.json"));
+    // declared by two packages
+    expect(declarations.providers.get("dup")?.map(declaration => declaration.getSpecifier()).sort()).toEqual(["./a", "./b"]);
+    expect(declarations.detectors.map(declaration => declaration.getSpecifier())).toEqual(["./detector#TextDetector"]);
+});
+
+test("LoadDeclarations", () => {
+    const declarations = ServiceLoader.discover(dir(), {});
+    const isProvider = (service: any): service is { getScheme(): string } => typeof service?.getScheme === "function";
+    expect((globalThis as any).servicesLoaded).toEqual(0);
+    expect(declarations.providers.get("b")?.[0].load(isProvider).getScheme()).toEqual("b");
+    expect(declarations.providers.get("app")?.[0].load(isProvider).getScheme()).toEqual("app");
+    expect((globalThis as any).servicesLoaded).toEqual(2);
+    const detector = declarations.detectors[0];
+    expect(() => detector.load(isProvider)).toThrow(ServiceConfigurationError);
+    write("broken.js", "exports.default = 42;");
+    const broken = ServiceLoader.discover(dir(), {FILESYSTEMS_PROVIDERS: "x=./broken,y=./missing"}).providers;
+    expect(() => broken.get("x")?.[0].load(isProvider)).toThrow(/does not export/);
+    expect(() => broken.get("y")?.[0].load(isProvider)).toThrow(/cannot be loaded/);
+});
+
+test("ConfigurationPrecedence", () => {
+    write("filesystems.config.json", {providers: {dup: "./node_modules/@scope/pkg-b/b"}, detectors: ["./extra"]});
+    let declarations = ServiceLoader.discover(dir(), {});
+    expect(declarations.providers.get("dup")?.length).toEqual(1);
+    expect(declarations.providers.get("dup")?.[0].getSource()).toEqual(jsPath.join(dir(), "filesystems.config.json"));
+    expect(declarations.detectors.length).toEqual(2);
+
+    declarations = ServiceLoader.discover(dir(), {FILESYSTEMS_CONFIG: "config/custom.json"});
+    expect(declarations.providers.get("dup")?.[0].getSource()).toEqual(jsPath.join(dir(), "config", "custom.json"));
+    expect(declarations.detectors.length).toEqual(1);
+
+    declarations = ServiceLoader.discover(dir(), {FILESYSTEMS_PROVIDERS: " dup = ./env-provider , env=./env-provider", FILESYSTEMS_DETECTORS: "./d1,./d2"});
+    expect(declarations.providers.get("dup")?.[0].getSource()).toEqual("FILESYSTEMS_PROVIDERS");
+    expect(declarations.providers.get("dup")?.[0].getSpecifier()).toEqual("./env-provider");
+    expect(declarations.providers.has("env")).toBeTruthy();
+    expect(declarations.detectors.map(declaration => declaration.getSpecifier())).toEqual(["./detector#TextDetector", "./extra", "./d1", "./d2"]);
+});
+
+test("MalformedDeclarations", () => {
+    expect(() => ServiceLoader.discover(dir(), {FILESYSTEMS_PROVIDERS: "./no-scheme"})).toThrow(ServiceConfigurationError);
+    expect(() => ServiceLoader.discover(dir(), {FILESYSTEMS_CONFIG: "missing.json"})).toThrow(ServiceConfigurationError);
+    write("filesystems.config.json", {providers: ["./a"]});
+    expect(() => ServiceLoader.discover(dir(), {})).toThrow(/must map the schemes/);
+    write("filesystems.config.json", "{not json");
+    expect(() => ServiceLoader.discover(dir(), {})).toThrow(ServiceConfigurationError);
+    fs.rmSync(jsPath.join(dir(), "filesystems.config.json"));
+
+    // a malformed package.json of a dependency is an error only if it declares services
+    write("package.json", {name: "app", dependencies: {"unrelated": "1.0.0", "declaring": "1.0.0"}, filesystems: {providers: {app: "./app-provider"}}});
+    write("node_modules/unrelated/package.json", "{\"name\": \"unrelated\",");
+    expect(ServiceLoader.discover(dir(), {}).providers.has("app")).toBeTruthy();
+    write("node_modules/declaring/package.json", "{\"name\": \"declaring\", \"filesystems\": {");
+    expect(() => ServiceLoader.discover(dir(), {})).toThrow(/declaring/);
+});
+
+describe("Registries", () => {
+    const env = {...process.env};
+
+    afterEach(() => {
+        process.env = {...env};
+    });
+
+    test("LazyProviders", () => {
+        process.env.FILESYSTEMS_PROVIDERS = "env=" + jsPath.join(dir(), "env-provider") + ",dup=" + jsPath.join(dir(), "app-provider") + ",DUP=" + jsPath.join(dir(), "env-provider")
+            + ",other=" + jsPath.join(dir(), "app-provider");
+        jest.isolateModules(() => {
+            const {FileSystemProviders} = require("../../../src/file/spi");
+            const {Paths} = require("../../../src/file");
+            expect(FileSystemProviders.getProvider("file").getScheme()).toEqual("file");
+            // nothing is discovered until the application asks for it
+            expect(FileSystemProviders.getProvider("env")).toBeNull();
+            FileSystemProviders.loadDeclaredProviders();
+            expect((globalThis as any).servicesLoaded).toEqual(0);
+            const provider = FileSystemProviders.getProvider("ENV");
+            expect(provider.getScheme()).toEqual("env");
+            expect(FileSystemProviders.getProvider("env")).toBe(provider);
+            expect((globalThis as any).servicesLoaded).toEqual(1);
+            expect(Paths.ofURL(new URL("env:/a/b"))).toEqual("env:/a/b");
+            expect(FileSystemProviders.getProvider("none")).toBeNull();
+            expect(() => FileSystemProviders.getProvider("dup")).toThrow(/Several providers for scheme "dup"/);
+            expect(() => FileSystemProviders.getProvider("other")).toThrow(/instead of "other"/);
+        });
+    });
+
+    test("AddReplaceRemoveProviders", () => {
+        process.env.FILESYSTEMS_PROVIDERS = "env=" + jsPath.join(dir(), "env-provider");
+        jest.isolateModules(() => {
+            const {FileSystemProviders} = require("../../../src/file/spi");
+            FileSystemProviders.loadDeclaredProviders();
+            const mine = {getScheme: () => "env", getFileSystem: () => null};
+            // an added provider takes precedence over a declared one
+            FileSystemProviders.addProvider(mine);
+            expect(FileSystemProviders.getProvider("env")).toBe(mine);
+            expect((globalThis as any).servicesLoaded).toEqual(0);
+            // an added provider replaces the one installed for its scheme
+            const replacement = {getScheme: () => "ENV", getFileSystem: () => null};
+            FileSystemProviders.addProvider(replacement);
+            expect(FileSystemProviders.getProvider("env")).toBe(replacement);
+            const other = {getScheme: () => "env", getFileSystem: () => null};
+            expect(FileSystemProviders.replaceProvider(other)).toBe(replacement);
+            expect(FileSystemProviders.getProvider("env")).toBe(other);
+            expect(FileSystemProviders.getInstalledProviders()).toContain(other);
+            expect(FileSystemProviders.removeProvider("env")).toBeTruthy();
+            expect(FileSystemProviders.getProvider("env")).toBeNull();
+            expect(FileSystemProviders.removeProvider("env")).toBeFalsy();
+        });
+    });
+
+    test("DeclaredDetectors", () => {
+        process.env.FILESYSTEMS_DETECTORS = jsPath.join(dir(), "node_modules/pkg-a/detector#TextDetector");
+        let probe: string | null = null;
+        jest.isolateModules(() => {
+            const {FileTypeDetectors, MagicFileTypeDetector} = require("../../../src/file/spi");
+            const {Files, Paths} = require("../../../src/file");
+            expect(FileTypeDetectors.getInstalledDetectors().length).toEqual(1);
+            FileTypeDetectors.loadDeclaredDetectors();
+            const detectors = FileTypeDetectors.getInstalledDetectors();
+            expect(detectors.length).toEqual(2);
+            expect(detectors[1]).toBeInstanceOf(MagicFileTypeDetector);
+            const custom = {probeContentType: () => "application/x-custom"};
+            FileTypeDetectors.addDetector(custom);
+            expect(FileTypeDetectors.getInstalledDetectors()[0]).toBe(custom);
+            expect(FileTypeDetectors.removeDetector(custom)).toBeTruthy();
+            expect(FileTypeDetectors.removeDetector(custom)).toBeFalsy();
+            probe = Files.probeContentType(Paths.of(dir(), ["file.png"]));
+        });
+        expect(probe).toEqual("text/x-detected");
+    });
+});